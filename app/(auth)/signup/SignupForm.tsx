@@ -0,0 +1,160 @@
+"use client";
+
+import { useState } from "react";
+import { supabase } from "@/lib/supabase";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { useToast } from "@/components/feedback/ToastProvider";
+import type { ProjectMemberRole } from "@/lib/projectMembers";
+import { acceptInvitationTokenAction } from "./actions";
+
+export type SignupInvitation = {
+    token: string;
+    projectName: string;
+    email: string;
+    role: ProjectMemberRole;
+    expiresAt: string;
+};
+
+type SignupFormProps = {
+    invitation: SignupInvitation | null;
+    inviteError: string | null;
+};
+
+export default function SignupForm({ invitation, inviteError }: SignupFormProps) {
+    const router = useRouter();
+    const toast = useToast();
+    const [email, setEmail] = useState(invitation?.email ?? "");
+    const [password, setPassword] = useState("");
+    const [error, setError] = useState<string | null>(null);
+    const [loading, setLoading] = useState(false);
+
+    async function handleSignup(e: React.FormEvent) {
+        e.preventDefault();
+        setError(null);
+        setLoading(true);
+
+        const { data, error } = await supabase.auth.signUp({
+            email,
+            password,
+        });
+
+        if (error) {
+            setLoading(false);
+            setError(error.message);
+            toast.error(error.message || "Account creation failed.");
+            return;
+        }
+
+        if (invitation) {
+            // Without a session the project asks for email confirmation first; the invitation then
+            // waits on the Projects page after the first sign-in.
+            if (!data.session) {
+                setLoading(false);
+                toast.success("Account created. Confirm your email, then sign in to join the project.");
+                router.push("/login");
+                return;
+            }
+
+            // Always accept through the emailed token: a fresh session does not prove the address,
+            // since it is issued before confirmation when confirmation is turned off.
+            const accepted = await acceptInvitationTokenAction(invitation.token);
+            setLoading(false);
+            if (!accepted.ok) {
+                toast.error(accepted.error);
+                router.push("/dashboard");
+                router.refresh();
+                return;
+            }
+
+            toast.success(`Account created. You joined ${invitation.projectName}.`);
+            router.push(`/dashboard/projects/${accepted.data.projectSlug ?? accepted.data.projectId}`);
+            router.refresh();
+            return;
+        }
+
+        setLoading(false);
+
+        // Ensure session state updates after signup
+        toast.success("Account created.");
+        router.push("/dashboard");
+        router.refresh();
+    }
+
+    return (
+        <>
+            <h2 className="text-xl font-semibold tracking-tight">
+                Create account
+            </h2>
+            <p className="mt-1 text-sm text-white/50">
+                Start using Access in minutes
+            </p>
+
+            {invitation && (
+                <div className="mt-5 rounded-xl border border-white/10 bg-white/[0.03] px-4 py-3">
+                    <p className="text-sm text-white/80">
+                        You&apos;ve been invited to <span className="font-medium text-white">{invitation.projectName}</span>{" "}
+                        as <span className="font-medium text-white">{invitation.role}</span>.
+                    </p>
+                    <p className="mt-1 text-xs text-white/45">
+                        Create your account with {invitation.email} to join. The link expires{" "}
+                        {new Date(invitation.expiresAt).toLocaleDateString("en-US", {
+                            year: "numeric",
+                            month: "short",
+                            day: "numeric",
+                        })}
+                        .
+                    </p>
+                </div>
+            )}
+
+            {inviteError && (
+                <p className="mt-5 rounded-xl border border-red-500/20 bg-red-500/10 px-4 py-3 text-sm text-red-300">
+                    {inviteError}
+                </p>
+            )}
+
+            <form onSubmit={handleSignup} className="mt-6 space-y-4">
+                <input
+                    className="w-full rounded-md bg-black/40 border border-white/10 px-3 py-2 text-sm placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-white/20"
+                    type="email"
+                    placeholder="Email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    readOnly={Boolean(invitation)}
+                    required
+                />
+
+                <input
+                    className="w-full rounded-md bg-black/40 border border-white/10 px-3 py-2 text-sm placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-white/20"
+                    type="password"
+                    placeholder="Password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    required
+                />
+
+                {error && (
+                    <p className="text-sm text-red-400">
+                        {error}
+                    </p>
+                )}
+
+                <button
+                    disabled={loading}
+                    className="btn btn-primary w-full"
+                >
+                    {loading ? "Creating account…" : "Create account"}
+                </button>
+            </form>
+
+            <p className="mt-6 text-sm text-white/50">
+                Already have an account?{" "}
+                <Link href="/login" className="text-white hover:underline">
+                    Sign in
+                </Link>
+                {invitation && " and accept the invitation from your Projects page."}
+            </p>
+        </>
+    );
+}
@@ -0,0 +1,46 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { createSupabaseServerClient } from "@/lib/supabase-server";
+import { hashInvitationToken, joinProjectFromInvitation, verifyInvitationToken } from "@/lib/invitations";
+import { normalizeInvitationEmail } from "@/lib/projectMembers";
+
+type ActionResult<T> =
+    | { ok: true; data: T }
+    | { ok: false; error: string };
+
+/**
+ * Accept the invitation carried by an emailed link. The signed-in account must use the invited
+ * email address, and only the most recently sent link for an invitation is honoured.
+ */
+export async function acceptInvitationTokenAction(
+    token: string
+): Promise<ActionResult<{ projectId: string; projectSlug: string | null }>> {
+    const supabase = await createSupabaseServerClient();
+    const { data: authData } = await supabase.auth.getUser();
+    if (!authData?.user?.email) return { ok: false, error: "Unauthorized." };
+    const invitee = { userId: authData.user.id, email: normalizeInvitationEmail(authData.user.email) };
+
+    const verified = verifyInvitationToken(token);
+    if (!verified.ok) return verified;
+    if (normalizeInvitationEmail(verified.payload.email) !== invitee.email) {
+        return { ok: false, error: `This invitation was sent to ${verified.payload.email}.` };
+    }
+
+    const joined = await joinProjectFromInvitation({
+        invitationId: verified.payload.invitationId,
+        ...invitee,
+        tokenHash: hashInvitationToken(token.trim()),
+    });
+    if (!joined.ok) return joined;
+
+    const { data: project } = await supabase
+        .from("projects")
+        .select("slug")
+        .eq("id", joined.data.projectId)
+        .is("deleted_at", null)
+        .maybeSingle();
+
+    revalidatePath("/dashboard");
+    return { ok: true, data: { projectId: joined.data.projectId, projectSlug: project?.slug ?? null } };
+}
@@ -0,0 +1,23 @@
+import crypto from "crypto";
+import { NextResponse } from "next/server";
+import { jsonError } from "@/lib/apiRoutes";
+import { retryDueWebhookDeliveries } from "@/lib/webhooks";
+
+function isAuthorizedCronRequest(request: Request) {
+    const secret = process.env.CRON_SECRET;
+    if (!secret) return false;
+    const expected = Buffer.from(`Bearer ${secret}`);
+    const actual = Buffer.from(request.headers.get("authorization") ?? "");
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Retry sweep for webhook deliveries. Call it every minute from a scheduler with
+ * `Authorization: Bearer <CRON_SECRET>`; each call attempts one batch of due deliveries.
+ */
+export async function GET(request: Request) {
+    if (!isAuthorizedCronRequest(request)) return jsonError(401, "Unauthorized.");
+
+    const attempted = await retryDueWebhookDeliveries();
+    return NextResponse.json({ ok: true, attempted });
+}
@@ -0,0 +1,82 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import type { PendingProjectInvitation } from "@/lib/projectMembers";
+import { extractErrorMessage, useToast } from "@/components/feedback/ToastProvider";
+import { acceptProjectInvitationAction, declineProjectInvitationAction } from "./invitation-actions";
+
+export function PendingInvitations({ invitations }: { invitations: PendingProjectInvitation[] }) {
+    const router = useRouter();
+    const toast = useToast();
+    const [items, setItems] = useState(invitations);
+    const [busy, setBusy] = useState<{ id: string; accept: boolean } | null>(null);
+
+    if (items.length === 0) return null;
+
+    const respond = async (invitation: PendingProjectInvitation, accept: boolean) => {
+        setBusy({ id: invitation.id, accept });
+        try {
+            const result = accept
+                ? await acceptProjectInvitationAction(invitation.id)
+                : await declineProjectInvitationAction(invitation.id);
+            if (!result.ok) {
+                toast.error(result.error || "Failed to respond to invitation.");
+                return;
+            }
+            setItems((prev) => prev.filter((item) => item.id !== invitation.id));
+            if (accept) {
+                toast.success(`Joined ${invitation.project?.name ?? "project"}.`);
+                router.refresh();
+            } else {
+                toast.success("Invitation declined.");
+            }
+        } catch (error) {
+            toast.error(extractErrorMessage(error, "Failed to respond to invitation."));
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    return (
+        <div className="mt-10 rounded-3xl border border-indigo-400/20 bg-indigo-500/[0.06] p-6">
+            <p className="text-[11px] uppercase tracking-[0.14em] text-indigo-200/70">Pending invitations</p>
+            <ul className="mt-4 space-y-3">
+                {items.map((invitation) => (
+                    <li
+                        key={invitation.id}
+                        className="flex flex-wrap items-center justify-between gap-3 rounded-xl border border-white/10 bg-[#0f141d] px-4 py-3"
+                    >
+                        <div className="min-w-0">
+                            <p className="truncate text-sm font-medium text-white">
+                                {invitation.project?.name ?? "Unknown project"}
+                            </p>
+                            <p className="mt-0.5 text-xs text-white/50">
+                                Invited as <span className="capitalize text-white/75">{invitation.role}</span> ·{" "}
+                                {new Date(invitation.created_at).toLocaleDateString("en-US")}
+                            </p>
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <button
+                                type="button"
+                                onClick={() => void respond(invitation, false)}
+                                disabled={busy !== null}
+                                className="btn btn-secondary"
+                            >
+                                {busy?.id === invitation.id && !busy.accept ? "Declining..." : "Decline"}
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => void respond(invitation, true)}
+                                disabled={busy !== null}
+                                className="btn btn-primary"
+                            >
+                                {busy?.id === invitation.id && busy.accept ? "Joining..." : "Accept"}
+                            </button>
+                        </div>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+}
@@ -0,0 +1,64 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { createSupabaseServerClient } from "@/lib/supabase-server";
+import { logAuditEvent } from "@/lib/auditLogs";
+import { joinProjectFromInvitation } from "@/lib/invitations";
+import { normalizeInvitationEmail, respondToProjectInvitation } from "@/lib/projectMembers";
+
+type ActionResult<T> =
+    | { ok: true; data: T }
+    | { ok: false; error: string };
+
+async function getInvitee() {
+    const supabase = await createSupabaseServerClient();
+    const { data: authData } = await supabase.auth.getUser();
+    if (!authData?.user?.email) return null;
+    return {
+        userId: authData.user.id,
+        email: normalizeInvitationEmail(authData.user.email),
+        emailConfirmed: Boolean(authData.user.email_confirmed_at),
+    };
+}
+
+// Without an emailed link, the database only lets confirmed addresses answer invitations.
+const UNCONFIRMED_EMAIL_ERROR = "Confirm your email address before answering invitations.";
+
+export async function acceptProjectInvitationAction(
+    invitationId: string
+): Promise<ActionResult<{ projectId: string }>> {
+    const invitee = await getInvitee();
+    if (!invitee) return { ok: false, error: "Unauthorized." };
+    if (!invitee.emailConfirmed) return { ok: false, error: UNCONFIRMED_EMAIL_ERROR };
+
+    const joined = await joinProjectFromInvitation({ invitationId, userId: invitee.userId, email: invitee.email });
+    if (!joined.ok) return joined;
+
+    revalidatePath("/dashboard");
+    return joined;
+}
+
+export async function declineProjectInvitationAction(invitationId: string): Promise<ActionResult<{ id: string }>> {
+    const invitee = await getInvitee();
+    if (!invitee) return { ok: false, error: "Unauthorized." };
+    if (!invitee.emailConfirmed) return { ok: false, error: UNCONFIRMED_EMAIL_ERROR };
+
+    const invitation = await respondToProjectInvitation(invitationId, false);
+    if (!invitation) return { ok: false, error: "Invitation not found or no longer valid." };
+
+    await logAuditEvent({
+        projectId: invitation.project_id,
+        userId: invitee.userId,
+        entityType: "project_member",
+        entityId: invitation.id,
+        action: "updated",
+        metadata: {
+            event: "project_invitation_declined",
+            email: invitee.email,
+            role: invitation.role,
+        },
+    });
+
+    revalidatePath("/dashboard");
+    return { ok: true, data: { id: invitation.id } };
+}
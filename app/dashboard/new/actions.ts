@@ -5,6 +5,7 @@ import { logAuditEvent } from "@/lib/auditLogs";
 import { createPermission } from "@/lib/permissions";
 import { createRole } from "@/lib/roles";
 import { createApiKeyRecord } from "@/lib/apiKeys";
+import { addProjectMember } from "@/lib/projectMembers";
 
 export type CreateProjectResult =
     | {
@@ -162,6 +163,18 @@ export async function createProjectAction(input: {
         return { ok: false, error: "Failed to create project." };
     }
 
+    const ownerMembership = await addProjectMember({
+        projectId: created.id,
+        userId: authData.user.id,
+        email: authData.user.email ?? null,
+        role: "owner",
+        invitedBy: null,
+    });
+    if (!ownerMembership.ok) {
+        await supabase.from("projects").delete().eq("id", created.id);
+        return { ok: false, error: "Failed to create project." };
+    }
+
     await logAuditEvent({
         projectId: created.id,
         userId: authData.user.id,
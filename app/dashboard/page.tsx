@@ -1,9 +1,14 @@
 import { LogoutButton } from "@/components/LogoutButton";
 import { getProjectListKpis, getProjects } from "@/lib/projects";
+import { getCurrentUser } from "@/lib/auth";
+import { getPendingInvitationsForEmail } from "@/lib/projectMembers";
+import { PendingInvitations } from "./PendingInvitations";
 
 export default async function DashboardPage() {
     const projects = await getProjects();
     const projectKpisById = await getProjectListKpis(projects.map((project) => project.id));
+    const user = await getCurrentUser();
+    const invitations = user?.email ? await getPendingInvitationsForEmail(user.email) : [];
 
     return (
         <div className="min-h-screen bg-[#0e1117] text-white">
@@ -32,6 +37,8 @@ export default async function DashboardPage() {
                 {/* subtle divider */}
                 <div className="mt-10 h-px w-full bg-white/5" />
 
+                <PendingInvitations invitations={invitations} />
+
 
                 {/* ================= PROJECT SECTION ================= */}
                 <div className="mt-14">
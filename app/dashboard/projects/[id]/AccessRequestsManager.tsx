@@ -0,0 +1,496 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+    approveAccessRequestAction,
+    denyAccessRequestAction,
+    listAccessRequestsAction,
+} from "./access-requests-actions";
+import { extractErrorMessage, useToast } from "@/components/feedback/ToastProvider";
+import { resolveEffectivePermissions } from "@/lib/roleHierarchy";
+
+type AccessRequestItem = {
+    id: string;
+    user_id: string;
+    role_id: string | null;
+    permission_id: string | null;
+    justification: string;
+    duration_minutes: number;
+    status: "pending" | "approved" | "denied";
+    decided_at: string | null;
+    decision_note: string | null;
+    created_at: string;
+};
+
+type StatusFilter = "" | AccessRequestItem["status"];
+
+type RoleOption = {
+    id: string;
+    name: string;
+    slug: string;
+    parent_role_ids: string[];
+    permission_ids: string[];
+};
+
+type PermissionOption = {
+    id: string;
+    name: string;
+    slug: string;
+    risk_level: string;
+};
+
+type BusyState =
+    | { type: "approve"; id: string }
+    | { type: "deny"; id: string }
+    | null;
+
+const MIN_DURATION_MINUTES = 15;
+const MAX_DURATION_MINUTES = 24 * 60;
+const MAX_NOTE_LENGTH = 500;
+
+function formatDateTime(value: string | null) {
+    if (!value) return "Never";
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) return "Never";
+    return date.toLocaleString(undefined, {
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+        hour: "2-digit",
+        minute: "2-digit",
+    });
+}
+
+function formatDuration(minutes: number) {
+    const hours = Math.floor(minutes / 60);
+    const rest = minutes % 60;
+    if (hours === 0) return `${rest} min`;
+    return rest === 0 ? `${hours} h` : `${hours} h ${rest} min`;
+}
+
+function statusBadgeClass(status: AccessRequestItem["status"]) {
+    if (status === "approved") return "border-emerald-400/25 bg-emerald-500/10 text-emerald-100";
+    if (status === "denied") return "border-red-400/20 bg-red-500/10 text-red-100";
+    return "border-amber-400/25 bg-amber-500/10 text-amber-100";
+}
+
+export function AccessRequestsManager({
+    projectId,
+    roles,
+    permissions,
+    highRiskRoleIds,
+    initialRequests,
+    onRoleUserCountChange,
+}: {
+    projectId: string;
+    roles: RoleOption[];
+    permissions: PermissionOption[];
+    highRiskRoleIds: Set<string>;
+    initialRequests: AccessRequestItem[];
+    onRoleUserCountChange: (roleId: string, delta: number) => void;
+}) {
+    const toast = useToast();
+    const [requests, setRequests] = useState<AccessRequestItem[]>(initialRequests ?? []);
+    const [busy, setBusy] = useState<BusyState>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [statusFilter, setStatusFilter] = useState<StatusFilter>("pending");
+
+    const [approveTarget, setApproveTarget] = useState<AccessRequestItem | null>(null);
+    const [approveRoleId, setApproveRoleId] = useState("");
+    const [approveDuration, setApproveDuration] = useState("");
+    const [denyTarget, setDenyTarget] = useState<AccessRequestItem | null>(null);
+    const [decisionNote, setDecisionNote] = useState("");
+    const isFirstLoad = useRef(true);
+
+    const roleById = useMemo(() => new Map(roles.map((role) => [role.id, role])), [roles]);
+    const permissionById = useMemo(
+        () => new Map(permissions.map((permission) => [permission.id, permission])),
+        [permissions]
+    );
+
+    // Permission requests are granted through a role; offer only roles that grant the permission.
+    const getGrantingRoles = useCallback(
+        (permissionId: string | null) => {
+            if (!permissionId) return [];
+            const parentsByRoleId = new Map(roles.map((role) => [role.id, role.parent_role_ids]));
+            const permissionIdsByRoleId = new Map(roles.map((role) => [role.id, role.permission_ids]));
+            return roles.filter((role) =>
+                resolveEffectivePermissions(role.id, parentsByRoleId, permissionIdsByRoleId).has(permissionId)
+            );
+        },
+        [roles]
+    );
+    const grantingRoles = useMemo(
+        () => getGrantingRoles(approveTarget?.permission_id ?? null),
+        [approveTarget, getGrantingRoles]
+    );
+
+    const durationValue = Number(approveDuration);
+    const durationError =
+        !Number.isInteger(durationValue) || durationValue < MIN_DURATION_MINUTES || durationValue > MAX_DURATION_MINUTES
+            ? `Enter between ${MIN_DURATION_MINUTES} and ${MAX_DURATION_MINUTES} minutes.`
+            : null;
+
+    const fetchRequests = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            const result = await listAccessRequestsAction(projectId, { status: statusFilter });
+            if (!result.ok) {
+                toast.error(result.error || "Failed to load access requests.");
+                return;
+            }
+            setRequests(result.data);
+        } catch (error) {
+            toast.error(extractErrorMessage(error, "Failed to load access requests."));
+        } finally {
+            setIsLoading(false);
+        }
+    }, [projectId, statusFilter, toast]);
+
+    useEffect(() => {
+        if (isFirstLoad.current) {
+            isFirstLoad.current = false;
+            return;
+        }
+        void fetchRequests();
+    }, [fetchRequests]);
+
+    const describeTarget = (request: AccessRequestItem) => {
+        if (request.role_id) {
+            const role = roleById.get(request.role_id);
+            return {
+                kind: "Role",
+                name: role?.name ?? "Unknown role",
+                slug: role?.slug ?? request.role_id,
+                highRisk: highRiskRoleIds.has(request.role_id),
+            };
+        }
+        const permission = request.permission_id ? permissionById.get(request.permission_id) : undefined;
+        return {
+            kind: "Permission",
+            name: permission?.name ?? "Unknown permission",
+            slug: permission?.slug ?? request.permission_id ?? "",
+            highRisk: permission?.risk_level === "high",
+        };
+    };
+
+    const replaceRequest = (updated: AccessRequestItem) => {
+        setRequests((prev) =>
+            statusFilter && updated.status !== statusFilter
+                ? prev.filter((request) => request.id !== updated.id)
+                : prev.map((request) => (request.id === updated.id ? updated : request))
+        );
+    };
+
+    const openApproveModal = (request: AccessRequestItem) => {
+        setApproveTarget(request);
+        setApproveRoleId(request.role_id ?? getGrantingRoles(request.permission_id)[0]?.id ?? "");
+        setApproveDuration(String(request.duration_minutes));
+        setDecisionNote("");
+    };
+
+    const openDenyModal = (request: AccessRequestItem) => {
+        setDenyTarget(request);
+        setDecisionNote("");
+    };
+
+    const handleApprove = async () => {
+        if (!approveTarget) return;
+        if (!approveRoleId) {
+            toast.error("Select a role to grant.");
+            return;
+        }
+        if (durationError) {
+            toast.error(durationError);
+            return;
+        }
+        setBusy({ type: "approve", id: approveTarget.id });
+        try {
+            const result = await approveAccessRequestAction(projectId, approveTarget.id, {
+                roleId: approveRoleId,
+                durationMinutes: durationValue,
+                note: decisionNote,
+            });
+            if (!result.ok) {
+                toast.error(result.error || "Failed to approve request.");
+                return;
+            }
+            replaceRequest(result.data.request);
+            onRoleUserCountChange(result.data.assignment.role_id, 1);
+            setApproveTarget(null);
+            toast.success(`Access granted until ${formatDateTime(result.data.assignment.expires_at)}.`);
+        } catch (error) {
+            toast.error(extractErrorMessage(error, "Failed to approve request."));
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const handleDeny = async () => {
+        if (!denyTarget) return;
+        setBusy({ type: "deny", id: denyTarget.id });
+        try {
+            const result = await denyAccessRequestAction(projectId, denyTarget.id, { note: decisionNote });
+            if (!result.ok) {
+                toast.error(result.error || "Failed to deny request.");
+                return;
+            }
+            replaceRequest(result.data);
+            setDenyTarget(null);
+            toast.success("Request denied.");
+        } catch (error) {
+            toast.error(extractErrorMessage(error, "Failed to deny request."));
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const approveTargetInfo = approveTarget ? describeTarget(approveTarget) : null;
+
+    return (
+        <>
+            <div className="rounded-2xl border border-white/10 bg-[#0f141d] p-4 shadow-[0_20px_45px_-30px_rgba(0,0,0,0.9)] sm:p-5">
+                <div className="flex flex-col gap-4 border-b border-white/10 pb-4 sm:flex-row sm:items-start sm:justify-between">
+                    <div>
+                        <h3 className="text-base font-semibold text-white">Access requests</h3>
+                        <p className="mt-1 text-sm text-white/65">
+                            Temporary access requested through the API. Approving grants the role until the requested
+                            duration ends.
+                        </p>
+                        <div className="mt-3 inline-flex items-center rounded-lg border border-white/10 bg-white/[0.03] px-3 py-1.5 text-xs text-white/70">
+                            {requests.length} {requests.length === 1 ? "request" : "requests"}
+                            {statusFilter ? ` ${statusFilter}` : ""}
+                        </div>
+                    </div>
+                    <select
+                        value={statusFilter}
+                        onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+                        className="h-10 w-full rounded-lg border border-white/10 bg-[#0a0f16] px-3 text-sm text-white/85 focus:border-white/20 focus:outline-none focus:ring-2 focus:ring-white/10 sm:w-44"
+                    >
+                        <option value="pending">Pending</option>
+                        <option value="approved">Approved</option>
+                        <option value="denied">Denied</option>
+                        <option value="">All requests</option>
+                    </select>
+                </div>
+
+                {isLoading ? (
+                    <div className="mt-4 rounded-xl border border-white/10 bg-[#0a0f16] px-6 py-10 text-center text-sm text-white/55">
+                        Loading access requests...
+                    </div>
+                ) : requests.length === 0 ? (
+                    <div className="mt-4 rounded-xl border border-dashed border-white/15 bg-white/[0.02] px-6 py-12 text-center">
+                        <p className="text-sm text-white/75">
+                            {statusFilter === "pending" ? "No requests waiting for approval." : "No access requests."}
+                        </p>
+                        <p className="mt-1 text-xs text-white/50">
+                            Internal tools file requests with an API key that has the &quot;File access requests&quot; scope.
+                        </p>
+                    </div>
+                ) : (
+                    <div className="mt-4">
+                        <div className="grid grid-cols-[minmax(0,1fr)_minmax(0,1.1fr)_minmax(0,1.4fr)_90px_170px_150px] items-center border-b border-white/10 px-4 py-2 text-[11px] uppercase tracking-[0.13em] text-white/45">
+                            <span>User ID</span>
+                            <span>Requested access</span>
+                            <span>Justification</span>
+                            <span>Duration</span>
+                            <span>Filed</span>
+                            <span className="text-right">Status</span>
+                        </div>
+                        <div className="max-h-[560px] divide-y divide-white/10 overflow-y-auto">
+                            {requests.map((request) => {
+                                const target = describeTarget(request);
+                                const isBusyForRow = busy?.id === request.id;
+                                return (
+                                    <div
+                                        key={request.id}
+                                        className="grid grid-cols-[minmax(0,1fr)_minmax(0,1.1fr)_minmax(0,1.4fr)_90px_170px_150px] items-center px-4 py-3 text-sm transition hover:bg-white/[0.02]"
+                                    >
+                                        <span className="truncate pr-3 font-mono text-white/90">{request.user_id}</span>
+                                        <div className="min-w-0 pr-3">
+                                            <p className="truncate text-white/85">
+                                                {target.name}
+                                                {target.highRisk && (
+                                                    <span className="ml-2 rounded-full border border-red-400/20 bg-red-500/10 px-1.5 py-0.5 text-[10px] uppercase tracking-[0.1em] text-red-100">
+                                                        High risk
+                                                    </span>
+                                                )}
+                                            </p>
+                                            <p className="truncate font-mono text-xs text-white/45">
+                                                {target.kind.toLowerCase()} · {target.slug}
+                                            </p>
+                                        </div>
+                                        <div className="min-w-0 pr-3">
+                                            <p className="truncate text-white/65" title={request.justification}>
+                                                {request.justification}
+                                            </p>
+                                            {request.decision_note && (
+                                                <p className="truncate text-xs text-white/45" title={request.decision_note}>
+                                                    Note: {request.decision_note}
+                                                </p>
+                                            )}
+                                        </div>
+                                        <span className="whitespace-nowrap text-white/65">
+                                            {formatDuration(request.duration_minutes)}
+                                        </span>
+                                        <span className="whitespace-nowrap text-white/65">{formatDateTime(request.created_at)}</span>
+                                        {request.status === "pending" ? (
+                                            <div className="flex justify-end gap-2">
+                                                <button
+                                                    type="button"
+                                                    onClick={() => openDenyModal(request)}
+                                                    disabled={busy !== null}
+                                                    className="btn btn-secondary px-3 py-1.5 text-xs"
+                                                >
+                                                    {busy?.type === "deny" && isBusyForRow ? "Denying..." : "Deny"}
+                                                </button>
+                                                <button
+                                                    type="button"
+                                                    onClick={() => openApproveModal(request)}
+                                                    disabled={busy !== null}
+                                                    className="btn btn-primary px-3 py-1.5 text-xs"
+                                                >
+                                                    {busy?.type === "approve" && isBusyForRow ? "Approving..." : "Approve"}
+                                                </button>
+                                            </div>
+                                        ) : (
+                                            <div className="flex justify-end">
+                                                <span
+                                                    title={request.decided_at ? formatDateTime(request.decided_at) : undefined}
+                                                    className={`inline-flex rounded-full border px-2.5 py-1 text-xs capitalize ${statusBadgeClass(request.status)}`}
+                                                >
+                                                    {request.status}
+                                                </span>
+                                            </div>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </div>
+                )}
+            </div>
+
+            {approveTarget && approveTargetInfo && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 px-4 backdrop-blur-sm">
+                    <div className="w-full max-w-md rounded-2xl border border-white/10 bg-[#0f141d] p-7 shadow-2xl">
+                        <h3 className="text-xl font-semibold text-white">Approve access request</h3>
+                        <p className="mt-2 text-sm text-white/60">
+                            &quot;{approveTarget.user_id}&quot; asked for {approveTargetInfo.kind.toLowerCase()} &quot;
+                            {approveTargetInfo.name}&quot;: {approveTarget.justification}
+                        </p>
+                        <div className="mt-5 space-y-4">
+                            {approveTarget.permission_id && (
+                                <label className="flex flex-col gap-2">
+                                    <span className="text-[11px] uppercase tracking-[0.13em] text-white/45">Grant through role</span>
+                                    <select
+                                        value={approveRoleId}
+                                        onChange={(e) => setApproveRoleId(e.target.value)}
+                                        disabled={busy?.type === "approve" || grantingRoles.length === 0}
+                                        className="h-11 rounded-xl border border-white/10 bg-[#0a0f16] px-4 text-sm text-white focus:border-white/20 focus:outline-none focus:ring-2 focus:ring-white/10"
+                                    >
+                                        {grantingRoles.map((role) => (
+                                            <option key={role.id} value={role.id}>
+                                                {role.name} ({role.slug})
+                                            </option>
+                                        ))}
+                                    </select>
+                                    {grantingRoles.length === 0 && (
+                                        <span className="text-xs text-red-300">No role grants this permission yet.</span>
+                                    )}
+                                </label>
+                            )}
+                            <label className="flex flex-col gap-2">
+                                <span className="text-[11px] uppercase tracking-[0.13em] text-white/45">Duration (minutes)</span>
+                                <input
+                                    type="number"
+                                    min={MIN_DURATION_MINUTES}
+                                    max={MAX_DURATION_MINUTES}
+                                    value={approveDuration}
+                                    onChange={(e) => setApproveDuration(e.target.value)}
+                                    disabled={busy?.type === "approve"}
+                                    className="h-11 rounded-xl border border-white/10 bg-[#0a0f16] px-4 text-sm text-white focus:border-white/20 focus:outline-none focus:ring-2 focus:ring-white/10"
+                                />
+                                <span className={`text-xs ${durationError ? "text-red-300" : "text-white/45"}`}>
+                                    {durationError ?? `Requested ${formatDuration(approveTarget.duration_minutes)}. Access starts now.`}
+                                </span>
+                            </label>
+                            <label className="flex flex-col gap-2">
+                                <span className="text-[11px] uppercase tracking-[0.13em] text-white/45">Note</span>
+                                <textarea
+                                    rows={3}
+                                    value={decisionNote}
+                                    onChange={(e) => setDecisionNote(e.target.value)}
+                                    disabled={busy?.type === "approve"}
+                                    maxLength={MAX_NOTE_LENGTH}
+                                    placeholder="Optional note for the audit log"
+                                    className="rounded-xl border border-white/10 bg-[#0a0f16] px-4 py-3 text-sm text-white focus:border-white/20 focus:outline-none focus:ring-2 focus:ring-white/10"
+                                />
+                            </label>
+                        </div>
+                        <div className="mt-6 flex justify-end gap-3 border-t border-white/10 pt-5">
+                            <button
+                                type="button"
+                                onClick={() => setApproveTarget(null)}
+                                disabled={busy?.type === "approve"}
+                                className="btn btn-secondary"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                type="button"
+                                onClick={handleApprove}
+                                disabled={busy?.type === "approve" || !approveRoleId || Boolean(durationError)}
+                                className="btn btn-primary"
+                            >
+                                {busy?.type === "approve" ? "Approving..." : "Approve"}
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {denyTarget && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 px-4 backdrop-blur-sm">
+                    <div className="w-full max-w-md rounded-2xl border border-white/10 bg-[#0f141d] p-7 shadow-2xl">
+                        <h3 className="text-xl font-semibold text-white">Deny access request?</h3>
+                        <p className="mt-2 text-sm text-white/60">
+                            &quot;{denyTarget.user_id}&quot; will not get &quot;{describeTarget(denyTarget).name}&quot;.
+                            They can file a new request later.
+                        </p>
+                        <label className="mt-5 flex flex-col gap-2">
+                            <span className="text-[11px] uppercase tracking-[0.13em] text-white/45">Note</span>
+                            <textarea
+                                rows={3}
+                                value={decisionNote}
+                                onChange={(e) => setDecisionNote(e.target.value)}
+                                disabled={busy?.type === "deny"}
+                                maxLength={MAX_NOTE_LENGTH}
+                                placeholder="Optional note for the audit log"
+                                className="rounded-xl border border-white/10 bg-[#0a0f16] px-4 py-3 text-sm text-white focus:border-white/20 focus:outline-none focus:ring-2 focus:ring-white/10"
+                            />
+                        </label>
+                        <div className="mt-6 flex justify-end gap-3 border-t border-white/10 pt-5">
+                            <button
+                                type="button"
+                                onClick={() => setDenyTarget(null)}
+                                disabled={busy?.type === "deny"}
+                                className="btn btn-secondary"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                type="button"
+                                onClick={handleDeny}
+                                disabled={busy?.type === "deny"}
+                                className="btn btn-danger"
+                            >
+                                {busy?.type === "deny" ? "Denying..." : "Deny request"}
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </>
+    );
+}
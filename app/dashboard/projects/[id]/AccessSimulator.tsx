@@ -0,0 +1,284 @@
+"use client";
+
+import { useState } from "react";
+import { simulateAccessAction } from "./access-simulator-actions";
+import { extractErrorMessage, useToast } from "@/components/feedback/ToastProvider";
+import type { AccessDecisionReason, AccessExplanation } from "@/lib/access";
+
+type RoleOption = {
+    id: string;
+    name: string;
+    slug: string;
+};
+
+type PermissionOption = {
+    id: string;
+    name: string;
+    slug: string;
+};
+
+const REASON_LABELS: Record<AccessDecisionReason, string> = {
+    granted: "Granted",
+    permission_not_found: "Permission does not exist",
+    permission_disabled: "Permission is disabled",
+    no_roles_assigned: "User holds no active roles",
+    role_not_assigned: "User does not hold the requested role",
+    denied_for_user: "Denied for this user",
+    denied_by_role: "Denied by a role",
+    condition_not_met: "No condition matched the context",
+    not_granted: "No role grants this permission",
+};
+
+const INACTIVE_LABELS: Record<AccessExplanation["inactive_assignments"][number]["reason"], string> = {
+    not_started: "not started yet",
+    expired: "expired",
+    other_resource: "scoped to another resource",
+};
+
+function parseContextText(text: string): { ok: true; value: Record<string, unknown> | null } | { ok: false; error: string } {
+    if (!text.trim()) return { ok: true, value: null };
+    try {
+        const value = JSON.parse(text) as unknown;
+        if (!value || typeof value !== "object" || Array.isArray(value)) {
+            return { ok: false, error: "Context must be a JSON object." };
+        }
+        return { ok: true, value: value as Record<string, unknown> };
+    } catch {
+        return { ok: false, error: "Context is not valid JSON." };
+    }
+}
+
+function TraceStep({ status, title, children }: { status: "pass" | "fail" | "skip"; title: string; children?: React.ReactNode }) {
+    const dot = status === "pass" ? "bg-emerald-400" : status === "fail" ? "bg-red-400" : "bg-white/25";
+    return (
+        <li className="relative pl-5">
+            <span className={`absolute left-0 top-1.5 h-2 w-2 rounded-full ${dot}`} />
+            <p className="text-sm text-white/85">{title}</p>
+            {children && <div className="mt-1 space-y-1 text-xs text-white/55">{children}</div>}
+        </li>
+    );
+}
+
+export function AccessSimulator({
+    projectId,
+    roles,
+    permissions,
+}: {
+    projectId: string;
+    roles: RoleOption[];
+    permissions: PermissionOption[];
+}) {
+    const toast = useToast();
+    const [userId, setUserId] = useState("");
+    const [permissionSlug, setPermissionSlug] = useState(permissions[0]?.slug ?? "");
+    const [roleSlug, setRoleSlug] = useState("");
+    const [resourceType, setResourceType] = useState("");
+    const [resourceId, setResourceId] = useState("");
+    const [contextText, setContextText] = useState("");
+    const [isRunning, setIsRunning] = useState(false);
+    const [result, setResult] = useState<AccessExplanation | null>(null);
+
+    const context = parseContextText(contextText);
+
+    const handleSimulate = async () => {
+        if (!userId.trim()) {
+            toast.error("User ID is required.");
+            return;
+        }
+        if (!context.ok) {
+            toast.error(context.error);
+            return;
+        }
+        setIsRunning(true);
+        try {
+            const response = await simulateAccessAction(projectId, {
+                userId,
+                permissionSlug,
+                roleSlug: roleSlug || null,
+                resourceType: resourceType || null,
+                resourceId: resourceId || null,
+                context: context.value,
+            });
+            if (!response.ok) {
+                toast.error(response.error || "Failed to simulate access.");
+                return;
+            }
+            setResult(response.data);
+        } catch (error) {
+            toast.error(extractErrorMessage(error, "Failed to simulate access."));
+        } finally {
+            setIsRunning(false);
+        }
+    };
+
+    return (
+        <div className="rounded-2xl border border-white/10 bg-[#0f141d] p-4 shadow-[0_20px_45px_-30px_rgba(0,0,0,0.9)] sm:p-5">
+            <div className="border-b border-white/10 pb-4">
+                <h3 className="text-base font-semibold text-white">Simulate access</h3>
+                <p className="mt-1 text-sm text-white/65">
+                    Run a check the way the API would and see why it was allowed or denied. Simulations are not
+                    counted as usage.
+                </p>
+            </div>
+
+            <div className="mt-4 grid gap-3 md:grid-cols-3">
+                <input
+                    value={userId}
+                    onChange={(e) => setUserId(e.target.value)}
+                    placeholder="User ID"
+                    className="h-10 w-full rounded-lg border border-white/10 bg-[#0a0f16] px-3 font-mono text-sm text-white/85 placeholder:font-sans placeholder:text-white/35 focus:border-white/20 focus:outline-none focus:ring-2 focus:ring-white/10"
+                />
+                <select
+                    value={permissionSlug}
+                    onChange={(e) => setPermissionSlug(e.target.value)}
+                    className="h-10 w-full rounded-lg border border-white/10 bg-[#0a0f16] px-3 text-sm text-white/85 focus:border-white/20 focus:outline-none focus:ring-2 focus:ring-white/10"
+                >
+                    {permissions.map((permission) => (
+                        <option key={permission.id} value={permission.slug}>
+                            {permission.name} ({permission.slug})
+                        </option>
+                    ))}
+                </select>
+                <select
+                    value={roleSlug}
+                    onChange={(e) => setRoleSlug(e.target.value)}
+                    className="h-10 w-full rounded-lg border border-white/10 bg-[#0a0f16] px-3 text-sm text-white/85 focus:border-white/20 focus:outline-none focus:ring-2 focus:ring-white/10"
+                >
+                    <option value="">Any assigned role</option>
+                    {roles.map((role) => (
+                        <option key={role.id} value={role.slug}>
+                            Only as {role.name}
+                        </option>
+                    ))}
+                </select>
+                <input
+                    value={resourceType}
+                    onChange={(e) => setResourceType(e.target.value)}
+                    placeholder="Resource type (optional)"
+                    className="h-10 w-full rounded-lg border border-white/10 bg-[#0a0f16] px-3 font-mono text-sm text-white/85 placeholder:font-sans placeholder:text-white/35 focus:border-white/20 focus:outline-none focus:ring-2 focus:ring-white/10"
+                />
+                <input
+                    value={resourceId}
+                    onChange={(e) => setResourceId(e.target.value)}
+                    placeholder="Resource ID (optional)"
+                    className="h-10 w-full rounded-lg border border-white/10 bg-[#0a0f16] px-3 font-mono text-sm text-white/85 placeholder:font-sans placeholder:text-white/35 focus:border-white/20 focus:outline-none focus:ring-2 focus:ring-white/10"
+                />
+                <button
+                    type="button"
+                    onClick={handleSimulate}
+                    disabled={isRunning || !userId.trim() || !permissionSlug || !context.ok}
+                    className="btn btn-primary h-10"
+                >
+                    {isRunning ? "Simulating..." : "Simulate"}
+                </button>
+                <div className="md:col-span-3">
+                    <textarea
+                        rows={3}
+                        value={contextText}
+                        onChange={(e) => setContextText(e.target.value)}
+                        placeholder='Context for conditions (optional), e.g. { "amount": 250 }'
+                        className="w-full rounded-lg border border-white/10 bg-[#0a0f16] px-3 py-2 font-mono text-sm text-white/85 placeholder:font-sans placeholder:text-white/35 focus:border-white/20 focus:outline-none focus:ring-2 focus:ring-white/10"
+                    />
+                    {!context.ok && <p className="mt-1 text-xs text-red-300">{context.error}</p>}
+                </div>
+            </div>
+
+            {result && (
+                <div className="mt-5 rounded-xl border border-white/10 bg-[#0a0f16] p-4">
+                    <div className="flex flex-wrap items-center gap-3">
+                        <span
+                            className={`inline-flex rounded-full border px-2.5 py-1 text-xs font-medium uppercase tracking-[0.12em] ${
+                                result.allowed
+                                    ? "border-emerald-400/25 bg-emerald-500/10 text-emerald-100"
+                                    : "border-red-400/20 bg-red-500/10 text-red-100"
+                            }`}
+                        >
+                            {result.allowed ? "Allowed" : "Denied"}
+                        </span>
+                        <span className="text-sm text-white/75">{REASON_LABELS[result.reason]}</span>
+                        <span className="font-mono text-xs text-white/40">{result.reason}</span>
+                    </div>
+
+                    <ol className="mt-4 space-y-3">
+                        <TraceStep
+                            status={result.permission.found && result.permission.enabled ? "pass" : "fail"}
+                            title={
+                                !result.permission.found
+                                    ? `Permission "${result.permission.slug}" does not exist`
+                                    : result.permission.enabled
+                                      ? `Permission "${result.permission.slug}" exists and is enabled`
+                                      : `Permission "${result.permission.slug}" is disabled`
+                            }
+                        />
+                        <TraceStep
+                            status={result.denied_for_user ? "fail" : "pass"}
+                            title={
+                                result.denied_for_user
+                                    ? `A user deny rule blocks this permission for "${result.user_id}"`
+                                    : "No user deny rule for this permission"
+                            }
+                        />
+                        {result.roles.length === 0 ? (
+                            <TraceStep status="fail" title={`"${result.user_id}" holds no active roles for this check`} />
+                        ) : (
+                            result.roles.map((role) => (
+                                <TraceStep
+                                    key={role.slug}
+                                    status={
+                                        role.deny
+                                            ? "fail"
+                                            : !role.considered
+                                              ? "skip"
+                                              : role.grant || role.conditions.some((entry) => entry.passed)
+                                                ? "pass"
+                                                : "fail"
+                                    }
+                                    title={`Role "${role.slug}"${role.considered ? "" : " (skipped: check asked for another role)"}`}
+                                >
+                                    {role.inherits_from.length > 0 && <p>Inherits from {role.inherits_from.join(", ")}.</p>}
+                                    {role.deny && (
+                                        <p className="text-red-200/80">
+                                            Denies the permission{role.deny.via !== role.slug ? ` (via ${role.deny.via})` : ""}.
+                                        </p>
+                                    )}
+                                    {role.grant ? (
+                                        <p>
+                                            Grants the permission{role.grant.via !== role.slug ? ` (via ${role.grant.via})` : ""}.
+                                        </p>
+                                    ) : role.conditions.length === 0 ? (
+                                        <p>Does not grant the permission.</p>
+                                    ) : null}
+                                    {role.conditions.map((entry, index) => (
+                                        <p key={`${entry.via}-${index}`}>
+                                            <span className={entry.passed ? "text-emerald-200/80" : "text-amber-200/80"}>
+                                                {entry.passed ? "Condition passed" : "Condition failed"}
+                                            </span>
+                                            : <span className="font-mono">{entry.condition}</span>
+                                            {entry.via !== role.slug ? ` (via ${entry.via})` : ""}
+                                            {entry.missing_keys.length > 0
+                                                ? ` · missing context: ${entry.missing_keys.join(", ")}`
+                                                : ""}
+                                        </p>
+                                    ))}
+                                </TraceStep>
+                            ))
+                        )}
+                        {result.inactive_assignments.map((assignment, index) => (
+                            <TraceStep
+                                key={`${assignment.role}-${index}`}
+                                status="skip"
+                                title={`Role "${assignment.role}" ignored: ${INACTIVE_LABELS[assignment.reason]}`}
+                            >
+                                {assignment.resource_type && (
+                                    <p className="font-mono">
+                                        {assignment.resource_type}:{assignment.resource_id}
+                                    </p>
+                                )}
+                            </TraceStep>
+                        ))}
+                    </ol>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,221 @@
+"use client";
+
+import { useState } from "react";
+import {
+    sendApiExplorerRequestAction,
+    type ApiExplorerOperation,
+    type ApiExplorerResponse,
+} from "./api-explorer-actions";
+import { extractErrorMessage, useToast } from "@/components/feedback/ToastProvider";
+import type { ApiKeyScope } from "@/lib/apiKeys";
+
+type ApiKeyOption = {
+    id: string;
+    name: string;
+    status: "active" | "rotating" | "revoked" | "expired";
+    scopes: ApiKeyScope[];
+    allowed_permission_slugs: string[] | null;
+};
+
+type PermissionOption = {
+    id: string;
+    name: string;
+    slug: string;
+};
+
+const OPERATIONS: Array<{ value: ApiExplorerOperation; label: string; scope: ApiKeyScope }> = [
+    { value: "check", label: "POST access/check", scope: "access:check" },
+    { value: "user_roles", label: "GET users/{userId}/roles", scope: "assignments:read" },
+    { value: "policy", label: "GET policy?user_id=", scope: "config:read" },
+];
+
+const inputClassName =
+    "h-10 w-full rounded-lg border border-white/10 bg-[#0a0f16] px-3 text-sm text-white/85 placeholder:text-white/35 focus:border-white/20 focus:outline-none focus:ring-2 focus:ring-white/10";
+
+export function ApiExplorer({
+    projectId,
+    openApiUrl,
+    apiKeys,
+    permissions,
+    canSend,
+}: {
+    projectId: string;
+    openApiUrl: string;
+    apiKeys: ApiKeyOption[];
+    permissions: PermissionOption[];
+    canSend: boolean;
+}) {
+    const toast = useToast();
+    // Rotating keys keep working until their grace period ends, so they can be tried as well.
+    const usableKeys = apiKeys.filter((key) => key.status === "active" || key.status === "rotating");
+    const [apiKeyId, setApiKeyId] = useState(usableKeys[0]?.id ?? "");
+    const [operation, setOperation] = useState<ApiExplorerOperation>("check");
+    const [permissionSlug, setPermissionSlug] = useState(permissions[0]?.slug ?? "");
+    const [userId, setUserId] = useState("");
+    const [explain, setExplain] = useState(false);
+    const [isSending, setIsSending] = useState(false);
+    const [result, setResult] = useState<ApiExplorerResponse | null>(null);
+
+    const selectedKey = usableKeys.find((key) => key.id === apiKeyId) ?? null;
+    const selectedOperation = OPERATIONS.find((entry) => entry.value === operation) ?? OPERATIONS[0];
+    const missingScope = selectedKey && !selectedKey.scopes.includes(selectedOperation.scope);
+    const permissionNotAllowed =
+        operation === "check" &&
+        selectedKey?.allowed_permission_slugs &&
+        !selectedKey.allowed_permission_slugs.includes(permissionSlug);
+
+    const handleSend = async () => {
+        if (!apiKeyId) {
+            toast.error("Select an API key.");
+            return;
+        }
+        if (!userId.trim()) {
+            toast.error("User ID is required.");
+            return;
+        }
+        setIsSending(true);
+        try {
+            const response = await sendApiExplorerRequestAction(projectId, {
+                apiKeyId,
+                operation,
+                userId,
+                permissionSlug: operation === "check" ? permissionSlug : null,
+                explain: operation === "check" && explain,
+            });
+            if (!response.ok) {
+                toast.error(response.error || "Failed to send request.");
+                return;
+            }
+            setResult(response.data);
+        } catch (error) {
+            toast.error(extractErrorMessage(error, "Failed to send request."));
+        } finally {
+            setIsSending(false);
+        }
+    };
+
+    return (
+        <div className="rounded-2xl border border-white/10 bg-[#111722] p-4 sm:p-5">
+            <div className="flex flex-wrap items-start justify-between gap-3 border-b border-white/10 pb-4">
+                <div>
+                    <h3 className="text-base font-semibold text-white">Try it</h3>
+                    <p className="mt-1 text-sm text-white/55">
+                        Send a live request with one of this project&apos;s keys. The key stays on the server; the
+                        request counts as usage and against its rate limit.
+                    </p>
+                </div>
+                <a href={openApiUrl} target="_blank" rel="noreferrer" className="btn btn-secondary px-3 py-2 text-xs">
+                    OpenAPI spec
+                </a>
+            </div>
+
+            {!canSend ? (
+                <p className="mt-4 text-sm text-white/55">Only editors and above can send requests with project keys.</p>
+            ) : usableKeys.length === 0 ? (
+                <p className="mt-4 text-sm text-white/55">Create an API key in the API Keys tab to try the API.</p>
+            ) : (
+                <>
+                    <div className="mt-4 grid gap-3 md:grid-cols-3">
+                        <select value={apiKeyId} onChange={(e) => setApiKeyId(e.target.value)} className={inputClassName}>
+                            {usableKeys.map((key) => (
+                                <option key={key.id} value={key.id}>
+                                    {key.name}
+                                    {key.status === "rotating" ? " (rotating)" : ""}
+                                </option>
+                            ))}
+                        </select>
+                        <select
+                            value={operation}
+                            onChange={(e) => setOperation(e.target.value as ApiExplorerOperation)}
+                            className={`${inputClassName} font-mono`}
+                        >
+                            {OPERATIONS.map((entry) => (
+                                <option key={entry.value} value={entry.value}>
+                                    {entry.label}
+                                </option>
+                            ))}
+                        </select>
+                        <input
+                            value={userId}
+                            onChange={(e) => setUserId(e.target.value)}
+                            placeholder="User ID"
+                            className={`${inputClassName} font-mono placeholder:font-sans`}
+                        />
+                        {operation === "check" && (
+                            <>
+                                <select
+                                    value={permissionSlug}
+                                    onChange={(e) => setPermissionSlug(e.target.value)}
+                                    className={inputClassName}
+                                >
+                                    {permissions.map((permission) => (
+                                        <option key={permission.id} value={permission.slug}>
+                                            {permission.name} ({permission.slug})
+                                        </option>
+                                    ))}
+                                </select>
+                                <label className="flex h-10 items-center gap-2 text-sm text-white/70">
+                                    <input type="checkbox" checked={explain} onChange={(e) => setExplain(e.target.checked)} />
+                                    Include decision trace (<span className="font-mono text-xs">explain</span>)
+                                </label>
+                            </>
+                        )}
+                        <button
+                            type="button"
+                            onClick={handleSend}
+                            disabled={isSending || !apiKeyId || !userId.trim() || (operation === "check" && !permissionSlug)}
+                            className="btn btn-primary h-10"
+                        >
+                            {isSending ? "Sending..." : "Send request"}
+                        </button>
+                    </div>
+
+                    {(missingScope || permissionNotAllowed) && (
+                        <p className="mt-2 text-xs text-amber-200/80">
+                            {missingScope
+                                ? `This key lacks the ${selectedOperation.scope} scope, so the API will answer 403.`
+                                : "This key is limited to other permissions, so the API will answer 403."}
+                        </p>
+                    )}
+                </>
+            )}
+
+            {result && (
+                <div className="mt-5 grid gap-4 xl:grid-cols-2">
+                    <div>
+                        <p className="text-xs uppercase tracking-[0.12em] text-white/45">Request</p>
+                        <pre className="mt-2 max-h-[360px] overflow-auto rounded-xl border border-white/10 bg-[#0a0f16] p-3 text-[11px] leading-5 text-white/80">
+                            <code>
+                                {`${result.method} ${result.url}\nAuthorization: Bearer sk_live_…`}
+                                {result.requestBody ? `\nContent-Type: application/json\n\n${result.requestBody}` : ""}
+                            </code>
+                        </pre>
+                    </div>
+                    <div>
+                        <div className="flex flex-wrap items-center gap-3">
+                            <p className="text-xs uppercase tracking-[0.12em] text-white/45">Response</p>
+                            <span
+                                className={`inline-flex rounded-full border px-2 py-0.5 font-mono text-xs ${
+                                    result.status < 400
+                                        ? "border-emerald-400/25 bg-emerald-500/10 text-emerald-100"
+                                        : "border-red-400/20 bg-red-500/10 text-red-100"
+                                }`}
+                            >
+                                {result.status}
+                            </span>
+                            <span className="text-xs text-white/45">{result.durationMs} ms</span>
+                        </div>
+                        <pre className="mt-2 max-h-[360px] overflow-auto rounded-xl border border-white/10 bg-[#0a0f16] p-3 text-[11px] leading-5 text-white/80">
+                            <code>
+                                {Object.entries(result.headers)
+                                    .map(([name, value]) => `${name}: ${value}`)
+                                    .join("\n")}
+                                {result.body ? `\n\n${result.body}` : ""}
+                            </code>
+                        </pre>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -1,33 +1,173 @@
 "use client";
 
-import { useMemo, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import {
     deleteProjectApiKeyAction,
+    endApiKeyRotationAction,
     generateProjectApiKeyAction,
     revealProjectApiKeyAction,
     rotateProjectApiKeyAction,
+    updateProjectApiKeyAccessAction,
+    updateProjectRateLimitAction,
 } from "./actions";
 import { extractErrorMessage, useToast } from "@/components/feedback/ToastProvider";
+import type { ApiKeyScope } from "@/lib/apiKeys";
 
 type ApiKeyItem = {
     id: string;
     project_id: string;
     name: string;
-    status: "active" | "revoked";
+    status: "active" | "rotating" | "revoked" | "expired";
     usage_count: number;
     last_used_at: string | null;
     created_at: string;
     updated_at: string | null;
     description: string | null;
+    scopes: ApiKeyScope[];
+    allowed_permission_slugs: string[] | null;
+    allowed_cidrs: string[] | null;
+    rate_limit_per_minute: number | null;
+    expires_at: string | null;
+    replaced_by: string | null;
+    rotation_ends_at: string | null;
+};
+
+type PermissionOption = {
+    slug: string;
+    name: string;
+};
+
+type ApiKeyAccessDraft = {
+    scopes: ApiKeyScope[];
+    allowedPermissionSlugs: string[] | null;
+    allowedCidrsText: string;
+    rateLimitText: string;
+};
+
+type ExpiryPreset = "7" | "30" | "60" | "90" | "custom";
+
+type ExpiryDraft = {
+    preset: ExpiryPreset;
+    customDate: string;
 };
 
 type BusyState =
     | { type: "generate"; id: null }
     | { type: "reveal"; id: string }
+    | { type: "access"; id: string }
     | { type: "rotate"; id: string }
+    | { type: "end-rotation"; id: string }
     | { type: "delete"; id: string }
     | null;
 
+const SCOPE_OPTIONS: Array<{ value: ApiKeyScope; label: string; hint: string }> = [
+    { value: "access:check", label: "Access checks", hint: "Evaluate permissions for users." },
+    { value: "assignments:read", label: "Read assignments", hint: "List a user's roles." },
+    { value: "assignments:write", label: "Write assignments", hint: "Grant, revoke and replace user roles." },
+    { value: "config:read", label: "Read configuration", hint: "Read roles, permissions and policy snapshots." },
+    { value: "requests:write", label: "File access requests", hint: "Request temporary access for a user." },
+];
+
+const MAX_KEY_LIFETIME_DAYS = 90;
+const DEFAULT_PROJECT_RATE_LIMIT = 1200;
+const EXPIRING_SOON_DAYS = 7;
+const MINUTE_MS = 60_000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+const EXPIRY_PRESETS: Array<{ value: ExpiryPreset; label: string }> = [
+    { value: "7", label: "7 days" },
+    { value: "30", label: "30 days" },
+    { value: "60", label: "60 days" },
+    { value: "90", label: "90 days" },
+    { value: "custom", label: "Custom date" },
+];
+
+const GRACE_OPTIONS: Array<{ value: number; label: string }> = [
+    { value: 0, label: "Immediately" },
+    { value: 1, label: "After 1 hour" },
+    { value: 24, label: "After 24 hours" },
+    { value: 72, label: "After 3 days" },
+    { value: 168, label: "After 7 days" },
+];
+
+const DEFAULT_GRACE_HOURS = 24;
+
+function createExpiryDraft(): ExpiryDraft {
+    return { preset: "90", customDate: "" };
+}
+
+function toDateInputValue(value: number) {
+    const date = new Date(value);
+    const month = String(date.getMonth() + 1).padStart(2, "0");
+    const day = String(date.getDate()).padStart(2, "0");
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Turn the picker state into an ISO timestamp. Custom dates expire at the end of the chosen day,
+ * capped at the maximum lifetime. Returns null for an unusable custom date.
+ */
+function resolveExpiryDraft(draft: ExpiryDraft) {
+    const now = Date.now();
+    const maxExpiry = now + MAX_KEY_LIFETIME_DAYS * DAY_MS;
+    if (draft.preset !== "custom") {
+        return new Date(now + Number(draft.preset) * DAY_MS).toISOString();
+    }
+    if (!draft.customDate) return null;
+    const endOfDay = new Date(`${draft.customDate}T23:59:59`).getTime();
+    if (Number.isNaN(endOfDay) || endOfDay <= now) return null;
+    return new Date(Math.min(endOfDay, maxExpiry)).toISOString();
+}
+
+function getExpiryState(key: ApiKeyItem, now: number) {
+    if (key.status === "expired") return { tone: "expired" as const, remainingMs: 0 };
+    if (!key.expires_at) return { tone: "never" as const, remainingMs: Infinity };
+    const remainingMs = new Date(key.expires_at).getTime() - now;
+    if (remainingMs <= 0) return { tone: "expired" as const, remainingMs: 0 };
+    if (remainingMs <= EXPIRING_SOON_DAYS * DAY_MS) return { tone: "soon" as const, remainingMs };
+    return { tone: "ok" as const, remainingMs };
+}
+
+function formatCountdown(remainingMs: number) {
+    const days = Math.floor(remainingMs / DAY_MS);
+    const hours = Math.floor((remainingMs % DAY_MS) / HOUR_MS);
+    const minutes = Math.max(1, Math.floor((remainingMs % HOUR_MS) / MINUTE_MS));
+    if (days > 0) return `in ${days}d ${hours}h`;
+    if (hours > 0) return `in ${hours}h ${minutes}m`;
+    return `in ${minutes}m`;
+}
+
+function createFullAccessDraft(): ApiKeyAccessDraft {
+    return {
+        scopes: SCOPE_OPTIONS.map((option) => option.value),
+        allowedPermissionSlugs: null,
+        allowedCidrsText: "",
+        rateLimitText: "",
+    };
+}
+
+function parseRateLimitInput(value: string) {
+    const trimmed = value.trim();
+    return trimmed ? Number(trimmed) : null;
+}
+
+function parseCidrLines(value: string) {
+    return value
+        .split(/[\s,]+/)
+        .map((entry) => entry.trim())
+        .filter(Boolean);
+}
+
+function hasFullAccess(key: ApiKeyItem) {
+    return (
+        key.scopes.length === SCOPE_OPTIONS.length &&
+        key.allowed_permission_slugs === null &&
+        (key.allowed_cidrs?.length ?? 0) === 0 &&
+        key.rate_limit_per_minute === null
+    );
+}
+
 function formatDateTime(value: string | null) {
     if (!value) return "Never";
     const date = new Date(value);
@@ -63,9 +203,13 @@ function getSuggestedKeyName(keys: ApiKeyItem[], baseName = "Primary key") {
 export function ApiKeysManager({
     projectId,
     initialKeys,
+    initialProjectRateLimit,
+    permissions,
 }: {
     projectId: string;
     initialKeys: ApiKeyItem[];
+    initialProjectRateLimit: number | null;
+    permissions: PermissionOption[];
 }) {
     const toast = useToast();
     const [keys, setKeys] = useState<ApiKeyItem[]>(initialKeys ?? []);
@@ -74,6 +218,15 @@ export function ApiKeysManager({
     const [showCreateModal, setShowCreateModal] = useState(false);
     const [createName, setCreateName] = useState("Primary key");
     const [createDescription, setCreateDescription] = useState("");
+    const [createAccess, setCreateAccess] = useState<ApiKeyAccessDraft>(createFullAccessDraft);
+    const [createExpiry, setCreateExpiry] = useState<ExpiryDraft>(createExpiryDraft);
+
+    const [rotateTarget, setRotateTarget] = useState<ApiKeyItem | null>(null);
+    const [rotateExpiry, setRotateExpiry] = useState<ExpiryDraft>(createExpiryDraft);
+    const [rotateGraceHours, setRotateGraceHours] = useState(DEFAULT_GRACE_HOURS);
+
+    const [accessTarget, setAccessTarget] = useState<ApiKeyItem | null>(null);
+    const [accessDraft, setAccessDraft] = useState<ApiKeyAccessDraft>(createFullAccessDraft);
 
     const [deleteTarget, setDeleteTarget] = useState<ApiKeyItem | null>(null);
 
@@ -84,18 +237,55 @@ export function ApiKeysManager({
     const [revealedKeyValue, setRevealedKeyValue] = useState("");
     const [revealedKeyName, setRevealedKeyName] = useState("");
 
-    const activeKeys = useMemo(() => keys.filter((key) => key.status === "active"), [keys]);
-    const activeCount = activeKeys.length;
-    const hasKeys = activeKeys.length > 0;
+    const [now, setNow] = useState(() => Date.now());
+
+    useEffect(() => {
+        const timer = window.setInterval(() => setNow(Date.now()), MINUTE_MS);
+        return () => window.clearInterval(timer);
+    }, []);
+
+    // Keys in a rotation grace period are listed directly below the key that replaced them.
+    const { visibleKeys, previousKeyBySuccessorId } = useMemo(() => {
+        const candidates = keys.filter((key) => key.status !== "revoked");
+        const candidateIds = new Set(candidates.map((key) => key.id));
+        const previousBySuccessor = new Map<string, ApiKeyItem>();
+        for (const key of candidates) {
+            if (key.status === "rotating" && key.replaced_by && candidateIds.has(key.replaced_by)) {
+                previousBySuccessor.set(key.replaced_by, key);
+            }
+        }
+
+        const ordered: ApiKeyItem[] = [];
+        for (const key of candidates) {
+            if (key.replaced_by && previousBySuccessor.get(key.replaced_by)?.id === key.id) continue;
+            ordered.push(key);
+            const previous = previousBySuccessor.get(key.id);
+            if (previous) ordered.push(previous);
+        }
+        return { visibleKeys: ordered, previousKeyBySuccessorId: previousBySuccessor };
+    }, [keys]);
+    const activeCount = useMemo(
+        () =>
+            visibleKeys.filter((key) => key.status === "active" && getExpiryState(key, now).tone !== "expired")
+                .length,
+        [visibleKeys, now]
+    );
+    const expiringSoonCount = useMemo(
+        () => visibleKeys.filter((key) => getExpiryState(key, now).tone === "soon").length,
+        [visibleKeys, now]
+    );
+    const hasKeys = visibleKeys.length > 0;
     const createNameTaken = useMemo(() => {
         const comparable = normalizeComparableName(createName);
         if (!comparable) return false;
-        return keys.some((key) => normalizeComparableName(key.name) === comparable);
+        return keys.some((key) => key.status !== "revoked" && normalizeComparableName(key.name) === comparable);
     }, [createName, keys]);
 
     const openCreateModal = () => {
         setCreateName(getSuggestedKeyName(keys));
         setCreateDescription("");
+        setCreateAccess(createFullAccessDraft());
+        setCreateExpiry(createExpiryDraft());
         setShowCreateModal(true);
     };
 
@@ -105,6 +295,16 @@ export function ApiKeysManager({
         setCreateDescription("");
     };
 
+    const openAccessModal = (key: ApiKeyItem) => {
+        setAccessTarget(key);
+        setAccessDraft({
+            scopes: key.scopes,
+            allowedPermissionSlugs: key.allowed_permission_slugs,
+            allowedCidrsText: (key.allowed_cidrs ?? []).join("\n"),
+            rateLimitText: key.rate_limit_per_minute === null ? "" : String(key.rate_limit_per_minute),
+        });
+    };
+
     const showOneTimeKey = (name: string, keyValue: string) => {
         setNewKeyName(name);
         setNewKeyValue(keyValue);
@@ -138,11 +338,21 @@ export function ApiKeysManager({
             toast.error("An API key with this name already exists in this project.");
             return;
         }
+        const expiresAt = resolveExpiryDraft(createExpiry);
+        if (!expiresAt) {
+            toast.error("Choose a valid expiration date.");
+            return;
+        }
         setBusy({ type: "generate", id: null });
         try {
             const result = await generateProjectApiKeyAction(projectId, {
                 name: createName,
                 description: createDescription,
+                scopes: createAccess.scopes,
+                allowedPermissionSlugs: createAccess.allowedPermissionSlugs,
+                allowedCidrs: parseCidrLines(createAccess.allowedCidrsText),
+                rateLimitPerMinute: parseRateLimitInput(createAccess.rateLimitText),
+                expiresAt,
             });
             if (!result.ok) {
                 toast.error(result.error || "Failed to generate API key.");
@@ -162,25 +372,43 @@ export function ApiKeysManager({
         }
     };
 
-    const handleRotate = async (key: ApiKeyItem) => {
+    const openRotateModal = (key: ApiKeyItem) => {
+        setRotateTarget(key);
+        setRotateExpiry(createExpiryDraft());
+        setRotateGraceHours(key.status === "active" ? DEFAULT_GRACE_HOURS : 0);
+    };
+
+    const handleRotate = async () => {
+        if (!rotateTarget) return;
+        const key = rotateTarget;
+        const expiresAt = resolveExpiryDraft(rotateExpiry);
+        if (!expiresAt) {
+            toast.error("Choose a valid expiration date.");
+            return;
+        }
         setBusy({ type: "rotate", id: key.id });
         try {
             const result = await rotateProjectApiKeyAction(projectId, key.id, {
                 name: key.name,
                 description: key.description ?? undefined,
+                expiresAt,
+                graceHours: rotateGraceHours,
             });
             if (!result.ok) {
                 toast.error(result.error || "Failed to generate new API key.");
                 return;
             }
+            const previous = result.data.previous;
             setKeys((prev) =>
                 [
                     result.data.record,
                     ...prev.filter((item) => item.id !== key.id),
+                    ...(previous ? [previous] : []),
                 ].sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
             );
+            setRotateTarget(null);
             showOneTimeKey(result.data.record.name, result.data.key);
-            toast.success("API key regenerated.");
+            toast.success(previous ? "API key regenerated. The previous value stays valid during the grace period." : "API key regenerated.");
         } catch (error) {
             toast.error(extractErrorMessage(error, "Failed to generate new API key."));
         } finally {
@@ -188,6 +416,47 @@ export function ApiKeysManager({
         }
     };
 
+    const handleEndRotation = async (key: ApiKeyItem) => {
+        setBusy({ type: "end-rotation", id: key.id });
+        try {
+            const result = await endApiKeyRotationAction(projectId, key.id);
+            if (!result.ok) {
+                toast.error(result.error || "Failed to revoke the previous API key.");
+                return;
+            }
+            setKeys((prev) => prev.map((item) => (item.id === result.data.id ? result.data : item)));
+            toast.success("Previous API key revoked.");
+        } catch (error) {
+            toast.error(extractErrorMessage(error, "Failed to revoke the previous API key."));
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const handleUpdateAccess = async () => {
+        if (!accessTarget) return;
+        setBusy({ type: "access", id: accessTarget.id });
+        try {
+            const result = await updateProjectApiKeyAccessAction(projectId, accessTarget.id, {
+                scopes: accessDraft.scopes,
+                allowedPermissionSlugs: accessDraft.allowedPermissionSlugs,
+                allowedCidrs: parseCidrLines(accessDraft.allowedCidrsText),
+                rateLimitPerMinute: parseRateLimitInput(accessDraft.rateLimitText),
+            });
+            if (!result.ok) {
+                toast.error(result.error || "Failed to update API key access.");
+                return;
+            }
+            setKeys((prev) => prev.map((key) => (key.id === result.data.id ? result.data : key)));
+            setAccessTarget(null);
+            toast.success("API key access updated.");
+        } catch (error) {
+            toast.error(extractErrorMessage(error, "Failed to update API key access."));
+        } finally {
+            setBusy(null);
+        }
+    };
+
     const handleDelete = async () => {
         if (!deleteTarget) return;
         setBusy({ type: "delete", id: deleteTarget.id });
@@ -216,8 +485,15 @@ export function ApiKeysManager({
                         <p className="mt-1 text-sm text-white/65">
                             Create and manage project keys for API access.
                         </p>
-                        <div className="mt-3 inline-flex items-center rounded-lg border border-white/10 bg-white/[0.03] px-3 py-1.5 text-xs text-white/70">
-                            {activeCount} {activeCount === 1 ? "key" : "keys"} available
+                        <div className="mt-3 flex flex-wrap items-center gap-2">
+                            <div className="inline-flex items-center rounded-lg border border-white/10 bg-white/[0.03] px-3 py-1.5 text-xs text-white/70">
+                                {activeCount} {activeCount === 1 ? "key" : "keys"} available
+                            </div>
+                            {expiringSoonCount > 0 && (
+                                <div className="inline-flex items-center rounded-lg border border-amber-300/25 bg-amber-300/[0.07] px-3 py-1.5 text-xs text-amber-200/85">
+                                    {expiringSoonCount} expiring soon
+                                </div>
+                            )}
                         </div>
                     </div>
                     <button
@@ -233,31 +509,64 @@ export function ApiKeysManager({
                 {hasKeys ? (
                     <>
                         <div className="mt-4 hidden lg:block">
-                            <div className="grid grid-cols-[minmax(0,1.9fr)_96px_170px_170px_132px] items-center border-b border-white/10 px-4 py-2 text-[11px] uppercase tracking-[0.13em] text-white/45">
+                            <div className="grid grid-cols-[minmax(0,1.9fr)_96px_160px_150px_160px_172px] items-center border-b border-white/10 px-4 py-2 text-[11px] uppercase tracking-[0.13em] text-white/45">
                                 <span>Name</span>
                                 <span>Usage</span>
                                 <span>Last used</span>
+                                <span>Expires</span>
                                 <span>Created</span>
                                 <span className="text-right">Actions</span>
                             </div>
                             <div className="divide-y divide-white/10">
-                                {activeKeys.map((key) => {
+                                {visibleKeys.map((key) => {
                                     const isBusyForRow = busy?.id === key.id;
+                                    const isRotating = key.status === "rotating";
+                                    const previousKey = previousKeyBySuccessorId.get(key.id) ?? null;
                                     return (
                                         <div
                                             key={key.id}
-                                            className="grid grid-cols-[minmax(0,1.9fr)_96px_170px_170px_132px] items-center px-4 py-3 text-sm transition hover:bg-white/[0.02]"
+                                            className={`grid grid-cols-[minmax(0,1.9fr)_96px_160px_150px_160px_172px] items-center px-4 py-3 text-sm transition hover:bg-white/[0.02] ${
+                                                isRotating ? "bg-white/[0.015]" : ""
+                                            }`}
                                         >
-                                            <div className="min-w-0 pr-3">
+                                            <div className={`min-w-0 pr-3 ${isRotating ? "pl-4" : ""}`}>
                                                 <p className="truncate font-semibold text-white">{key.name}</p>
                                                 <p className="mt-0.5 truncate text-xs text-white/45">
                                                     {key.description || "No description"}
                                                 </p>
+                                                <ApiKeyAccessSummary apiKey={key} />
+                                                <ApiKeyRotationNote apiKey={key} previousKey={previousKey} now={now} />
                                             </div>
                                             <span className="text-white/80">{formatUsage(key.usage_count)}</span>
                                             <span className="whitespace-nowrap text-white/65">{formatDateTime(key.last_used_at)}</span>
+                                            <ApiKeyExpiry apiKey={key} now={now} />
                                             <span className="whitespace-nowrap text-white/65">{formatDateTime(key.created_at)}</span>
                                             <div className="flex items-center justify-end gap-2">
+                                                {isRotating ? (
+                                                    <button
+                                                        type="button"
+                                                        onClick={() => handleEndRotation(key)}
+                                                        disabled={busy !== null}
+                                                        className="btn btn-secondary px-3 py-1.5 text-xs"
+                                                        title="Revoke the previous key value now"
+                                                    >
+                                                        {busy?.type === "end-rotation" && isBusyForRow ? "Revoking..." : "Revoke now"}
+                                                    </button>
+                                                ) : (
+                                                    <button
+                                                        type="button"
+                                                        onClick={() => openAccessModal(key)}
+                                                        disabled={busy !== null}
+                                                        className="btn-icon btn-icon-secondary"
+                                                        title="Edit scopes and permission access"
+                                                        aria-label="Edit API key access"
+                                                    >
+                                                        <svg viewBox="0 0 20 20" className="h-4 w-4" fill="none" stroke="currentColor" strokeWidth="1.6">
+                                                            <path d="M10 2.5 4 5v4.6c0 3.7 2.5 6.8 6 7.9 3.5-1.1 6-4.2 6-7.9V5l-6-2.5Z" />
+                                                            <path d="m7.4 10 1.8 1.8 3.6-3.6" />
+                                                        </svg>
+                                                    </button>
+                                                )}
                                                 <button
                                                     type="button"
                                                     onClick={() => handleReveal(key)}
@@ -277,27 +586,33 @@ export function ApiKeysManager({
                                                         </svg>
                                                     )}
                                                 </button>
-                                                <button
-                                                    type="button"
-                                                    onClick={() => handleRotate(key)}
-                                                    disabled={busy !== null}
-                                                    className="btn-icon btn-icon-secondary"
-                                                    title="Regenerate API key (keep name and description)"
-                                                    aria-label="Regenerate API key"
-                                                >
-                                                    {busy?.type === "rotate" && isBusyForRow ? (
-                                                        <svg viewBox="0 0 20 20" className="h-4 w-4 animate-spin" fill="none" stroke="currentColor" strokeWidth="1.7">
-                                                            <path d="M10 3a7 7 0 1 1-7 7" />
-                                                        </svg>
-                                                    ) : (
-                                                        <svg viewBox="0 0 20 20" className="h-4 w-4" fill="none" stroke="currentColor" strokeWidth="1.6">
-                                                            <path d="M3.5 9.8a6.5 6.5 0 0 1 11.1-4.5" />
-                                                            <path d="M14.6 2.8v2.9h-2.9" />
-                                                            <path d="M16.5 10.2a6.5 6.5 0 0 1-11.1 4.5" />
-                                                            <path d="M5.4 17.2v-2.9h2.9" />
-                                                        </svg>
-                                                    )}
-                                                </button>
+                                                {!isRotating && (
+                                                    <button
+                                                        type="button"
+                                                        onClick={() => openRotateModal(key)}
+                                                        disabled={busy !== null || previousKey !== null}
+                                                        className="btn-icon btn-icon-secondary"
+                                                        title={
+                                                            previousKey
+                                                                ? "Revoke the previous value before rotating again"
+                                                                : "Regenerate API key (keep name, description and access)"
+                                                        }
+                                                        aria-label="Regenerate API key"
+                                                    >
+                                                        {busy?.type === "rotate" && isBusyForRow ? (
+                                                            <svg viewBox="0 0 20 20" className="h-4 w-4 animate-spin" fill="none" stroke="currentColor" strokeWidth="1.7">
+                                                                <path d="M10 3a7 7 0 1 1-7 7" />
+                                                            </svg>
+                                                        ) : (
+                                                            <svg viewBox="0 0 20 20" className="h-4 w-4" fill="none" stroke="currentColor" strokeWidth="1.6">
+                                                                <path d="M3.5 9.8a6.5 6.5 0 0 1 11.1-4.5" />
+                                                                <path d="M14.6 2.8v2.9h-2.9" />
+                                                                <path d="M16.5 10.2a6.5 6.5 0 0 1-11.1 4.5" />
+                                                                <path d="M5.4 17.2v-2.9h2.9" />
+                                                            </svg>
+                                                        )}
+                                                    </button>
+                                                )}
                                                 <button
                                                     type="button"
                                                     onClick={() => setDeleteTarget(key)}
@@ -326,13 +641,20 @@ export function ApiKeysManager({
                         </div>
 
                         <div className="mt-4 space-y-3 lg:hidden">
-                            {activeKeys.map((key) => {
+                            {visibleKeys.map((key) => {
                                 const isBusyForRow = busy?.id === key.id;
+                                const isRotating = key.status === "rotating";
+                                const previousKey = previousKeyBySuccessorId.get(key.id) ?? null;
                                 return (
-                                    <div key={key.id} className="rounded-xl border border-white/10 bg-[#0a0f16] p-3.5">
+                                    <div
+                                        key={key.id}
+                                        className={`rounded-xl border border-white/10 bg-[#0a0f16] p-3.5 ${isRotating ? "ml-4" : ""}`}
+                                    >
                                         <div className="min-w-0">
                                             <p className="truncate font-semibold text-white">{key.name}</p>
                                             <p className="mt-0.5 truncate text-xs text-white/45">{key.description || "No description"}</p>
+                                            <ApiKeyAccessSummary apiKey={key} />
+                                            <ApiKeyRotationNote apiKey={key} previousKey={previousKey} now={now} />
                                         </div>
                                         <div className="mt-3 grid grid-cols-2 gap-2 text-xs text-white/70">
                                             <div className="rounded-lg border border-white/10 bg-white/[0.02] px-2.5 py-2">
@@ -343,12 +665,37 @@ export function ApiKeysManager({
                                                 <p className="text-white/45">Created</p>
                                                 <p className="mt-1">{formatDateTime(key.created_at)}</p>
                                             </div>
-                                            <div className="col-span-2 rounded-lg border border-white/10 bg-white/[0.02] px-2.5 py-2">
+                                            <div className="rounded-lg border border-white/10 bg-white/[0.02] px-2.5 py-2">
                                                 <p className="text-white/45">Last used</p>
                                                 <p className="mt-1">{formatDateTime(key.last_used_at)}</p>
                                             </div>
+                                            <div className="rounded-lg border border-white/10 bg-white/[0.02] px-2.5 py-2">
+                                                <p className="text-white/45">Expires</p>
+                                                <div className="mt-1">
+                                                    <ApiKeyExpiry apiKey={key} now={now} />
+                                                </div>
+                                            </div>
                                         </div>
                                         <div className="mt-3 flex flex-wrap gap-2">
+                                            {isRotating ? (
+                                                <button
+                                                    type="button"
+                                                    onClick={() => handleEndRotation(key)}
+                                                    disabled={busy !== null}
+                                                    className="btn btn-secondary px-3 py-2 text-xs"
+                                                >
+                                                    {busy?.type === "end-rotation" && isBusyForRow ? "Revoking..." : "Revoke now"}
+                                                </button>
+                                            ) : (
+                                                <button
+                                                    type="button"
+                                                    onClick={() => openAccessModal(key)}
+                                                    disabled={busy !== null}
+                                                    className="btn btn-secondary px-3 py-2 text-xs"
+                                                >
+                                                    Access
+                                                </button>
+                                            )}
                                             <button
                                                 type="button"
                                                 onClick={() => handleReveal(key)}
@@ -357,14 +704,16 @@ export function ApiKeysManager({
                                             >
                                                 {busy?.type === "reveal" && isBusyForRow ? "Loading..." : "Reveal"}
                                             </button>
-                                            <button
-                                                type="button"
-                                                onClick={() => handleRotate(key)}
-                                                disabled={busy !== null}
-                                                className="btn btn-secondary px-3 py-2 text-xs"
-                                            >
-                                                {busy?.type === "rotate" && isBusyForRow ? "Generating..." : "Generate New"}
-                                            </button>
+                                            {!isRotating && (
+                                                <button
+                                                    type="button"
+                                                    onClick={() => openRotateModal(key)}
+                                                    disabled={busy !== null || previousKey !== null}
+                                                    className="btn btn-secondary px-3 py-2 text-xs"
+                                                >
+                                                    {busy?.type === "rotate" && isBusyForRow ? "Generating..." : "Generate New"}
+                                                </button>
+                                            )}
                                             <button
                                                 type="button"
                                                 onClick={() => setDeleteTarget(key)}
@@ -395,6 +744,8 @@ export function ApiKeysManager({
                         </button>
                     </div>
                 )}
+
+                <ProjectRateLimitEditor projectId={projectId} initialLimit={initialProjectRateLimit} />
             </div>
 
             {showCreateModal && (
@@ -404,6 +755,11 @@ export function ApiKeysManager({
                     description={createDescription}
                     onNameChange={setCreateName}
                     onDescriptionChange={setCreateDescription}
+                    access={createAccess}
+                    onAccessChange={setCreateAccess}
+                    expiry={createExpiry}
+                    onExpiryChange={setCreateExpiry}
+                    permissions={permissions}
                     onCancel={closeCreateModal}
                     onConfirm={handleCreate}
                     isBusy={busy?.type === "generate"}
@@ -412,6 +768,102 @@ export function ApiKeysManager({
                 />
             )}
 
+            {rotateTarget && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 px-4 backdrop-blur-sm">
+                    <div className="w-full max-w-md rounded-2xl border border-white/10 bg-[#0f141d] p-7 shadow-2xl">
+                        <h3 className="text-xl font-semibold text-white">Generate new key value</h3>
+                        <p className="mt-2 text-sm text-white/60">
+                            <span className="text-white">{rotateTarget.name}</span> will be replaced by a new key with the
+                            same name, description and access.{" "}
+                            {rotateGraceHours > 0
+                                ? "The current value keeps working until the grace period ends, so services can switch over."
+                                : "The current value stops working immediately."}
+                        </p>
+                        <div className="mt-5 space-y-4">
+                            {rotateTarget.status === "active" && (
+                                <label className="flex flex-col gap-2">
+                                    <span className="text-[11px] uppercase tracking-[0.13em] text-white/45">
+                                        Revoke current value
+                                    </span>
+                                    <select
+                                        value={rotateGraceHours}
+                                        onChange={(e) => setRotateGraceHours(Number(e.target.value))}
+                                        disabled={busy?.type === "rotate"}
+                                        className="h-11 rounded-xl border border-white/10 bg-[#0a0f16] px-3 text-sm text-white focus:border-white/20 focus:outline-none focus:ring-2 focus:ring-white/10"
+                                    >
+                                        {GRACE_OPTIONS.map((option) => (
+                                            <option key={option.value} value={option.value}>
+                                                {option.label}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </label>
+                            )}
+                            <ApiKeyExpiryField
+                                value={rotateExpiry}
+                                onChange={setRotateExpiry}
+                                disabled={busy?.type === "rotate"}
+                            />
+                        </div>
+                        <div className="mt-6 flex justify-end gap-3 border-t border-white/10 pt-5">
+                            <button
+                                type="button"
+                                onClick={() => setRotateTarget(null)}
+                                disabled={busy?.type === "rotate"}
+                                className="btn btn-secondary"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                type="button"
+                                onClick={handleRotate}
+                                disabled={busy?.type === "rotate" || !resolveExpiryDraft(rotateExpiry)}
+                                className="btn btn-primary"
+                            >
+                                {busy?.type === "rotate" ? "Generating..." : "Generate new key"}
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {accessTarget && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 px-4 backdrop-blur-sm">
+                    <div className="max-h-[90vh] w-full max-w-md overflow-y-auto rounded-2xl border border-white/10 bg-[#0f141d] p-7 shadow-2xl">
+                        <h3 className="text-xl font-semibold text-white">Edit key access</h3>
+                        <p className="mt-2 text-sm text-white/60">
+                            Restrict what <span className="text-white">{accessTarget.name}</span> can do. Changes apply to the next request.
+                        </p>
+                        <div className="mt-5">
+                            <ApiKeyAccessFields
+                                access={accessDraft}
+                                onChange={setAccessDraft}
+                                permissions={permissions}
+                                disabled={busy?.type === "access"}
+                            />
+                        </div>
+                        <div className="mt-6 flex justify-end gap-3 border-t border-white/10 pt-5">
+                            <button
+                                type="button"
+                                onClick={() => setAccessTarget(null)}
+                                disabled={busy?.type === "access"}
+                                className="btn btn-secondary"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                type="button"
+                                onClick={handleUpdateAccess}
+                                disabled={busy?.type === "access" || accessDraft.scopes.length === 0}
+                                className="btn btn-primary"
+                            >
+                                {busy?.type === "access" ? "Saving..." : "Save access"}
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
             {deleteTarget && (
                 <ConfirmModal
                     title="Delete API key?"
@@ -508,6 +960,11 @@ function ApiKeyCreateModal({
     description,
     onNameChange,
     onDescriptionChange,
+    access,
+    onAccessChange,
+    expiry,
+    onExpiryChange,
+    permissions,
     onCancel,
     onConfirm,
     isBusy,
@@ -520,6 +977,11 @@ function ApiKeyCreateModal({
     description: string;
     onNameChange: (value: string) => void;
     onDescriptionChange: (value: string) => void;
+    access: ApiKeyAccessDraft;
+    onAccessChange: (value: ApiKeyAccessDraft) => void;
+    expiry: ExpiryDraft;
+    onExpiryChange: (value: ExpiryDraft) => void;
+    permissions: PermissionOption[];
     onCancel: () => void;
     onConfirm: () => void;
     isBusy: boolean;
@@ -528,7 +990,7 @@ function ApiKeyCreateModal({
 }) {
     return (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 px-4 backdrop-blur-sm">
-            <div className="w-full max-w-md rounded-2xl border border-white/10 bg-[#0f141d] p-7 shadow-2xl">
+            <div className="max-h-[90vh] w-full max-w-md overflow-y-auto rounded-2xl border border-white/10 bg-[#0f141d] p-7 shadow-2xl">
                 <h3 className="text-xl font-semibold text-white">{title}</h3>
                 <p className="mt-2 text-sm text-white/60">
                     {subtitle ?? "Create a new key with a clear name for your integration."}
@@ -558,6 +1020,13 @@ function ApiKeyCreateModal({
                             className="rounded-xl border border-white/10 bg-[#0a0f16] px-4 py-3 text-sm text-white focus:border-white/20 focus:outline-none focus:ring-2 focus:ring-white/10"
                         />
                     </label>
+                    <ApiKeyExpiryField value={expiry} onChange={onExpiryChange} disabled={isBusy} />
+                    <ApiKeyAccessFields
+                        access={access}
+                        onChange={onAccessChange}
+                        permissions={permissions}
+                        disabled={isBusy}
+                    />
                 </div>
                 <div className="mt-6 flex justify-end gap-3 border-t border-white/10 pt-5">
                     <button type="button" onClick={onCancel} disabled={isBusy} className="btn btn-secondary">
@@ -566,7 +1035,13 @@ function ApiKeyCreateModal({
                     <button
                         type="button"
                         onClick={onConfirm}
-                        disabled={isBusy || !name.trim() || Boolean(nameError)}
+                        disabled={
+                            isBusy ||
+                            !name.trim() ||
+                            Boolean(nameError) ||
+                            access.scopes.length === 0 ||
+                            !resolveExpiryDraft(expiry)
+                        }
                         className="btn btn-primary"
                     >
                         {isBusy ? "Saving..." : confirmLabel}
@@ -577,6 +1052,375 @@ function ApiKeyCreateModal({
     );
 }
 
+function ApiKeyExpiry({ apiKey, now }: { apiKey: ApiKeyItem; now: number }) {
+    const state = getExpiryState(apiKey, now);
+    const title = apiKey.expires_at ? formatDateTime(apiKey.expires_at) : undefined;
+
+    if (state.tone === "never") {
+        return <span className="whitespace-nowrap text-white/45">No expiry</span>;
+    }
+    if (state.tone === "expired") {
+        return (
+            <span title={title} className="inline-flex w-fit rounded-md border border-rose-400/30 bg-rose-400/10 px-2 py-0.5 text-xs text-rose-200/90">
+                Expired
+            </span>
+        );
+    }
+    return (
+        <span title={title} className="flex flex-col items-start gap-1 whitespace-nowrap">
+            <span className={state.tone === "soon" ? "text-amber-200/90" : "text-white/65"}>
+                {formatCountdown(state.remainingMs)}
+            </span>
+            {state.tone === "soon" && (
+                <span className="rounded-md border border-amber-300/25 bg-amber-300/[0.07] px-1.5 py-0.5 text-[10px] text-amber-200/85">
+                    Expiring soon
+                </span>
+            )}
+        </span>
+    );
+}
+
+function ApiKeyExpiryField({
+    value,
+    onChange,
+    disabled,
+}: {
+    value: ExpiryDraft;
+    onChange: (value: ExpiryDraft) => void;
+    disabled: boolean;
+}) {
+    const [today] = useState(() => Date.now());
+    const minDate = toDateInputValue(today + DAY_MS);
+    const maxDate = toDateInputValue(today + MAX_KEY_LIFETIME_DAYS * DAY_MS);
+
+    return (
+        <div className="flex flex-col gap-2">
+            <span className="text-[11px] uppercase tracking-[0.13em] text-white/45">Expires after</span>
+            <div className="flex gap-2">
+                <select
+                    value={value.preset}
+                    onChange={(e) => onChange({ ...value, preset: e.target.value as ExpiryPreset })}
+                    disabled={disabled}
+                    className="h-11 flex-1 rounded-xl border border-white/10 bg-[#0a0f16] px-3 text-sm text-white focus:border-white/20 focus:outline-none focus:ring-2 focus:ring-white/10"
+                >
+                    {EXPIRY_PRESETS.map((preset) => (
+                        <option key={preset.value} value={preset.value}>
+                            {preset.label}
+                        </option>
+                    ))}
+                </select>
+                {value.preset === "custom" && (
+                    <input
+                        type="date"
+                        value={value.customDate}
+                        min={minDate}
+                        max={maxDate}
+                        onChange={(e) => onChange({ ...value, customDate: e.target.value })}
+                        disabled={disabled}
+                        className="h-11 flex-1 rounded-xl border border-white/10 bg-[#0a0f16] px-3 text-sm text-white focus:border-white/20 focus:outline-none focus:ring-2 focus:ring-white/10"
+                    />
+                )}
+            </div>
+            <span className="text-xs text-white/45">
+                Keys can be valid for at most {MAX_KEY_LIFETIME_DAYS} days. Expired keys are rejected by the API.
+            </span>
+        </div>
+    );
+}
+
+function ProjectRateLimitEditor({
+    projectId,
+    initialLimit,
+}: {
+    projectId: string;
+    initialLimit: number | null;
+}) {
+    const toast = useToast();
+    const [savedLimit, setSavedLimit] = useState(initialLimit);
+    const [limitText, setLimitText] = useState(initialLimit === null ? "" : String(initialLimit));
+    const [isSaving, setIsSaving] = useState(false);
+    const isDirty = parseRateLimitInput(limitText) !== savedLimit;
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        try {
+            const result = await updateProjectRateLimitAction(projectId, parseRateLimitInput(limitText));
+            if (!result.ok) {
+                toast.error(result.error || "Failed to update rate limit.");
+                return;
+            }
+            setSavedLimit(result.data.limitPerMinute);
+            toast.success("Rate limit updated.");
+        } catch (error) {
+            toast.error(extractErrorMessage(error, "Failed to update rate limit."));
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="mt-4 flex flex-col gap-3 border-t border-white/10 pt-4 sm:flex-row sm:items-end sm:justify-between">
+            <div>
+                <p className="text-sm font-medium text-white">Project rate limit</p>
+                <p className="mt-1 text-xs text-white/50">
+                    Requests per minute across all keys. Clients over the limit receive <code>429</code> with a{" "}
+                    <code>Retry-After</code> header. Per-key limits are set under each key&apos;s access settings.
+                </p>
+            </div>
+            <div className="flex items-center gap-2">
+                <input
+                    type="number"
+                    min={1}
+                    inputMode="numeric"
+                    value={limitText}
+                    onChange={(e) => setLimitText(e.target.value)}
+                    placeholder={`${DEFAULT_PROJECT_RATE_LIMIT} (default)`}
+                    disabled={isSaving}
+                    className="h-10 w-40 rounded-xl border border-white/10 bg-[#0a0f16] px-3 text-sm text-white focus:border-white/20 focus:outline-none focus:ring-2 focus:ring-white/10"
+                />
+                <button
+                    type="button"
+                    onClick={handleSave}
+                    disabled={isSaving || !isDirty}
+                    className="btn btn-secondary"
+                >
+                    {isSaving ? "Saving..." : "Save"}
+                </button>
+            </div>
+        </div>
+    );
+}
+
+function ApiKeyRotationNote({
+    apiKey,
+    previousKey,
+    now,
+}: {
+    apiKey: ApiKeyItem;
+    previousKey: ApiKeyItem | null;
+    now: number;
+}) {
+    if (apiKey.status === "rotating") {
+        const remainingMs = apiKey.rotation_ends_at ? new Date(apiKey.rotation_ends_at).getTime() - now : 0;
+        return (
+            <p className="mt-1.5 text-[11px] text-amber-200/80">
+                Previous value · {remainingMs > 0 ? `revoked ${formatCountdown(remainingMs)}` : "grace period ended"}
+            </p>
+        );
+    }
+    if (!previousKey) return null;
+
+    const rotatedAt = new Date(apiKey.created_at).getTime();
+    const newInUse = apiKey.last_used_at ? new Date(apiKey.last_used_at).getTime() >= rotatedAt : false;
+    const previousInUse = previousKey.last_used_at ? new Date(previousKey.last_used_at).getTime() >= rotatedAt : false;
+
+    return (
+        <p className="mt-1.5 text-[11px] text-white/55">
+            Rotation in progress ·{" "}
+            <span className={newInUse ? "text-emerald-300/85" : "text-white/45"}>
+                new value {newInUse ? "receiving traffic" : "not used yet"}
+            </span>
+            {" · "}
+            <span className={previousInUse ? "text-amber-200/85" : "text-white/45"}>
+                previous value {previousInUse ? `last used ${formatDateTime(previousKey.last_used_at)}` : "idle since rotation"}
+            </span>
+        </p>
+    );
+}
+
+function ApiKeyAccessSummary({ apiKey }: { apiKey: ApiKeyItem }) {
+    if (hasFullAccess(apiKey)) {
+        return <p className="mt-1.5 text-[11px] text-white/40">Full access</p>;
+    }
+
+    return (
+        <div className="mt-1.5 flex flex-wrap gap-1">
+            {apiKey.scopes.map((scope) => (
+                <span
+                    key={scope}
+                    className="rounded-md border border-white/10 bg-white/[0.03] px-1.5 py-0.5 font-mono text-[10px] text-white/60"
+                >
+                    {scope}
+                </span>
+            ))}
+            {apiKey.allowed_permission_slugs && (
+                <span
+                    className="rounded-md border border-amber-300/20 bg-amber-300/[0.06] px-1.5 py-0.5 text-[10px] text-amber-200/80"
+                    title={apiKey.allowed_permission_slugs.join(", ")}
+                >
+                    {apiKey.allowed_permission_slugs.length}{" "}
+                    {apiKey.allowed_permission_slugs.length === 1 ? "permission" : "permissions"}
+                </span>
+            )}
+            {apiKey.allowed_cidrs && apiKey.allowed_cidrs.length > 0 && (
+                <span
+                    className="rounded-md border border-sky-300/20 bg-sky-300/[0.06] px-1.5 py-0.5 text-[10px] text-sky-200/80"
+                    title={apiKey.allowed_cidrs.join(", ")}
+                >
+                    {apiKey.allowed_cidrs.length} {apiKey.allowed_cidrs.length === 1 ? "IP range" : "IP ranges"}
+                </span>
+            )}
+            {apiKey.rate_limit_per_minute !== null && (
+                <span className="rounded-md border border-white/10 bg-white/[0.03] px-1.5 py-0.5 text-[10px] text-white/60">
+                    {apiKey.rate_limit_per_minute.toLocaleString("en-US")} req/min
+                </span>
+            )}
+        </div>
+    );
+}
+
+function ApiKeyAccessFields({
+    access,
+    onChange,
+    permissions,
+    disabled,
+}: {
+    access: ApiKeyAccessDraft;
+    onChange: (value: ApiKeyAccessDraft) => void;
+    permissions: PermissionOption[];
+    disabled: boolean;
+}) {
+    const [permissionQuery, setPermissionQuery] = useState("");
+    const isRestricted = access.allowedPermissionSlugs !== null;
+    const selectedSlugs = useMemo(() => new Set(access.allowedPermissionSlugs ?? []), [access.allowedPermissionSlugs]);
+    const filteredPermissions = useMemo(() => {
+        const query = permissionQuery.trim().toLowerCase();
+        if (!query) return permissions;
+        return permissions.filter(
+            (permission) =>
+                permission.slug.toLowerCase().includes(query) || permission.name.toLowerCase().includes(query)
+        );
+    }, [permissionQuery, permissions]);
+
+    const toggleScope = (scope: ApiKeyScope) => {
+        const scopes = access.scopes.includes(scope)
+            ? access.scopes.filter((item) => item !== scope)
+            : SCOPE_OPTIONS.map((option) => option.value).filter(
+                (value) => value === scope || access.scopes.includes(value)
+            );
+        onChange({ ...access, scopes });
+    };
+
+    const togglePermission = (slug: string) => {
+        const next = new Set(selectedSlugs);
+        if (next.has(slug)) next.delete(slug);
+        else next.add(slug);
+        onChange({ ...access, allowedPermissionSlugs: Array.from(next).sort() });
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-col gap-2">
+                <span className="text-[11px] uppercase tracking-[0.13em] text-white/45">Scopes</span>
+                <div className="space-y-1.5">
+                    {SCOPE_OPTIONS.map((option) => (
+                        <label
+                            key={option.value}
+                            className="flex cursor-pointer items-start gap-3 rounded-lg border border-white/10 bg-[#0a0f16] px-3 py-2"
+                        >
+                            <input
+                                type="checkbox"
+                                checked={access.scopes.includes(option.value)}
+                                onChange={() => toggleScope(option.value)}
+                                disabled={disabled}
+                                className="mt-0.5"
+                            />
+                            <span className="min-w-0">
+                                <span className="block text-sm text-white/85">{option.label}</span>
+                                <span className="block text-xs text-white/45">
+                                    <code className="text-white/60">{option.value}</code> · {option.hint}
+                                </span>
+                            </span>
+                        </label>
+                    ))}
+                </div>
+                {access.scopes.length === 0 && (
+                    <span className="text-xs text-rose-300/85">Select at least one scope.</span>
+                )}
+            </div>
+            <div className="flex flex-col gap-2">
+                <label className="flex cursor-pointer items-center gap-3 text-sm text-white/80">
+                    <input
+                        type="checkbox"
+                        checked={isRestricted}
+                        onChange={() =>
+                            onChange({ ...access, allowedPermissionSlugs: isRestricted ? null : [] })
+                        }
+                        disabled={disabled}
+                    />
+                    Only allow checks for selected permissions
+                </label>
+                {isRestricted && (
+                    <div className="rounded-xl border border-white/10 bg-[#0a0f16] p-3">
+                        <input
+                            value={permissionQuery}
+                            onChange={(e) => setPermissionQuery(e.target.value)}
+                            placeholder="Filter permissions"
+                            disabled={disabled}
+                            className="h-9 w-full rounded-lg border border-white/10 bg-[#0f141d] px-3 text-sm text-white focus:border-white/20 focus:outline-none"
+                        />
+                        <div className="mt-2 max-h-44 space-y-1 overflow-y-auto">
+                            {filteredPermissions.length === 0 ? (
+                                <p className="py-2 text-xs text-white/45">No permissions match.</p>
+                            ) : (
+                                filteredPermissions.map((permission) => (
+                                    <label
+                                        key={permission.slug}
+                                        className="flex cursor-pointer items-center gap-2 rounded-md px-2 py-1 text-xs hover:bg-white/[0.03]"
+                                    >
+                                        <input
+                                            type="checkbox"
+                                            checked={selectedSlugs.has(permission.slug)}
+                                            onChange={() => togglePermission(permission.slug)}
+                                            disabled={disabled}
+                                        />
+                                        <span className="truncate font-mono text-white/80">{permission.slug}</span>
+                                    </label>
+                                ))
+                            )}
+                        </div>
+                        <p className="mt-2 text-[11px] text-white/45">
+                            {selectedSlugs.size === 0
+                                ? "No permissions selected. Access checks with this key will be rejected."
+                                : `${selectedSlugs.size} selected`}
+                        </p>
+                    </div>
+                )}
+            </div>
+            <label className="flex flex-col gap-2">
+                <span className="text-[11px] uppercase tracking-[0.13em] text-white/45">Allowed IP ranges</span>
+                <textarea
+                    rows={3}
+                    value={access.allowedCidrsText}
+                    onChange={(e) => onChange({ ...access, allowedCidrsText: e.target.value })}
+                    placeholder={"203.0.113.0/24\n2001:db8::/32"}
+                    disabled={disabled}
+                    className="rounded-xl border border-white/10 bg-[#0a0f16] px-4 py-3 font-mono text-xs text-white focus:border-white/20 focus:outline-none focus:ring-2 focus:ring-white/10"
+                />
+                <span className="text-xs text-white/45">
+                    One IPv4/IPv6 address or CIDR range per line. Leave empty to accept requests from any address.
+                </span>
+            </label>
+            <label className="flex flex-col gap-2">
+                <span className="text-[11px] uppercase tracking-[0.13em] text-white/45">Requests per minute</span>
+                <input
+                    type="number"
+                    min={1}
+                    inputMode="numeric"
+                    value={access.rateLimitText}
+                    onChange={(e) => onChange({ ...access, rateLimitText: e.target.value })}
+                    placeholder="Project limit only"
+                    disabled={disabled}
+                    className="h-11 rounded-xl border border-white/10 bg-[#0a0f16] px-4 text-sm text-white focus:border-white/20 focus:outline-none focus:ring-2 focus:ring-white/10"
+                />
+                <span className="text-xs text-white/45">
+                    Optional per-key limit, applied in addition to the project limit.
+                </span>
+            </label>
+        </div>
+    );
+}
+
 function ConfirmModal({
     title,
     message,
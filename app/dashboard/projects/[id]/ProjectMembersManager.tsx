@@ -0,0 +1,449 @@
+"use client";
+
+import { useState } from "react";
+import type { ProjectInvitationRecord, ProjectMemberRecord, ProjectMemberRole } from "@/lib/projectMembers";
+import {
+    inviteProjectMemberAction,
+    removeProjectMemberAction,
+    resendProjectInvitationAction,
+    revokeProjectInvitationAction,
+    transferProjectOwnershipAction,
+    updateProjectMemberRoleAction,
+} from "./members-actions";
+import { extractErrorMessage, useToast } from "@/components/feedback/ToastProvider";
+
+type BusyState =
+    | { type: "invite"; id: null }
+    | { type: "role" | "remove" | "transfer" | "revoke" | "resend"; id: string }
+    | null;
+
+type PendingConfirm =
+    | { type: "remove"; member: ProjectMemberRecord }
+    | { type: "transfer"; member: ProjectMemberRecord }
+    | null;
+
+const ROLE_OPTIONS: Array<{ value: ProjectMemberRole; label: string; hint: string }> = [
+    { value: "owner", label: "Owner", hint: "Full control, including deleting the project" },
+    { value: "admin", label: "Admin", hint: "Manage settings, members and rate limits" },
+    { value: "editor", label: "Editor", hint: "Manage permissions, roles, assignments and API keys" },
+    { value: "viewer", label: "Viewer", hint: "Read-only access" },
+];
+
+const ROLE_RANK: Record<ProjectMemberRole, number> = { viewer: 0, editor: 1, admin: 2, owner: 3 };
+
+function roleLabel(role: ProjectMemberRole) {
+    return ROLE_OPTIONS.find((option) => option.value === role)?.label ?? role;
+}
+
+// Mirrors the server rules in members-actions.ts; the server remains the source of truth.
+function canManage(actorRole: ProjectMemberRole, targetRole: ProjectMemberRole) {
+    if (targetRole === "owner") return false;
+    if (actorRole === "owner") return true;
+    return ROLE_RANK[actorRole] >= ROLE_RANK.admin && ROLE_RANK[targetRole] < ROLE_RANK[actorRole];
+}
+
+function assignableRoles(actorRole: ProjectMemberRole) {
+    return ROLE_OPTIONS.filter(
+        (option) =>
+            option.value !== "owner" && (actorRole === "owner" || ROLE_RANK[option.value] < ROLE_RANK[actorRole])
+    );
+}
+
+function formatDate(value: string) {
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) return "—";
+    return date.toLocaleDateString("en-US", { year: "numeric", month: "short", day: "2-digit" });
+}
+
+function isExpired(invitation: ProjectInvitationRecord) {
+    return invitation.expires_at !== null && new Date(invitation.expires_at).getTime() <= Date.now();
+}
+
+export function ProjectMembersManager({
+    projectId,
+    currentUserId,
+    currentRole,
+    initialMembers,
+    initialInvitations,
+}: {
+    projectId: string;
+    currentUserId: string;
+    currentRole: ProjectMemberRole;
+    initialMembers: ProjectMemberRecord[];
+    initialInvitations: ProjectInvitationRecord[];
+}) {
+    const toast = useToast();
+    const [members, setMembers] = useState(initialMembers);
+    const [invitations, setInvitations] = useState(initialInvitations);
+    const [busy, setBusy] = useState<BusyState>(null);
+    const [showInviteModal, setShowInviteModal] = useState(false);
+    const [inviteEmail, setInviteEmail] = useState("");
+    const [inviteRole, setInviteRole] = useState<ProjectMemberRole>("viewer");
+    const [pendingConfirm, setPendingConfirm] = useState<PendingConfirm>(null);
+
+    const isAdmin = ROLE_RANK[currentRole] >= ROLE_RANK.admin;
+    const inviteRoles = assignableRoles(currentRole);
+
+    const handleInvite = async () => {
+        setBusy({ type: "invite", id: null });
+        try {
+            const result = await inviteProjectMemberAction(projectId, { email: inviteEmail, role: inviteRole });
+            if (!result.ok) {
+                toast.error(result.error || "Failed to invite member.");
+                return;
+            }
+            const { invitation, emailSent } = result.data;
+            setInvitations((prev) => [invitation, ...prev]);
+            setShowInviteModal(false);
+            setInviteEmail("");
+            if (emailSent) {
+                toast.success(`Invitation sent to ${invitation.email}.`);
+            } else {
+                toast.error(`Invitation created, but the email to ${invitation.email} could not be sent. Try resending it.`);
+            }
+        } catch (error) {
+            toast.error(extractErrorMessage(error, "Failed to invite member."));
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const handleRoleChange = async (member: ProjectMemberRecord, role: ProjectMemberRole) => {
+        setBusy({ type: "role", id: member.id });
+        try {
+            const result = await updateProjectMemberRoleAction(projectId, member.id, role);
+            if (!result.ok) {
+                toast.error(result.error || "Failed to update member role.");
+                return;
+            }
+            setMembers((prev) => prev.map((item) => (item.id === member.id ? result.data : item)));
+            toast.success("Member role updated.");
+        } catch (error) {
+            toast.error(extractErrorMessage(error, "Failed to update member role."));
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const handleRevokeInvitation = async (invitation: ProjectInvitationRecord) => {
+        setBusy({ type: "revoke", id: invitation.id });
+        try {
+            const result = await revokeProjectInvitationAction(projectId, invitation.id);
+            if (!result.ok) {
+                toast.error(result.error || "Failed to revoke invitation.");
+                return;
+            }
+            setInvitations((prev) => prev.filter((item) => item.id !== invitation.id));
+            toast.success("Invitation revoked.");
+        } catch (error) {
+            toast.error(extractErrorMessage(error, "Failed to revoke invitation."));
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const handleResendInvitation = async (invitation: ProjectInvitationRecord) => {
+        setBusy({ type: "resend", id: invitation.id });
+        try {
+            const result = await resendProjectInvitationAction(projectId, invitation.id);
+            if (!result.ok) {
+                toast.error(result.error || "Failed to resend invitation.");
+                return;
+            }
+            setInvitations((prev) => prev.map((item) => (item.id === invitation.id ? result.data : item)));
+            toast.success(`Invitation resent to ${invitation.email}.`);
+        } catch (error) {
+            toast.error(extractErrorMessage(error, "Failed to resend invitation."));
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const handleConfirm = async () => {
+        if (!pendingConfirm) return;
+        const { type, member } = pendingConfirm;
+        setBusy({ type, id: member.id });
+        try {
+            if (type === "remove") {
+                const result = await removeProjectMemberAction(projectId, member.id);
+                if (!result.ok) {
+                    toast.error(result.error || "Failed to remove member.");
+                    return;
+                }
+                if (member.user_id === currentUserId) {
+                    window.location.assign("/dashboard");
+                    return;
+                }
+                setMembers((prev) => prev.filter((item) => item.id !== member.id));
+                toast.success("Member removed.");
+            } else {
+                const result = await transferProjectOwnershipAction(projectId, member.id);
+                if (!result.ok) {
+                    toast.error(result.error || "Failed to transfer ownership.");
+                    return;
+                }
+                toast.success("Ownership transferred.");
+                window.location.reload();
+                return;
+            }
+            setPendingConfirm(null);
+        } catch (error) {
+            toast.error(extractErrorMessage(error, "Failed to update members."));
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    return (
+        <>
+            <div className="rounded-2xl border border-white/8 bg-gradient-to-b from-[#121823] to-[#0f141d] p-6">
+                <div className="flex flex-wrap items-start justify-between gap-4">
+                    <div>
+                        <h3 className="text-base font-semibold text-white">Members</h3>
+                        <p className="mt-1 text-sm text-white/50">
+                            People who can open this project in the dashboard. You are{" "}
+                            {currentRole === "admin" || currentRole === "owner" ? "an" : "a"}{" "}
+                            <span className="text-white/80">{roleLabel(currentRole)}</span>.
+                        </p>
+                    </div>
+                    {isAdmin && (
+                        <button
+                            type="button"
+                            onClick={() => {
+                                setInviteEmail("");
+                                setInviteRole("viewer");
+                                setShowInviteModal(true);
+                            }}
+                            disabled={busy !== null}
+                            className="btn btn-primary"
+                        >
+                            Invite member
+                        </button>
+                    )}
+                </div>
+
+                <div className="mt-5 divide-y divide-white/10 rounded-xl border border-white/10 bg-[#0a0f16]">
+                    {members.map((member) => {
+                        const isSelf = member.user_id === currentUserId;
+                        const manageable = !isSelf && canManage(currentRole, member.role);
+                        const isBusyForRow = busy !== null && busy.id === member.id;
+                        return (
+                            <div key={member.id} className="flex flex-wrap items-center justify-between gap-3 px-4 py-3 text-sm">
+                                <div className="min-w-0">
+                                    <p className="truncate text-white/90">
+                                        {member.email ?? <span className="font-mono text-white/70">{member.user_id}</span>}
+                                        {isSelf && <span className="ml-2 text-xs text-white/45">(you)</span>}
+                                    </p>
+                                    <p className="mt-0.5 text-xs text-white/45">Joined {formatDate(member.created_at)}</p>
+                                </div>
+                                <div className="flex items-center gap-2">
+                                    {manageable ? (
+                                        <select
+                                            value={member.role}
+                                            onChange={(e) => void handleRoleChange(member, e.target.value as ProjectMemberRole)}
+                                            disabled={busy !== null}
+                                            className="h-9 rounded-lg border border-white/10 bg-[#0f141d] px-2 text-xs text-white/85 focus:border-white/20 focus:outline-none"
+                                        >
+                                            {assignableRoles(currentRole).map((option) => (
+                                                <option key={option.value} value={option.value}>
+                                                    {option.label}
+                                                </option>
+                                            ))}
+                                        </select>
+                                    ) : (
+                                        <span className="rounded-md border border-white/10 bg-white/[0.04] px-2 py-1 text-xs text-white/70">
+                                            {roleLabel(member.role)}
+                                        </span>
+                                    )}
+                                    {currentRole === "owner" && !isSelf && (
+                                        <button
+                                            type="button"
+                                            onClick={() => setPendingConfirm({ type: "transfer", member })}
+                                            disabled={busy !== null}
+                                            className="btn btn-secondary"
+                                        >
+                                            Make owner
+                                        </button>
+                                    )}
+                                    {(manageable || (isSelf && member.role !== "owner")) && (
+                                        <button
+                                            type="button"
+                                            onClick={() => setPendingConfirm({ type: "remove", member })}
+                                            disabled={busy !== null}
+                                            className="btn-icon btn-icon-danger"
+                                            title={isSelf ? "Leave project" : "Remove member"}
+                                            aria-label={isSelf ? "Leave project" : "Remove member"}
+                                        >
+                                            {isBusyForRow ? (
+                                                <svg viewBox="0 0 20 20" className="h-4 w-4 animate-spin" fill="none" stroke="currentColor" strokeWidth="1.7">
+                                                    <path d="M10 3a7 7 0 1 1-7 7" />
+                                                </svg>
+                                            ) : (
+                                                <svg viewBox="0 0 20 20" className="h-4 w-4" fill="none" stroke="currentColor" strokeWidth="1.6">
+                                                    <path d="M4 6h12" />
+                                                    <path d="M8 6V4h4v2" />
+                                                    <path d="M6.7 6.7 7.4 16h5.2l.7-9.3" />
+                                                </svg>
+                                            )}
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+
+                {isAdmin && invitations.length > 0 && (
+                    <div className="mt-5">
+                        <p className="text-[11px] uppercase tracking-[0.13em] text-white/45">Pending invitations</p>
+                        <div className="mt-2 divide-y divide-white/10 rounded-xl border border-white/10 bg-[#0a0f16]">
+                            {invitations.map((invitation) => (
+                                <div key={invitation.id} className="flex flex-wrap items-center justify-between gap-3 px-4 py-3 text-sm">
+                                    <div className="min-w-0">
+                                        <p className="truncate text-white/85">{invitation.email}</p>
+                                        <p className="mt-0.5 text-xs text-white/45">
+                                            {roleLabel(invitation.role)} · invited {formatDate(invitation.created_at)}
+                                            {invitation.expires_at &&
+                                                (isExpired(invitation) ? (
+                                                    <span className="text-amber-300/80"> · expired</span>
+                                                ) : (
+                                                    <> · expires {formatDate(invitation.expires_at)}</>
+                                                ))}
+                                        </p>
+                                    </div>
+                                    <div className="flex items-center gap-2">
+                                        <button
+                                            type="button"
+                                            onClick={() => void handleResendInvitation(invitation)}
+                                            disabled={busy !== null}
+                                            className="btn btn-secondary"
+                                        >
+                                            {busy?.type === "resend" && busy.id === invitation.id ? "Sending..." : "Resend"}
+                                        </button>
+                                        <button
+                                            type="button"
+                                            onClick={() => void handleRevokeInvitation(invitation)}
+                                            disabled={busy !== null}
+                                            className="btn btn-secondary"
+                                        >
+                                            {busy?.type === "revoke" && busy.id === invitation.id ? "Revoking..." : "Revoke"}
+                                        </button>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                        <p className="mt-2 text-xs text-white/45">
+                            Invitees get an email link that is valid for 7 days. Existing accounts also see the
+                            invitation on their Projects page after signing in with this email.
+                        </p>
+                    </div>
+                )}
+            </div>
+
+            {showInviteModal && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 px-4 backdrop-blur-sm">
+                    <div className="w-full max-w-md rounded-2xl border border-white/10 bg-[#0f141d] p-7 shadow-2xl">
+                        <h3 className="text-xl font-semibold text-white">Invite member</h3>
+                        <p className="mt-2 text-sm text-white/60">
+                            The invitation can be accepted by the account registered with this email.
+                        </p>
+                        <div className="mt-5 space-y-4">
+                            <label className="flex flex-col gap-2">
+                                <span className="text-[11px] uppercase tracking-[0.13em] text-white/45">Email</span>
+                                <input
+                                    type="email"
+                                    value={inviteEmail}
+                                    onChange={(e) => setInviteEmail(e.target.value)}
+                                    disabled={busy?.type === "invite"}
+                                    placeholder="teammate@company.com"
+                                    className="h-11 rounded-xl border border-white/10 bg-[#0a0f16] px-4 text-sm text-white focus:border-white/20 focus:outline-none focus:ring-2 focus:ring-white/10"
+                                />
+                            </label>
+                            <label className="flex flex-col gap-2">
+                                <span className="text-[11px] uppercase tracking-[0.13em] text-white/45">Role</span>
+                                <select
+                                    value={inviteRole}
+                                    onChange={(e) => setInviteRole(e.target.value as ProjectMemberRole)}
+                                    disabled={busy?.type === "invite"}
+                                    className="h-11 rounded-xl border border-white/10 bg-[#0a0f16] px-4 text-sm text-white focus:border-white/20 focus:outline-none focus:ring-2 focus:ring-white/10"
+                                >
+                                    {inviteRoles.map((option) => (
+                                        <option key={option.value} value={option.value}>
+                                            {option.label}
+                                        </option>
+                                    ))}
+                                </select>
+                                <span className="text-xs text-white/45">
+                                    {ROLE_OPTIONS.find((option) => option.value === inviteRole)?.hint}
+                                </span>
+                            </label>
+                        </div>
+                        <div className="mt-6 flex justify-end gap-3 border-t border-white/10 pt-5">
+                            <button
+                                type="button"
+                                onClick={() => setShowInviteModal(false)}
+                                disabled={busy?.type === "invite"}
+                                className="btn btn-secondary"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                type="button"
+                                onClick={handleInvite}
+                                disabled={busy?.type === "invite" || !inviteEmail.trim()}
+                                className="btn btn-primary"
+                            >
+                                {busy?.type === "invite" ? "Inviting..." : "Send invitation"}
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {pendingConfirm && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 px-4 backdrop-blur-sm">
+                    <div className="w-full max-w-md rounded-2xl border border-white/10 bg-[#0f141d] p-7 shadow-2xl">
+                        <h3 className="text-xl font-semibold text-white">
+                            {pendingConfirm.type === "transfer"
+                                ? "Transfer ownership?"
+                                : pendingConfirm.member.user_id === currentUserId
+                                  ? "Leave project?"
+                                  : "Remove member?"}
+                        </h3>
+                        <p className="mt-2 text-sm text-white/60">
+                            {pendingConfirm.type === "transfer"
+                                ? `${pendingConfirm.member.email ?? pendingConfirm.member.user_id} becomes the owner. You will stay on the project as an admin.`
+                                : pendingConfirm.member.user_id === currentUserId
+                                  ? "You will lose access to this project until someone invites you again."
+                                  : `${pendingConfirm.member.email ?? pendingConfirm.member.user_id} will lose access to this project.`}
+                        </p>
+                        <div className="mt-6 flex justify-end gap-3 border-t border-white/10 pt-5">
+                            <button
+                                type="button"
+                                onClick={() => setPendingConfirm(null)}
+                                disabled={busy !== null}
+                                className="btn btn-secondary"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                type="button"
+                                onClick={handleConfirm}
+                                disabled={busy !== null}
+                                className={pendingConfirm.type === "remove" ? "btn btn-danger" : "btn btn-primary"}
+                            >
+                                {busy !== null
+                                    ? "Saving..."
+                                    : pendingConfirm.type === "transfer"
+                                      ? "Transfer ownership"
+                                      : pendingConfirm.member.user_id === currentUserId
+                                        ? "Leave project"
+                                        : "Remove member"}
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </>
+    );
+}
@@ -3,9 +3,24 @@
 import { memo, useCallback, useEffect, useMemo, useRef, useState, useTransition } from "react";
 import { usePathname, useRouter, useSearchParams } from "next/navigation";
 import { ApiKeysManager } from "./ApiKeysManager";
+import { UserAssignmentsManager } from "./UserAssignmentsManager";
+import { UserDenyRulesManager } from "./UserDenyRulesManager";
+import { AccessSimulator } from "./AccessSimulator";
+import { ApiExplorer } from "./ApiExplorer";
+import { AccessRequestsManager } from "./AccessRequestsManager";
+import { UsageAnalyticsPanel } from "./UsageAnalyticsPanel";
+import { ProjectMembersManager } from "./ProjectMembersManager";
+import { WebhooksManager } from "./WebhooksManager";
+import type { ProjectUsageAnalytics } from "@/lib/projects";
+import type { ApiKeyScope } from "@/lib/apiKeys";
+import type { ProjectInvitationRecord, ProjectMemberRecord, ProjectMemberRole } from "@/lib/projectMembers";
+import type { WebhookDeliveryRecord, WebhookEndpointRecord } from "@/lib/webhooks";
+import { findInheritanceCycle, resolveEffectivePermissions } from "@/lib/roleHierarchy";
+import { getConditionContextKeys, MAX_CONDITION_LENGTH, parseCondition } from "@/lib/conditions";
 import { BackButton } from "./BackButton";
 import { extractErrorMessage, useToast } from "@/components/feedback/ToastProvider";
 import { exportAuditLogsAction, listAuditLogsAction, type AuditLogFilterInput } from "./audit-actions";
+import { listUserRoleAssignmentsAction } from "./user-roles-actions";
 
 interface Props {
     project: {
@@ -21,8 +36,12 @@ interface Props {
         deleted_at: string | null;
     };
     apiKeys: ApiKeyItem[];
+    projectRateLimit: number | null;
     permissions: PermissionInput[];
     roles: Role[];
+    userRoleAssignments: UserRoleAssignmentItem[];
+    userPermissionDenies: UserPermissionDenyItem[];
+    accessRequests: AccessRequestItem[];
     auditLogs: AuditLogInput[];
     projectKpis: {
         total_permissions: number;
@@ -31,8 +50,19 @@ interface Props {
         total_access_grants: number;
         total_api_keys: number;
         total_usage_count: number;
+        access_checks_24h: number;
+        denied_checks_24h: number;
         last_activity_at: string | null;
     };
+    usageAnalytics: ProjectUsageAnalytics;
+    currentUserId: string;
+    memberRole: ProjectMemberRole;
+    members: ProjectMemberRecord[];
+    invitations: ProjectInvitationRecord[];
+    /** Base URL of this deployment, where the `/v1` API is served. */
+    apiBaseUrl: string;
+    webhookEndpoints: WebhookEndpointRecord[];
+    webhookDeliveries: WebhookDeliveryRecord[];
 }
 
 type Role = {
@@ -43,6 +73,9 @@ type Role = {
     description: string | null;
     is_system: boolean;
     permission_ids: string[];
+    permission_conditions: Record<string, string>;
+    denied_permission_ids: string[];
+    parent_role_ids: string[];
     created_at: string;
     updated_at: string | null;
     user_count: number;
@@ -79,19 +112,68 @@ type AuditLogInput = {
     created_at: string;
 };
 
+type UserRoleAssignmentItem = {
+    id: string;
+    role_id: string;
+    user_id: string;
+    resource_type: string | null;
+    resource_id: string | null;
+    starts_at: string | null;
+    expires_at: string | null;
+    created_at: string;
+};
+
+type UserPermissionDenyItem = {
+    id: string;
+    user_id: string;
+    permission_id: string;
+    reason: string | null;
+    created_at: string;
+};
+
+type AccessRequestItem = {
+    id: string;
+    user_id: string;
+    role_id: string | null;
+    permission_id: string | null;
+    justification: string;
+    duration_minutes: number;
+    status: "pending" | "approved" | "denied";
+    decided_at: string | null;
+    decision_note: string | null;
+    created_at: string;
+};
+
 type ApiKeyItem = {
     id: string;
     project_id: string;
     name: string;
-    status: "active" | "revoked";
+    status: "active" | "rotating" | "revoked" | "expired";
     usage_count: number;
     last_used_at: string | null;
     created_at: string;
     updated_at: string | null;
     description: string | null;
+    scopes: ApiKeyScope[];
+    allowed_permission_slugs: string[] | null;
+    allowed_cidrs: string[] | null;
+    rate_limit_per_minute: number | null;
+    expires_at: string | null;
+    replaced_by: string | null;
+    rotation_ends_at: string | null;
 };
 
-const PROJECT_TABS = ["overview", "api", "roles", "features", "audit", "integration", "settings"] as const;
+const PROJECT_TABS = [
+    "overview",
+    "api",
+    "roles",
+    "users",
+    "approvals",
+    "features",
+    "audit",
+    "integration",
+    "settings",
+] as const;
 type ProjectTab = (typeof PROJECT_TABS)[number];
 type ProjectModel = Props["project"];
 
@@ -174,10 +256,22 @@ function persistViewState(
 export default function ProjectPageClient({
                                               project,
                                               apiKeys,
+                                              projectRateLimit,
                                           permissions,
                                           roles: initialRoles,
+                                          userRoleAssignments,
+                                          userPermissionDenies,
+                                          accessRequests,
                                           auditLogs,
                                           projectKpis,
+                                          usageAnalytics,
+                                          currentUserId,
+                                          memberRole,
+                                          members,
+                                          invitations,
+                                          apiBaseUrl,
+                                          webhookEndpoints,
+                                          webhookDeliveries,
                                           }: Props) {
     const router = useRouter();
     const pathname = usePathname();
@@ -197,6 +291,33 @@ export default function ProjectPageClient({
         (initialRoles ?? []).map(normalizeRole)
     );
 
+    // Mirrors getHighRiskRoleIds on the server: a role is high-risk when it or a role it extends
+    // grants a high-risk permission.
+    const highRiskRoleIds = useMemo(() => {
+        const highRiskPermissionIds = new Set(
+            permissionsState.filter((permission) => permission.risk_level === "high").map((permission) => permission.id)
+        );
+        const parentsByRoleId = new Map(roles.map((role) => [role.id, role.parent_role_ids]));
+        const permissionIdsByRoleId = new Map(roles.map((role) => [role.id, role.permission_ids]));
+        return new Set(
+            roles
+                .filter((role) =>
+                    Array.from(resolveEffectivePermissions(role.id, parentsByRoleId, permissionIdsByRoleId).keys()).some(
+                        (permissionId) => highRiskPermissionIds.has(permissionId)
+                    )
+                )
+                .map((role) => role.id)
+        );
+    }, [permissionsState, roles]);
+
+    const handleRoleUserCountChange = useCallback((roleId: string, delta: number) => {
+        setRoles((prev) =>
+            prev.map((role) =>
+                role.id === roleId ? { ...role, user_count: Math.max(0, role.user_count + delta) } : role
+            )
+        );
+    }, []);
+
     const hasUnsavedChanges =
         rolesHasUnsavedChanges || permissionsHasUnsavedChanges || settingsHasUnsavedChanges;
 
@@ -273,6 +394,9 @@ export default function ProjectPageClient({
                         >
                             {projectState.status}
                         </span>
+                        <span className="inline-flex rounded-full border border-white/12 bg-white/[0.04] px-2.5 py-1 text-[11px] font-medium uppercase tracking-[0.12em] text-white/70">
+                            {memberRole}
+                        </span>
                     </div>
                     <p className="mt-3 text-sm text-white/40">
                         Project ID · {projectState.id}
@@ -286,6 +410,8 @@ export default function ProjectPageClient({
                         <SidebarItem id="overview" activeTab={activeTab} onTabSelect={handleTabSelect} label="Overview" />
                         <SidebarItem id="api" activeTab={activeTab} onTabSelect={handleTabSelect} label="API Keys" />
                         <SidebarItem id="roles" activeTab={activeTab} onTabSelect={handleTabSelect} label="Roles" />
+                        <SidebarItem id="users" activeTab={activeTab} onTabSelect={handleTabSelect} label="Users" />
+                        <SidebarItem id="approvals" activeTab={activeTab} onTabSelect={handleTabSelect} label="Approvals" />
                         <SidebarItem id="features" activeTab={activeTab} onTabSelect={handleTabSelect} label="Permissions" />
                         <SidebarItem id="audit" activeTab={activeTab} onTabSelect={handleTabSelect} label="Audit Log" />
                         <SidebarItem id="integration" activeTab={activeTab} onTabSelect={handleTabSelect} label="Integration" />
@@ -328,9 +454,19 @@ export default function ProjectPageClient({
                                     <div className="mt-4 grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
                                         <OverviewStatRow label="API keys" value={projectKpis.total_api_keys.toString()} />
                                         <OverviewStatRow label="Usage count" value={formattedUsage} />
+                                        <OverviewStatRow
+                                            label="Checks (24h)"
+                                            value={projectKpis.access_checks_24h.toLocaleString("en-US")}
+                                        />
+                                        <OverviewStatRow
+                                            label="Denied (24h)"
+                                            value={projectKpis.denied_checks_24h.toLocaleString("en-US")}
+                                        />
                                         <OverviewStatRow label="Last activity" value={lastActivityDisplay} />
                                     </div>
                                 </div>
+
+                                <UsageAnalyticsPanel projectId={projectState.id} initialAnalytics={usageAnalytics} />
                             </div>
                         )}
 
@@ -339,6 +475,8 @@ export default function ProjectPageClient({
                                 <ApiKeysManager
                                     projectId={projectState.id}
                                     initialKeys={apiKeys}
+                                    initialProjectRateLimit={projectRateLimit}
+                                    permissions={permissionsState}
                                 />
                             </Section>
                         )}
@@ -355,6 +493,45 @@ export default function ProjectPageClient({
                             </Section>
                         )}
 
+                        {activeTab === "users" && (
+                            <Section title="Users">
+                                <UserAssignmentsManager
+                                    projectId={projectState.id}
+                                    roles={roles}
+                                    highRiskRoleIds={highRiskRoleIds}
+                                    initialAssignments={userRoleAssignments}
+                                    onRoleUserCountChange={handleRoleUserCountChange}
+                                />
+                                <div className="mt-6">
+                                    <UserDenyRulesManager
+                                        projectId={projectState.id}
+                                        permissions={permissionsState}
+                                        initialDenies={userPermissionDenies}
+                                    />
+                                </div>
+                                <div className="mt-6">
+                                    <AccessSimulator
+                                        projectId={projectState.id}
+                                        roles={roles}
+                                        permissions={permissionsState}
+                                    />
+                                </div>
+                            </Section>
+                        )}
+
+                        {activeTab === "approvals" && (
+                            <Section title="Approvals">
+                                <AccessRequestsManager
+                                    projectId={projectState.id}
+                                    roles={roles}
+                                    permissions={permissionsState}
+                                    highRiskRoleIds={highRiskRoleIds}
+                                    initialRequests={accessRequests}
+                                    onRoleUserCountChange={handleRoleUserCountChange}
+                                />
+                            </Section>
+                        )}
+
                         {activeTab === "features" && (
                             <Section title="Permissions">
 
@@ -387,6 +564,8 @@ export default function ProjectPageClient({
                                     permissions={permissionsState}
                                     roles={roles}
                                     apiKeys={apiKeys}
+                                    apiBaseUrl={apiBaseUrl}
+                                    canSendRequests={memberRole !== "viewer"}
                                 />
                             </Section>
                         )}
@@ -397,6 +576,12 @@ export default function ProjectPageClient({
                                     project={projectState}
                                     onProjectChange={setProjectState}
                                     onHasUnsavedChangesChange={setSettingsHasUnsavedChanges}
+                                    currentUserId={currentUserId}
+                                    memberRole={memberRole}
+                                    members={members}
+                                    invitations={invitations}
+                                    webhookEndpoints={webhookEndpoints}
+                                    webhookDeliveries={webhookDeliveries}
                                 />
                             </Section>
                         )}
@@ -541,6 +726,9 @@ function normalizeRole(raw: Role): Role {
         slug: raw.slug ?? slugify(raw.name),
         description: raw.description ?? null,
         permission_ids: raw.permission_ids ?? [],
+        permission_conditions: raw.permission_conditions ?? {},
+        denied_permission_ids: raw.denied_permission_ids ?? [],
+        parent_role_ids: raw.parent_role_ids ?? [],
         updated_at: raw.updated_at ?? raw.created_at,
         user_count: raw.user_count ?? 0,
     };
@@ -823,6 +1011,9 @@ function RolesManager({
             slug: string;
             description?: string;
             permission_ids: string[];
+            permission_conditions: Record<string, string>;
+            denied_permission_ids: string[];
+            parent_role_ids: string[];
             is_system: boolean;
         }) => {
             setIsRoleSaving(true);
@@ -851,6 +1042,9 @@ function RolesManager({
                 slug: string;
                 description?: string;
                 permission_ids: string[];
+                permission_conditions: Record<string, string>;
+                denied_permission_ids: string[];
+                parent_role_ids: string[];
                 is_system: boolean;
             }
         ) => {
@@ -883,7 +1077,15 @@ function RolesManager({
             const result = await deleteRoleAction(projectId, deletingRole.id);
             if (result.ok) {
                 const id = deletingRole.id;
-                setRoles((prev) => prev.filter((item) => item.id !== id));
+                setRoles((prev) =>
+                    prev
+                        .filter((item) => item.id !== id)
+                        .map((item) =>
+                            item.parent_role_ids.includes(id)
+                                ? { ...item, parent_role_ids: item.parent_role_ids.filter((parentId) => parentId !== id) }
+                                : item
+                        )
+                );
                 if (viewingRoleId === id) {
                     setViewingRoleId(null);
                 }
@@ -909,6 +1111,9 @@ function RolesManager({
                     slug: duplicateSlug,
                     description: role.description ?? "",
                     permission_ids: role.permission_ids,
+                    permission_conditions: role.permission_conditions,
+                    denied_permission_ids: role.denied_permission_ids,
+                    parent_role_ids: role.parent_role_ids,
                     is_system: role.is_system,
                 });
                 if (result.ok) {
@@ -962,7 +1167,14 @@ function RolesManager({
             }
             const { deletedIds, skippedSystemIds, failedIds } = result.data;
             if (deletedIds.length > 0) {
-                setRoles((prev) => prev.filter((role) => !deletedIds.includes(role.id)));
+                setRoles((prev) =>
+                    prev
+                        .filter((role) => !deletedIds.includes(role.id))
+                        .map((role) => ({
+                            ...role,
+                            parent_role_ids: role.parent_role_ids.filter((id) => !deletedIds.includes(id)),
+                        }))
+                );
             }
             setSelectedRoleIds((prev) => prev.filter((id) => !deletedIds.includes(id)));
             setIsBulkDeleteOpen(false);
@@ -1087,7 +1299,9 @@ function RolesManager({
 
             {viewingRole && (
                 <RoleDetailModal
+                    projectId={projectId}
                     role={viewingRole}
+                    roles={roles}
                     permissionById={permissionById}
                     onClose={() => setViewingRoleId(null)}
                     onDuplicate={async (role) => {
@@ -1882,6 +2096,9 @@ function RoleEditorModal({
         slug: string;
         description?: string;
         permission_ids: string[];
+        permission_conditions: Record<string, string>;
+        denied_permission_ids: string[];
+        parent_role_ids: string[];
         is_system: boolean;
     }) => Promise<unknown>;
     isSaving: boolean;
@@ -1897,6 +2114,10 @@ function RoleEditorModal({
     const [selectedPermissions, setSelectedPermissions] = useState<string[]>(
         role?.permission_ids ?? []
     );
+    const [deniedPermissions, setDeniedPermissions] = useState<string[]>(role?.denied_permission_ids ?? []);
+    const [conditions, setConditions] = useState<Record<string, string>>(role?.permission_conditions ?? {});
+    const [openConditionIds, setOpenConditionIds] = useState<string[]>([]);
+    const [selectedParents, setSelectedParents] = useState<string[]>(role?.parent_role_ids ?? []);
     const [permissionSearch, setPermissionSearch] = useState("");
     const [submitted, setSubmitted] = useState(false);
     const [showDiscardPrompt, setShowDiscardPrompt] = useState(false);
@@ -1911,8 +2132,6 @@ function RoleEditorModal({
             }),
         [name, slug, roles, role?.id]
     );
-    const canSubmit = !errors.name && !errors.slug;
-
     const handleNameChange = (value: string) => {
         setName(value);
         if (!slugTouched) {
@@ -1946,18 +2165,108 @@ function RoleEditorModal({
         () => [...selectedPermissionsValid].sort(),
         [selectedPermissionsValid]
     );
+    const deniedPermissionsValid = useMemo(
+        () => deniedPermissions.filter((id) => validPermissionIdSet.has(id)),
+        [deniedPermissions, validPermissionIdSet]
+    );
+    const initialDeniedPermissions = useMemo(
+        () => (role?.denied_permission_ids ?? []).filter((id) => validPermissionIdSet.has(id)).sort(),
+        [role?.denied_permission_ids, validPermissionIdSet]
+    );
+    const currentDeniedPermissions = useMemo(() => [...deniedPermissionsValid].sort(), [deniedPermissionsValid]);
+    // Only conditions on allowed permissions are saved; the rest are kept while the form is open.
+    const activeConditions = useMemo(() => {
+        const next: Record<string, string> = {};
+        for (const id of selectedPermissionsValid) {
+            const condition = (conditions[id] ?? "").trim();
+            if (condition) next[id] = condition;
+        }
+        return next;
+    }, [conditions, selectedPermissionsValid]);
+    const conditionAnalysis = useMemo(() => {
+        const analysis = new Map<string, { error: string | null; keys: string[] }>();
+        for (const [id, condition] of Object.entries(activeConditions)) {
+            const parsed = parseCondition(condition);
+            analysis.set(
+                id,
+                parsed.ok ? { error: null, keys: getConditionContextKeys(parsed.ast) } : { error: parsed.error, keys: [] }
+            );
+        }
+        return analysis;
+    }, [activeConditions]);
+    const hasConditionErrors = Array.from(conditionAnalysis.values()).some((entry) => entry.error);
+    const canSubmit = !errors.name && !errors.slug && !hasConditionErrors;
+    const conditionsSignature = (value: Record<string, string>) =>
+        Object.keys(value)
+            .sort()
+            .map((id) => `${id}=${value[id]}`)
+            .join("|");
+    const conditionsChanged =
+        conditionsSignature(activeConditions) !== conditionsSignature(role?.permission_conditions ?? {});
     const permissionById = useMemo(
         () => new Map(availablePermissions.map((permission) => [permission.id, permission])),
         [availablePermissions]
     );
+    const roleById = useMemo(() => new Map(roles.map((item) => [item.id, item])), [roles]);
+    const parentCandidates = useMemo(() => {
+        const parentsByRoleId = new Map(roles.map((item) => [item.id, item.parent_role_ids]));
+        return roles
+            .filter((item) => item.id !== role?.id)
+            .map((item) => ({
+                role: item,
+                createsCycle: role ? findInheritanceCycle(role.id, [item.id], parentsByRoleId) !== null : false,
+            }))
+            .sort((a, b) => a.role.name.localeCompare(b.role.name));
+    }, [role, roles]);
+    const selectedParentsValid = useMemo(
+        () => selectedParents.filter((id) => roleById.has(id) && id !== role?.id),
+        [role?.id, roleById, selectedParents]
+    );
+    // Permissions this role would inherit with the selected parents, keyed to the granting roles.
+    const inheritedPermissionSources = useMemo(() => {
+        const draftId = role?.id ?? "__draft__";
+        const parentsByRoleId = new Map(roles.map((item) => [item.id, item.parent_role_ids]));
+        parentsByRoleId.set(draftId, selectedParentsValid);
+        const permissionIdsByRoleId = new Map(
+            roles.filter((item) => item.id !== draftId).map((item) => [item.id, item.permission_ids])
+        );
+        return resolveEffectivePermissions(draftId, parentsByRoleId, permissionIdsByRoleId);
+    }, [role?.id, roles, selectedParentsValid]);
+    const inheritedDenySources = useMemo(() => {
+        const draftId = role?.id ?? "__draft__";
+        const parentsByRoleId = new Map(roles.map((item) => [item.id, item.parent_role_ids]));
+        parentsByRoleId.set(draftId, selectedParentsValid);
+        const deniedIdsByRoleId = new Map(
+            roles.filter((item) => item.id !== draftId).map((item) => [item.id, item.denied_permission_ids])
+        );
+        return resolveEffectivePermissions(draftId, parentsByRoleId, deniedIdsByRoleId);
+    }, [role?.id, roles, selectedParentsValid]);
+    const initialParents = useMemo(() => [...(role?.parent_role_ids ?? [])].sort(), [role?.parent_role_ids]);
+    const currentParents = useMemo(() => [...selectedParentsValid].sort(), [selectedParentsValid]);
     const isDirty = useMemo(
         () =>
             name !== (role?.name ?? "") ||
             slug !== (role?.slug ?? "") ||
             description !== (role?.description ?? "") ||
             isSystem !== (role?.is_system ?? false) ||
-            currentSelectedPermissions.join("|") !== initialSelectedPermissions.join("|"),
-        [name, slug, description, isSystem, role, currentSelectedPermissions, initialSelectedPermissions]
+            currentParents.join("|") !== initialParents.join("|") ||
+            currentSelectedPermissions.join("|") !== initialSelectedPermissions.join("|") ||
+            currentDeniedPermissions.join("|") !== initialDeniedPermissions.join("|") ||
+            conditionsChanged,
+        [
+            name,
+            slug,
+            description,
+            isSystem,
+            role,
+            currentParents,
+            initialParents,
+            currentSelectedPermissions,
+            initialSelectedPermissions,
+            currentDeniedPermissions,
+            initialDeniedPermissions,
+            conditionsChanged,
+        ]
     );
     const roleMetadataDiff = useMemo(
         () =>
@@ -1982,8 +2291,57 @@ function RoleEditorModal({
                         after: isSystem ? "System" : "Custom",
                     }
                     : null,
+                currentParents.join("|") !== initialParents.join("|")
+                    ? {
+                        label: "Inherits from",
+                        before: initialParents.map((id) => roleById.get(id)?.name ?? id).join(", ") || "None",
+                        after: currentParents.map((id) => roleById.get(id)?.name ?? id).join(", ") || "None",
+                    }
+                    : null,
+                conditionsChanged
+                    ? {
+                        label: "Conditions",
+                        before:
+                            Object.keys(role?.permission_conditions ?? {})
+                                .map((id) => permissionById.get(id)?.name ?? id)
+                                .join(", ") || "None",
+                        after:
+                            Object.keys(activeConditions)
+                                .map((id) => permissionById.get(id)?.name ?? id)
+                                .join(", ") || "None",
+                    }
+                    : null,
+                currentDeniedPermissions.join("|") !== initialDeniedPermissions.join("|")
+                    ? {
+                        label: "Denies",
+                        before:
+                            initialDeniedPermissions.map((id) => permissionById.get(id)?.name ?? id).join(", ") ||
+                            "None",
+                        after:
+                            currentDeniedPermissions.map((id) => permissionById.get(id)?.name ?? id).join(", ") ||
+                            "None",
+                    }
+                    : null,
             ].filter(Boolean) as Array<{ label: string; before: string; after: string }>,
-        [description, isSystem, name, role?.description, role?.is_system, role?.name, role?.slug, slug]
+        [
+            activeConditions,
+            conditionsChanged,
+            currentDeniedPermissions,
+            currentParents,
+            description,
+            initialDeniedPermissions,
+            initialParents,
+            isSystem,
+            name,
+            permissionById,
+            role?.description,
+            role?.is_system,
+            role?.name,
+            role?.permission_conditions,
+            role?.slug,
+            roleById,
+            slug,
+        ]
     );
     const permissionDiff = useMemo(() => {
         const beforeSet = new Set(initialSelectedPermissions);
@@ -2010,6 +2368,29 @@ function RoleEditorModal({
                 ? prev.filter((id) => id !== permissionId)
                 : [...prev, permissionId]
         );
+        setDeniedPermissions((prev) => prev.filter((id) => id !== permissionId));
+    };
+
+    const toggleConditionEditor = (permissionId: string) => {
+        setOpenConditionIds((prev) =>
+            prev.includes(permissionId) ? prev.filter((id) => id !== permissionId) : [...prev, permissionId]
+        );
+    };
+
+    // A role cannot both allow and deny the same permission, so denying drops the allow.
+    const toggleDeny = (permissionId: string) => {
+        setDeniedPermissions((prev) =>
+            prev.includes(permissionId)
+                ? prev.filter((id) => id !== permissionId)
+                : [...prev, permissionId]
+        );
+        setSelectedPermissions((prev) => prev.filter((id) => id !== permissionId));
+    };
+
+    const toggleParent = (parentId: string) => {
+        setSelectedParents((prev) =>
+            prev.includes(parentId) ? prev.filter((id) => id !== parentId) : [...prev, parentId]
+        );
     };
 
     const handleSubmit = async (e: React.FormEvent) => {
@@ -2021,6 +2402,9 @@ function RoleEditorModal({
             slug: slug.trim(),
             description: description.trim(),
             permission_ids: selectedPermissionsValid,
+            permission_conditions: activeConditions,
+            denied_permission_ids: deniedPermissionsValid,
+            parent_role_ids: selectedParentsValid,
             is_system: isSystem,
         });
     };
@@ -2122,6 +2506,42 @@ function RoleEditorModal({
                         </div>
                     </div>
 
+                    {parentCandidates.length > 0 && (
+                        <div>
+                            <div className="mb-2 flex items-center justify-between">
+                                <label className="inline-flex items-center gap-1 text-xs uppercase tracking-[0.14em] text-white/45">
+                                    Inherits from
+                                    <InfoTip text="This role also grants every permission of the roles it extends, including the roles those extend." />
+                                </label>
+                                <span className="text-xs text-white/45">
+                                    {selectedParentsValid.length} selected
+                                </span>
+                            </div>
+                            <div className="flex max-h-32 flex-wrap gap-2 overflow-y-auto rounded-xl border border-white/10 bg-[#0a0f16] p-3">
+                                {parentCandidates.map(({ role: candidate, createsCycle }) => {
+                                    const checked = selectedParents.includes(candidate.id);
+                                    return (
+                                        <button
+                                            key={candidate.id}
+                                            type="button"
+                                            onClick={() => toggleParent(candidate.id)}
+                                            disabled={isSaving || (createsCycle && !checked)}
+                                            title={createsCycle ? `${candidate.name} already inherits from this role` : candidate.slug}
+                                            className={`rounded-full border px-3 py-1 text-xs transition disabled:cursor-not-allowed disabled:opacity-40 ${
+                                                checked
+                                                    ? "border-blue-400/40 bg-blue-500/15 text-blue-100"
+                                                    : "border-white/12 bg-white/[0.03] text-white/70 hover:border-white/25"
+                                            }`}
+                                        >
+                                            {checked ? "✓ " : ""}
+                                            {candidate.name}
+                                        </button>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    )}
+
                     <div>
                         <div className="mb-2 flex items-center justify-between">
                             <label className="text-xs uppercase tracking-[0.14em] text-white/45">
@@ -2129,6 +2549,7 @@ function RoleEditorModal({
                             </label>
                             <span className="text-xs text-white/45">
                                 {selectedPermissionsValid.length} selected
+                                {deniedPermissionsValid.length > 0 ? ` · ${deniedPermissionsValid.length} denied` : ""}
                             </span>
                         </div>
                         <input
@@ -2140,27 +2561,117 @@ function RoleEditorModal({
                         <div className="mt-3 max-h-64 space-y-2 overflow-y-auto rounded-xl border border-white/10 bg-[#0a0f16] p-3">
                             {filteredPermissions.map((permission) => {
                                 const checked = selectedPermissions.includes(permission.id);
+                                const denied = deniedPermissions.includes(permission.id);
+                                const deniedBy = (inheritedDenySources.get(permission.id) ?? []).filter(
+                                    (id) => id !== role?.id
+                                );
+                                const condition = conditions[permission.id] ?? "";
+                                const analysis = conditionAnalysis.get(permission.id);
+                                const conditionOpen = checked && (openConditionIds.includes(permission.id) || Boolean(analysis?.error));
                                 return (
-                                    <label
-                                        key={permission.id}
-                                        className="flex cursor-pointer items-start gap-3 rounded-lg border border-white/8 bg-white/[0.015] px-3 py-2.5 transition hover:border-white/20"
-                                    >
-                                        <input
-                                            type="checkbox"
-                                            checked={checked}
-                                            onChange={() => togglePermission(permission.id)}
-                                            disabled={isSaving}
-                                            className="mt-0.5 h-4 w-4 rounded border-white/20 bg-[#0a0f16] text-white focus:ring-white/20"
-                                        />
-                                        <div className="min-w-0">
-                                            <p className="truncate text-sm font-medium text-white">
-                                                {permission.name}
-                                            </p>
-                                            <p className="truncate font-mono text-xs text-white/45">
-                                                {permission.slug}
-                                            </p>
-                                        </div>
-                                    </label>
+                                    <div key={permission.id}>
+                                        <label
+                                            className={`flex cursor-pointer items-start gap-3 rounded-lg border px-3 py-2.5 transition hover:border-white/20 ${
+                                                denied ? "border-red-400/25 bg-red-500/[0.06]" : "border-white/8 bg-white/[0.015]"
+                                            }`}
+                                        >
+                                            <input
+                                                type="checkbox"
+                                                checked={checked}
+                                                onChange={() => togglePermission(permission.id)}
+                                                disabled={isSaving}
+                                                className="mt-0.5 h-4 w-4 rounded border-white/20 bg-[#0a0f16] text-white focus:ring-white/20"
+                                            />
+                                            <div className="min-w-0">
+                                                <p className="truncate text-sm font-medium text-white">
+                                                    {permission.name}
+                                                </p>
+                                                <p className="truncate font-mono text-xs text-white/45">
+                                                    {permission.slug}
+                                                </p>
+                                                {inheritedPermissionSources.has(permission.id) && (
+                                                    <p className="mt-1 text-[11px] text-blue-200/70">
+                                                        Inherited from{" "}
+                                                        {(inheritedPermissionSources.get(permission.id) ?? [])
+                                                            .map((id) => roleById.get(id)?.name ?? id)
+                                                            .join(", ")}
+                                                    </p>
+                                                )}
+                                                {deniedBy.length > 0 && (
+                                                    <p className="mt-1 text-[11px] text-red-200/75">
+                                                        Denied by {deniedBy.map((id) => roleById.get(id)?.name ?? id).join(", ")}
+                                                    </p>
+                                                )}
+                                            </div>
+                                            {checked && (
+                                                <button
+                                                    type="button"
+                                                    onClick={(e) => {
+                                                        e.preventDefault();
+                                                        toggleConditionEditor(permission.id);
+                                                    }}
+                                                    disabled={isSaving}
+                                                    title={condition.trim() || "Grant this permission only when a condition on the request context holds."}
+                                                    className={`ml-auto shrink-0 rounded-full border px-2.5 py-0.5 text-[11px] transition ${
+                                                        condition.trim()
+                                                            ? "border-amber-400/40 bg-amber-500/15 text-amber-100"
+                                                            : "border-white/12 bg-white/[0.03] text-white/50 hover:border-white/25"
+                                                    }`}
+                                                >
+                                                    {condition.trim() ? "Conditional" : "Condition"}
+                                                </button>
+                                            )}
+                                            <button
+                                                type="button"
+                                                onClick={(e) => {
+                                                    e.preventDefault();
+                                                    toggleDeny(permission.id);
+                                                }}
+                                                disabled={isSaving}
+                                                title="Denies override grants from this role, its parents and any other role the user holds."
+                                                className={`${checked ? "" : "ml-auto "}shrink-0 rounded-full border px-2.5 py-0.5 text-[11px] transition ${
+                                                    denied
+                                                        ? "border-red-400/40 bg-red-500/15 text-red-100"
+                                                        : "border-white/12 bg-white/[0.03] text-white/50 hover:border-white/25"
+                                                }`}
+                                            >
+                                                {denied ? "Denied" : "Deny"}
+                                            </button>
+                                        </label>
+                                        {conditionOpen && (
+                                            <div className="mt-1 rounded-lg border border-white/8 bg-white/[0.015] px-3 py-2.5">
+                                                <input
+                                                    value={condition}
+                                                    onChange={(e) =>
+                                                        setConditions((prev) => ({ ...prev, [permission.id]: e.target.value }))
+                                                    }
+                                                    disabled={isSaving}
+                                                    maxLength={MAX_CONDITION_LENGTH}
+                                                    placeholder="amount < 10000 && resource.tenant_id == user.tenant_id"
+                                                    className="h-9 w-full rounded-lg border border-white/10 bg-[#0a0f16] px-3 font-mono text-xs text-white placeholder:text-white/30 focus:border-white/20 focus:outline-none focus:ring-2 focus:ring-white/10"
+                                                />
+                                                {analysis?.error ? (
+                                                    <p className="mt-2 text-xs text-red-300">{analysis.error}</p>
+                                                ) : analysis && analysis.keys.length > 0 ? (
+                                                    <div className="mt-2 flex flex-wrap items-center gap-1.5">
+                                                        <span className="text-[11px] text-white/45">Reads context keys</span>
+                                                        {analysis.keys.map((key) => (
+                                                            <span
+                                                                key={key}
+                                                                className="rounded-full border border-white/12 bg-white/[0.04] px-2 py-0.5 font-mono text-[11px] text-white/75"
+                                                            >
+                                                                {key}
+                                                            </span>
+                                                        ))}
+                                                    </div>
+                                                ) : (
+                                                    <p className="mt-2 text-[11px] text-white/45">
+                                                        Leave empty to grant this permission unconditionally.
+                                                    </p>
+                                                )}
+                                            </div>
+                                        )}
+                                    </div>
                                 );
                             })}
                             {filteredPermissions.length === 0 && (
@@ -2273,7 +2784,9 @@ function RoleEditorModal({
 }
 
 function RoleDetailModal({
+    projectId,
     role,
+    roles,
     permissionById,
     onClose,
     onDuplicate,
@@ -2281,7 +2794,9 @@ function RoleDetailModal({
     onDelete,
     isBusy,
 }: {
+    projectId: string;
     role: Role;
+    roles: Role[];
     permissionById: Map<string, Permission>;
     onClose: () => void;
     onDuplicate: (role: Role) => Promise<void>;
@@ -2292,6 +2807,73 @@ function RoleDetailModal({
     const rolePermissions = role.permission_ids
         .map((id) => permissionById.get(id))
         .filter(Boolean) as Permission[];
+    const roleById = useMemo(() => new Map(roles.map((item) => [item.id, item])), [roles]);
+    const parentRoles = role.parent_role_ids
+        .map((id) => roleById.get(id))
+        .filter(Boolean) as Role[];
+    const childRoles = roles.filter((item) => item.parent_role_ids.includes(role.id));
+    const parentsByRoleId = useMemo(() => new Map(roles.map((item) => [item.id, item.parent_role_ids])), [roles]);
+    const deniedSources = useMemo(
+        () =>
+            resolveEffectivePermissions(
+                role.id,
+                parentsByRoleId,
+                new Map(roles.map((item) => [item.id, item.denied_permission_ids]))
+            ),
+        [parentsByRoleId, role.id, roles]
+    );
+    const deniedPermissions = useMemo(
+        () =>
+            Array.from(deniedSources.entries())
+                .map(([permissionId, sourceRoleIds]) => ({
+                    permission: permissionById.get(permissionId),
+                    inheritedFrom: sourceRoleIds
+                        .filter((id) => id !== role.id)
+                        .map((id) => roleById.get(id)?.name ?? id),
+                }))
+                .filter((entry): entry is typeof entry & { permission: Permission } => Boolean(entry.permission))
+                .sort((a, b) => a.permission.name.localeCompare(b.permission.name)),
+        [deniedSources, permissionById, role.id, roleById]
+    );
+    const effectivePermissions = useMemo(() => {
+        const sources = resolveEffectivePermissions(
+            role.id,
+            parentsByRoleId,
+            new Map(roles.map((item) => [item.id, item.permission_ids]))
+        );
+        return Array.from(sources.entries())
+            .map(([permissionId, sourceRoleIds]) => ({
+                permission: permissionById.get(permissionId),
+                direct: sourceRoleIds[0] === role.id,
+                denied: deniedSources.has(permissionId),
+                inheritedFrom: sourceRoleIds
+                    .filter((id) => id !== role.id)
+                    .map((id) => roleById.get(id)?.name ?? id),
+            }))
+            .filter((entry): entry is typeof entry & { permission: Permission } => Boolean(entry.permission))
+            .sort((a, b) => a.permission.name.localeCompare(b.permission.name));
+    }, [deniedSources, parentsByRoleId, permissionById, role.id, roleById, roles]);
+    const inheritedCount = effectivePermissions.filter((entry) => !entry.direct).length;
+    const overriddenCount = effectivePermissions.filter((entry) => entry.denied).length;
+    const [expiringAssignments, setExpiringAssignments] = useState<UserRoleAssignmentItem[] | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        void listUserRoleAssignmentsAction(projectId, { roleId: role.id }).then((result) => {
+            if (cancelled) return;
+            const now = Date.now();
+            setExpiringAssignments(
+                result.ok
+                    ? result.data
+                          .filter((assignment) => assignment.expires_at && Date.parse(assignment.expires_at) > now)
+                          .sort((a, b) => Date.parse(a.expires_at!) - Date.parse(b.expires_at!))
+                    : []
+            );
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [projectId, role.id]);
 
     return (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 px-4 backdrop-blur-sm">
@@ -2361,9 +2943,19 @@ function RoleDetailModal({
                             {rolePermissions.map((permission) => (
                                 <span
                                     key={permission.id}
-                                    className="inline-flex rounded-full border border-white/12 bg-white/5 px-2.5 py-1 text-xs text-white/85"
+                                    title={role.permission_conditions[permission.id]}
+                                    className={`inline-flex rounded-full border px-2.5 py-1 text-xs ${
+                                        role.permission_conditions[permission.id]
+                                            ? "border-amber-400/25 bg-amber-500/10 text-amber-100"
+                                            : "border-white/12 bg-white/5 text-white/85"
+                                    }`}
                                 >
                                     {permission.name}
+                                    {role.permission_conditions[permission.id] && (
+                                        <span className="ml-1.5 font-mono text-[11px] text-amber-200/75">
+                                            if {role.permission_conditions[permission.id]}
+                                        </span>
+                                    )}
                                 </span>
                             ))}
                             {rolePermissions.length === 0 && (
@@ -2371,6 +2963,113 @@ function RoleDetailModal({
                             )}
                         </div>
                     </div>
+                    <div className="rounded-xl border border-white/10 bg-[#0a0f16] p-4">
+                        <p className="inline-flex items-center gap-1 text-[11px] uppercase tracking-[0.14em] text-white/45">
+                            Inherits from
+                            <InfoTip text="This role grants every permission of the roles it extends, including the roles those extend." />
+                        </p>
+                        <p className="mt-2 text-sm text-white/85">
+                            {parentRoles.length > 0 ? parentRoles.map((item) => item.name).join(", ") : "No parent roles"}
+                        </p>
+                    </div>
+                    <div className="rounded-xl border border-white/10 bg-[#0a0f16] p-4">
+                        <p className="text-[11px] uppercase tracking-[0.14em] text-white/45">Extended by</p>
+                        <p className="mt-2 text-sm text-white/85">
+                            {childRoles.length > 0 ? childRoles.map((item) => item.name).join(", ") : "No roles"}
+                        </p>
+                    </div>
+                    <div className="rounded-xl border border-white/10 bg-[#0a0f16] p-4 sm:col-span-2">
+                        <div className="flex items-center justify-between gap-3">
+                            <p className="text-[11px] uppercase tracking-[0.14em] text-white/45">Effective permissions</p>
+                            <span className="text-xs text-white/45">
+                                {effectivePermissions.length} total · {inheritedCount} inherited
+                                {overriddenCount > 0 ? ` · ${overriddenCount} denied` : ""}
+                            </span>
+                        </div>
+                        <div className="mt-3 max-h-48 space-y-1.5 overflow-y-auto">
+                            {effectivePermissions.map((entry) => (
+                                <div
+                                    key={entry.permission.id}
+                                    className="flex items-center justify-between gap-3 rounded-lg border border-white/8 bg-white/[0.02] px-3 py-1.5 text-xs"
+                                >
+                                    <span
+                                        className={`truncate ${entry.denied ? "text-white/45 line-through" : "text-white/85"}`}
+                                    >
+                                        {entry.permission.name}
+                                    </span>
+                                    <span
+                                        className={`shrink-0 ${
+                                            entry.denied ? "text-red-200/75" : entry.direct ? "text-white/45" : "text-blue-200/75"
+                                        }`}
+                                    >
+                                        {entry.denied
+                                            ? "Denied"
+                                            : entry.direct
+                                              ? entry.inheritedFrom.length > 0
+                                                  ? `Direct · also via ${entry.inheritedFrom.join(", ")}`
+                                                  : "Direct"
+                                              : `Via ${entry.inheritedFrom.join(", ")}`}
+                                    </span>
+                                </div>
+                            ))}
+                            {effectivePermissions.length === 0 && (
+                                <span className="text-xs text-white/45">This role grants no permissions</span>
+                            )}
+                        </div>
+                    </div>
+                    <div className="rounded-xl border border-white/10 bg-[#0a0f16] p-4 sm:col-span-2">
+                        <p className="inline-flex items-center gap-1 text-[11px] uppercase tracking-[0.14em] text-white/45">
+                            Denied permissions
+                            <InfoTip text="Denies override grants. A user holding this role is refused these permissions even if another role grants them." />
+                        </p>
+                        <div className="mt-3 flex flex-wrap gap-2">
+                            {deniedPermissions.map((entry) => (
+                                <span
+                                    key={entry.permission.id}
+                                    title={entry.inheritedFrom.length > 0 ? `Via ${entry.inheritedFrom.join(", ")}` : undefined}
+                                    className="inline-flex rounded-full border border-red-400/20 bg-red-500/10 px-2.5 py-1 text-xs text-red-100"
+                                >
+                                    {entry.permission.name}
+                                    {entry.inheritedFrom.length > 0 && deniedSources.get(entry.permission.id)?.[0] !== role.id
+                                        ? " (inherited)"
+                                        : ""}
+                                </span>
+                            ))}
+                            {deniedPermissions.length === 0 && (
+                                <span className="text-xs text-white/45">No permissions denied</span>
+                            )}
+                        </div>
+                    </div>
+                    <div className="rounded-xl border border-white/10 bg-[#0a0f16] p-4 sm:col-span-2">
+                        <p className="inline-flex items-center gap-1 text-[11px] uppercase tracking-[0.14em] text-white/45">
+                            Upcoming expirations
+                            <InfoTip text="Time-bound assignments of this role. Access stops at the expiry time and the assignment is removed." />
+                        </p>
+                        <div className="mt-3 max-h-40 space-y-1.5 overflow-y-auto">
+                            {expiringAssignments === null ? (
+                                <span className="text-xs text-white/45">Loading assignments...</span>
+                            ) : expiringAssignments.length === 0 ? (
+                                <span className="text-xs text-white/45">No assignments of this role expire</span>
+                            ) : (
+                                expiringAssignments.map((assignment) => (
+                                    <div
+                                        key={assignment.id}
+                                        className="flex items-center justify-between gap-3 rounded-lg border border-white/8 bg-white/[0.02] px-3 py-1.5 text-xs"
+                                    >
+                                        <span className="truncate font-mono text-white/85">
+                                            {assignment.user_id}
+                                            {assignment.resource_type
+                                                ? ` on ${assignment.resource_type}:${assignment.resource_id}`
+                                                : ""}
+                                        </span>
+                                        <span className="shrink-0 text-amber-200/80">
+                                            Expires {formatDateTimeDisplay(assignment.expires_at)}
+                                        </span>
+                                    </div>
+                                ))
+                            )}
+                        </div>
+                    </div>
                 </div>
 
                 <div className="mt-6 flex justify-end gap-3 border-t border-white/10 pt-5">
@@ -4226,12 +4925,12 @@ function AuditLogTimeline({
         const persisted = readPersistedViewState(projectId, "audit", viewDefaults);
         setQueryInput(persisted.query ?? "");
         setEntityFilter(
-            ["all", "permission", "role", "api_key", "project"].includes(persisted.entity)
+            ["all", "permission", "role", "user_role", "user_deny", "access_request", "api_key", "webhook", "project", "project_member"].includes(persisted.entity)
                 ? persisted.entity
                 : "all"
         );
         setActionFilter(
-            ["all", "created", "updated", "deleted", "granted", "revoked"].includes(persisted.action)
+            ["all", "created", "updated", "deleted", "granted", "revoked", "denied"].includes(persisted.action)
                 ? persisted.action
                 : "all"
         );
@@ -4396,8 +5095,9 @@ function AuditLogTimeline({
         if (action === "deleted") return "Deleted";
         if (action === "enabled") return "Enabled";
         if (action === "disabled") return "Disabled";
-        if (action === "granted") return "Enabled";
-        if (action === "revoked") return "Disabled";
+        if (action === "granted") return "Granted";
+        if (action === "revoked") return "Revoked";
+        if (action === "denied") return "Denied";
         return action;
     };
 
@@ -4405,7 +5105,7 @@ function AuditLogTimeline({
         if (action === "created" || action === "enabled" || action === "granted") {
             return "border-emerald-400/20 bg-emerald-500/10 text-emerald-200";
         }
-        if (action === "deleted" || action === "disabled" || action === "revoked") {
+        if (action === "deleted" || action === "disabled" || action === "revoked" || action === "denied") {
             return "border-red-400/20 bg-red-500/10 text-red-200";
         }
         return "border-white/10 bg-white/5 text-white/70";
@@ -4415,7 +5115,7 @@ function AuditLogTimeline({
         if (action === "created" || action === "enabled" || action === "granted") {
             return "bg-emerald-300";
         }
-        if (action === "deleted" || action === "disabled" || action === "revoked") {
+        if (action === "deleted" || action === "disabled" || action === "revoked" || action === "denied") {
             return "bg-red-300";
         }
         return "bg-white/40";
@@ -4424,8 +5124,13 @@ function AuditLogTimeline({
     const entityLabel = (entityType: string) => {
         if (entityType === "permission") return "Permission";
         if (entityType === "role") return "Role";
+        if (entityType === "user_role") return "User role";
+        if (entityType === "user_deny") return "User deny rule";
+        if (entityType === "access_request") return "Access request";
         if (entityType === "api_key") return "API key";
+        if (entityType === "webhook") return "Webhook";
         if (entityType === "project") return "Project";
+        if (entityType === "project_member") return "Member";
         return entityType;
     };
 
@@ -4437,6 +5142,62 @@ function AuditLogTimeline({
             getMetaString(log, "slug") ??
             (log.entity_type === "api_key" ? "API key" : entity.toLowerCase());
 
+        if (log.entity_type === "user_role") {
+            const subject = getMetaString(log, "user_id") ?? "user";
+            const roleName = getMetaString(log, "role_name") ?? getMetaString(log, "role_slug") ?? "role";
+            const resourceType = getMetaString(log, "resource_type");
+            const scope = resourceType ? ` on ${resourceType}:${getMetaString(log, "resource_id") ?? "?"}` : "";
+            if (getMetaString(log, "event") === "assignment_expired") {
+                return `Role "${roleName}"${scope} expired for "${subject}"`;
+            }
+            return variant === "revoked"
+                ? `Role "${roleName}"${scope} removed from "${subject}"`
+                : `Role "${roleName}"${scope} assigned to "${subject}"`;
+        }
+        if (log.entity_type === "user_deny") {
+            const subject = getMetaString(log, "user_id") ?? "user";
+            const permissionName =
+                getMetaString(log, "permission_name") ?? getMetaString(log, "permission_slug") ?? "permission";
+            return variant === "revoked"
+                ? `Deny of "${permissionName}" lifted for "${subject}"`
+                : `"${permissionName}" denied for "${subject}"`;
+        }
+        if (log.entity_type === "access_request") {
+            const subject = getMetaString(log, "user_id") ?? "user";
+            const target =
+                getMetaString(log, "permission_name") ??
+                getMetaString(log, "role_name") ??
+                getMetaString(log, "permission_slug") ??
+                getMetaString(log, "role_slug") ??
+                "access";
+            const event = getMetaString(log, "event");
+            if (event === "access_request_approved") return `Access request by "${subject}" for "${target}" approved`;
+            if (event === "access_request_denied") return `Access request by "${subject}" for "${target}" denied`;
+            return `"${subject}" requested "${target}"`;
+        }
+        if (log.entity_type === "project_member") {
+            const subject = getMetaString(log, "email") ?? getMetaString(log, "member_user_id") ?? "member";
+            const event = getMetaString(log, "event");
+            if (event === "project_member_invited") return `"${subject}" invited`;
+            if (event === "project_invitation_revoked") return `Invitation for "${subject}" revoked`;
+            if (event === "project_invitation_resent") return `Invitation for "${subject}" resent`;
+            if (event === "project_invitation_declined") return `"${subject}" declined the invitation`;
+            if (event === "project_member_joined") return `"${subject}" joined the project`;
+            if (event === "project_member_left") return `"${subject}" left the project`;
+            if (event === "project_member_removed") return `"${subject}" removed from the project`;
+            return `Member "${subject}" ${actionLabel(variant).toLowerCase()}`;
+        }
+        if (log.entity_type === "webhook") {
+            const url = getMetaString(log, "url") ?? "endpoint";
+            if (getMetaString(log, "event") === "webhook_secret_viewed") return "Webhook signing secret viewed";
+            return `Webhook "${url}" ${actionLabel(variant).toLowerCase()}`;
+        }
+        if (log.entity_type === "api_key" && getMetaString(log, "event") === "api_key_ip_denied") {
+            return `API key "${name}" blocked by IP allow-list`;
+        }
+        if (log.entity_type === "api_key" && getMetaString(log, "event") === "api_key_expired") {
+            return `API key "${name}" expired`;
+        }
         if (log.entity_type === "permission" && variant === "enabled") {
             return `Permission "${name}" enabled`;
         }
@@ -4454,11 +5215,70 @@ function AuditLogTimeline({
 
         if (event === "api_key_rotated") return "Credentials rotated for this project.";
         if (event === "api_key_generated") return "New credentials generated for this project.";
+        if (event === "api_key_access_updated") return "Scopes and permission access were updated.";
+        if (event === "api_key_rotation_started") return "Replaced by a new key. The old value stays valid during the grace period.";
+        if (event === "api_key_rotation_completed") {
+            return getMetaString(log, "trigger") === "manual"
+                ? "Old key value revoked before the grace period ended."
+                : "Grace period ended. The old key value no longer authenticates.";
+        }
+        if (event === "api_key_ip_denied") {
+            return `Request rejected from ${getMetaString(log, "source_ip") ?? "an unknown address"}.`;
+        }
+        if (event === "api_key_expired") return "Key reached its expiration date and can no longer authenticate.";
+        if (event === "access_request_created") {
+            const minutes = getMetaNumber(log, "duration_minutes");
+            const justification = getMetaString(log, "justification");
+            return `${minutes !== null ? `For ${minutes} minutes. ` : ""}${justification ? `Justification: ${justification}` : ""}`.trim();
+        }
+        if (event === "access_request_approved") {
+            const roleName = getMetaString(log, "role_name") ?? "role";
+            const expiresAt = getMetaString(log, "expires_at");
+            return `Granted through "${roleName}"${expiresAt ? ` until ${formatDateTimeDisplay(expiresAt)}` : ""}.`;
+        }
+        if (event === "access_request_denied") {
+            const note = getMetaString(log, "note");
+            return note ? `Note: ${note}` : "Request was denied.";
+        }
+        if (event === "assignment_expired") return "Assignment reached its expiry time and was removed.";
+        if (event === "user_role_assigned" && getMetaString(log, "expires_at")) {
+            return `Expires ${formatDateTimeDisplay(getMetaString(log, "expires_at"))}.`;
+        }
+        if (event === "user_permission_denied") {
+            const reason = getMetaString(log, "reason");
+            return reason ? `Reason: ${reason}` : "Overrides every role the user holds.";
+        }
         if (event === "project_settings_updated") return "Project metadata was updated.";
-        if (event === "project_owner_changed") return "Project ownership was updated.";
+        if (event === "project_owner_changed") {
+            const owner = getMetaString(log, "email");
+            return owner ? `Ownership transferred to ${owner}.` : "Project ownership was updated.";
+        }
+        if (event === "project_member_invited" && log.metadata?.email_sent === false) {
+            return `Role: ${getMetaString(log, "role") ?? "viewer"}. The invitation email could not be sent.`;
+        }
+        if (event === "project_member_invited" || event === "project_member_joined") {
+            return `Role: ${getMetaString(log, "role") ?? "viewer"}.`;
+        }
+        if (event === "project_invitation_resent") {
+            const expiresAt = getMetaString(log, "expires_at");
+            return expiresAt ? `New link valid until ${formatDateDisplay(expiresAt)}.` : "A new invitation link was sent.";
+        }
+        if (event === "project_member_role_changed") {
+            return `Role changed from ${getMetaString(log, "previous_role") ?? "unknown"} to ${getMetaString(log, "role") ?? "unknown"}.`;
+        }
+        if (event === "project_rate_limit_updated") {
+            const limit = getMetaNumber(log, "rate_limit_per_minute");
+            return limit === null
+                ? "API rate limit reset to the default."
+                : `API rate limit set to ${limit.toLocaleString("en-US")} requests per minute.`;
+        }
         if (event === "project_archived") return "Project was moved to archived state.";
         if (event === "project_restored") return "Project was restored to active state.";
         if (event === "project_deleted") return "Project was marked as deleted.";
+        const deniedCount = getMetaNumber(log, "denied_permission_count");
+        if (permissionCount !== null && deniedCount) {
+            return `${permissionCount} permission${permissionCount === 1 ? "" : "s"} linked, ${deniedCount} denied.`;
+        }
         if (permissionCount !== null) {
             return `${permissionCount} permission${permissionCount === 1 ? "" : "s"} linked.`;
         }
@@ -4520,7 +5340,12 @@ function AuditLogTimeline({
                             <option value="all">All entities</option>
                             <option value="permission">Permission</option>
                             <option value="role">Role</option>
+                            <option value="user_role">User role</option>
+                            <option value="user_deny">User deny rule</option>
+                            <option value="access_request">Access request</option>
                             <option value="api_key">API key</option>
+                            <option value="webhook">Webhook</option>
+                            <option value="project_member">Member</option>
                             <option value="project">Project</option>
                         </select>
                     </label>
@@ -4537,6 +5362,7 @@ function AuditLogTimeline({
                             <option value="deleted">Deleted</option>
                             <option value="granted">Granted</option>
                             <option value="revoked">Revoked</option>
+                            <option value="denied">Denied</option>
                         </select>
                     </label>
                     <label>
@@ -4756,11 +5582,15 @@ function IntegrationGuide({
     permissions,
     roles,
     apiKeys,
+    apiBaseUrl,
+    canSendRequests,
 }: {
     project: ProjectModel;
     permissions: Permission[];
     roles: Role[];
     apiKeys: ApiKeyItem[];
+    apiBaseUrl: string;
+    canSendRequests: boolean;
 }) {
     const toast = useToast();
     const enabledPermission = permissions.find((permission) => permission.enabled) ?? permissions[0];
@@ -4768,7 +5598,8 @@ function IntegrationGuide({
     const activeKeyCount = apiKeys.filter((key) => key.status === "active").length;
     const resourceSlug = enabledPermission?.slug ?? "feature.read";
     const roleSlug = roleExample?.slug ?? "member";
-    const endpoint = `https://api.yourapp.com/v1/projects/${project.slug}/access/check`;
+    const endpoint = `${apiBaseUrl}/v1/projects/${project.slug}/access/check`;
+    const openApiUrl = `${apiBaseUrl}/v1/openapi.json`;
 
     const curlSnippet = `curl -X POST "${endpoint}" \\
   -H "Authorization: Bearer YOUR_API_KEY" \\
@@ -4795,33 +5626,68 @@ function IntegrationGuide({
 const result = await response.json();
 console.log(result);`;
 
-    const tsSnippet = `type AccessCheckRequest = {
-  user_id: string;
-  resource: string;
-  role?: string;
-};
+    const tsSnippet = `import { AccessClient } from "@access-dashboard/sdk";
 
-type AccessCheckResponse = {
-  allowed: boolean;
-  reason?: string;
-};
+const access = new AccessClient({
+  apiKey: process.env.ACCESS_API_KEY!,
+  projectSlug: "${project.slug}",
+  baseUrl: "${apiBaseUrl}",
+});
 
-const payload: AccessCheckRequest = {
+const { allowed, reason } = await access.check({
   user_id: "user_123",
   resource: "${resourceSlug}",
   role: "${roleSlug}",
-};
+  // Optional: also count roles granted on this resource instance only.
+  // resource_type: "document",
+  // resource_id: "42",
+});`;
 
-const res = await fetch("${endpoint}", {
-  method: "POST",
-  headers: {
-    Authorization: "Bearer YOUR_API_KEY",
-    "Content-Type": "application/json",
-  },
-  body: JSON.stringify(payload),
+    const clientSetup = `import { AccessClient } from "@access-dashboard/sdk";
+
+const access = new AccessClient({
+  apiKey: process.env.ACCESS_API_KEY!,
+  projectSlug: "${project.slug}",
+  baseUrl: "${apiBaseUrl}",
+});`;
+
+    const expressSnippet = `${clientSetup.replace("{ AccessClient }", "{ AccessClient, createRequirePermission }")}
+
+// Unauthenticated requests get 401, denied ones 403 with { ok, error, permission, reason }.
+const requirePermission = createRequirePermission(access, {
+  resolveUserId: (req) => req.user?.id,
+});
+
+// Express
+app.post("/items/:id", requirePermission("${resourceSlug}"), handler);
+
+// Fastify
+fastify.post("/items/:id", { preHandler: requirePermission("${resourceSlug}") }, handler);`;
+
+    const routeHandlerSnippet = `${clientSetup.replace("{ AccessClient }", "{ AccessClient, createWithPermission }")}
+
+const withPermission = createWithPermission(access, {
+  resolveUserId: async () => (await getSession())?.userId,
+});
+
+// app/api/items/route.ts
+export const POST = withPermission("${resourceSlug}", async (request) => {
+  return Response.json({ ok: true });
+});`;
+
+    const serverActionSnippet = `// app/items/actions.ts
+"use server";
+
+${clientSetup.replace("{ AccessClient }", "{ AccessClient, createWithActionPermission }")}
+
+const withActionPermission = createWithActionPermission(access, {
+  resolveUserId: async () => (await getSession())?.userId,
 });
 
-const data: AccessCheckResponse = await res.json();`;
+// Denied calls resolve to { ok: false, error, permission, reason } instead of running the action.
+export const updateItem = withActionPermission("${resourceSlug}", async (itemId: string) => {
+  return { ok: true as const };
+});`;
 
     const copyText = async (value: string, label: string) => {
         await navigator.clipboard.writeText(value);
@@ -4902,6 +5768,27 @@ const data: AccessCheckResponse = await res.json();`;
                 <IntegrationSnippetCard title="JavaScript" code={jsSnippet} onCopy={() => void copyText(jsSnippet, "JavaScript snippet")} />
                 <IntegrationSnippetCard title="TypeScript" code={tsSnippet} onCopy={() => void copyText(tsSnippet, "TypeScript snippet")} />
             </div>
+
+            <ApiExplorer
+                projectId={project.id}
+                openApiUrl={openApiUrl}
+                apiKeys={apiKeys}
+                permissions={permissions}
+                canSend={canSendRequests}
+            />
+
+            <div>
+                <p className="text-[11px] uppercase tracking-[0.14em] text-white/45">Permission guards</p>
+                <p className="mt-1 text-sm text-white/55">
+                    Enforce <span className="font-mono">{resourceSlug}</span> in your own handlers. Failed checks are
+                    rejected, never let through.
+                </p>
+            </div>
+            <div className="grid gap-4 xl:grid-cols-3">
+                <IntegrationSnippetCard title="Express / Fastify" code={expressSnippet} onCopy={() => void copyText(expressSnippet, "Express snippet")} />
+                <IntegrationSnippetCard title="Next.js Route Handler" code={routeHandlerSnippet} onCopy={() => void copyText(routeHandlerSnippet, "Route Handler snippet")} />
+                <IntegrationSnippetCard title="Next.js Server Action" code={serverActionSnippet} onCopy={() => void copyText(serverActionSnippet, "Server Action snippet")} />
+            </div>
         </div>
     );
 }
@@ -5055,6 +5942,11 @@ function ConfigImportPreviewModal({
                                                 {item.missingPermissionSlugs.length > 4 ? "..." : ""}
                                             </p>
                                         )}
+                                        {item.missingParentSlugs.length > 0 && (
+                                            <p className="mt-2 text-amber-100/80">
+                                                Missing parent roles: {item.missingParentSlugs.join(", ")}
+                                            </p>
+                                        )}
                                         {item.reason && <p className="mt-2 text-white/45">{item.reason}</p>}
                                     </div>
                                 ))
@@ -5187,10 +6079,22 @@ function ProjectSettingsManager({
     project,
     onProjectChange,
     onHasUnsavedChangesChange,
+    currentUserId,
+    memberRole,
+    members,
+    invitations,
+    webhookEndpoints,
+    webhookDeliveries,
 }: {
     project: ProjectModel;
     onProjectChange: (project: ProjectModel) => void;
     onHasUnsavedChangesChange: (value: boolean) => void;
+    currentUserId: string;
+    memberRole: ProjectMemberRole;
+    members: ProjectMemberRecord[];
+    invitations: ProjectInvitationRecord[];
+    webhookEndpoints: WebhookEndpointRecord[];
+    webhookDeliveries: WebhookDeliveryRecord[];
 }) {
     const router = useRouter();
     const toast = useToast();
@@ -5494,6 +6398,21 @@ function ProjectSettingsManager({
                     </div>
                 </div>
 
+                <ProjectMembersManager
+                    projectId={project.id}
+                    currentUserId={currentUserId}
+                    currentRole={memberRole}
+                    initialMembers={members}
+                    initialInvitations={invitations}
+                />
+
+                <WebhooksManager
+                    projectId={project.id}
+                    canManage={memberRole === "admin" || memberRole === "owner"}
+                    initialEndpoints={webhookEndpoints}
+                    initialDeliveries={webhookDeliveries}
+                />
+
                 <div className="rounded-2xl border border-white/8 bg-gradient-to-b from-[#121823] to-[#0f141d] p-6">
                     <h3 className="text-base font-semibold text-white">Configuration import/export</h3>
                     <p className="mt-1 text-sm text-white/55">
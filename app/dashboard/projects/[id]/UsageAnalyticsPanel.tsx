@@ -0,0 +1,237 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { ProjectUsageAnalytics, UsageAnalyticsRange } from "@/lib/projects";
+import { getUsageAnalyticsAction } from "./analytics-actions";
+import { extractErrorMessage, useToast } from "@/components/feedback/ToastProvider";
+
+const RANGE_OPTIONS: Array<{ value: UsageAnalyticsRange; label: string }> = [
+    { value: "24h", label: "24h" },
+    { value: "7d", label: "7d" },
+    { value: "30d", label: "30d" },
+];
+
+function formatCount(value: number) {
+    return value.toLocaleString("en-US");
+}
+
+function formatRate(value: number) {
+    return `${(value * 100).toFixed(value > 0 && value < 0.1 ? 1 : 0)}%`;
+}
+
+function formatBucketLabel(value: string, granularity: ProjectUsageAnalytics["granularity"]) {
+    const date = new Date(value);
+    if (granularity === "hour") {
+        return date.toLocaleTimeString("en-US", { hour: "2-digit", minute: "2-digit" });
+    }
+    return date.toLocaleDateString("en-US", { month: "short", day: "2-digit" });
+}
+
+export function UsageAnalyticsPanel({
+    projectId,
+    initialAnalytics,
+}: {
+    projectId: string;
+    initialAnalytics: ProjectUsageAnalytics;
+}) {
+    const toast = useToast();
+    const [analytics, setAnalytics] = useState<ProjectUsageAnalytics>(initialAnalytics);
+    const [isLoading, setIsLoading] = useState(false);
+
+    useEffect(() => {
+        setAnalytics(initialAnalytics);
+    }, [initialAnalytics]);
+
+    const selectRange = async (range: UsageAnalyticsRange) => {
+        if (range === analytics.range || isLoading) return;
+        setIsLoading(true);
+        try {
+            const result = await getUsageAnalyticsAction(projectId, range);
+            if (!result.ok) {
+                toast.error(result.error || "Failed to load usage analytics.");
+                return;
+            }
+            setAnalytics(result.data);
+        } catch (error) {
+            toast.error(extractErrorMessage(error, "Failed to load usage analytics."));
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const maxChecks = Math.max(1, ...analytics.series.map((bucket) => bucket.allowed + bucket.denied));
+    const hasTraffic = analytics.totals.checks > 0;
+
+    return (
+        <div className="rounded-2xl border border-white/8 bg-[#111722] p-5">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <p className="text-[11px] uppercase tracking-[0.14em] text-white/45">Access Checks</p>
+                <div className="inline-flex rounded-lg border border-white/10 bg-[#0a0f16] p-1">
+                    {RANGE_OPTIONS.map((option) => (
+                        <button
+                            key={option.value}
+                            type="button"
+                            onClick={() => void selectRange(option.value)}
+                            disabled={isLoading}
+                            className={`rounded-md px-3 py-1 text-xs transition ${
+                                analytics.range === option.value
+                                    ? "bg-white/10 text-white"
+                                    : "text-white/50 hover:text-white"
+                            }`}
+                        >
+                            {option.label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <div className="mt-4 grid gap-3 sm:grid-cols-3">
+                <AnalyticsStat label="Checks" value={formatCount(analytics.totals.checks)} />
+                <AnalyticsStat label="Denied" value={formatCount(analytics.totals.denied)} />
+                <AnalyticsStat label="Deny rate" value={formatRate(analytics.totals.deny_rate)} />
+            </div>
+
+            <div className={`mt-4 rounded-xl border border-white/10 bg-[#0a0f16] p-4 ${isLoading ? "opacity-60" : ""}`}>
+                {hasTraffic ? (
+                    <>
+                        <div className="flex h-40 items-end gap-[2px]">
+                            {analytics.series.map((bucket) => {
+                                const total = bucket.allowed + bucket.denied;
+                                const denyRate = total > 0 ? bucket.denied / total : 0;
+                                return (
+                                    <div
+                                        key={bucket.bucket_start}
+                                        className="flex h-full min-w-0 flex-1 flex-col justify-end"
+                                        title={`${formatBucketLabel(bucket.bucket_start, analytics.granularity)} · ${formatCount(total)} checks · ${formatRate(denyRate)} denied`}
+                                    >
+                                        <div
+                                            className="w-full rounded-t-sm bg-red-400/70"
+                                            style={{ height: `${(bucket.denied / maxChecks) * 100}%` }}
+                                        />
+                                        <div
+                                            className="w-full bg-emerald-400/60"
+                                            style={{ height: `${(bucket.allowed / maxChecks) * 100}%` }}
+                                        />
+                                    </div>
+                                );
+                            })}
+                        </div>
+                        <div className="mt-2 flex justify-between text-[11px] text-white/40">
+                            <span>{formatBucketLabel(analytics.series[0]?.bucket_start ?? "", analytics.granularity)}</span>
+                            <span className="flex items-center gap-3">
+                                <span className="flex items-center gap-1">
+                                    <span className="h-2 w-2 rounded-sm bg-emerald-400/60" /> Allowed
+                                </span>
+                                <span className="flex items-center gap-1">
+                                    <span className="h-2 w-2 rounded-sm bg-red-400/70" /> Denied
+                                </span>
+                            </span>
+                            <span>
+                                {formatBucketLabel(
+                                    analytics.series[analytics.series.length - 1]?.bucket_start ?? "",
+                                    analytics.granularity
+                                )}
+                            </span>
+                        </div>
+                        <p className="mt-4 text-[11px] uppercase tracking-[0.13em] text-white/45">Deny rate</p>
+                        <div className="mt-2 flex h-12 items-end gap-[2px]">
+                            {analytics.series.map((bucket) => {
+                                const total = bucket.allowed + bucket.denied;
+                                const denyRate = total > 0 ? bucket.denied / total : 0;
+                                return (
+                                    <div
+                                        key={bucket.bucket_start}
+                                        className="flex h-full min-w-0 flex-1 flex-col justify-end"
+                                        title={`${formatBucketLabel(bucket.bucket_start, analytics.granularity)} · ${formatRate(denyRate)} denied`}
+                                    >
+                                        <div
+                                            className="w-full rounded-t-sm bg-amber-300/60"
+                                            style={{ height: `${denyRate * 100}%` }}
+                                        />
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </>
+                ) : (
+                    <p className="py-10 text-center text-sm text-white/45">
+                        No access checks recorded in this range.
+                    </p>
+                )}
+            </div>
+
+            <div className="mt-4 grid gap-3 lg:grid-cols-3">
+                <AnalyticsTopList
+                    title="Top permissions"
+                    emptyLabel="No permissions checked."
+                    items={analytics.top_permissions.map((item) => ({
+                        key: item.permission_id,
+                        label: item.slug ?? "Deleted permission",
+                        value: formatCount(item.checks),
+                        hint: `${formatRate(item.checks > 0 ? item.denied / item.checks : 0)} denied`,
+                    }))}
+                />
+                <AnalyticsTopList
+                    title="Top API keys"
+                    emptyLabel="No API key traffic."
+                    items={analytics.top_api_keys.map((item) => ({
+                        key: item.api_key_id,
+                        label: item.name ?? "Deleted key",
+                        value: formatCount(item.checks),
+                        hint: `${formatCount(item.denied)} denied`,
+                    }))}
+                />
+                <AnalyticsTopList
+                    title="Top denied users"
+                    emptyLabel="No denied users."
+                    items={analytics.top_denied_users.map((item) => ({
+                        key: item.user_id,
+                        label: item.user_id,
+                        value: formatCount(item.denied),
+                        hint: `${item.permission_count} ${item.permission_count === 1 ? "permission" : "permissions"}`,
+                    }))}
+                />
+            </div>
+        </div>
+    );
+}
+
+function AnalyticsStat({ label, value }: { label: string; value: string }) {
+    return (
+        <div className="rounded-xl border border-white/10 bg-[#0a0f16] px-4 py-3">
+            <p className="text-[11px] uppercase tracking-[0.13em] text-white/45">{label}</p>
+            <p className="mt-1 text-base font-medium text-white/90">{value}</p>
+        </div>
+    );
+}
+
+function AnalyticsTopList({
+    title,
+    emptyLabel,
+    items,
+}: {
+    title: string;
+    emptyLabel: string;
+    items: Array<{ key: string; label: string; value: string; hint: string }>;
+}) {
+    return (
+        <div className="rounded-xl border border-white/10 bg-[#0a0f16] p-4">
+            <p className="text-[11px] uppercase tracking-[0.13em] text-white/45">{title}</p>
+            {items.length === 0 ? (
+                <p className="mt-3 text-xs text-white/45">{emptyLabel}</p>
+            ) : (
+                <ul className="mt-3 space-y-2">
+                    {items.map((item) => (
+                        <li key={item.key} className="flex items-center justify-between gap-3 text-sm">
+                            <span className="min-w-0">
+                                <span className="block truncate font-mono text-xs text-white/85">{item.label}</span>
+                                <span className="block text-[11px] text-white/45">{item.hint}</span>
+                            </span>
+                            <span className="shrink-0 text-white/80">{item.value}</span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
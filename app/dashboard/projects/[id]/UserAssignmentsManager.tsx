@@ -0,0 +1,653 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+    assignUserRoleAction,
+    bulkImportUserRolesAction,
+    listUserRoleAssignmentsAction,
+    type UserRoleImportEntry,
+    unassignUserRoleAction,
+} from "./user-roles-actions";
+import { extractErrorMessage, useToast } from "@/components/feedback/ToastProvider";
+import { isAssignmentActive, MAX_HIGH_RISK_ASSIGNMENT_HOURS, resolveAssignmentWindow } from "@/lib/assignmentWindow";
+
+type AssignmentItem = {
+    id: string;
+    role_id: string;
+    user_id: string;
+    resource_type: string | null;
+    resource_id: string | null;
+    starts_at: string | null;
+    expires_at: string | null;
+    created_at: string;
+};
+
+type ScopeFilter = "" | "project" | "resource";
+
+type RoleOption = {
+    id: string;
+    name: string;
+    slug: string;
+};
+
+type BusyState =
+    | { type: "assign"; id: null }
+    | { type: "import"; id: null }
+    | { type: "remove"; id: string }
+    | null;
+
+function formatDateTime(value: string | null) {
+    if (!value) return "Never";
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) return "Never";
+    return date.toLocaleString(undefined, {
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+        hour: "2-digit",
+        minute: "2-digit",
+    });
+}
+
+function formatScope(assignment: Pick<AssignmentItem, "resource_type" | "resource_id">) {
+    return assignment.resource_type ? `${assignment.resource_type}:${assignment.resource_id}` : null;
+}
+
+/** `datetime-local` inputs hold local time without a zone; the server expects ISO timestamps. */
+function toIsoTimestamp(value: string) {
+    if (!value) return null;
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? value : date.toISOString();
+}
+
+function parseImportText(text: string): UserRoleImportEntry[] {
+    return text
+        .split(/\r?\n/)
+        .map((line) => line.trim())
+        .filter((line) => line.length > 0 && !line.startsWith("#"))
+        .map((line) => {
+            const [userId = "", roleSlug = "", resourceType = "", resourceId = ""] = line
+                .split(/[,;\t]/)
+                .map((part) => part.trim());
+            return { user_id: userId, role_slug: roleSlug, resource_type: resourceType, resource_id: resourceId };
+        });
+}
+
+export function UserAssignmentsManager({
+    projectId,
+    roles,
+    highRiskRoleIds,
+    initialAssignments,
+    onRoleUserCountChange,
+}: {
+    projectId: string;
+    roles: RoleOption[];
+    highRiskRoleIds: Set<string>;
+    initialAssignments: AssignmentItem[];
+    onRoleUserCountChange: (roleId: string, delta: number) => void;
+}) {
+    const toast = useToast();
+    const [assignments, setAssignments] = useState<AssignmentItem[]>(initialAssignments ?? []);
+    const [busy, setBusy] = useState<BusyState>(null);
+    const [isLoading, setIsLoading] = useState(false);
+
+    const [queryInput, setQueryInput] = useState("");
+    const [debouncedQuery, setDebouncedQuery] = useState("");
+    const [roleFilter, setRoleFilter] = useState("");
+    const [scopeFilter, setScopeFilter] = useState<ScopeFilter>("");
+    const [resourceInput, setResourceInput] = useState("");
+    const [debouncedResource, setDebouncedResource] = useState("");
+
+    const [showAssignModal, setShowAssignModal] = useState(false);
+    const [assignUserId, setAssignUserId] = useState("");
+    const [assignRoleId, setAssignRoleId] = useState("");
+    const [assignResourceType, setAssignResourceType] = useState("");
+    const [assignResourceId, setAssignResourceId] = useState("");
+    const [assignStartsAt, setAssignStartsAt] = useState("");
+    const [assignExpiresAt, setAssignExpiresAt] = useState("");
+
+    const [showImportModal, setShowImportModal] = useState(false);
+    const [importText, setImportText] = useState("");
+    const [importErrors, setImportErrors] = useState<Array<{ line: number; reason: string }>>([]);
+
+    const [removeTarget, setRemoveTarget] = useState<AssignmentItem | null>(null);
+    const isFirstLoad = useRef(true);
+
+    const roleById = useMemo(() => new Map(roles.map((role) => [role.id, role])), [roles]);
+    const importEntries = useMemo(() => parseImportText(importText), [importText]);
+    const hasActiveFilters = Boolean(debouncedQuery || roleFilter || scopeFilter || debouncedResource);
+    const hasPartialResourceScope = Boolean(assignResourceType.trim()) !== Boolean(assignResourceId.trim());
+    const isHighRiskAssignment = highRiskRoleIds.has(assignRoleId);
+    const assignWindow = useMemo(
+        () =>
+            resolveAssignmentWindow({
+                startsAt: toIsoTimestamp(assignStartsAt),
+                expiresAt: toIsoTimestamp(assignExpiresAt),
+                highRisk: isHighRiskAssignment,
+            }),
+        [assignExpiresAt, assignStartsAt, isHighRiskAssignment]
+    );
+    const assignWindowError = assignWindow.ok ? null : assignWindow.error;
+
+    useEffect(() => {
+        const timeout = window.setTimeout(() => {
+            setDebouncedQuery(queryInput.trim());
+            setDebouncedResource(resourceInput.trim());
+        }, 260);
+        return () => window.clearTimeout(timeout);
+    }, [queryInput, resourceInput]);
+
+    const fetchAssignments = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            const result = await listUserRoleAssignmentsAction(projectId, {
+                query: debouncedQuery || undefined,
+                roleId: roleFilter || undefined,
+                scope: scopeFilter || undefined,
+                resourceQuery: debouncedResource || undefined,
+            });
+            if (!result.ok) {
+                toast.error(result.error || "Failed to load user assignments.");
+                return;
+            }
+            setAssignments(result.data);
+        } catch (error) {
+            toast.error(extractErrorMessage(error, "Failed to load user assignments."));
+        } finally {
+            setIsLoading(false);
+        }
+    }, [debouncedQuery, debouncedResource, projectId, roleFilter, scopeFilter, toast]);
+
+    useEffect(() => {
+        if (isFirstLoad.current) {
+            isFirstLoad.current = false;
+            return;
+        }
+        void fetchAssignments();
+    }, [fetchAssignments]);
+
+    const openAssignModal = () => {
+        setAssignUserId("");
+        setAssignRoleId(roleFilter || roles[0]?.id || "");
+        setAssignResourceType("");
+        setAssignResourceId("");
+        setAssignStartsAt("");
+        setAssignExpiresAt("");
+        setShowAssignModal(true);
+    };
+
+    const handleAssign = async () => {
+        if (!assignUserId.trim()) {
+            toast.error("User ID is required.");
+            return;
+        }
+        if (!assignRoleId) {
+            toast.error("Select a role.");
+            return;
+        }
+        if (hasPartialResourceScope) {
+            toast.error("Enter both a resource type and a resource ID, or neither.");
+            return;
+        }
+        if (assignWindowError) {
+            toast.error(assignWindowError);
+            return;
+        }
+        setBusy({ type: "assign", id: null });
+        try {
+            const result = await assignUserRoleAction(projectId, {
+                userId: assignUserId,
+                roleId: assignRoleId,
+                resourceType: assignResourceType || null,
+                resourceId: assignResourceId || null,
+                startsAt: toIsoTimestamp(assignStartsAt),
+                expiresAt: toIsoTimestamp(assignExpiresAt),
+            });
+            if (!result.ok) {
+                toast.error(result.error || "Failed to assign role.");
+                return;
+            }
+            setAssignments((prev) => [result.data, ...prev]);
+            onRoleUserCountChange(result.data.role_id, 1);
+            setShowAssignModal(false);
+            toast.success("Role assigned.");
+        } catch (error) {
+            toast.error(extractErrorMessage(error, "Failed to assign role."));
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const handleRemove = async () => {
+        if (!removeTarget) return;
+        setBusy({ type: "remove", id: removeTarget.id });
+        try {
+            const result = await unassignUserRoleAction(projectId, [removeTarget.id]);
+            if (!result.ok) {
+                toast.error(result.error || "Failed to remove assignment.");
+                return;
+            }
+            const removed = new Set(result.data.removedIds);
+            setAssignments((prev) => prev.filter((assignment) => !removed.has(assignment.id)));
+            if (removed.has(removeTarget.id)) {
+                onRoleUserCountChange(removeTarget.role_id, -1);
+            }
+            setRemoveTarget(null);
+            toast.success("Assignment removed.");
+        } catch (error) {
+            toast.error(extractErrorMessage(error, "Failed to remove assignment."));
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const handleImport = async () => {
+        if (importEntries.length === 0) {
+            toast.error("Add at least one line to import.");
+            return;
+        }
+        setBusy({ type: "import", id: null });
+        try {
+            const result = await bulkImportUserRolesAction(projectId, importEntries);
+            if (!result.ok) {
+                toast.error(result.error || "Failed to import assignments.");
+                return;
+            }
+            for (const assignment of result.data.created) {
+                onRoleUserCountChange(assignment.role_id, 1);
+            }
+            setAssignments((prev) => [...result.data.created, ...prev]);
+            setImportErrors(result.data.invalidEntries);
+            const summary = `${result.data.created.length} imported, ${result.data.skippedDuplicates} already assigned.`;
+            if (result.data.invalidEntries.length > 0) {
+                toast.error(`${summary} ${result.data.invalidEntries.length} lines were invalid.`);
+                return;
+            }
+            setShowImportModal(false);
+            setImportText("");
+            toast.success(summary);
+        } catch (error) {
+            toast.error(extractErrorMessage(error, "Failed to import assignments."));
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    return (
+        <>
+            <div className="rounded-2xl border border-white/10 bg-[#0f141d] p-4 shadow-[0_20px_45px_-30px_rgba(0,0,0,0.9)] sm:p-5">
+                <div className="flex flex-col gap-4 border-b border-white/10 pb-4 sm:flex-row sm:items-start sm:justify-between">
+                    <div>
+                        <h3 className="text-base font-semibold text-white">User assignments</h3>
+                        <p className="mt-1 text-sm text-white/65">
+                            Map user IDs from your application to roles in this project, or on a single resource.
+                        </p>
+                        <div className="mt-3 inline-flex items-center rounded-lg border border-white/10 bg-white/[0.03] px-3 py-1.5 text-xs text-white/70">
+                            {assignments.length} {assignments.length === 1 ? "assignment" : "assignments"}
+                            {hasActiveFilters ? " matching filters" : ""}
+                        </div>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                        <button
+                            type="button"
+                            onClick={() => {
+                                setImportErrors([]);
+                                setShowImportModal(true);
+                            }}
+                            disabled={busy !== null || roles.length === 0}
+                            className="btn btn-secondary"
+                        >
+                            Bulk import
+                        </button>
+                        <button
+                            type="button"
+                            onClick={openAssignModal}
+                            disabled={busy !== null || roles.length === 0}
+                            className="btn btn-primary"
+                        >
+                            Assign role
+                        </button>
+                    </div>
+                </div>
+
+                <div className="mt-4 grid gap-3 md:grid-cols-[minmax(0,1fr)_minmax(0,1fr)_200px_170px]">
+                    <input
+                        value={queryInput}
+                        onChange={(e) => setQueryInput(e.target.value)}
+                        placeholder="Search user ID"
+                        className="h-10 w-full rounded-lg border border-white/10 bg-[#0a0f16] px-3 text-sm text-white/85 placeholder:text-white/35 focus:border-white/20 focus:outline-none focus:ring-2 focus:ring-white/10"
+                    />
+                    <input
+                        value={resourceInput}
+                        onChange={(e) => setResourceInput(e.target.value)}
+                        placeholder="Resource, e.g. document:42"
+                        className="h-10 w-full rounded-lg border border-white/10 bg-[#0a0f16] px-3 font-mono text-sm text-white/85 placeholder:font-sans placeholder:text-white/35 focus:border-white/20 focus:outline-none focus:ring-2 focus:ring-white/10"
+                    />
+                    <select
+                        value={roleFilter}
+                        onChange={(e) => setRoleFilter(e.target.value)}
+                        className="h-10 w-full rounded-lg border border-white/10 bg-[#0a0f16] px-3 text-sm text-white/85 focus:border-white/20 focus:outline-none focus:ring-2 focus:ring-white/10"
+                    >
+                        <option value="">All roles</option>
+                        {roles.map((role) => (
+                            <option key={role.id} value={role.id}>
+                                {role.name}
+                            </option>
+                        ))}
+                    </select>
+                    <select
+                        value={scopeFilter}
+                        onChange={(e) => setScopeFilter(e.target.value as ScopeFilter)}
+                        className="h-10 w-full rounded-lg border border-white/10 bg-[#0a0f16] px-3 text-sm text-white/85 focus:border-white/20 focus:outline-none focus:ring-2 focus:ring-white/10"
+                    >
+                        <option value="">All scopes</option>
+                        <option value="project">Project-wide</option>
+                        <option value="resource">Resource-scoped</option>
+                    </select>
+                </div>
+
+                {roles.length === 0 ? (
+                    <div className="mt-4 rounded-xl border border-dashed border-white/15 bg-white/[0.02] px-6 py-12 text-center">
+                        <p className="text-sm text-white/75">No roles yet.</p>
+                        <p className="mt-1 text-xs text-white/50">Create a role before assigning users to it.</p>
+                    </div>
+                ) : isLoading ? (
+                    <div className="mt-4 rounded-xl border border-white/10 bg-[#0a0f16] px-6 py-10 text-center text-sm text-white/55">
+                        Loading assignments...
+                    </div>
+                ) : assignments.length === 0 ? (
+                    <div className="mt-4 rounded-xl border border-dashed border-white/15 bg-white/[0.02] px-6 py-12 text-center">
+                        <p className="text-sm text-white/75">
+                            {hasActiveFilters ? "No assignments match the current filters." : "No users assigned yet."}
+                        </p>
+                        {!hasActiveFilters && (
+                            <p className="mt-1 text-xs text-white/50">
+                                Assign a role to a user ID, or import a list from your identity provider.
+                            </p>
+                        )}
+                    </div>
+                ) : (
+                    <div className="mt-4">
+                        <div className="grid grid-cols-[minmax(0,1.4fr)_minmax(0,1fr)_minmax(0,1fr)_170px_72px] items-center border-b border-white/10 px-4 py-2 text-[11px] uppercase tracking-[0.13em] text-white/45">
+                            <span>User ID</span>
+                            <span>Role</span>
+                            <span>Scope</span>
+                            <span>Assigned</span>
+                            <span className="text-right">Actions</span>
+                        </div>
+                        <div className="max-h-[560px] divide-y divide-white/10 overflow-y-auto">
+                            {assignments.map((assignment) => {
+                                const role = roleById.get(assignment.role_id);
+                                const isBusyForRow = busy?.id === assignment.id;
+                                return (
+                                    <div
+                                        key={assignment.id}
+                                        className="grid grid-cols-[minmax(0,1.4fr)_minmax(0,1fr)_minmax(0,1fr)_170px_72px] items-center px-4 py-3 text-sm transition hover:bg-white/[0.02]"
+                                    >
+                                        <span className="truncate pr-3 font-mono text-white/90">{assignment.user_id}</span>
+                                        <div className="min-w-0 pr-3">
+                                            <p className="truncate text-white/85">{role?.name ?? "Unknown role"}</p>
+                                            <p className="truncate font-mono text-xs text-white/45">{role?.slug ?? assignment.role_id}</p>
+                                        </div>
+                                        {formatScope(assignment) ? (
+                                            <span
+                                                className="truncate pr-3 font-mono text-xs text-blue-200/80"
+                                                title={formatScope(assignment) ?? undefined}
+                                            >
+                                                {formatScope(assignment)}
+                                            </span>
+                                        ) : (
+                                            <span className="truncate pr-3 text-white/55">Project-wide</span>
+                                        )}
+                                        <div className="min-w-0 pr-3">
+                                            <p className="whitespace-nowrap text-white/65">{formatDateTime(assignment.created_at)}</p>
+                                            {assignment.starts_at && !isAssignmentActive({ ...assignment, expires_at: null }) ? (
+                                                <p className="whitespace-nowrap text-xs text-blue-200/80">
+                                                    Starts {formatDateTime(assignment.starts_at)}
+                                                </p>
+                                            ) : null}
+                                            {assignment.expires_at ? (
+                                                <p className="whitespace-nowrap text-xs text-amber-200/80">
+                                                    Expires {formatDateTime(assignment.expires_at)}
+                                                </p>
+                                            ) : null}
+                                        </div>
+                                        <div className="flex justify-end">
+                                            <button
+                                                type="button"
+                                                onClick={() => setRemoveTarget(assignment)}
+                                                disabled={busy !== null}
+                                                className="btn-icon btn-icon-danger"
+                                                title="Remove assignment"
+                                                aria-label="Remove assignment"
+                                            >
+                                                {busy?.type === "remove" && isBusyForRow ? (
+                                                    <svg viewBox="0 0 20 20" className="h-4 w-4 animate-spin" fill="none" stroke="currentColor" strokeWidth="1.7">
+                                                        <path d="M10 3a7 7 0 1 1-7 7" />
+                                                    </svg>
+                                                ) : (
+                                                    <svg viewBox="0 0 20 20" className="h-4 w-4" fill="none" stroke="currentColor" strokeWidth="1.6">
+                                                        <path d="M4 6h12" />
+                                                        <path d="M8 6V4h4v2" />
+                                                        <path d="M6.7 6.7 7.4 16h5.2l.7-9.3" />
+                                                    </svg>
+                                                )}
+                                            </button>
+                                        </div>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </div>
+                )}
+            </div>
+
+            {showAssignModal && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 px-4 backdrop-blur-sm">
+                    <div className="w-full max-w-md rounded-2xl border border-white/10 bg-[#0f141d] p-7 shadow-2xl">
+                        <h3 className="text-xl font-semibold text-white">Assign role</h3>
+                        <p className="mt-2 text-sm text-white/60">
+                            Use the same user ID your application sends to the access check API.
+                        </p>
+                        <div className="mt-5 space-y-4">
+                            <label className="flex flex-col gap-2">
+                                <span className="text-[11px] uppercase tracking-[0.13em] text-white/45">User ID</span>
+                                <input
+                                    value={assignUserId}
+                                    onChange={(e) => setAssignUserId(e.target.value)}
+                                    disabled={busy?.type === "assign"}
+                                    placeholder="user_123"
+                                    className="h-11 rounded-xl border border-white/10 bg-[#0a0f16] px-4 text-sm text-white focus:border-white/20 focus:outline-none focus:ring-2 focus:ring-white/10"
+                                />
+                            </label>
+                            <label className="flex flex-col gap-2">
+                                <span className="text-[11px] uppercase tracking-[0.13em] text-white/45">Role</span>
+                                <select
+                                    value={assignRoleId}
+                                    onChange={(e) => setAssignRoleId(e.target.value)}
+                                    disabled={busy?.type === "assign"}
+                                    className="h-11 rounded-xl border border-white/10 bg-[#0a0f16] px-4 text-sm text-white focus:border-white/20 focus:outline-none focus:ring-2 focus:ring-white/10"
+                                >
+                                    {roles.map((role) => (
+                                        <option key={role.id} value={role.id}>
+                                            {role.name} ({role.slug})
+                                        </option>
+                                    ))}
+                                </select>
+                            </label>
+                            <div>
+                                <span className="text-[11px] uppercase tracking-[0.13em] text-white/45">
+                                    Resource (optional)
+                                </span>
+                                <div className="mt-2 grid grid-cols-2 gap-3">
+                                    <input
+                                        value={assignResourceType}
+                                        onChange={(e) => setAssignResourceType(e.target.value)}
+                                        disabled={busy?.type === "assign"}
+                                        placeholder="document"
+                                        className="h-11 rounded-xl border border-white/10 bg-[#0a0f16] px-4 font-mono text-sm text-white focus:border-white/20 focus:outline-none focus:ring-2 focus:ring-white/10"
+                                    />
+                                    <input
+                                        value={assignResourceId}
+                                        onChange={(e) => setAssignResourceId(e.target.value)}
+                                        disabled={busy?.type === "assign"}
+                                        placeholder="42"
+                                        className="h-11 rounded-xl border border-white/10 bg-[#0a0f16] px-4 font-mono text-sm text-white focus:border-white/20 focus:outline-none focus:ring-2 focus:ring-white/10"
+                                    />
+                                </div>
+                                <p className={`mt-2 text-xs ${hasPartialResourceScope ? "text-red-300" : "text-white/45"}`}>
+                                    {hasPartialResourceScope
+                                        ? "Enter both a resource type and a resource ID, or neither."
+                                        : "Leave empty to grant the role across the whole project."}
+                                </p>
+                            </div>
+                            <div>
+                                <span className="text-[11px] uppercase tracking-[0.13em] text-white/45">
+                                    Active window (optional)
+                                </span>
+                                <div className="mt-2 grid grid-cols-2 gap-3">
+                                    <input
+                                        type="datetime-local"
+                                        value={assignStartsAt}
+                                        onChange={(e) => setAssignStartsAt(e.target.value)}
+                                        disabled={busy?.type === "assign"}
+                                        aria-label="Starts at"
+                                        className="h-11 rounded-xl border border-white/10 bg-[#0a0f16] px-3 text-sm text-white focus:border-white/20 focus:outline-none focus:ring-2 focus:ring-white/10"
+                                    />
+                                    <input
+                                        type="datetime-local"
+                                        value={assignExpiresAt}
+                                        onChange={(e) => setAssignExpiresAt(e.target.value)}
+                                        disabled={busy?.type === "assign"}
+                                        aria-label="Expires at"
+                                        className="h-11 rounded-xl border border-white/10 bg-[#0a0f16] px-3 text-sm text-white focus:border-white/20 focus:outline-none focus:ring-2 focus:ring-white/10"
+                                    />
+                                </div>
+                                <p
+                                    className={`mt-2 text-xs ${
+                                        assignWindowError ? "text-red-300" : isHighRiskAssignment ? "text-amber-200/80" : "text-white/45"
+                                    }`}
+                                >
+                                    {assignWindowError
+                                        ? assignWindowError
+                                        : isHighRiskAssignment
+                                          ? `This role grants high-risk permissions, so it expires within ${MAX_HIGH_RISK_ASSIGNMENT_HOURS} hours of its start.`
+                                          : "Starts now and never expires when left empty."}
+                                </p>
+                            </div>
+                        </div>
+                        <div className="mt-6 flex justify-end gap-3 border-t border-white/10 pt-5">
+                            <button
+                                type="button"
+                                onClick={() => setShowAssignModal(false)}
+                                disabled={busy?.type === "assign"}
+                                className="btn btn-secondary"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                type="button"
+                                onClick={handleAssign}
+                                disabled={
+                                    busy?.type === "assign" ||
+                                    !assignUserId.trim() ||
+                                    !assignRoleId ||
+                                    hasPartialResourceScope ||
+                                    Boolean(assignWindowError)
+                                }
+                                className="btn btn-primary"
+                            >
+                                {busy?.type === "assign" ? "Saving..." : "Assign role"}
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {showImportModal && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 px-4 backdrop-blur-sm">
+                    <div className="w-full max-w-lg rounded-2xl border border-white/10 bg-[#0f141d] p-7 shadow-2xl">
+                        <h3 className="text-xl font-semibold text-white">Bulk import assignments</h3>
+                        <p className="mt-2 text-sm text-white/60">
+                            One assignment per line as <span className="font-mono text-white/80">user_id,role_slug</span>,
+                            optionally followed by <span className="font-mono text-white/80">,resource_type,resource_id</span>.
+                            Existing assignments are skipped.
+                        </p>
+                        <textarea
+                            rows={8}
+                            value={importText}
+                            onChange={(e) => setImportText(e.target.value)}
+                            disabled={busy?.type === "import"}
+                            placeholder={`user_123,${roles[0]?.slug ?? "member"}`}
+                            className="mt-4 w-full rounded-xl border border-white/10 bg-[#0a0f16] px-4 py-3 font-mono text-xs text-white focus:border-white/20 focus:outline-none focus:ring-2 focus:ring-white/10"
+                        />
+                        <p className="mt-2 text-xs text-white/50">
+                            {importEntries.length} {importEntries.length === 1 ? "line" : "lines"} ready to import
+                        </p>
+                        {importErrors.length > 0 && (
+                            <div className="mt-3 max-h-32 overflow-y-auto rounded-xl border border-rose-400/25 bg-rose-500/10 px-3 py-2 text-xs text-rose-200">
+                                {importErrors.map((entry) => (
+                                    <p key={`${entry.line}-${entry.reason}`}>
+                                        Line {entry.line}: {entry.reason}
+                                    </p>
+                                ))}
+                            </div>
+                        )}
+                        <div className="mt-6 flex justify-end gap-3 border-t border-white/10 pt-5">
+                            <button
+                                type="button"
+                                onClick={() => {
+                                    setShowImportModal(false);
+                                    setImportErrors([]);
+                                }}
+                                disabled={busy?.type === "import"}
+                                className="btn btn-secondary"
+                            >
+                                Close
+                            </button>
+                            <button
+                                type="button"
+                                onClick={handleImport}
+                                disabled={busy?.type === "import" || importEntries.length === 0}
+                                className="btn btn-primary"
+                            >
+                                {busy?.type === "import" ? "Importing..." : "Import"}
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {removeTarget && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 px-4 backdrop-blur-sm">
+                    <div className="w-full max-w-md rounded-2xl border border-white/10 bg-[#0f141d] p-7 shadow-2xl">
+                        <h3 className="text-xl font-semibold text-white">Remove assignment?</h3>
+                        <p className="mt-2 text-sm text-white/60">
+                            &quot;{removeTarget.user_id}&quot; will lose the role &quot;
+                            {roleById.get(removeTarget.role_id)?.name ?? "Unknown role"}&quot;
+                            {formatScope(removeTarget) ? ` on ${formatScope(removeTarget)}` : ""}.
+                        </p>
+                        <div className="mt-6 flex justify-end gap-3 border-t border-white/10 pt-5">
+                            <button
+                                type="button"
+                                onClick={() => setRemoveTarget(null)}
+                                disabled={busy?.type === "remove"}
+                                className="btn btn-secondary"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                type="button"
+                                onClick={handleRemove}
+                                disabled={busy?.type === "remove"}
+                                className="btn btn-danger"
+                            >
+                                {busy?.type === "remove" ? "Removing..." : "Remove"}
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </>
+    );
+}
@@ -0,0 +1,369 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+    createUserPermissionDenyAction,
+    deleteUserPermissionDeniesAction,
+    listUserPermissionDeniesAction,
+} from "./user-roles-actions";
+import { extractErrorMessage, useToast } from "@/components/feedback/ToastProvider";
+
+type DenyItem = {
+    id: string;
+    user_id: string;
+    permission_id: string;
+    reason: string | null;
+    created_at: string;
+};
+
+type PermissionOption = {
+    id: string;
+    name: string;
+    slug: string;
+};
+
+type BusyState =
+    | { type: "create"; id: null }
+    | { type: "remove"; id: string }
+    | null;
+
+const MAX_REASON_LENGTH = 500;
+
+function formatDateTime(value: string | null) {
+    if (!value) return "Never";
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) return "Never";
+    return date.toLocaleString(undefined, {
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+        hour: "2-digit",
+        minute: "2-digit",
+    });
+}
+
+export function UserDenyRulesManager({
+    projectId,
+    permissions,
+    initialDenies,
+}: {
+    projectId: string;
+    permissions: PermissionOption[];
+    initialDenies: DenyItem[];
+}) {
+    const toast = useToast();
+    const [denies, setDenies] = useState<DenyItem[]>(initialDenies ?? []);
+    const [busy, setBusy] = useState<BusyState>(null);
+    const [isLoading, setIsLoading] = useState(false);
+
+    const [queryInput, setQueryInput] = useState("");
+    const [debouncedQuery, setDebouncedQuery] = useState("");
+
+    const [showCreateModal, setShowCreateModal] = useState(false);
+    const [denyUserId, setDenyUserId] = useState("");
+    const [denyPermissionId, setDenyPermissionId] = useState("");
+    const [denyReason, setDenyReason] = useState("");
+
+    const [removeTarget, setRemoveTarget] = useState<DenyItem | null>(null);
+    const isFirstLoad = useRef(true);
+
+    const permissionById = useMemo(
+        () => new Map(permissions.map((permission) => [permission.id, permission])),
+        [permissions]
+    );
+
+    useEffect(() => {
+        const timeout = window.setTimeout(() => {
+            setDebouncedQuery(queryInput.trim());
+        }, 260);
+        return () => window.clearTimeout(timeout);
+    }, [queryInput]);
+
+    const fetchDenies = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            const result = await listUserPermissionDeniesAction(projectId, {
+                query: debouncedQuery || undefined,
+            });
+            if (!result.ok) {
+                toast.error(result.error || "Failed to load deny rules.");
+                return;
+            }
+            setDenies(result.data);
+        } catch (error) {
+            toast.error(extractErrorMessage(error, "Failed to load deny rules."));
+        } finally {
+            setIsLoading(false);
+        }
+    }, [debouncedQuery, projectId, toast]);
+
+    useEffect(() => {
+        if (isFirstLoad.current) {
+            isFirstLoad.current = false;
+            return;
+        }
+        void fetchDenies();
+    }, [fetchDenies]);
+
+    const openCreateModal = () => {
+        setDenyUserId("");
+        setDenyPermissionId(permissions[0]?.id || "");
+        setDenyReason("");
+        setShowCreateModal(true);
+    };
+
+    const handleCreate = async () => {
+        if (!denyUserId.trim()) {
+            toast.error("User ID is required.");
+            return;
+        }
+        if (!denyPermissionId) {
+            toast.error("Select a permission.");
+            return;
+        }
+        setBusy({ type: "create", id: null });
+        try {
+            const result = await createUserPermissionDenyAction(projectId, {
+                userId: denyUserId,
+                permissionId: denyPermissionId,
+                reason: denyReason,
+            });
+            if (!result.ok) {
+                toast.error(result.error || "Failed to create deny rule.");
+                return;
+            }
+            setDenies((prev) => [result.data, ...prev]);
+            setShowCreateModal(false);
+            toast.success("Permission denied for user.");
+        } catch (error) {
+            toast.error(extractErrorMessage(error, "Failed to create deny rule."));
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const handleRemove = async () => {
+        if (!removeTarget) return;
+        setBusy({ type: "remove", id: removeTarget.id });
+        try {
+            const result = await deleteUserPermissionDeniesAction(projectId, [removeTarget.id]);
+            if (!result.ok) {
+                toast.error(result.error || "Failed to remove deny rule.");
+                return;
+            }
+            const removed = new Set(result.data.removedIds);
+            setDenies((prev) => prev.filter((deny) => !removed.has(deny.id)));
+            setRemoveTarget(null);
+            toast.success("Deny rule removed.");
+        } catch (error) {
+            toast.error(extractErrorMessage(error, "Failed to remove deny rule."));
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    return (
+        <>
+            <div className="rounded-2xl border border-white/10 bg-[#0f141d] p-4 shadow-[0_20px_45px_-30px_rgba(0,0,0,0.9)] sm:p-5">
+                <div className="flex flex-col gap-4 border-b border-white/10 pb-4 sm:flex-row sm:items-start sm:justify-between">
+                    <div>
+                        <h3 className="text-base font-semibold text-white">User deny rules</h3>
+                        <p className="mt-1 text-sm text-white/65">
+                            Block a permission for one user ID, whatever roles they hold.
+                        </p>
+                        <div className="mt-3 inline-flex items-center rounded-lg border border-white/10 bg-white/[0.03] px-3 py-1.5 text-xs text-white/70">
+                            {denies.length} {denies.length === 1 ? "rule" : "rules"}
+                            {debouncedQuery ? " matching search" : ""}
+                        </div>
+                    </div>
+                    <button
+                        type="button"
+                        onClick={openCreateModal}
+                        disabled={busy !== null || permissions.length === 0}
+                        className="btn btn-primary"
+                    >
+                        Deny permission
+                    </button>
+                </div>
+
+                <input
+                    value={queryInput}
+                    onChange={(e) => setQueryInput(e.target.value)}
+                    placeholder="Search user ID"
+                    className="mt-4 h-10 w-full rounded-lg border border-white/10 bg-[#0a0f16] px-3 text-sm text-white/85 placeholder:text-white/35 focus:border-white/20 focus:outline-none focus:ring-2 focus:ring-white/10"
+                />
+
+                {isLoading ? (
+                    <div className="mt-4 rounded-xl border border-white/10 bg-[#0a0f16] px-6 py-10 text-center text-sm text-white/55">
+                        Loading deny rules...
+                    </div>
+                ) : denies.length === 0 ? (
+                    <div className="mt-4 rounded-xl border border-dashed border-white/15 bg-white/[0.02] px-6 py-12 text-center">
+                        <p className="text-sm text-white/75">
+                            {debouncedQuery ? "No deny rules match the search." : "No user deny rules."}
+                        </p>
+                        {!debouncedQuery && (
+                            <p className="mt-1 text-xs text-white/50">
+                                Deny rules override role grants, for example to lock a single account out of exports.
+                            </p>
+                        )}
+                    </div>
+                ) : (
+                    <div className="mt-4">
+                        <div className="grid grid-cols-[minmax(0,1.2fr)_minmax(0,1fr)_minmax(0,1.2fr)_170px_72px] items-center border-b border-white/10 px-4 py-2 text-[11px] uppercase tracking-[0.13em] text-white/45">
+                            <span>User ID</span>
+                            <span>Permission</span>
+                            <span>Reason</span>
+                            <span>Created</span>
+                            <span className="text-right">Actions</span>
+                        </div>
+                        <div className="max-h-[420px] divide-y divide-white/10 overflow-y-auto">
+                            {denies.map((deny) => {
+                                const permission = permissionById.get(deny.permission_id);
+                                const isBusyForRow = busy?.id === deny.id;
+                                return (
+                                    <div
+                                        key={deny.id}
+                                        className="grid grid-cols-[minmax(0,1.2fr)_minmax(0,1fr)_minmax(0,1.2fr)_170px_72px] items-center px-4 py-3 text-sm transition hover:bg-white/[0.02]"
+                                    >
+                                        <span className="truncate pr-3 font-mono text-white/90">{deny.user_id}</span>
+                                        <div className="min-w-0 pr-3">
+                                            <p className="truncate text-white/85">{permission?.name ?? "Unknown permission"}</p>
+                                            <p className="truncate font-mono text-xs text-white/45">{permission?.slug ?? deny.permission_id}</p>
+                                        </div>
+                                        <span className="truncate pr-3 text-white/65" title={deny.reason ?? undefined}>
+                                            {deny.reason || "—"}
+                                        </span>
+                                        <span className="whitespace-nowrap text-white/65">{formatDateTime(deny.created_at)}</span>
+                                        <div className="flex justify-end">
+                                            <button
+                                                type="button"
+                                                onClick={() => setRemoveTarget(deny)}
+                                                disabled={busy !== null}
+                                                className="btn-icon btn-icon-danger"
+                                                title="Remove deny rule"
+                                                aria-label="Remove deny rule"
+                                            >
+                                                {busy?.type === "remove" && isBusyForRow ? (
+                                                    <svg viewBox="0 0 20 20" className="h-4 w-4 animate-spin" fill="none" stroke="currentColor" strokeWidth="1.7">
+                                                        <path d="M10 3a7 7 0 1 1-7 7" />
+                                                    </svg>
+                                                ) : (
+                                                    <svg viewBox="0 0 20 20" className="h-4 w-4" fill="none" stroke="currentColor" strokeWidth="1.6">
+                                                        <path d="M4 6h12" />
+                                                        <path d="M8 6V4h4v2" />
+                                                        <path d="M6.7 6.7 7.4 16h5.2l.7-9.3" />
+                                                    </svg>
+                                                )}
+                                            </button>
+                                        </div>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </div>
+                )}
+            </div>
+
+            {showCreateModal && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 px-4 backdrop-blur-sm">
+                    <div className="w-full max-w-md rounded-2xl border border-white/10 bg-[#0f141d] p-7 shadow-2xl">
+                        <h3 className="text-xl font-semibold text-white">Deny permission</h3>
+                        <p className="mt-2 text-sm text-white/60">
+                            The access check API will refuse this permission for the user even if one of their roles
+                            grants it.
+                        </p>
+                        <div className="mt-5 space-y-4">
+                            <label className="flex flex-col gap-2">
+                                <span className="text-[11px] uppercase tracking-[0.13em] text-white/45">User ID</span>
+                                <input
+                                    value={denyUserId}
+                                    onChange={(e) => setDenyUserId(e.target.value)}
+                                    disabled={busy?.type === "create"}
+                                    placeholder="user_123"
+                                    className="h-11 rounded-xl border border-white/10 bg-[#0a0f16] px-4 text-sm text-white focus:border-white/20 focus:outline-none focus:ring-2 focus:ring-white/10"
+                                />
+                            </label>
+                            <label className="flex flex-col gap-2">
+                                <span className="text-[11px] uppercase tracking-[0.13em] text-white/45">Permission</span>
+                                <select
+                                    value={denyPermissionId}
+                                    onChange={(e) => setDenyPermissionId(e.target.value)}
+                                    disabled={busy?.type === "create"}
+                                    className="h-11 rounded-xl border border-white/10 bg-[#0a0f16] px-4 text-sm text-white focus:border-white/20 focus:outline-none focus:ring-2 focus:ring-white/10"
+                                >
+                                    {permissions.map((permission) => (
+                                        <option key={permission.id} value={permission.id}>
+                                            {permission.name} ({permission.slug})
+                                        </option>
+                                    ))}
+                                </select>
+                            </label>
+                            <label className="flex flex-col gap-2">
+                                <span className="text-[11px] uppercase tracking-[0.13em] text-white/45">Reason</span>
+                                <textarea
+                                    rows={3}
+                                    value={denyReason}
+                                    onChange={(e) => setDenyReason(e.target.value)}
+                                    disabled={busy?.type === "create"}
+                                    maxLength={MAX_REASON_LENGTH}
+                                    placeholder="Optional note for the audit log"
+                                    className="rounded-xl border border-white/10 bg-[#0a0f16] px-4 py-3 text-sm text-white focus:border-white/20 focus:outline-none focus:ring-2 focus:ring-white/10"
+                                />
+                            </label>
+                        </div>
+                        <div className="mt-6 flex justify-end gap-3 border-t border-white/10 pt-5">
+                            <button
+                                type="button"
+                                onClick={() => setShowCreateModal(false)}
+                                disabled={busy?.type === "create"}
+                                className="btn btn-secondary"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                type="button"
+                                onClick={handleCreate}
+                                disabled={busy?.type === "create" || !denyUserId.trim() || !denyPermissionId}
+                                className="btn btn-danger"
+                            >
+                                {busy?.type === "create" ? "Saving..." : "Deny permission"}
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {removeTarget && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 px-4 backdrop-blur-sm">
+                    <div className="w-full max-w-md rounded-2xl border border-white/10 bg-[#0f141d] p-7 shadow-2xl">
+                        <h3 className="text-xl font-semibold text-white">Remove deny rule?</h3>
+                        <p className="mt-2 text-sm text-white/60">
+                            &quot;{removeTarget.user_id}&quot; will get &quot;
+                            {permissionById.get(removeTarget.permission_id)?.name ?? "Unknown permission"}&quot; back
+                            if one of their roles grants it.
+                        </p>
+                        <div className="mt-6 flex justify-end gap-3 border-t border-white/10 pt-5">
+                            <button
+                                type="button"
+                                onClick={() => setRemoveTarget(null)}
+                                disabled={busy?.type === "remove"}
+                                className="btn btn-secondary"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                type="button"
+                                onClick={handleRemove}
+                                disabled={busy?.type === "remove"}
+                                className="btn btn-danger"
+                            >
+                                {busy?.type === "remove" ? "Removing..." : "Remove"}
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </>
+    );
+}
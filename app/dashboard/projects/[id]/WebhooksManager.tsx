@@ -0,0 +1,407 @@
+"use client";
+
+import { useState } from "react";
+import type { WebhookDeliveryRecord, WebhookDeliveryStatus, WebhookEndpointRecord } from "@/lib/webhooks";
+import {
+    createWebhookEndpointAction,
+    deleteWebhookEndpointAction,
+    listWebhooksAction,
+    redeliverWebhookAction,
+    revealWebhookSecretAction,
+    sendTestWebhookAction,
+    updateWebhookEndpointAction,
+} from "./webhooks-actions";
+import { extractErrorMessage, useToast } from "@/components/feedback/ToastProvider";
+
+type BusyState =
+    | { type: "create" | "refresh"; id: null }
+    | { type: "toggle" | "delete" | "test" | "secret" | "redeliver"; id: string }
+    | null;
+
+const STATUS_STYLES: Record<WebhookDeliveryStatus, string> = {
+    succeeded: "border-emerald-400/25 bg-emerald-500/10 text-emerald-100",
+    pending: "border-amber-400/25 bg-amber-500/10 text-amber-100",
+    failed: "border-red-400/20 bg-red-500/10 text-red-100",
+};
+
+function formatDateTime(value: string | null) {
+    if (!value) return "—";
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) return "—";
+    return date.toLocaleString("en-US", { month: "short", day: "2-digit", hour: "2-digit", minute: "2-digit", second: "2-digit" });
+}
+
+export function WebhooksManager({
+    projectId,
+    canManage,
+    initialEndpoints,
+    initialDeliveries,
+}: {
+    projectId: string;
+    canManage: boolean;
+    initialEndpoints: WebhookEndpointRecord[];
+    initialDeliveries: WebhookDeliveryRecord[];
+}) {
+    const toast = useToast();
+    const [endpoints, setEndpoints] = useState(initialEndpoints);
+    const [deliveries, setDeliveries] = useState(initialDeliveries);
+    const [busy, setBusy] = useState<BusyState>(null);
+    const [url, setUrl] = useState("");
+    const [description, setDescription] = useState("");
+    const [endpointFilter, setEndpointFilter] = useState("");
+    const [secretNotice, setSecretNotice] = useState<{ title: string; url: string; secret: string } | null>(null);
+    const [deleteTarget, setDeleteTarget] = useState<WebhookEndpointRecord | null>(null);
+
+    const endpointUrlById = new Map(endpoints.map((endpoint) => [endpoint.id, endpoint.url]));
+
+    const upsertDelivery = (delivery: WebhookDeliveryRecord) => {
+        setDeliveries((prev) => [delivery, ...prev.filter((item) => item.id !== delivery.id)]);
+    };
+
+    const refresh = async (filter = endpointFilter) => {
+        setBusy({ type: "refresh", id: null });
+        try {
+            const result = await listWebhooksAction(projectId, filter || null);
+            if (!result.ok) {
+                toast.error(result.error || "Failed to load webhooks.");
+                return;
+            }
+            setEndpoints(result.data.endpoints);
+            setDeliveries(result.data.deliveries);
+        } catch (error) {
+            toast.error(extractErrorMessage(error, "Failed to load webhooks."));
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const handleCreate = async () => {
+        setBusy({ type: "create", id: null });
+        try {
+            const result = await createWebhookEndpointAction(projectId, { url, description });
+            if (!result.ok) {
+                toast.error(result.error || "Failed to add webhook endpoint.");
+                return;
+            }
+            setEndpoints((prev) => [...prev, result.data.endpoint]);
+            setUrl("");
+            setDescription("");
+            setSecretNotice({
+                title: "Store the signing secret now",
+                url: result.data.endpoint.url,
+                secret: result.data.secret,
+            });
+        } catch (error) {
+            toast.error(extractErrorMessage(error, "Failed to add webhook endpoint."));
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const handleToggle = async (endpoint: WebhookEndpointRecord) => {
+        setBusy({ type: "toggle", id: endpoint.id });
+        try {
+            const result = await updateWebhookEndpointAction(projectId, endpoint.id, { enabled: !endpoint.enabled });
+            if (!result.ok) {
+                toast.error(result.error || "Failed to update webhook endpoint.");
+                return;
+            }
+            setEndpoints((prev) => prev.map((item) => (item.id === endpoint.id ? result.data : item)));
+            toast.success(result.data.enabled ? "Webhook endpoint enabled." : "Webhook endpoint disabled.");
+        } catch (error) {
+            toast.error(extractErrorMessage(error, "Failed to update webhook endpoint."));
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const handleDelete = async () => {
+        if (!deleteTarget) return;
+        setBusy({ type: "delete", id: deleteTarget.id });
+        try {
+            const result = await deleteWebhookEndpointAction(projectId, deleteTarget.id);
+            if (!result.ok) {
+                toast.error(result.error || "Failed to delete webhook endpoint.");
+                return;
+            }
+            setEndpoints((prev) => prev.filter((item) => item.id !== deleteTarget.id));
+            setDeliveries((prev) => prev.filter((item) => item.endpoint_id !== deleteTarget.id));
+            if (endpointFilter === deleteTarget.id) setEndpointFilter("");
+            setDeleteTarget(null);
+            toast.success("Webhook endpoint deleted.");
+        } catch (error) {
+            toast.error(extractErrorMessage(error, "Failed to delete webhook endpoint."));
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const handleTest = async (endpoint: WebhookEndpointRecord) => {
+        setBusy({ type: "test", id: endpoint.id });
+        try {
+            const result = await sendTestWebhookAction(projectId, endpoint.id);
+            if (!result.ok) {
+                toast.error(result.error || "Failed to send test event.");
+                return;
+            }
+            upsertDelivery(result.data);
+            if (result.data.status === "succeeded") {
+                toast.success(`Test event delivered (${result.data.last_response_status}).`);
+            } else {
+                toast.error(result.data.last_error ?? "Test event was not delivered.");
+            }
+        } catch (error) {
+            toast.error(extractErrorMessage(error, "Failed to send test event."));
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const handleRevealSecret = async (endpoint: WebhookEndpointRecord) => {
+        setBusy({ type: "secret", id: endpoint.id });
+        try {
+            const result = await revealWebhookSecretAction(projectId, endpoint.id);
+            if (!result.ok) {
+                toast.error(result.error || "Failed to reveal signing secret.");
+                return;
+            }
+            setSecretNotice({ title: "Signing secret", url: endpoint.url, secret: result.data.secret });
+        } catch (error) {
+            toast.error(extractErrorMessage(error, "Failed to reveal signing secret."));
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const handleRedeliver = async (delivery: WebhookDeliveryRecord) => {
+        setBusy({ type: "redeliver", id: delivery.id });
+        try {
+            const result = await redeliverWebhookAction(projectId, delivery.id);
+            if (!result.ok) {
+                toast.error(result.error || "Failed to redeliver event.");
+                return;
+            }
+            upsertDelivery(result.data);
+            if (result.data.status === "succeeded") toast.success("Event delivered.");
+            else toast.error(result.data.last_error ?? "Event was not delivered.");
+        } catch (error) {
+            toast.error(extractErrorMessage(error, "Failed to redeliver event."));
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const visibleDeliveries = endpointFilter
+        ? deliveries.filter((delivery) => delivery.endpoint_id === endpointFilter)
+        : deliveries;
+
+    return (
+        <div className="rounded-2xl border border-white/8 bg-gradient-to-b from-[#121823] to-[#0f141d] p-6">
+            <h3 className="text-base font-semibold text-white">Webhooks</h3>
+            <p className="mt-1 text-sm text-white/55">
+                Every change recorded in the audit log is sent as a signed JSON POST to these endpoints. Failed
+                deliveries are retried with exponential backoff.
+            </p>
+
+            {canManage && (
+                <div className="mt-5 grid gap-3 md:grid-cols-[2fr_1fr_auto]">
+                    <input
+                        value={url}
+                        onChange={(e) => setUrl(e.target.value)}
+                        placeholder="https://example.com/webhooks/access"
+                        className="h-10 w-full rounded-lg border border-white/10 bg-[#0a0f16] px-3 font-mono text-sm text-white/85 placeholder:font-sans placeholder:text-white/35 focus:border-white/20 focus:outline-none focus:ring-2 focus:ring-white/10"
+                    />
+                    <input
+                        value={description}
+                        onChange={(e) => setDescription(e.target.value)}
+                        placeholder="Description (optional)"
+                        className="h-10 w-full rounded-lg border border-white/10 bg-[#0a0f16] px-3 text-sm text-white/85 placeholder:text-white/35 focus:border-white/20 focus:outline-none focus:ring-2 focus:ring-white/10"
+                    />
+                    <button
+                        type="button"
+                        onClick={handleCreate}
+                        disabled={busy !== null || !url.trim()}
+                        className="btn btn-primary h-10"
+                    >
+                        {busy?.type === "create" ? "Adding..." : "Add endpoint"}
+                    </button>
+                </div>
+            )}
+
+            <div className="mt-5 divide-y divide-white/10 rounded-xl border border-white/10 bg-[#0a0f16]">
+                {endpoints.length === 0 ? (
+                    <p className="px-4 py-3 text-sm text-white/50">No webhook endpoints yet.</p>
+                ) : (
+                    endpoints.map((endpoint) => (
+                        <div key={endpoint.id} className="flex flex-wrap items-center justify-between gap-3 px-4 py-3 text-sm">
+                            <div className="min-w-0">
+                                <p className="truncate font-mono text-white/90">{endpoint.url}</p>
+                                <p className="mt-0.5 text-xs text-white/45">
+                                    {endpoint.enabled ? "Enabled" : <span className="text-amber-300/80">Disabled</span>}
+                                    {endpoint.description ? ` · ${endpoint.description}` : ""}
+                                </p>
+                            </div>
+                            {canManage && (
+                                <div className="flex flex-wrap items-center gap-2">
+                                    <button
+                                        type="button"
+                                        onClick={() => void handleTest(endpoint)}
+                                        disabled={busy !== null || !endpoint.enabled}
+                                        className="btn btn-secondary"
+                                    >
+                                        {busy?.type === "test" && busy.id === endpoint.id ? "Sending..." : "Send test event"}
+                                    </button>
+                                    <button
+                                        type="button"
+                                        onClick={() => void handleRevealSecret(endpoint)}
+                                        disabled={busy !== null}
+                                        className="btn btn-secondary"
+                                    >
+                                        Secret
+                                    </button>
+                                    <button
+                                        type="button"
+                                        onClick={() => void handleToggle(endpoint)}
+                                        disabled={busy !== null}
+                                        className="btn btn-secondary"
+                                    >
+                                        {endpoint.enabled ? "Disable" : "Enable"}
+                                    </button>
+                                    <button
+                                        type="button"
+                                        onClick={() => setDeleteTarget(endpoint)}
+                                        disabled={busy !== null}
+                                        className="btn btn-danger"
+                                    >
+                                        Delete
+                                    </button>
+                                </div>
+                            )}
+                        </div>
+                    ))
+                )}
+            </div>
+
+            <div className="mt-6 flex flex-wrap items-center justify-between gap-3">
+                <p className="text-[11px] uppercase tracking-[0.13em] text-white/45">Recent deliveries</p>
+                <div className="flex items-center gap-2">
+                    <select
+                        value={endpointFilter}
+                        onChange={(e) => {
+                            setEndpointFilter(e.target.value);
+                            void refresh(e.target.value);
+                        }}
+                        className="h-9 rounded-lg border border-white/10 bg-[#0f141d] px-2 text-xs text-white/85 focus:border-white/20 focus:outline-none"
+                    >
+                        <option value="">All endpoints</option>
+                        {endpoints.map((endpoint) => (
+                            <option key={endpoint.id} value={endpoint.id}>
+                                {endpoint.url}
+                            </option>
+                        ))}
+                    </select>
+                    <button type="button" onClick={() => void refresh()} disabled={busy !== null} className="btn btn-secondary">
+                        {busy?.type === "refresh" ? "Refreshing..." : "Refresh"}
+                    </button>
+                </div>
+            </div>
+
+            <div className="mt-2 divide-y divide-white/10 rounded-xl border border-white/10 bg-[#0a0f16]">
+                {visibleDeliveries.length === 0 ? (
+                    <p className="px-4 py-3 text-sm text-white/50">No deliveries yet.</p>
+                ) : (
+                    visibleDeliveries.map((delivery) => (
+                        <div key={delivery.id} className="flex flex-wrap items-center justify-between gap-3 px-4 py-3 text-sm">
+                            <div className="min-w-0">
+                                <div className="flex flex-wrap items-center gap-2">
+                                    <span
+                                        className={`inline-flex rounded-full border px-2 py-0.5 text-[11px] uppercase tracking-[0.1em] ${STATUS_STYLES[delivery.status]}`}
+                                    >
+                                        {delivery.status}
+                                    </span>
+                                    <span className="font-mono text-white/85">{delivery.event_type}</span>
+                                    {delivery.last_response_status !== null && (
+                                        <span className="font-mono text-xs text-white/55">HTTP {delivery.last_response_status}</span>
+                                    )}
+                                </div>
+                                <p className="mt-1 truncate text-xs text-white/45">
+                                    {endpointUrlById.get(delivery.endpoint_id) ?? "Deleted endpoint"} · {formatDateTime(delivery.created_at)}
+                                    {" · "}
+                                    {delivery.attempt_count} {delivery.attempt_count === 1 ? "attempt" : "attempts"}
+                                    {delivery.status === "pending" && delivery.next_attempt_at
+                                        ? ` · next ${formatDateTime(delivery.next_attempt_at)}`
+                                        : ""}
+                                </p>
+                                {delivery.last_error && <p className="mt-0.5 text-xs text-red-200/70">{delivery.last_error}</p>}
+                            </div>
+                            {canManage && delivery.status !== "succeeded" && (
+                                <button
+                                    type="button"
+                                    onClick={() => void handleRedeliver(delivery)}
+                                    disabled={busy !== null}
+                                    className="btn btn-secondary"
+                                >
+                                    {busy?.type === "redeliver" && busy.id === delivery.id ? "Sending..." : "Redeliver"}
+                                </button>
+                            )}
+                        </div>
+                    ))
+                )}
+            </div>
+
+            {secretNotice && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 px-4 backdrop-blur-sm">
+                    <div className="w-full max-w-lg rounded-2xl border border-white/10 bg-[#0f141d] p-7 shadow-2xl">
+                        <h3 className="text-xl font-semibold text-white">{secretNotice.title}</h3>
+                        <p className="mt-2 text-sm text-white/60">
+                            Verify the <span className="font-mono">X-Webhook-Signature</span> header of requests to{" "}
+                            <span className="break-all text-white">{secretNotice.url}</span> with this secret.
+                        </p>
+                        <div className="mt-4 rounded-xl border border-white/10 bg-[#0a0f16] px-4 py-3">
+                            <code className="break-all text-sm text-white/90">{secretNotice.secret}</code>
+                        </div>
+                        <div className="mt-6 flex justify-end gap-3 border-t border-white/10 pt-5">
+                            <button
+                                type="button"
+                                onClick={async () => {
+                                    await navigator.clipboard.writeText(secretNotice.secret);
+                                    toast.success("Signing secret copied.");
+                                }}
+                                className="btn btn-secondary"
+                            >
+                                Copy secret
+                            </button>
+                            <button type="button" onClick={() => setSecretNotice(null)} className="btn btn-primary">
+                                Close
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {deleteTarget && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 px-4 backdrop-blur-sm">
+                    <div className="w-full max-w-md rounded-2xl border border-white/10 bg-[#0f141d] p-7 shadow-2xl">
+                        <h3 className="text-xl font-semibold text-white">Delete webhook endpoint?</h3>
+                        <p className="mt-2 break-all text-sm text-white/60">
+                            {deleteTarget.url} will stop receiving events and its delivery log is removed.
+                        </p>
+                        <div className="mt-6 flex justify-end gap-3 border-t border-white/10 pt-5">
+                            <button
+                                type="button"
+                                onClick={() => setDeleteTarget(null)}
+                                disabled={busy !== null}
+                                className="btn btn-secondary"
+                            >
+                                Cancel
+                            </button>
+                            <button type="button" onClick={handleDelete} disabled={busy !== null} className="btn btn-danger">
+                                {busy?.type === "delete" ? "Deleting..." : "Delete endpoint"}
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
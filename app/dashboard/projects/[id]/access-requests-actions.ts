@@ -0,0 +1,309 @@
+"use server";
+
+import { createSupabaseServerClient } from "@/lib/supabase-server";
+import { logAuditEvent } from "@/lib/auditLogs";
+import { checkProjectRole, type ProjectMemberRole } from "@/lib/projectMembers";
+import {
+    decideAccessRequest,
+    getAccessRequests,
+    MAX_DECISION_NOTE_LENGTH,
+    validateAccessRequestDuration,
+    type AccessRequest,
+    type AccessRequestStatus,
+} from "@/lib/accessRequests";
+import { resolveAssignmentWindow } from "@/lib/assignmentWindow";
+import { resolveEffectivePermissions } from "@/lib/roleHierarchy";
+import {
+    createUserRoleAssignments,
+    deleteUserRoleAssignments,
+    expireLapsedUserRoles,
+    getHighRiskRoleIds,
+    getUserRoleAssignments,
+    type UserRoleAssignment,
+} from "@/lib/userRoles";
+
+export type ActionResult<T> =
+    | { ok: true; data: T }
+    | { ok: false; error: string };
+
+type ProjectRole = {
+    id: string;
+    name: string;
+    slug: string;
+    parent_role_ids: string[];
+    permission_ids: string[];
+};
+
+async function ensureProjectAccess(projectId: string, minimumRole: ProjectMemberRole) {
+    type EnsureProjectAccessResult =
+        | { ok: true; userId: string }
+        | { ok: false; error: string; userId: string | null };
+
+    const supabase = await createSupabaseServerClient();
+    const { data: authData } = await supabase.auth.getUser();
+    if (!authData?.user) {
+        return { ok: false, error: "Unauthorized.", userId: null } as EnsureProjectAccessResult;
+    }
+
+    const { data: project, error } = await supabase
+        .from("projects")
+        .select("id")
+        .eq("id", projectId)
+        .is("deleted_at", null)
+        .single();
+
+    if (error || !project) {
+        return { ok: false, error: "Project not found.", userId: authData.user.id } as EnsureProjectAccessResult;
+    }
+
+    const membership = await checkProjectRole(projectId, authData.user.id, minimumRole);
+    if (!membership.ok) {
+        return { ok: false, error: membership.error, userId: authData.user.id } as EnsureProjectAccessResult;
+    }
+
+    return { ok: true, userId: authData.user.id } as EnsureProjectAccessResult;
+}
+
+async function getProjectRoles(projectId: string) {
+    const supabase = await createSupabaseServerClient();
+    const { data, error } = await supabase
+        .from("roles")
+        .select("id, name, slug, role_parents!role_parents_role_id_fkey(parent_role_id), role_permissions(permission_id)")
+        .eq("project_id", projectId);
+
+    if (error) return { ok: false, error: "Failed to load roles." } as const;
+
+    type RoleRow = {
+        id: string;
+        name: string;
+        slug: string;
+        role_parents?: Array<{ parent_role_id: string }> | null;
+        role_permissions?: Array<{ permission_id: string }> | null;
+    };
+    const roles: ProjectRole[] = ((data ?? []) as RoleRow[]).map((row) => ({
+        id: row.id,
+        name: row.name,
+        slug: row.slug,
+        parent_role_ids: (row.role_parents ?? []).map((entry) => entry.parent_role_id),
+        permission_ids: (row.role_permissions ?? []).map((entry) => entry.permission_id),
+    }));
+    return { ok: true, data: roles } as const;
+}
+
+async function getPendingRequest(projectId: string, requestId: string) {
+    let requests: AccessRequest[];
+    try {
+        requests = await getAccessRequests(projectId, { ids: [requestId] });
+    } catch {
+        return { ok: false, error: "Failed to load the access request." } as const;
+    }
+    const request = requests[0];
+    if (!request) return { ok: false, error: "Access request not found." } as const;
+    if (request.status !== "pending") return { ok: false, error: "This request was already decided." } as const;
+    return { ok: true, data: request } as const;
+}
+
+/** Audit metadata naming what was requested, so the timeline stays readable after renames. */
+async function getRequestTargetMetadata(request: AccessRequest) {
+    const supabase = await createSupabaseServerClient();
+    const { data } = await supabase
+        .from(request.role_id ? "roles" : "permissions")
+        .select("name, slug")
+        .eq("id", request.role_id ?? request.permission_id)
+        .maybeSingle();
+
+    return request.role_id
+        ? { role_id: request.role_id, role_name: data?.name ?? null, role_slug: data?.slug ?? null }
+        : {
+              permission_id: request.permission_id,
+              permission_name: data?.name ?? null,
+              permission_slug: data?.slug ?? null,
+          };
+}
+
+function normalizeNote(note?: string | null) {
+    const trimmed = (note ?? "").trim();
+    if (trimmed.length > MAX_DECISION_NOTE_LENGTH) {
+        return { ok: false, error: `Note cannot be longer than ${MAX_DECISION_NOTE_LENGTH} characters.` } as const;
+    }
+    return { ok: true, value: trimmed || null } as const;
+}
+
+export async function listAccessRequestsAction(
+    projectId: string,
+    filters?: { status?: AccessRequestStatus | "" }
+): Promise<ActionResult<AccessRequest[]>> {
+    const access = await ensureProjectAccess(projectId, "viewer");
+    if (!access.ok) return { ok: false, error: access.error };
+
+    try {
+        const requests = await getAccessRequests(projectId, { status: filters?.status || undefined });
+        return { ok: true, data: requests };
+    } catch {
+        return { ok: false, error: "Failed to load access requests." };
+    }
+}
+
+/**
+ * Approve a pending request by creating a time-bound assignment that starts now. Role requests
+ * grant the requested role; permission requests are granted through `roleId`, which must grant the
+ * permission directly or by inheritance.
+ */
+export async function approveAccessRequestAction(
+    projectId: string,
+    requestId: string,
+    input?: { roleId?: string | null; durationMinutes?: number | null; note?: string | null }
+): Promise<ActionResult<{ request: AccessRequest; assignment: UserRoleAssignment }>> {
+    const access = await ensureProjectAccess(projectId, "editor");
+    if (!access.ok) return { ok: false, error: access.error };
+
+    const pending = await getPendingRequest(projectId, requestId);
+    if (!pending.ok) return { ok: false, error: pending.error };
+    const request = pending.data;
+
+    const note = normalizeNote(input?.note);
+    if (!note.ok) return { ok: false, error: note.error };
+
+    const durationMinutes = input?.durationMinutes ?? request.duration_minutes;
+    const durationError = validateAccessRequestDuration(durationMinutes);
+    if (durationError) return { ok: false, error: durationError };
+
+    const roles = await getProjectRoles(projectId);
+    if (!roles.ok) return { ok: false, error: roles.error };
+
+    const roleId = request.role_id ?? input?.roleId ?? "";
+    const role = roles.data.find((item) => item.id === roleId);
+    if (!role) return { ok: false, error: request.role_id ? "Role not found." : "Select a role to grant." };
+
+    if (request.permission_id) {
+        const effective = resolveEffectivePermissions(
+            role.id,
+            new Map(roles.data.map((item) => [item.id, item.parent_role_ids])),
+            new Map(roles.data.map((item) => [item.id, item.permission_ids]))
+        );
+        if (!effective.has(request.permission_id)) {
+            return { ok: false, error: `Role "${role.name}" does not grant the requested permission.` };
+        }
+    }
+
+    let highRiskRoleIds: Set<string>;
+    try {
+        highRiskRoleIds = await getHighRiskRoleIds(projectId);
+    } catch {
+        return { ok: false, error: "Failed to load role permissions." };
+    }
+    const window = resolveAssignmentWindow({
+        expiresAt: new Date(Date.now() + durationMinutes * 60 * 1000).toISOString(),
+        highRisk: highRiskRoleIds.has(role.id),
+    });
+    if (!window.ok) return { ok: false, error: window.error };
+
+    await expireLapsedUserRoles(projectId, { userId: request.user_id });
+
+    let existing: UserRoleAssignment[];
+    try {
+        existing = await getUserRoleAssignments(projectId, {
+            roleId: role.id,
+            userId: request.user_id,
+            scope: "project",
+        });
+    } catch {
+        return { ok: false, error: "Failed to validate assignment." };
+    }
+    if (existing.length > 0) return { ok: false, error: "This user already has this role." };
+
+    const created = await createUserRoleAssignments([
+        { roleId: role.id, userId: request.user_id, window: window.window },
+    ]);
+    if (!created.ok || created.data.length === 0) return { ok: false, error: "Failed to assign role." };
+    const assignment = created.data[0];
+
+    const decided = await decideAccessRequest(projectId, request.id, {
+        status: "approved",
+        decidedBy: access.userId,
+        note: note.value,
+        assignmentId: assignment.id,
+    });
+    if (!decided) {
+        // Another approver decided first; undo the assignment made for this attempt.
+        await deleteUserRoleAssignments([assignment.id]);
+        return { ok: false, error: "This request was already decided." };
+    }
+
+    await logAuditEvent({
+        projectId,
+        userId: access.userId,
+        entityType: "user_role",
+        entityId: assignment.id,
+        action: "granted",
+        metadata: {
+            event: "user_role_assigned",
+            user_id: assignment.user_id,
+            role_id: role.id,
+            role_name: role.name,
+            role_slug: role.slug,
+            expires_at: assignment.expires_at,
+            source: "access_request",
+            access_request_id: request.id,
+        },
+    });
+    await logAuditEvent({
+        projectId,
+        userId: access.userId,
+        entityType: "access_request",
+        entityId: request.id,
+        action: "granted",
+        metadata: {
+            event: "access_request_approved",
+            user_id: request.user_id,
+            role_id: role.id,
+            role_name: role.name,
+            role_slug: role.slug,
+            ...(request.permission_id ? await getRequestTargetMetadata(request) : {}),
+            duration_minutes: durationMinutes,
+            expires_at: assignment.expires_at,
+            assignment_id: assignment.id,
+            ...(note.value ? { note: note.value } : {}),
+        },
+    });
+
+    return { ok: true, data: { request: decided, assignment } };
+}
+
+export async function denyAccessRequestAction(
+    projectId: string,
+    requestId: string,
+    input?: { note?: string | null }
+): Promise<ActionResult<AccessRequest>> {
+    const access = await ensureProjectAccess(projectId, "editor");
+    if (!access.ok) return { ok: false, error: access.error };
+
+    const pending = await getPendingRequest(projectId, requestId);
+    if (!pending.ok) return { ok: false, error: pending.error };
+
+    const note = normalizeNote(input?.note);
+    if (!note.ok) return { ok: false, error: note.error };
+
+    const decided = await decideAccessRequest(projectId, requestId, {
+        status: "denied",
+        decidedBy: access.userId,
+        note: note.value,
+    });
+    if (!decided) return { ok: false, error: "This request was already decided." };
+
+    await logAuditEvent({
+        projectId,
+        userId: access.userId,
+        entityType: "access_request",
+        entityId: decided.id,
+        action: "denied",
+        metadata: {
+            event: "access_request_denied",
+            user_id: decided.user_id,
+            ...(await getRequestTargetMetadata(decided)),
+            ...(note.value ? { note: note.value } : {}),
+        },
+    });
+
+    return { ok: true, data: decided };
+}
@@ -0,0 +1,81 @@
+"use server";
+
+import { createSupabaseServerClient } from "@/lib/supabase-server";
+import { checkProjectRole } from "@/lib/projectMembers";
+import { explainAccess, type AccessExplanation } from "@/lib/access";
+import { MAX_CONTEXT_BYTES, type ConditionContext } from "@/lib/conditions";
+import { parseResourceScope } from "@/lib/userRoles";
+
+export type ActionResult<T> =
+    | { ok: true; data: T }
+    | { ok: false; error: string };
+
+async function verifyProjectAccess(projectId: string) {
+    const supabase = await createSupabaseServerClient();
+    const { data: authData } = await supabase.auth.getUser();
+    if (!authData?.user) return { ok: false, error: "Unauthorized." } as const;
+
+    const { data: project, error } = await supabase
+        .from("projects")
+        .select("id")
+        .eq("id", projectId)
+        .is("deleted_at", null)
+        .single();
+
+    if (error || !project) return { ok: false, error: "Project not found." } as const;
+
+    const membership = await checkProjectRole(projectId, authData.user.id, "viewer");
+    if (!membership.ok) return { ok: false, error: membership.error } as const;
+
+    return { ok: true } as const;
+}
+
+/**
+ * Run an access check with its decision trace, exactly as the check API would evaluate it, without
+ * recording usage or sweeping expired assignments. Nothing is written, so viewers can use it.
+ */
+export async function simulateAccessAction(
+    projectId: string,
+    input: {
+        userId: string;
+        permissionSlug: string;
+        roleSlug?: string | null;
+        resourceType?: string | null;
+        resourceId?: string | null;
+        context?: ConditionContext | null;
+    }
+): Promise<ActionResult<AccessExplanation>> {
+    const access = await verifyProjectAccess(projectId);
+    if (!access.ok) return { ok: false, error: access.error };
+
+    const userId = (input.userId ?? "").trim();
+    const permissionSlug = (input.permissionSlug ?? "").trim();
+    if (!userId) return { ok: false, error: "User ID is required." };
+    if (!permissionSlug) return { ok: false, error: "Permission is required." };
+
+    const resource = parseResourceScope(input.resourceType, input.resourceId);
+    if (!resource.ok) return { ok: false, error: resource.error };
+
+    const context = input.context ?? null;
+    if (context !== null && (typeof context !== "object" || Array.isArray(context))) {
+        return { ok: false, error: "Context must be a JSON object." };
+    }
+    if (context && JSON.stringify(context).length > MAX_CONTEXT_BYTES) {
+        return { ok: false, error: `Context cannot be larger than ${MAX_CONTEXT_BYTES} bytes.` };
+    }
+
+    const result = await explainAccess(
+        projectId,
+        {
+            userId,
+            permissionSlug,
+            roleSlug: input.roleSlug?.trim() || null,
+            context,
+            resourceScope: resource.scope,
+        },
+        { readOnly: true }
+    );
+    if (!result.ok) return { ok: false, error: result.error };
+
+    return { ok: true, data: result.data };
+}
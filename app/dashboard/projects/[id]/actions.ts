@@ -3,12 +3,21 @@
 import { revalidatePath } from "next/cache";
 import { createSupabaseServerClient } from "@/lib/supabase-server";
 import { logAuditEvent } from "@/lib/auditLogs";
+import { formatCidr, parseCidr } from "@/lib/ipAllowList";
+import { updateProjectRateLimit, validateRateLimit } from "@/lib/rateLimit";
+import { checkProjectRole, type ProjectMemberRole } from "@/lib/projectMembers";
 import {
+    API_KEY_SCOPES,
     ApiKeyRecord,
+    ApiKeyScope,
+    completeApiKeyRotations,
     createApiKeyRecord,
     deleteApiKeyRecord,
     getDecryptedApiKeyValue,
     getApiKeysForProject,
+    MAX_API_KEY_LIFETIME_DAYS,
+    startApiKeyRotationRecord,
+    updateApiKeyAccessRecord,
 } from "@/lib/apiKeys";
 
 export type ApiKeyActionResult<T> =
@@ -17,6 +26,20 @@ export type ApiKeyActionResult<T> =
 
 const MAX_NAME_LENGTH = 80;
 const MAX_DESCRIPTION_LENGTH = 500;
+const MAX_ALLOWED_PERMISSIONS = 200;
+const MAX_ALLOWED_CIDRS = 50;
+const HOUR_MS = 3_600_000;
+const DAY_MS = 24 * HOUR_MS;
+const MAX_ROTATION_GRACE_HOURS = 7 * 24;
+// Tolerates clock drift between the browser that picked the date and the server.
+const EXPIRY_CLOCK_SKEW_MS = 5 * 60_000;
+
+type ApiKeyAccessInput = {
+    scopes?: ApiKeyScope[];
+    allowedPermissionSlugs?: string[] | null;
+    allowedCidrs?: string[] | null;
+    rateLimitPerMinute?: number | null;
+};
 
 function normalizeName(name: string) {
     return name.trim();
@@ -42,6 +65,73 @@ function validateDescription(description?: string) {
     return null;
 }
 
+function normalizeScopes(scopes?: ApiKeyScope[]) {
+    if (!scopes) return [...API_KEY_SCOPES];
+    return API_KEY_SCOPES.filter((scope) => scopes.includes(scope));
+}
+
+function normalizeAllowedPermissionSlugs(slugs?: string[] | null) {
+    if (!slugs) return null;
+    return Array.from(new Set(slugs.map((slug) => slug.trim().toLowerCase()).filter(Boolean)));
+}
+
+/**
+ * Validate and canonicalize IP ranges. An empty list removes the restriction.
+ */
+function normalizeAllowedCidrs(cidrs?: string[] | null): { ok: true; value: string[] | null } | { ok: false; error: string } {
+    const entries = (cidrs ?? []).map((entry) => entry.trim()).filter(Boolean);
+    if (entries.length === 0) return { ok: true, value: null };
+    if (entries.length > MAX_ALLOWED_CIDRS) {
+        return { ok: false, error: `A key can have at most ${MAX_ALLOWED_CIDRS} IP ranges.` };
+    }
+
+    const normalized: string[] = [];
+    for (const entry of entries) {
+        const parsed = parseCidr(entry);
+        if (!parsed) return { ok: false, error: `Invalid IP address or CIDR range: ${entry}.` };
+        normalized.push(formatCidr(parsed));
+    }
+    return { ok: true, value: Array.from(new Set(normalized)) };
+}
+
+async function validateApiKeyAccess(projectId: string, scopes: ApiKeyScope[], allowedPermissionSlugs: string[] | null) {
+    if (scopes.length === 0) return "Select at least one scope.";
+    if (!allowedPermissionSlugs || allowedPermissionSlugs.length === 0) return null;
+    if (allowedPermissionSlugs.length > MAX_ALLOWED_PERMISSIONS) {
+        return `A key can be limited to at most ${MAX_ALLOWED_PERMISSIONS} permissions.`;
+    }
+
+    const supabase = await createSupabaseServerClient();
+    const { data, error } = await supabase
+        .from("permissions")
+        .select("slug")
+        .eq("project_id", projectId)
+        .in("slug", allowedPermissionSlugs);
+
+    if (error) return "Failed to validate permissions.";
+    const existing = new Set((data ?? []).map((row) => row.slug as string));
+    const unknown = allowedPermissionSlugs.filter((slug) => !existing.has(slug));
+    if (unknown.length > 0) return `Unknown permission: ${unknown.join(", ")}.`;
+    return null;
+}
+
+/**
+ * Resolve the requested expiry. Omitting it defaults to the maximum lifetime.
+ */
+function resolveExpiresAt(expiresAt?: string | null): { ok: true; value: string } | { ok: false; error: string } {
+    const now = Date.now();
+    const maxExpiry = now + MAX_API_KEY_LIFETIME_DAYS * DAY_MS;
+    if (!expiresAt) return { ok: true, value: new Date(maxExpiry).toISOString() };
+
+    const parsed = new Date(expiresAt).getTime();
+    if (Number.isNaN(parsed)) return { ok: false, error: "Expiration date is invalid." };
+    if (parsed <= now) return { ok: false, error: "Expiration date must be in the future." };
+    if (parsed > maxExpiry + EXPIRY_CLOCK_SKEW_MS) {
+        return { ok: false, error: `API keys can be valid for at most ${MAX_API_KEY_LIFETIME_DAYS} days.` };
+    }
+    return { ok: true, value: new Date(Math.min(parsed, maxExpiry)).toISOString() };
+}
+
 function normalizeComparableName(name: string) {
     return name.trim().toLocaleLowerCase();
 }
@@ -51,6 +141,7 @@ function hasDuplicateApiKeyName(keys: ApiKeyRecord[], name: string, ignoreKeyId?
     if (!comparableName) return false;
     return keys.some((key) => {
         if (ignoreKeyId && key.id === ignoreKeyId) return false;
+        if (key.status === "revoked") return false;
         return normalizeComparableName(key.name) === comparableName;
     });
 }
@@ -66,7 +157,7 @@ async function getProjectSlugById(projectId: string) {
     return data?.slug ?? null;
 }
 
-async function ensureProjectAccess(projectId: string) {
+async function ensureProjectAccess(projectId: string, minimumRole: ProjectMemberRole) {
     type EnsureProjectAccessResult =
         | { ok: true; userId: string }
         | { ok: false; error: string; userId: string | null };
@@ -88,6 +179,11 @@ async function ensureProjectAccess(projectId: string) {
         return { ok: false, error: "Project not found.", userId: authData.user.id } as EnsureProjectAccessResult;
     }
 
+    const membership = await checkProjectRole(projectId, authData.user.id, minimumRole);
+    if (!membership.ok) {
+        return { ok: false, error: membership.error, userId: authData.user.id } as EnsureProjectAccessResult;
+    }
+
     return { ok: true, userId: authData.user.id } as EnsureProjectAccessResult;
 }
 
@@ -97,7 +193,7 @@ async function revalidateProjectPath(projectId: string) {
 }
 
 export async function listProjectApiKeysAction(projectId: string): Promise<ApiKeyActionResult<ApiKeyRecord[]>> {
-    const access = await ensureProjectAccess(projectId);
+    const access = await ensureProjectAccess(projectId, "viewer");
     if (!access.ok) return { ok: false, error: access.error };
 
     const keys = await getApiKeysForProject(projectId);
@@ -106,9 +202,9 @@ export async function listProjectApiKeysAction(projectId: string): Promise<ApiKe
 
 export async function generateProjectApiKeyAction(
     projectId: string,
-    input: { name: string; description?: string }
+    input: { name: string; description?: string; expiresAt?: string | null } & ApiKeyAccessInput
 ): Promise<ApiKeyActionResult<{ key: string; record: ApiKeyRecord }>> {
-    const access = await ensureProjectAccess(projectId);
+    const access = await ensureProjectAccess(projectId, "editor");
     if (!access.ok) return { ok: false, error: access.error };
 
     const name = normalizeName(input.name);
@@ -119,6 +215,18 @@ export async function generateProjectApiKeyAction(
     const descriptionError = validateDescription(description ?? undefined);
     if (descriptionError) return { ok: false, error: descriptionError };
 
+    const scopes = normalizeScopes(input.scopes);
+    const allowedPermissionSlugs = normalizeAllowedPermissionSlugs(input.allowedPermissionSlugs);
+    const accessError = await validateApiKeyAccess(projectId, scopes, allowedPermissionSlugs);
+    if (accessError) return { ok: false, error: accessError };
+    const allowedCidrs = normalizeAllowedCidrs(input.allowedCidrs);
+    if (!allowedCidrs.ok) return { ok: false, error: allowedCidrs.error };
+    const rateLimitPerMinute = input.rateLimitPerMinute ?? null;
+    const rateLimitError = validateRateLimit(rateLimitPerMinute);
+    if (rateLimitError) return { ok: false, error: rateLimitError };
+    const expiresAt = resolveExpiresAt(input.expiresAt);
+    if (!expiresAt.ok) return { ok: false, error: expiresAt.error };
+
     const existingKeys = await getApiKeysForProject(projectId);
     if (hasDuplicateApiKeyName(existingKeys, name)) {
         return { ok: false, error: "An API key with this name already exists in this project." };
@@ -128,6 +236,11 @@ export async function generateProjectApiKeyAction(
         projectId,
         name,
         description,
+        scopes,
+        allowedPermissionSlugs,
+        allowedCidrs: allowedCidrs.value,
+        rateLimitPerMinute,
+        expiresAt: expiresAt.value,
     });
 
     if (!created.ok) return { ok: false, error: created.error };
@@ -142,6 +255,11 @@ export async function generateProjectApiKeyAction(
             event: "api_key_generated",
             name: created.data.record.name,
             status: created.data.record.status,
+            scopes: created.data.record.scopes,
+            allowed_permission_slugs: created.data.record.allowed_permission_slugs,
+            allowed_cidrs: created.data.record.allowed_cidrs,
+            rate_limit_per_minute: created.data.record.rate_limit_per_minute,
+            expires_at: created.data.record.expires_at,
         },
     });
 
@@ -153,7 +271,7 @@ export async function deleteProjectApiKeyAction(
     projectId: string,
     keyId: string
 ): Promise<ApiKeyActionResult<{ id: string }>> {
-    const access = await ensureProjectAccess(projectId);
+    const access = await ensureProjectAccess(projectId, "editor");
     if (!access.ok) return { ok: false, error: access.error };
 
     const keys = await getApiKeysForProject(projectId);
@@ -180,19 +298,34 @@ export async function deleteProjectApiKeyAction(
     return { ok: true, data: { id: keyId } };
 }
 
+/**
+ * Replace a key with a new value. With a grace period the old key stays valid as `rotating` until
+ * the window ends, so running services can switch over without downtime.
+ */
 export async function rotateProjectApiKeyAction(
     projectId: string,
     keyId: string,
-    input: { name: string; description?: string }
-): Promise<ApiKeyActionResult<{ key: string; record: ApiKeyRecord }>> {
-    const access = await ensureProjectAccess(projectId);
+    input: { name: string; description?: string; expiresAt?: string | null; graceHours?: number }
+): Promise<ApiKeyActionResult<{ key: string; record: ApiKeyRecord; previous: ApiKeyRecord | null }>> {
+    const access = await ensureProjectAccess(projectId, "editor");
     if (!access.ok) return { ok: false, error: access.error };
 
     const keys = await getApiKeysForProject(projectId);
     const oldKey = keys.find((key) => key.id === keyId);
     if (!oldKey) return { ok: false, error: "API key not found." };
-    if (oldKey.status !== "active") {
-        return { ok: false, error: "Only active API keys can be replaced." };
+    if (oldKey.status === "revoked") {
+        return { ok: false, error: "Revoked API keys cannot be replaced." };
+    }
+    if (oldKey.status === "rotating") {
+        return { ok: false, error: "This key has already been replaced." };
+    }
+    if (keys.some((key) => key.status === "rotating" && key.replaced_by === keyId)) {
+        return { ok: false, error: "The previous key is still in its grace period. End it before rotating again." };
+    }
+
+    const graceHours = oldKey.status === "active" ? Math.floor(input.graceHours ?? 0) : 0;
+    if (!Number.isFinite(graceHours) || graceHours < 0 || graceHours > MAX_ROTATION_GRACE_HOURS) {
+        return { ok: false, error: `Grace period must be between 0 and ${MAX_ROTATION_GRACE_HOURS} hours.` };
     }
 
     const name = normalizeName(input.name);
@@ -204,16 +337,36 @@ export async function rotateProjectApiKeyAction(
     if (hasDuplicateApiKeyName(keys, name, keyId)) {
         return { ok: false, error: "An API key with this name already exists in this project." };
     }
+    const expiresAt = resolveExpiresAt(input.expiresAt);
+    if (!expiresAt.ok) return { ok: false, error: expiresAt.error };
 
     const created = await createApiKeyRecord({
         projectId,
         name,
         description,
+        scopes: oldKey.scopes,
+        allowedPermissionSlugs: oldKey.allowed_permission_slugs,
+        allowedCidrs: oldKey.allowed_cidrs,
+        rateLimitPerMinute: oldKey.rate_limit_per_minute,
+        expiresAt: expiresAt.value,
     });
     if (!created.ok) return { ok: false, error: created.error };
 
-    const deleted = await deleteApiKeyRecord(projectId, keyId);
-    if (!deleted.ok) return { ok: false, error: deleted.error };
+    let previous: ApiKeyRecord | null = null;
+    if (graceHours > 0) {
+        const rotating = await startApiKeyRotationRecord(projectId, keyId, {
+            replacedBy: created.data.record.id,
+            rotationEndsAt: new Date(Date.now() + graceHours * HOUR_MS).toISOString(),
+        });
+        if (!rotating.ok) {
+            await deleteApiKeyRecord(projectId, created.data.record.id);
+            return { ok: false, error: rotating.error };
+        }
+        previous = rotating.data;
+    } else {
+        const deleted = await deleteApiKeyRecord(projectId, keyId);
+        if (!deleted.ok) return { ok: false, error: deleted.error };
+    }
 
     await logAuditEvent({
         projectId,
@@ -225,32 +378,154 @@ export async function rotateProjectApiKeyAction(
             event: "api_key_generated",
             name: created.data.record.name,
             status: created.data.record.status,
+            expires_at: created.data.record.expires_at,
         },
     });
 
+    if (previous) {
+        await logAuditEvent({
+            projectId,
+            userId: access.userId,
+            entityType: "api_key",
+            entityId: keyId,
+            action: "updated",
+            metadata: {
+                event: "api_key_rotation_started",
+                name: oldKey.name,
+                status: previous.status,
+                replaced_by: created.data.record.id,
+                rotation_ends_at: previous.rotation_ends_at,
+            },
+        });
+    } else {
+        await logAuditEvent({
+            projectId,
+            userId: access.userId,
+            entityType: "api_key",
+            entityId: keyId,
+            action: "deleted",
+            metadata: {
+                event: "api_key_replaced",
+                name: oldKey.name,
+                status: oldKey.status,
+                replaced_by: created.data.record.id,
+            },
+        });
+    }
+
+    await revalidateProjectPath(projectId);
+    return { ok: true, data: { ...created.data, previous } };
+}
+
+export async function endApiKeyRotationAction(
+    projectId: string,
+    keyId: string
+): Promise<ApiKeyActionResult<ApiKeyRecord>> {
+    const access = await ensureProjectAccess(projectId, "editor");
+    if (!access.ok) return { ok: false, error: access.error };
+
+    const keys = await getApiKeysForProject(projectId);
+    const target = keys.find((key) => key.id === keyId);
+    if (!target) return { ok: false, error: "API key not found." };
+    if (target.status !== "rotating") {
+        return { ok: false, error: "This key is not in a rotation grace period." };
+    }
+
+    const [revoked] = await completeApiKeyRotations(projectId, { keyId, force: true });
+    if (!revoked) return { ok: false, error: "Failed to revoke the previous API key." };
+
+    await revalidateProjectPath(projectId);
+    return { ok: true, data: revoked };
+}
+
+export async function updateProjectApiKeyAccessAction(
+    projectId: string,
+    keyId: string,
+    input: ApiKeyAccessInput
+): Promise<ApiKeyActionResult<ApiKeyRecord>> {
+    const access = await ensureProjectAccess(projectId, "editor");
+    if (!access.ok) return { ok: false, error: access.error };
+
+    const keys = await getApiKeysForProject(projectId);
+    const target = keys.find((key) => key.id === keyId);
+    if (!target) return { ok: false, error: "API key not found." };
+
+    const scopes = normalizeScopes(input.scopes);
+    const allowedPermissionSlugs = normalizeAllowedPermissionSlugs(input.allowedPermissionSlugs);
+    const accessError = await validateApiKeyAccess(projectId, scopes, allowedPermissionSlugs);
+    if (accessError) return { ok: false, error: accessError };
+    const allowedCidrs = normalizeAllowedCidrs(input.allowedCidrs);
+    if (!allowedCidrs.ok) return { ok: false, error: allowedCidrs.error };
+    const rateLimitPerMinute = input.rateLimitPerMinute ?? null;
+    const rateLimitError = validateRateLimit(rateLimitPerMinute);
+    if (rateLimitError) return { ok: false, error: rateLimitError };
+
+    const updated = await updateApiKeyAccessRecord(projectId, keyId, {
+        scopes,
+        allowedPermissionSlugs,
+        allowedCidrs: allowedCidrs.value,
+        rateLimitPerMinute,
+    });
+    if (!updated.ok) return { ok: false, error: updated.error };
+
     await logAuditEvent({
         projectId,
         userId: access.userId,
         entityType: "api_key",
         entityId: keyId,
-        action: "deleted",
+        action: "updated",
         metadata: {
-            event: "api_key_replaced",
-            name: oldKey.name,
-            status: oldKey.status,
-            replaced_by: created.data.record.id,
+            event: "api_key_access_updated",
+            name: target.name,
+            previous_scopes: target.scopes,
+            scopes: updated.data.scopes,
+            previous_allowed_permission_slugs: target.allowed_permission_slugs,
+            allowed_permission_slugs: updated.data.allowed_permission_slugs,
+            previous_allowed_cidrs: target.allowed_cidrs,
+            allowed_cidrs: updated.data.allowed_cidrs,
+            previous_rate_limit_per_minute: target.rate_limit_per_minute,
+            rate_limit_per_minute: updated.data.rate_limit_per_minute,
         },
     });
 
     await revalidateProjectPath(projectId);
-    return { ok: true, data: created.data };
+    return { ok: true, data: updated.data };
+}
+
+export async function updateProjectRateLimitAction(
+    projectId: string,
+    limitPerMinute: number | null
+): Promise<ApiKeyActionResult<{ limitPerMinute: number | null }>> {
+    const access = await ensureProjectAccess(projectId, "admin");
+    if (!access.ok) return { ok: false, error: access.error };
+
+    const limitError = validateRateLimit(limitPerMinute);
+    if (limitError) return { ok: false, error: limitError };
+
+    const updated = await updateProjectRateLimit(projectId, limitPerMinute);
+    if (!updated.ok) return { ok: false, error: updated.error };
+
+    await logAuditEvent({
+        projectId,
+        userId: access.userId,
+        entityType: "project",
+        entityId: projectId,
+        action: "updated",
+        metadata: {
+            event: "project_rate_limit_updated",
+            rate_limit_per_minute: limitPerMinute,
+        },
+    });
+
+    await revalidateProjectPath(projectId);
+    return { ok: true, data: { limitPerMinute } };
 }
 
 export async function revealProjectApiKeyAction(
     projectId: string,
     keyId: string
 ): Promise<ApiKeyActionResult<{ id: string; key: string; name: string }>> {
-    const access = await ensureProjectAccess(projectId);
+    const access = await ensureProjectAccess(projectId, "editor");
     if (!access.ok) return { ok: false, error: access.error };
 
     const revealed = await getDecryptedApiKeyValue(projectId, keyId);
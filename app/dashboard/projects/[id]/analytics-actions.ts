@@ -0,0 +1,49 @@
+"use server";
+
+import { createSupabaseServerClient } from "@/lib/supabase-server";
+import { checkProjectRole } from "@/lib/projectMembers";
+import {
+    getProjectUsageAnalytics,
+    type ProjectUsageAnalytics,
+    type UsageAnalyticsRange,
+} from "@/lib/projects";
+
+type ApiResult<T> = { ok: true; data: T } | { ok: false; error: string };
+
+const VALID_RANGES = new Set<UsageAnalyticsRange>(["24h", "7d", "30d"]);
+
+async function ensureProjectAccess(projectId: string): Promise<{ ok: true } | { ok: false; error: string }> {
+    const supabase = await createSupabaseServerClient();
+    const { data: authData } = await supabase.auth.getUser();
+    if (!authData?.user) return { ok: false, error: "Unauthorized." };
+
+    const { data: project, error } = await supabase
+        .from("projects")
+        .select("id")
+        .eq("id", projectId)
+        .is("deleted_at", null)
+        .single();
+
+    if (error || !project) return { ok: false, error: "Project not found." };
+
+    const membership = await checkProjectRole(projectId, authData.user.id, "viewer");
+    if (!membership.ok) return { ok: false, error: membership.error };
+    return { ok: true };
+}
+
+export async function getUsageAnalyticsAction(
+    projectId: string,
+    range: UsageAnalyticsRange
+): Promise<ApiResult<ProjectUsageAnalytics>> {
+    const access = await ensureProjectAccess(projectId);
+    if (!access.ok) return { ok: false, error: access.error };
+
+    if (!VALID_RANGES.has(range)) return { ok: false, error: "Invalid range." };
+
+    try {
+        const analytics = await getProjectUsageAnalytics(projectId, range);
+        return { ok: true, data: analytics };
+    } catch {
+        return { ok: false, error: "Failed to load usage analytics." };
+    }
+}
@@ -0,0 +1,146 @@
+"use server";
+
+import { createSupabaseServerClient } from "@/lib/supabase-server";
+import { checkProjectRole } from "@/lib/projectMembers";
+import { getDecryptedApiKeyValue } from "@/lib/apiKeys";
+import { getAppBaseUrl } from "@/lib/invitations";
+
+export type ActionResult<T> =
+    | { ok: true; data: T }
+    | { ok: false; error: string };
+
+export type ApiExplorerOperation = "check" | "user_roles" | "policy";
+
+export type ApiExplorerResponse = {
+    method: string;
+    url: string;
+    requestBody: string | null;
+    status: number;
+    durationMs: number;
+    headers: Record<string, string>;
+    body: string;
+};
+
+const REQUEST_TIMEOUT_MS = 10_000;
+const MAX_USER_ID_LENGTH = 200;
+// Only headers worth showing next to the body; the rest are transport noise.
+const SHOWN_HEADERS = [
+    "content-type",
+    "etag",
+    "cache-control",
+    "retry-after",
+    "x-ratelimit-limit",
+    "x-ratelimit-remaining",
+    "x-ratelimit-reset",
+];
+
+async function verifyProjectAccess(projectId: string) {
+    const supabase = await createSupabaseServerClient();
+    const { data: authData } = await supabase.auth.getUser();
+    if (!authData?.user) return { ok: false, error: "Unauthorized." } as const;
+
+    const { data: project, error } = await supabase
+        .from("projects")
+        .select("id, slug")
+        .eq("id", projectId)
+        .is("deleted_at", null)
+        .single();
+
+    if (error || !project) return { ok: false, error: "Project not found." } as const;
+
+    // Sending requests with a key is as sensitive as revealing it.
+    const membership = await checkProjectRole(projectId, authData.user.id, "editor");
+    if (!membership.ok) return { ok: false, error: membership.error } as const;
+
+    return { ok: true, slug: project.slug as string } as const;
+}
+
+/**
+ * Send a real request to the `/v1` API with one of the project's keys and return the raw response.
+ * The key is decrypted on the server and never sent to the browser. Calls count as usage of the key
+ * and against its rate limit, like any other request.
+ */
+export async function sendApiExplorerRequestAction(
+    projectId: string,
+    input: {
+        apiKeyId: string;
+        operation: ApiExplorerOperation;
+        userId: string;
+        permissionSlug?: string | null;
+        explain?: boolean;
+    }
+): Promise<ActionResult<ApiExplorerResponse>> {
+    const access = await verifyProjectAccess(projectId);
+    if (!access.ok) return { ok: false, error: access.error };
+
+    const userId = (input.userId ?? "").trim();
+    const permissionSlug = (input.permissionSlug ?? "").trim();
+    if (!userId) return { ok: false, error: "User ID is required." };
+    if (userId.length > MAX_USER_ID_LENGTH) return { ok: false, error: "User ID is too long." };
+    if (input.operation === "check" && !permissionSlug) return { ok: false, error: "Permission is required." };
+
+    const apiKey = await getDecryptedApiKeyValue(projectId, input.apiKeyId);
+    if (!apiKey.ok) return { ok: false, error: apiKey.error };
+
+    const projectPath = `/v1/projects/${encodeURIComponent(access.slug)}`;
+    const request =
+        input.operation === "check"
+            ? {
+                  method: "POST",
+                  path: `${projectPath}/access/check`,
+                  body: JSON.stringify(
+                      { user_id: userId, resource: permissionSlug, ...(input.explain ? { explain: true } : null) },
+                      null,
+                      2
+                  ),
+              }
+            : input.operation === "user_roles"
+              ? { method: "GET", path: `${projectPath}/users/${encodeURIComponent(userId)}/roles`, body: null }
+              : { method: "GET", path: `${projectPath}/policy?user_id=${encodeURIComponent(userId)}`, body: null };
+
+    const url = `${getAppBaseUrl()}${request.path}`;
+    const startedAt = Date.now();
+    let response: Response;
+    try {
+        response = await fetch(url, {
+            method: request.method,
+            headers: {
+                Authorization: `Bearer ${apiKey.data.key}`,
+                ...(request.body ? { "Content-Type": "application/json" } : null),
+            },
+            body: request.body,
+            cache: "no-store",
+            signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+    } catch (error) {
+        const timedOut = error instanceof Error && error.name === "TimeoutError";
+        return { ok: false, error: timedOut ? "The API did not respond in time." : "Could not reach the API." };
+    }
+
+    const text = await response.text();
+    let body = text;
+    try {
+        body = JSON.stringify(JSON.parse(text), null, 2);
+    } catch {
+        // Not JSON (e.g. an empty 304); show it as is.
+    }
+
+    const headers: Record<string, string> = {};
+    for (const name of SHOWN_HEADERS) {
+        const value = response.headers.get(name);
+        if (value !== null) headers[name] = value;
+    }
+
+    return {
+        ok: true,
+        data: {
+            method: request.method,
+            url,
+            requestBody: request.body,
+            status: response.status,
+            durationMs: Date.now() - startedAt,
+            headers,
+            body,
+        },
+    };
+}
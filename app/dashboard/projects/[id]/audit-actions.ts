@@ -1,6 +1,7 @@
 "use server";
 
 import { createSupabaseServerClient } from "@/lib/supabase-server";
+import { checkProjectRole } from "@/lib/projectMembers";
 
 type AuditLogRow = {
     id: string;
@@ -70,6 +71,9 @@ async function ensureProjectAccess(projectId: string): Promise<{ ok: true } | {
         .single();
 
     if (error || !project) return { ok: false, error: "Project not found." };
+
+    const membership = await checkProjectRole(projectId, authData.user.id, "viewer");
+    if (!membership.ok) return { ok: false, error: membership.error };
     return { ok: true };
 }
 
@@ -0,0 +1,404 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { createSupabaseServerClient } from "@/lib/supabase-server";
+import { logAuditEvent } from "@/lib/auditLogs";
+import { sendMail } from "@/lib/mail";
+import {
+    createInvitationToken,
+    getAppBaseUrl,
+    getInvitationExpiry,
+    hashInvitationToken,
+    renderProjectInvitationEmail,
+} from "@/lib/invitations";
+import {
+    createProjectInvitation,
+    getProjectInvitation,
+    getProjectInvitations,
+    getProjectMember,
+    getProjectMembers,
+    hasProjectRole,
+    isProjectMemberRole,
+    normalizeInvitationEmail,
+    ProjectInvitationRecord,
+    ProjectMemberRecord,
+    ProjectMemberRole,
+    refreshProjectInvitation,
+    removeProjectMember,
+    requireProjectRole,
+    resolveProjectInvitation,
+    transferProjectOwnership,
+    updateProjectMemberRole,
+} from "@/lib/projectMembers";
+
+type ActionResult<T> =
+    | { ok: true; data: T }
+    | { ok: false; error: string };
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MAX_EMAIL_LENGTH = 254;
+const MAX_PENDING_INVITATIONS = 50;
+
+function validateEmail(email: string) {
+    if (!email) return "Email is required.";
+    if (email.length > MAX_EMAIL_LENGTH) return "Email is too long.";
+    if (!EMAIL_REGEX.test(email)) return "Enter a valid email address.";
+    return null;
+}
+
+/**
+ * Owners can assign any non-owner role. Everyone else can only assign roles below their own and
+ * only manage members ranked below them, so an admin cannot demote or remove another admin.
+ */
+function canManageMember(actorRole: ProjectMemberRole, memberRole: ProjectMemberRole) {
+    if (memberRole === "owner") return false;
+    if (actorRole === "owner") return true;
+    return !hasProjectRole(memberRole, actorRole);
+}
+
+function canAssignRole(actorRole: ProjectMemberRole, role: ProjectMemberRole) {
+    if (role === "owner") return false;
+    if (actorRole === "owner") return true;
+    return !hasProjectRole(role, actorRole);
+}
+
+async function revalidateProjectPath(projectId: string) {
+    const supabase = await createSupabaseServerClient();
+    const { data } = await supabase
+        .from("projects")
+        .select("slug")
+        .eq("id", projectId)
+        .is("deleted_at", null)
+        .maybeSingle();
+    revalidatePath(`/dashboard/projects/${data?.slug ?? projectId}`);
+}
+
+/**
+ * Sign a fresh token for the invitation and email the accept link. The token hash is returned so
+ * callers can store it; only the newest link for an invitation is accepted.
+ */
+async function issueInvitation(
+    projectId: string,
+    input: { invitationId: string; email: string; role: ProjectMemberRole }
+) {
+    const supabase = await createSupabaseServerClient();
+    const [{ data: project }, { data: authData }] = await Promise.all([
+        supabase.from("projects").select("name").eq("id", projectId).is("deleted_at", null).maybeSingle(),
+        supabase.auth.getUser(),
+    ]);
+
+    const expiresAt = getInvitationExpiry();
+    const projectName = project?.name ?? "a project";
+    const token = createInvitationToken({
+        invitationId: input.invitationId,
+        projectId,
+        projectName,
+        email: input.email,
+        role: input.role,
+        expiresAt,
+    });
+
+    const send = async () =>
+        sendMail(
+            renderProjectInvitationEmail({
+                to: input.email,
+                projectName,
+                role: input.role,
+                inviterEmail: authData?.user?.email ?? null,
+                acceptUrl: `${getAppBaseUrl()}/signup?invite=${encodeURIComponent(token)}`,
+                expiresAt,
+            })
+        );
+
+    return { tokenHash: hashInvitationToken(token), expiresAt, send };
+}
+
+export async function listProjectMembersAction(
+    projectId: string
+): Promise<ActionResult<{ members: ProjectMemberRecord[]; invitations: ProjectInvitationRecord[] }>> {
+    const access = await requireProjectRole(projectId, "viewer");
+    if (!access.ok) return { ok: false, error: access.error };
+
+    try {
+        const [members, invitations] = await Promise.all([
+            getProjectMembers(projectId),
+            getProjectInvitations(projectId),
+        ]);
+        return { ok: true, data: { members, invitations } };
+    } catch {
+        return { ok: false, error: "Failed to load project members." };
+    }
+}
+
+export async function inviteProjectMemberAction(
+    projectId: string,
+    input: { email: string; role: ProjectMemberRole }
+): Promise<ActionResult<{ invitation: ProjectInvitationRecord; emailSent: boolean }>> {
+    const access = await requireProjectRole(projectId, "admin");
+    if (!access.ok) return { ok: false, error: access.error };
+
+    const email = normalizeInvitationEmail(input.email ?? "");
+    const emailError = validateEmail(email);
+    if (emailError) return { ok: false, error: emailError };
+
+    if (!isProjectMemberRole(input.role)) return { ok: false, error: "Invalid member role." };
+    if (!canAssignRole(access.role, input.role)) {
+        return { ok: false, error: "You cannot invite members with this role." };
+    }
+
+    let members: ProjectMemberRecord[];
+    let invitations: ProjectInvitationRecord[];
+    try {
+        [members, invitations] = await Promise.all([getProjectMembers(projectId), getProjectInvitations(projectId)]);
+    } catch {
+        return { ok: false, error: "Failed to load project members." };
+    }
+
+    if (members.some((member) => member.email && normalizeInvitationEmail(member.email) === email)) {
+        return { ok: false, error: "This person is already a member of the project." };
+    }
+    if (invitations.some((invitation) => invitation.email === email)) {
+        return { ok: false, error: "An invitation for this email is already pending. Resend it instead." };
+    }
+    if (invitations.length >= MAX_PENDING_INVITATIONS) {
+        return { ok: false, error: `A project can have at most ${MAX_PENDING_INVITATIONS} pending invitations.` };
+    }
+
+    const invitationId = crypto.randomUUID();
+    const issued = await issueInvitation(projectId, { invitationId, email, role: input.role });
+    const created = await createProjectInvitation({
+        id: invitationId,
+        projectId,
+        email,
+        role: input.role,
+        invitedBy: access.userId,
+        tokenHash: issued.tokenHash,
+        expiresAt: issued.expiresAt,
+    });
+    if (!created.ok) return { ok: false, error: "Failed to create invitation." };
+
+    const sent = await issued.send();
+
+    await logAuditEvent({
+        projectId,
+        userId: access.userId,
+        entityType: "project_member",
+        entityId: created.data.id,
+        action: "created",
+        metadata: {
+            event: "project_member_invited",
+            email,
+            role: input.role,
+            expires_at: issued.expiresAt,
+            email_sent: sent.ok,
+        },
+    });
+
+    await revalidateProjectPath(projectId);
+    return { ok: true, data: { invitation: created.data, emailSent: sent.ok } };
+}
+
+/**
+ * Email a new link for a pending invitation and restart its expiry window. Earlier links stop
+ * working.
+ */
+export async function resendProjectInvitationAction(
+    projectId: string,
+    invitationId: string
+): Promise<ActionResult<ProjectInvitationRecord>> {
+    const access = await requireProjectRole(projectId, "admin");
+    if (!access.ok) return { ok: false, error: access.error };
+
+    const invitation = await getProjectInvitation(projectId, invitationId);
+    if (!invitation || invitation.status !== "pending") {
+        return { ok: false, error: "Invitation not found or already answered." };
+    }
+    if (!canAssignRole(access.role, invitation.role)) {
+        return { ok: false, error: "You cannot resend this invitation." };
+    }
+
+    const issued = await issueInvitation(projectId, {
+        invitationId,
+        email: invitation.email,
+        role: invitation.role,
+    });
+    const refreshed = await refreshProjectInvitation({
+        projectId,
+        invitationId,
+        tokenHash: issued.tokenHash,
+        expiresAt: issued.expiresAt,
+    });
+    if (!refreshed.ok) return { ok: false, error: "Failed to refresh invitation." };
+
+    const sent = await issued.send();
+    if (!sent.ok) return { ok: false, error: "Invitation was refreshed but the email could not be sent." };
+
+    await logAuditEvent({
+        projectId,
+        userId: access.userId,
+        entityType: "project_member",
+        entityId: invitationId,
+        action: "updated",
+        metadata: {
+            event: "project_invitation_resent",
+            email: invitation.email,
+            role: invitation.role,
+            expires_at: issued.expiresAt,
+        },
+    });
+
+    await revalidateProjectPath(projectId);
+    return { ok: true, data: refreshed.data };
+}
+
+export async function revokeProjectInvitationAction(
+    projectId: string,
+    invitationId: string
+): Promise<ActionResult<{ id: string }>> {
+    const access = await requireProjectRole(projectId, "admin");
+    if (!access.ok) return { ok: false, error: access.error };
+
+    const revoked = await resolveProjectInvitation(invitationId, "revoked", { projectId });
+    if (!revoked) return { ok: false, error: "Invitation not found or already answered." };
+
+    await logAuditEvent({
+        projectId,
+        userId: access.userId,
+        entityType: "project_member",
+        entityId: revoked.id,
+        action: "revoked",
+        metadata: {
+            event: "project_invitation_revoked",
+            email: revoked.email,
+            role: revoked.role,
+        },
+    });
+
+    await revalidateProjectPath(projectId);
+    return { ok: true, data: { id: revoked.id } };
+}
+
+export async function updateProjectMemberRoleAction(
+    projectId: string,
+    memberId: string,
+    role: ProjectMemberRole
+): Promise<ActionResult<ProjectMemberRecord>> {
+    const access = await requireProjectRole(projectId, "admin");
+    if (!access.ok) return { ok: false, error: access.error };
+
+    if (!isProjectMemberRole(role)) return { ok: false, error: "Invalid member role." };
+
+    const member = await getProjectMember(projectId, memberId);
+    if (!member) return { ok: false, error: "Member not found." };
+    if (member.user_id === access.userId) return { ok: false, error: "You cannot change your own role." };
+    if (!canManageMember(access.role, member.role) || !canAssignRole(access.role, role)) {
+        return { ok: false, error: "You cannot change this member's role." };
+    }
+    if (member.role === role) return { ok: true, data: member };
+
+    const updated = await updateProjectMemberRole(projectId, memberId, role);
+    if (!updated.ok) return { ok: false, error: "Failed to update member role." };
+
+    await logAuditEvent({
+        projectId,
+        userId: access.userId,
+        entityType: "project_member",
+        entityId: memberId,
+        action: "updated",
+        metadata: {
+            event: "project_member_role_changed",
+            member_user_id: member.user_id,
+            email: member.email,
+            previous_role: member.role,
+            role,
+        },
+    });
+
+    await revalidateProjectPath(projectId);
+    return { ok: true, data: updated.data };
+}
+
+export async function removeProjectMemberAction(
+    projectId: string,
+    memberId: string
+): Promise<ActionResult<{ id: string }>> {
+    const access = await requireProjectRole(projectId, "viewer");
+    if (!access.ok) return { ok: false, error: access.error };
+
+    const member = await getProjectMember(projectId, memberId);
+    if (!member) return { ok: false, error: "Member not found." };
+
+    const isSelf = member.user_id === access.userId;
+    if (member.role === "owner") {
+        return { ok: false, error: "Transfer ownership before removing the project owner." };
+    }
+    if (!isSelf && (!hasProjectRole(access.role, "admin") || !canManageMember(access.role, member.role))) {
+        return { ok: false, error: "You cannot remove this member." };
+    }
+
+    const removed = await removeProjectMember(projectId, memberId);
+    if (!removed.ok) return { ok: false, error: "Failed to remove member." };
+
+    await logAuditEvent({
+        projectId,
+        userId: access.userId,
+        entityType: "project_member",
+        entityId: memberId,
+        action: "revoked",
+        metadata: {
+            event: isSelf ? "project_member_left" : "project_member_removed",
+            member_user_id: member.user_id,
+            email: member.email,
+            role: member.role,
+        },
+    });
+
+    await revalidateProjectPath(projectId);
+    return { ok: true, data: { id: memberId } };
+}
+
+/**
+ * Hand the project to another existing member. The previous owner stays on the project as admin.
+ */
+export async function transferProjectOwnershipAction(
+    projectId: string,
+    memberId: string
+): Promise<ActionResult<ProjectMemberRecord[]>> {
+    const access = await requireProjectRole(projectId, "owner");
+    if (!access.ok) return { ok: false, error: access.error };
+
+    const member = await getProjectMember(projectId, memberId);
+    if (!member) return { ok: false, error: "Member not found." };
+    if (member.user_id === access.userId) return { ok: false, error: "You already own this project." };
+
+    let members: ProjectMemberRecord[];
+    try {
+        members = await getProjectMembers(projectId);
+    } catch {
+        return { ok: false, error: "Failed to load project members." };
+    }
+
+    const transferred = await transferProjectOwnership(projectId, member.id);
+    if (!transferred.ok) return { ok: false, error: "Failed to update project owner." };
+    const changedById = new Map(transferred.data.map((item) => [item.id, item]));
+
+    await logAuditEvent({
+        projectId,
+        userId: access.userId,
+        entityType: "project",
+        entityId: projectId,
+        action: "updated",
+        metadata: {
+            event: "project_owner_changed",
+            owner_id: member.user_id,
+            email: member.email,
+            previous_owner_id: access.userId,
+        },
+    });
+
+    await revalidateProjectPath(projectId);
+    return {
+        ok: true,
+        data: members.map((item) => changedById.get(item.id) ?? item),
+    };
+}
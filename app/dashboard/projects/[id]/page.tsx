@@ -1,9 +1,17 @@
 import { notFound, redirect } from "next/navigation";
-import { getProjectById, getProjectBySlug, getProjectOverviewKpis } from "@/lib/projects";
-import { getApiKeysForProject } from "@/lib/apiKeys";
+import { getProjectById, getProjectBySlug, getProjectOverviewKpis, getProjectUsageAnalytics } from "@/lib/projects";
+import { completeApiKeyRotations, expireLapsedApiKeys, getApiKeysForProject } from "@/lib/apiKeys";
 import { getPermissions } from "@/lib/permissions";
 import { getRoles } from "@/lib/roles";
 import { getAuditLogs } from "@/lib/auditLogs";
+import { expireLapsedUserRoles, getUserRoleAssignments } from "@/lib/userRoles";
+import { getUserPermissionDenies } from "@/lib/userPermissionDenies";
+import { getAccessRequests } from "@/lib/accessRequests";
+import { getProjectRateLimit } from "@/lib/rateLimit";
+import { getCurrentUser } from "@/lib/auth";
+import { getProjectInvitations, getProjectMemberRole, getProjectMembers, hasProjectRole } from "@/lib/projectMembers";
+import { getAppBaseUrl } from "@/lib/invitations";
+import { getWebhookDeliveries, getWebhookEndpoints } from "@/lib/webhooks";
 
 
 import ProjectPageClient from "./ProjectPageClient";
@@ -25,21 +33,49 @@ export default async function ProjectPage({
     project = project ?? null;
     if (!project) return notFound();
 
+    const user = await getCurrentUser();
+    const memberRole = user ? await getProjectMemberRole(project.id, user.id) : null;
+    if (!user || !memberRole) return notFound();
+
+    await completeApiKeyRotations(project.id);
+    await expireLapsedApiKeys(project.id);
+    await expireLapsedUserRoles(project.id);
     const apiKeys = await getApiKeysForProject(project.id);
+    const projectRateLimit = await getProjectRateLimit(project.id);
 
     const permissions = await getPermissions(project.id);
     const roles = await getRoles(project.id);
+    const userRoleAssignments = await getUserRoleAssignments(project.id);
+    const userPermissionDenies = await getUserPermissionDenies(project.id);
+    const accessRequests = await getAccessRequests(project.id, { status: "pending" });
     const auditLogs = await getAuditLogs(project.id);
     const projectKpis = await getProjectOverviewKpis(project.id);
+    const usageAnalytics = await getProjectUsageAnalytics(project.id, "24h");
+    const members = await getProjectMembers(project.id);
+    const invitations = hasProjectRole(memberRole, "admin") ? await getProjectInvitations(project.id) : [];
+    const webhookEndpoints = await getWebhookEndpoints(project.id);
+    const webhookDeliveries = await getWebhookDeliveries(project.id);
 
     return (
         <ProjectPageClient
             project={project}
             apiKeys={apiKeys}
+            projectRateLimit={projectRateLimit}
             permissions={permissions}
             roles={roles}
+            userRoleAssignments={userRoleAssignments}
+            userPermissionDenies={userPermissionDenies}
+            accessRequests={accessRequests}
             auditLogs={auditLogs}
             projectKpis={projectKpis}
+            usageAnalytics={usageAnalytics}
+            currentUserId={user.id}
+            memberRole={memberRole}
+            members={members}
+            invitations={invitations}
+            apiBaseUrl={getAppBaseUrl()}
+            webhookEndpoints={webhookEndpoints}
+            webhookDeliveries={webhookDeliveries}
         />
     );
 }
@@ -1,6 +1,7 @@
 "use server";
 
 import { createSupabaseServerClient } from "@/lib/supabase-server";
+import { checkProjectRole } from "@/lib/projectMembers";
 import { createPermission, updatePermission, deletePermission, togglePermission } from "@/lib/permissions";
 import { logAuditEvent } from "@/lib/auditLogs";
 
@@ -70,7 +71,8 @@ function validateRiskLevel(riskLevel: string) {
 
 async function verifyProjectAccess(
     supabase: Awaited<ReturnType<typeof createSupabaseServerClient>>,
-    projectId: string
+    projectId: string,
+    userId: string
 ) {
     const { data, error } = await supabase
         .from("projects")
@@ -82,6 +84,11 @@ async function verifyProjectAccess(
         return { ok: false, error: "Project not found." } as const;
     }
 
+    const membership = await checkProjectRole(projectId, userId, "editor");
+    if (!membership.ok) {
+        return { ok: false, error: membership.error } as const;
+    }
+
     return { ok: true } as const;
 }
 
@@ -127,7 +134,7 @@ export async function createPermissionAction(
         return { ok: false, error: "Unauthorized." };
     }
 
-    const projectCheck = await verifyProjectAccess(supabase, projectId);
+    const projectCheck = await verifyProjectAccess(supabase, projectId, authData.user.id);
     if (!projectCheck.ok) {
         return { ok: false, error: projectCheck.error };
     }
@@ -216,6 +223,20 @@ export async function updatePermissionAction(
     const riskError = validateRiskLevel(data.risk_level);
     if (riskError) return { ok: false, error: riskError };
 
+    const { data: existing } = await supabase
+        .from("permissions")
+        .select("project_id")
+        .eq("id", id)
+        .maybeSingle();
+    if (!existing) {
+        return { ok: false, error: "Permission not found." };
+    }
+
+    const projectCheck = await verifyProjectAccess(supabase, existing.project_id, authData.user.id);
+    if (!projectCheck.ok) {
+        return { ok: false, error: projectCheck.error };
+    }
+
     const updated = await updatePermission(id, {
         name: normalizedName,
         slug: normalizedSlug,
@@ -256,7 +277,7 @@ export async function deletePermissionAction(
         return { ok: false, error: "Unauthorized." };
     }
 
-    const projectCheck = await verifyProjectAccess(supabase, projectId);
+    const projectCheck = await verifyProjectAccess(supabase, projectId, authData.user.id);
     if (!projectCheck.ok) {
         return { ok: false, error: projectCheck.error };
     }
@@ -301,7 +322,7 @@ export async function togglePermissionAction(
         return { ok: false, error: "Unauthorized." };
     }
 
-    const projectCheck = await verifyProjectAccess(supabase, projectId);
+    const projectCheck = await verifyProjectAccess(supabase, projectId, authData.user.id);
     if (!projectCheck.ok) {
         return { ok: false, error: projectCheck.error };
     }
@@ -341,7 +362,7 @@ export async function bulkTogglePermissionsAction(
         return { ok: false, error: "Unauthorized." };
     }
 
-    const projectCheck = await verifyProjectAccess(supabase, projectId);
+    const projectCheck = await verifyProjectAccess(supabase, projectId, authData.user.id);
     if (!projectCheck.ok) {
         return { ok: false, error: projectCheck.error };
     }
@@ -401,7 +422,7 @@ export async function bulkDeletePermissionsAction(
         return { ok: false, error: "Unauthorized." };
     }
 
-    const projectCheck = await verifyProjectAccess(supabase, projectId);
+    const projectCheck = await verifyProjectAccess(supabase, projectId, authData.user.id);
     if (!projectCheck.ok) {
         return { ok: false, error: projectCheck.error };
     }
@@ -3,27 +3,17 @@
 import { createSupabaseServerClient } from "@/lib/supabase-server";
 import { logAuditEvent } from "@/lib/auditLogs";
 import type { ProjectRecord } from "@/lib/projects";
+import { checkProjectRole, type ProjectMemberRole } from "@/lib/projectMembers";
+import { findInheritanceCycle, MAX_PARENT_ROLES } from "@/lib/roleHierarchy";
+import { parseCondition } from "@/lib/conditions";
+import { getRoleParentMap, replaceRoleParents, replaceRolePermissionDenies } from "@/lib/roles";
+import { loadProjectConfig, type ProjectConfigPermission, type ProjectConfigRole } from "@/lib/projectConfig";
 
 type ActionResult<T> =
     | { ok: true; data: T }
     | { ok: false; error: string };
 
-export type ProjectConfigPermission = {
-    slug: string;
-    name: string;
-    description: string | null;
-    risk_level: "low" | "medium" | "high";
-    enabled: boolean;
-    is_system: boolean;
-};
-
-export type ProjectConfigRole = {
-    slug: string;
-    name: string;
-    description: string | null;
-    is_system: boolean;
-    permission_slugs: string[];
-};
+export type { ProjectConfigPermission, ProjectConfigRole };
 
 export type ProjectConfigExport = {
     version: 1;
@@ -50,6 +40,7 @@ export type ProjectConfigImportPreview = {
         action: "create" | "update" | "skip";
         missingPermissionSlugs: string[];
         permissionCount: number;
+        missingParentSlugs: string[];
         reason?: string;
     }>;
     permissionSummary: {
@@ -141,7 +132,8 @@ async function getProjectForUpdate(
 
 async function ensureProjectAccess(
     supabase: Awaited<ReturnType<typeof createSupabaseServerClient>>,
-    projectId: string
+    projectId: string,
+    minimumRole: ProjectMemberRole
 ) {
     const { data: authData } = await supabase.auth.getUser();
     if (!authData?.user) {
@@ -153,6 +145,11 @@ async function ensureProjectAccess(
         return { ok: false, error: project.error, userId: authData.user.id } as const;
     }
 
+    const membership = await checkProjectRole(projectId, authData.user.id, minimumRole);
+    if (!membership.ok) {
+        return { ok: false, error: membership.error, userId: authData.user.id } as const;
+    }
+
     return { ok: true, userId: authData.user.id, project: project.data } as const;
 }
 
@@ -186,10 +183,7 @@ export async function updateProjectSettingsAction(
     }
 ): Promise<ActionResult<ProjectRecord>> {
     const supabase = await createSupabaseServerClient();
-    const { data: authData } = await supabase.auth.getUser();
-    if (!authData?.user) return { ok: false, error: "Unauthorized." };
-
-    const projectCheck = await getProjectForUpdate(supabase, projectId);
+    const projectCheck = await ensureProjectAccess(supabase, projectId, "admin");
     if (!projectCheck.ok) return { ok: false, error: projectCheck.error };
 
     const name = normalizeName(payload.name);
@@ -212,7 +206,7 @@ export async function updateProjectSettingsAction(
         return { ok: false, error: "Project slug already exists." };
     }
 
-    const nextArchivedAt = status === "archived" ? (projectCheck.data.archived_at ?? new Date().toISOString()) : null;
+    const nextArchivedAt = status === "archived" ? (projectCheck.project.archived_at ?? new Date().toISOString()) : null;
 
     const { data: updated, error } = await supabase
         .from("projects")
@@ -235,7 +229,7 @@ export async function updateProjectSettingsAction(
 
     await logAuditEvent({
         projectId,
-        userId: authData.user.id,
+        userId: projectCheck.userId,
         entityType: "project",
         entityId: updated.id,
         action: "updated",
@@ -250,58 +244,9 @@ export async function updateProjectSettingsAction(
     return { ok: true, data: updated as ProjectRecord };
 }
 
-export async function changeProjectOwnerAction(
-    projectId: string,
-    nextOwnerId: string
-): Promise<ActionResult<ProjectRecord>> {
-    const supabase = await createSupabaseServerClient();
-    const { data: authData } = await supabase.auth.getUser();
-    if (!authData?.user) return { ok: false, error: "Unauthorized." };
-
-    const normalizedOwnerId = nextOwnerId.trim();
-    if (!normalizedOwnerId) {
-        return { ok: false, error: "Owner ID is required." };
-    }
-
-    const projectCheck = await getProjectForUpdate(supabase, projectId);
-    if (!projectCheck.ok) return { ok: false, error: projectCheck.error };
-
-    const { data: updated, error } = await supabase
-        .from("projects")
-        .update({
-            owner_id: normalizedOwnerId,
-            updated_at: new Date().toISOString(),
-        })
-        .eq("id", projectId)
-        .is("deleted_at", null)
-        .select("id, owner_id, name, slug, description, status, created_at, updated_at, archived_at, deleted_at")
-        .single();
-
-    if (error || !updated) {
-        return { ok: false, error: "Failed to update project owner." };
-    }
-
-    await logAuditEvent({
-        projectId,
-        userId: authData.user.id,
-        entityType: "project",
-        entityId: updated.id,
-        action: "updated",
-        metadata: {
-            event: "project_owner_changed",
-            owner_id: updated.owner_id,
-        },
-    });
-
-    return { ok: true, data: updated as ProjectRecord };
-}
-
 export async function archiveProjectAction(projectId: string): Promise<ActionResult<ProjectRecord>> {
     const supabase = await createSupabaseServerClient();
-    const { data: authData } = await supabase.auth.getUser();
-    if (!authData?.user) return { ok: false, error: "Unauthorized." };
-
-    const projectCheck = await getProjectForUpdate(supabase, projectId);
+    const projectCheck = await ensureProjectAccess(supabase, projectId, "admin");
     if (!projectCheck.ok) return { ok: false, error: projectCheck.error };
 
     const { data: updated, error } = await supabase
@@ -322,7 +267,7 @@ export async function archiveProjectAction(projectId: string): Promise<ActionRes
 
     await logAuditEvent({
         projectId,
-        userId: authData.user.id,
+        userId: projectCheck.userId,
         entityType: "project",
         entityId: updated.id,
         action: "updated",
@@ -338,10 +283,7 @@ export async function archiveProjectAction(projectId: string): Promise<ActionRes
 
 export async function restoreProjectAction(projectId: string): Promise<ActionResult<ProjectRecord>> {
     const supabase = await createSupabaseServerClient();
-    const { data: authData } = await supabase.auth.getUser();
-    if (!authData?.user) return { ok: false, error: "Unauthorized." };
-
-    const projectCheck = await getProjectForUpdate(supabase, projectId);
+    const projectCheck = await ensureProjectAccess(supabase, projectId, "admin");
     if (!projectCheck.ok) return { ok: false, error: projectCheck.error };
 
     const { data: updated, error } = await supabase
@@ -362,7 +304,7 @@ export async function restoreProjectAction(projectId: string): Promise<ActionRes
 
     await logAuditEvent({
         projectId,
-        userId: authData.user.id,
+        userId: projectCheck.userId,
         entityType: "project",
         entityId: updated.id,
         action: "updated",
@@ -378,8 +320,8 @@ export async function restoreProjectAction(projectId: string): Promise<ActionRes
 
 export async function deleteProjectAction(projectId: string): Promise<ActionResult<{ id: string }>> {
     const supabase = await createSupabaseServerClient();
-    const { data: authData } = await supabase.auth.getUser();
-    if (!authData?.user) return { ok: false, error: "Unauthorized." };
+    const access = await ensureProjectAccess(supabase, projectId, "owner");
+    if (!access.ok) return { ok: false, error: access.error };
 
     const { error } = await supabase
         .from("projects")
@@ -421,6 +363,28 @@ function normalizeImportRole(raw: ProjectConfigRole): ProjectConfigRole | null {
     const permission_slugs = Array.from(
         new Set((raw.permission_slugs ?? []).map((item) => normalizeSlug(item)).filter(Boolean))
     );
+    const permission_conditions: Record<string, string> = {};
+    if (raw.permission_conditions && typeof raw.permission_conditions === "object") {
+        for (const [key, value] of Object.entries(raw.permission_conditions)) {
+            const permissionSlug = normalizeSlug(key);
+            if (typeof value !== "string" || !value.trim() || !permission_slugs.includes(permissionSlug)) continue;
+            permission_conditions[permissionSlug] = value.trim();
+        }
+    }
+    const denied_permission_slugs = Array.from(
+        new Set(
+            (Array.isArray(raw.denied_permission_slugs) ? raw.denied_permission_slugs : [])
+                .map((item) => normalizeSlug(String(item)))
+                .filter((item) => item && !permission_slugs.includes(item))
+        )
+    );
+    const parent_slugs = Array.from(
+        new Set(
+            (Array.isArray(raw.parent_slugs) ? raw.parent_slugs : [])
+                .map((item) => normalizeSlug(String(item)))
+                .filter((item) => item && item !== slug)
+        )
+    ).slice(0, MAX_PARENT_ROLES);
 
     if (!slug || !name || !SLUG_REGEX.test(slug)) return null;
     return {
@@ -429,9 +393,18 @@ function normalizeImportRole(raw: ProjectConfigRole): ProjectConfigRole | null {
         description,
         is_system,
         permission_slugs,
+        permission_conditions,
+        denied_permission_slugs,
+        parent_slugs,
     };
 }
 
+function getInvalidConditionSlugs(role: ProjectConfigRole) {
+    return Object.entries(role.permission_conditions ?? {})
+        .filter(([, condition]) => !parseCondition(condition).ok)
+        .map(([slug]) => slug);
+}
+
 function parseConfigPayload(input: unknown) {
     if (!input || typeof input !== "object") {
         return { ok: false, error: "Invalid config file format." } as const;
@@ -461,12 +434,58 @@ function parseConfigPayload(input: unknown) {
     } as const;
 }
 
+type RoleParentPlan = {
+    parentSlugs: string[];
+    missingParentSlugs: string[];
+    cycle: string[] | null;
+};
+
+/**
+ * Decide which parent roles each imported role will extend. Parents must exist in the project or
+ * in the file. Roles are applied in file order against a graph that stays acyclic, so a parent
+ * link that would close a cycle is reported and that role keeps its current parents.
+ */
+function planRoleParents(
+    importedRoles: ProjectConfigRole[],
+    existingRoles: Array<{ id: string; slug: string; is_system: boolean }>,
+    parentIdsByRoleId: Map<string, string[]>
+) {
+    const slugById = new Map(existingRoles.map((role) => [role.id, role.slug]));
+    const existingBySlug = new Map(existingRoles.map((role) => [role.slug, role]));
+    const knownSlugs = new Set([...existingBySlug.keys(), ...importedRoles.map((role) => role.slug)]);
+
+    const parentsBySlug = new Map<string, string[]>();
+    for (const role of existingRoles) {
+        parentsBySlug.set(
+            role.slug,
+            (parentIdsByRoleId.get(role.id) ?? [])
+                .map((id) => slugById.get(id))
+                .filter((slug): slug is string => Boolean(slug))
+        );
+    }
+
+    const plans = new Map<string, RoleParentPlan>();
+    for (const role of importedRoles) {
+        if (existingBySlug.get(role.slug)?.is_system) continue;
+
+        const requested = role.parent_slugs ?? [];
+        const parentSlugs = requested.filter((slug) => knownSlugs.has(slug));
+        const missingParentSlugs = requested.filter((slug) => !knownSlugs.has(slug));
+        const cycle = findInheritanceCycle(role.slug, parentSlugs, parentsBySlug);
+        if (!cycle) parentsBySlug.set(role.slug, parentSlugs);
+
+        plans.set(role.slug, { parentSlugs, missingParentSlugs, cycle });
+    }
+
+    return plans;
+}
+
 export async function previewProjectConfigImportAction(
     projectId: string,
     input: unknown
 ): Promise<ActionResult<ProjectConfigImportPreview>> {
     const supabase = await createSupabaseServerClient();
-    const access = await ensureProjectAccess(supabase, projectId);
+    const access = await ensureProjectAccess(supabase, projectId, "admin");
     if (!access.ok) return { ok: false, error: access.error };
 
     const parsed = parseConfigPayload(input);
@@ -480,10 +499,14 @@ export async function previewProjectConfigImportAction(
 
     const { data: existingRoles, error: existingRolesError } = await supabase
         .from("roles")
-        .select("slug, is_system")
+        .select("id, slug, is_system")
         .eq("project_id", projectId);
     if (existingRolesError) return { ok: false, error: "Failed to inspect existing roles." };
 
+    const existingParents = await getRoleParentMap(projectId);
+    if (!existingParents.ok) return { ok: false, error: "Failed to inspect role inheritance." };
+    const parentPlans = planRoleParents(parsed.roles, existingRoles ?? [], existingParents.data);
+
     const existingPermissionBySlug = new Map(
         (existingPermissions ?? []).map((permission) => [permission.slug, permission])
     );
@@ -550,7 +573,7 @@ export async function previewProjectConfigImportAction(
             roleAction = "update";
         }
 
-        const missingForRole = role.permission_slugs.filter((slug) => {
+        const missingForRole = [...role.permission_slugs, ...(role.denied_permission_slugs ?? [])].filter((slug) => {
             if (importedPermissionSlugs.has(slug)) return false;
             return !existingPermissionBySlug.has(slug);
         });
@@ -562,12 +585,31 @@ export async function previewProjectConfigImportAction(
                 }.`
             );
         }
+        const invalidConditionSlugs = getInvalidConditionSlugs(role);
+        if (invalidConditionSlugs.length > 0) {
+            conflicts.push(
+                `Role "${role.slug}" has invalid conditions on: ${invalidConditionSlugs.join(", ")}. Those permissions will not be granted.`
+            );
+        }
+        const parentPlan = parentPlans.get(role.slug);
+        if (parentPlan && parentPlan.missingParentSlugs.length > 0) {
+            conflicts.push(
+                `Role "${role.slug}" extends missing roles: ${parentPlan.missingParentSlugs.join(", ")}. They will be ignored.`
+            );
+        }
+        if (parentPlan?.cycle) {
+            conflicts.push(
+                `Role "${role.slug}" would inherit from itself (${parentPlan.cycle.join(" → ")}). Its parent roles will not change.`
+            );
+        }
+
         roleChanges.push({
             slug: role.slug,
             name: role.name,
             action: roleAction,
             missingPermissionSlugs: missingForRole,
             permissionCount: role.permission_slugs.length,
+            missingParentSlugs: parentPlan?.missingParentSlugs ?? [],
             reason: roleReason,
         });
         assignmentUpdate += 1;
@@ -614,48 +656,11 @@ export async function exportProjectConfigAction(
     projectId: string
 ): Promise<ActionResult<ProjectConfigExport>> {
     const supabase = await createSupabaseServerClient();
-    const access = await ensureProjectAccess(supabase, projectId);
+    const access = await ensureProjectAccess(supabase, projectId, "viewer");
     if (!access.ok) return { ok: false, error: access.error };
 
-    const { data: permissions, error: permissionsError } = await supabase
-        .from("permissions")
-        .select("id, slug, name, description, risk_level, enabled, is_system")
-        .eq("project_id", projectId)
-        .order("created_at", { ascending: true });
-
-    if (permissionsError) return { ok: false, error: "Failed to export permissions." };
-
-    const { data: roles, error: rolesError } = await supabase
-        .from("roles")
-        .select("id, slug, name, description, is_system")
-        .eq("project_id", projectId)
-        .order("created_at", { ascending: true });
-
-    if (rolesError) return { ok: false, error: "Failed to export roles." };
-
-    const roleIds = (roles ?? []).map((role) => role.id);
-    const { data: rolePermissions, error: rolePermissionsError } = roleIds.length
-        ? await supabase
-              .from("role_permissions")
-              .select("role_id, permission_id")
-              .in("role_id", roleIds)
-        : { data: [], error: null };
-
-    if (rolePermissionsError) return { ok: false, error: "Failed to export role assignments." };
-
-    const permissionSlugById = new Map<string, string>();
-    for (const permission of permissions ?? []) {
-        permissionSlugById.set(permission.id, permission.slug);
-    }
-
-    const permissionSlugsByRoleId = new Map<string, string[]>();
-    for (const row of rolePermissions ?? []) {
-        const slug = permissionSlugById.get(row.permission_id);
-        if (!slug) continue;
-        const current = permissionSlugsByRoleId.get(row.role_id) ?? [];
-        current.push(slug);
-        permissionSlugsByRoleId.set(row.role_id, current);
-    }
+    const config = await loadProjectConfig(projectId);
+    if (!config.ok) return { ok: false, error: config.error };
 
     const payload: ProjectConfigExport = {
         version: 1,
@@ -665,21 +670,8 @@ export async function exportProjectConfigAction(
             slug: access.project.slug,
             name: access.project.name,
         },
-        permissions: (permissions ?? []).map((permission) => ({
-            slug: permission.slug,
-            name: permission.name,
-            description: permission.description,
-            risk_level: permission.risk_level,
-            enabled: permission.enabled,
-            is_system: permission.is_system,
-        })),
-        roles: (roles ?? []).map((role) => ({
-            slug: role.slug,
-            name: role.name,
-            description: role.description,
-            is_system: role.is_system,
-            permission_slugs: permissionSlugsByRoleId.get(role.id) ?? [],
-        })),
+        permissions: config.data.permissions,
+        roles: config.data.roles,
     };
 
     await logAuditEvent({
@@ -711,7 +703,7 @@ export async function importProjectConfigAction(
     }>
 > {
     const supabase = await createSupabaseServerClient();
-    const access = await ensureProjectAccess(supabase, projectId);
+    const access = await ensureProjectAccess(supabase, projectId, "admin");
     if (!access.ok) return { ok: false, error: access.error };
 
     const parsed = parseConfigPayload(input);
@@ -783,6 +775,10 @@ export async function importProjectConfigAction(
     if (existingRolesError) return { ok: false, error: "Failed to load existing roles." };
     const existingRoleBySlug = new Map((existingRoles ?? []).map((role) => [role.slug, role]));
 
+    const existingParents = await getRoleParentMap(projectId);
+    if (!existingParents.ok) return { ok: false, error: "Failed to load role inheritance." };
+    const parentPlans = planRoleParents(roles, existingRoles ?? [], existingParents.data);
+
     let importedRoles = 0;
     let assignmentUpdates = 0;
 
@@ -790,6 +786,20 @@ export async function importProjectConfigAction(
         const permissionIds = role.permission_slugs
             .map((slug) => permissionIdBySlug.get(slug))
             .filter((id): id is string => Boolean(id));
+        // A permission whose condition does not parse is left out rather than granted unconditionally.
+        const invalidConditionSlugs = new Set(getInvalidConditionSlugs(role));
+        const conditionByPermissionId = new Map<string, string>();
+        for (const [slug, condition] of Object.entries(role.permission_conditions ?? {})) {
+            const permissionId = permissionIdBySlug.get(slug);
+            if (permissionId && !invalidConditionSlugs.has(slug)) conditionByPermissionId.set(permissionId, condition);
+        }
+        const grantedPermissionIds = role.permission_slugs
+            .filter((slug) => !invalidConditionSlugs.has(slug))
+            .map((slug) => permissionIdBySlug.get(slug))
+            .filter((id): id is string => Boolean(id));
+        const deniedPermissionIds = (role.denied_permission_slugs ?? [])
+            .map((slug) => permissionIdBySlug.get(slug))
+            .filter((id): id is string => Boolean(id) && !permissionIds.includes(id as string));
 
         const existing = existingRoleBySlug.get(role.slug);
         if (!existing) {
@@ -806,14 +816,18 @@ export async function importProjectConfigAction(
                 .single();
             if (createRoleError || !createdRole) continue;
 
-            if (permissionIds.length > 0) {
-                const inserts = permissionIds.map((permissionId) => ({
+            if (grantedPermissionIds.length > 0) {
+                const inserts = grantedPermissionIds.map((permissionId) => ({
                     role_id: createdRole.id,
                     permission_id: permissionId,
+                    condition: conditionByPermissionId.get(permissionId) ?? null,
                 }));
                 const { error: linkError } = await supabase.from("role_permissions").insert(inserts);
                 if (!linkError) assignmentUpdates += 1;
             }
+            if (deniedPermissionIds.length > 0) {
+                await replaceRolePermissionDenies(createdRole.id, deniedPermissionIds);
+            }
             importedRoles += 1;
             existingRoleBySlug.set(createdRole.slug, createdRole);
             continue;
@@ -839,17 +853,37 @@ export async function importProjectConfigAction(
             .eq("role_id", existing.id);
         if (deleteLinksError) continue;
 
-        if (permissionIds.length > 0) {
-            const inserts = permissionIds.map((permissionId) => ({
+        if (grantedPermissionIds.length > 0) {
+            const inserts = grantedPermissionIds.map((permissionId) => ({
                 role_id: existing.id,
                 permission_id: permissionId,
+                condition: conditionByPermissionId.get(permissionId) ?? null,
             }));
             const { error: insertLinksError } = await supabase.from("role_permissions").insert(inserts);
             if (insertLinksError) continue;
         }
+        const replacedDenies = await replaceRolePermissionDenies(existing.id, deniedPermissionIds);
+        if (!replacedDenies.ok) continue;
         assignmentUpdates += 1;
     }
 
+    // Parents are linked once every role exists, so a role can extend one defined later in the file.
+    let inheritanceUpdates = 0;
+    for (const [slug, plan] of parentPlans) {
+        if (plan.cycle) continue;
+        const role = existingRoleBySlug.get(slug);
+        if (!role) continue;
+
+        const parentIds = plan.parentSlugs
+            .map((parentSlug) => existingRoleBySlug.get(parentSlug)?.id)
+            .filter((id): id is string => Boolean(id));
+        const current = existingParents.data.get(role.id) ?? [];
+        if (current.length === parentIds.length && current.every((id) => parentIds.includes(id))) continue;
+
+        const replaced = await replaceRoleParents(role.id, parentIds);
+        if (replaced.ok) inheritanceUpdates += 1;
+    }
+
     await logAuditEvent({
         projectId,
         userId: access.userId,
@@ -861,6 +895,7 @@ export async function importProjectConfigAction(
             imported_permissions: importedPermissions,
             imported_roles: importedRoles,
             assignment_updates: assignmentUpdates,
+            inheritance_updates: inheritanceUpdates,
             skipped_invalid_permissions: skippedInvalidPermissions,
             skipped_invalid_roles: skippedInvalidRoles,
         },
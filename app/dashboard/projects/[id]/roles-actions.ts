@@ -1,7 +1,10 @@
 "use server";
 
 import { createSupabaseServerClient } from "@/lib/supabase-server";
+import { checkProjectRole } from "@/lib/projectMembers";
 import { logAuditEvent } from "@/lib/auditLogs";
+import { findInheritanceCycle, MAX_PARENT_ROLES } from "@/lib/roleHierarchy";
+import { parseCondition } from "@/lib/conditions";
 import {
     createRole,
     deleteRole,
@@ -34,6 +37,10 @@ function normalizePermissionIds(permissionIds: string[]) {
     return Array.from(new Set((permissionIds ?? []).filter(Boolean)));
 }
 
+function normalizeParentRoleIds(parentRoleIds?: string[]) {
+    return Array.from(new Set((parentRoleIds ?? []).filter(Boolean)));
+}
+
 function validateName(name: string) {
     if (!name) return "Role name is required.";
     if (name.length < 2) return "Role name is too short.";
@@ -61,7 +68,8 @@ function validateSlug(slug: string) {
 
 async function verifyProjectAccess(
     supabase: Awaited<ReturnType<typeof createSupabaseServerClient>>,
-    projectId: string
+    projectId: string,
+    userId: string
 ) {
     const { data, error } = await supabase
         .from("projects")
@@ -73,6 +81,11 @@ async function verifyProjectAccess(
         return { ok: false, error: "Project not found." } as const;
     }
 
+    const membership = await checkProjectRole(projectId, userId, "editor");
+    if (!membership.ok) {
+        return { ok: false, error: membership.error } as const;
+    }
+
     return { ok: true } as const;
 }
 
@@ -152,6 +165,86 @@ async function filterValidPermissionsBelongToProject(
     return { ok: true, validIds } as const;
 }
 
+/**
+ * Keep conditions only for permissions the role actually allows, and reject any that do not parse.
+ */
+async function validatePermissionConditions(
+    supabase: Awaited<ReturnType<typeof createSupabaseServerClient>>,
+    permissionIds: string[],
+    conditions?: Record<string, string>
+) {
+    const normalized: Record<string, string> = {};
+    for (const permissionId of permissionIds) {
+        const condition = (conditions?.[permissionId] ?? "").trim();
+        if (!condition) continue;
+
+        const parsed = parseCondition(condition);
+        if (!parsed.ok) {
+            const { data } = await supabase.from("permissions").select("slug").eq("id", permissionId).maybeSingle();
+            return {
+                ok: false,
+                error: `Condition for "${data?.slug ?? permissionId}" is invalid: ${parsed.error}`,
+            } as const;
+        }
+        normalized[permissionId] = condition;
+    }
+    return { ok: true, conditions: normalized } as const;
+}
+
+/**
+ * Parent roles must belong to the project, and extending them must not make the role inherit
+ * from itself. `roleId` is null while creating a role, which cannot be part of a cycle yet.
+ */
+async function validateParentRoles(
+    supabase: Awaited<ReturnType<typeof createSupabaseServerClient>>,
+    projectId: string,
+    roleId: string | null,
+    parentRoleIds: string[]
+) {
+    if (parentRoleIds.length === 0) {
+        return { ok: true } as const;
+    }
+    if (parentRoleIds.length > MAX_PARENT_ROLES) {
+        return { ok: false, error: `A role can extend at most ${MAX_PARENT_ROLES} roles.` } as const;
+    }
+    if (roleId && parentRoleIds.includes(roleId)) {
+        return { ok: false, error: "A role cannot extend itself." } as const;
+    }
+
+    const { data, error } = await supabase
+        .from("roles")
+        .select("id, name, role_parents!role_parents_role_id_fkey(parent_role_id)")
+        .eq("project_id", projectId);
+
+    if (error) {
+        return { ok: false, error: "Failed to validate parent roles." } as const;
+    }
+
+    const rows = (data ?? []) as Array<{
+        id: string;
+        name: string;
+        role_parents?: Array<{ parent_role_id: string }> | null;
+    }>;
+    const nameById = new Map(rows.map((row) => [row.id, row.name]));
+    if (parentRoleIds.some((id) => !nameById.has(id))) {
+        return { ok: false, error: "Parent role not found." } as const;
+    }
+    if (!roleId) {
+        return { ok: true } as const;
+    }
+
+    const parentsByRoleId = new Map(
+        rows.map((row) => [row.id, (row.role_parents ?? []).map((entry) => entry.parent_role_id)])
+    );
+    const cycle = findInheritanceCycle(roleId, parentRoleIds, parentsByRoleId);
+    if (cycle) {
+        const path = cycle.map((id) => nameById.get(id) ?? id).join(" → ");
+        return { ok: false, error: `Role inheritance cannot form a cycle: ${path}.` } as const;
+    }
+
+    return { ok: true } as const;
+}
+
 export async function createRoleAction(
     projectId: string,
     data: {
@@ -159,6 +252,9 @@ export async function createRoleAction(
         slug: string;
         description?: string;
         permission_ids: string[];
+        permission_conditions?: Record<string, string>;
+        denied_permission_ids?: string[];
+        parent_role_ids?: string[];
         is_system?: boolean;
     }
 ): Promise<ActionResult<RoleWithPermissions>> {
@@ -169,7 +265,7 @@ export async function createRoleAction(
         return { ok: false, error: "Unauthorized." };
     }
 
-    const projectCheck = await verifyProjectAccess(supabase, projectId);
+    const projectCheck = await verifyProjectAccess(supabase, projectId, authData.user.id);
     if (!projectCheck.ok) {
         return { ok: false, error: projectCheck.error };
     }
@@ -178,6 +274,8 @@ export async function createRoleAction(
     const normalizedSlug = normalizeSlug(data.slug);
     const normalizedDescription = normalizeDescription(data.description);
     const normalizedPermissionIds = normalizePermissionIds(data.permission_ids);
+    const normalizedDeniedPermissionIds = normalizePermissionIds(data.denied_permission_ids ?? []);
+    const normalizedParentRoleIds = normalizeParentRoleIds(data.parent_role_ids);
 
     const nameError = validateName(normalizedName);
     if (nameError) return { ok: false, error: nameError };
@@ -207,11 +305,40 @@ export async function createRoleAction(
         return { ok: false, error: permissionsCheck.error };
     }
 
+    const deniesCheck = await filterValidPermissionsBelongToProject(
+        supabase,
+        projectId,
+        normalizedDeniedPermissionIds
+    );
+    if (!deniesCheck.ok) {
+        return { ok: false, error: deniesCheck.error };
+    }
+    if (deniesCheck.validIds.some((id) => permissionsCheck.validIds.includes(id))) {
+        return { ok: false, error: "A permission cannot be both allowed and denied by the same role." };
+    }
+
+    const conditionsCheck = await validatePermissionConditions(
+        supabase,
+        permissionsCheck.validIds,
+        data.permission_conditions
+    );
+    if (!conditionsCheck.ok) {
+        return { ok: false, error: conditionsCheck.error };
+    }
+
+    const parentsCheck = await validateParentRoles(supabase, projectId, null, normalizedParentRoleIds);
+    if (!parentsCheck.ok) {
+        return { ok: false, error: parentsCheck.error };
+    }
+
     const created = await createRole(projectId, {
         name: normalizedName,
         slug: normalizedSlug,
         description: normalizedDescription,
         permission_ids: permissionsCheck.validIds,
+        permission_conditions: conditionsCheck.conditions,
+        denied_permission_ids: deniesCheck.validIds,
+        parent_role_ids: normalizedParentRoleIds,
         is_system: Boolean(data.is_system),
     });
 
@@ -229,6 +356,9 @@ export async function createRoleAction(
             name: created.data.name,
             slug: created.data.slug,
             permission_count: created.data.permission_ids.length,
+            conditional_permission_count: Object.keys(created.data.permission_conditions).length,
+            denied_permission_count: created.data.denied_permission_ids.length,
+            parent_role_ids: created.data.parent_role_ids,
             is_system: created.data.is_system,
         },
     });
@@ -244,6 +374,9 @@ export async function updateRoleAction(
         slug: string;
         description?: string;
         permission_ids: string[];
+        permission_conditions?: Record<string, string>;
+        denied_permission_ids?: string[];
+        parent_role_ids?: string[];
         is_system: boolean;
     }
 ): Promise<ActionResult<RoleWithPermissions>> {
@@ -254,7 +387,7 @@ export async function updateRoleAction(
         return { ok: false, error: "Unauthorized." };
     }
 
-    const projectCheck = await verifyProjectAccess(supabase, projectId);
+    const projectCheck = await verifyProjectAccess(supabase, projectId, authData.user.id);
     if (!projectCheck.ok) {
         return { ok: false, error: projectCheck.error };
     }
@@ -274,6 +407,8 @@ export async function updateRoleAction(
     const normalizedSlug = normalizeSlug(data.slug);
     const normalizedDescription = normalizeDescription(data.description);
     const normalizedPermissionIds = normalizePermissionIds(data.permission_ids);
+    const normalizedDeniedPermissionIds = normalizePermissionIds(data.denied_permission_ids ?? []);
+    const normalizedParentRoleIds = normalizeParentRoleIds(data.parent_role_ids);
 
     const nameError = validateName(normalizedName);
     if (nameError) return { ok: false, error: nameError };
@@ -313,11 +448,40 @@ export async function updateRoleAction(
         return { ok: false, error: permissionsCheck.error };
     }
 
+    const deniesCheck = await filterValidPermissionsBelongToProject(
+        supabase,
+        projectId,
+        normalizedDeniedPermissionIds
+    );
+    if (!deniesCheck.ok) {
+        return { ok: false, error: deniesCheck.error };
+    }
+    if (deniesCheck.validIds.some((id) => permissionsCheck.validIds.includes(id))) {
+        return { ok: false, error: "A permission cannot be both allowed and denied by the same role." };
+    }
+
+    const conditionsCheck = await validatePermissionConditions(
+        supabase,
+        permissionsCheck.validIds,
+        data.permission_conditions
+    );
+    if (!conditionsCheck.ok) {
+        return { ok: false, error: conditionsCheck.error };
+    }
+
+    const parentsCheck = await validateParentRoles(supabase, projectId, id, normalizedParentRoleIds);
+    if (!parentsCheck.ok) {
+        return { ok: false, error: parentsCheck.error };
+    }
+
     const updated = await updateRole(id, projectId, {
         name: normalizedName,
         slug: normalizedSlug,
         description: normalizedDescription,
         permission_ids: permissionsCheck.validIds,
+        permission_conditions: conditionsCheck.conditions,
+        denied_permission_ids: deniesCheck.validIds,
+        parent_role_ids: normalizedParentRoleIds,
         is_system: Boolean(data.is_system),
     });
 
@@ -335,6 +499,9 @@ export async function updateRoleAction(
             name: updated.data.name,
             slug: updated.data.slug,
             permission_count: updated.data.permission_ids.length,
+            conditional_permission_count: Object.keys(updated.data.permission_conditions).length,
+            denied_permission_count: updated.data.denied_permission_ids.length,
+            parent_role_ids: updated.data.parent_role_ids,
             is_system: updated.data.is_system,
         },
     });
@@ -353,7 +520,7 @@ export async function deleteRoleAction(
         return { ok: false, error: "Unauthorized." };
     }
 
-    const projectCheck = await verifyProjectAccess(supabase, projectId);
+    const projectCheck = await verifyProjectAccess(supabase, projectId, authData.user.id);
     if (!projectCheck.ok) {
         return { ok: false, error: projectCheck.error };
     }
@@ -409,7 +576,7 @@ export async function bulkDeleteRolesAction(
         return { ok: false, error: "Unauthorized." };
     }
 
-    const projectCheck = await verifyProjectAccess(supabase, projectId);
+    const projectCheck = await verifyProjectAccess(supabase, projectId, authData.user.id);
     if (!projectCheck.ok) {
         return { ok: false, error: projectCheck.error };
     }
@@ -480,7 +647,7 @@ export async function bulkAssignRolePermissionsAction(
         return { ok: false, error: "Unauthorized." };
     }
 
-    const projectCheck = await verifyProjectAccess(supabase, projectId);
+    const projectCheck = await verifyProjectAccess(supabase, projectId, authData.user.id);
     if (!projectCheck.ok) {
         return { ok: false, error: projectCheck.error };
     }
@@ -522,9 +689,30 @@ export async function bulkAssignRolePermissionsAction(
 
     const validPermissionIds = permissionsCheck.validIds;
 
+    // A deny always wins, so granting a permission the same role denies would silently do nothing.
+    if (mode !== "remove" && validPermissionIds.length > 0) {
+        const { data: denies, error: deniesError } = await supabase
+            .from("role_permission_denies")
+            .select("role_id")
+            .in("role_id", rolesData.map((role) => role.id))
+            .in("permission_id", validPermissionIds);
+
+        if (deniesError) {
+            return { ok: false, error: "Failed to load role deny rules." };
+        }
+
+        const conflicting = rolesData.filter((role) => (denies ?? []).some((row) => row.role_id === role.id));
+        if (conflicting.length > 0) {
+            return {
+                ok: false,
+                error: `${conflicting.map((role) => role.name).join(", ")} ${conflicting.length === 1 ? "denies" : "deny"} some of the selected permissions. Remove the deny rules before allowing them.`,
+            };
+        }
+    }
+
     const { data: existingRolePermissions, error: rolePermissionsError } = await supabase
         .from("role_permissions")
-        .select("role_id, permission_id")
+        .select("role_id, permission_id, condition")
         .in("role_id", rolesData.map((role) => role.id));
 
     if (rolePermissionsError) {
@@ -532,12 +720,14 @@ export async function bulkAssignRolePermissionsAction(
     }
 
     const currentByRole = new Map<string, Set<string>>();
+    const conditionByLink = new Map<string, string>();
     for (const role of rolesData) {
         currentByRole.set(role.id, new Set<string>());
     }
     for (const row of existingRolePermissions ?? []) {
         if (!currentByRole.has(row.role_id)) continue;
         currentByRole.get(row.role_id)?.add(row.permission_id);
+        if (row.condition) conditionByLink.set(`${row.role_id}:${row.permission_id}`, row.condition);
     }
 
     const updatedRolePermissions: Record<string, string[]> = {};
@@ -567,9 +757,11 @@ export async function bulkAssignRolePermissionsAction(
         }
 
         if (nextIds.length > 0) {
+            // Links that survive the bulk change keep their conditions.
             const inserts = nextIds.map((permissionId) => ({
                 role_id: role.id,
                 permission_id: permissionId,
+                condition: conditionByLink.get(`${role.id}:${permissionId}`) ?? null,
             }));
             const { error: insertError } = await supabase
                 .from("role_permissions")
@@ -0,0 +1,549 @@
+"use server";
+
+import { createSupabaseServerClient } from "@/lib/supabase-server";
+import { logAuditEvent } from "@/lib/auditLogs";
+import { checkProjectRole, type ProjectMemberRole } from "@/lib/projectMembers";
+import {
+    createUserRoleAssignments,
+    deleteUserRoleAssignments,
+    expireLapsedUserRoles,
+    getHighRiskRoleIds,
+    getUserRoleAssignments,
+    getUserRoleAssignmentsForUsers,
+    parseResourceScope,
+    type ResourceScope,
+    UserRoleAssignment,
+} from "@/lib/userRoles";
+import { resolveAssignmentWindow } from "@/lib/assignmentWindow";
+import {
+    createUserPermissionDeny,
+    deleteUserPermissionDenies,
+    getUserPermissionDenies,
+    type UserPermissionDeny,
+} from "@/lib/userPermissionDenies";
+
+export type ActionResult<T> =
+    | { ok: true; data: T }
+    | { ok: false; error: string };
+
+export type UserRoleImportEntry = {
+    user_id: string;
+    role_slug: string;
+    resource_type?: string;
+    resource_id?: string;
+};
+
+export type UserRoleImportResult = {
+    created: UserRoleAssignment[];
+    skippedDuplicates: number;
+    invalidEntries: Array<{ line: number; reason: string }>;
+};
+
+const MAX_USER_ID_LENGTH = 200;
+const MAX_IMPORT_ENTRIES = 1000;
+const MAX_DENY_REASON_LENGTH = 500;
+
+type ProjectRole = {
+    id: string;
+    name: string;
+    slug: string;
+};
+
+function normalizeUserId(userId: string) {
+    return (userId ?? "").trim();
+}
+
+function validateUserId(userId: string) {
+    if (!userId) return "User ID is required.";
+    if (userId.length > MAX_USER_ID_LENGTH) return "User ID is too long.";
+    return null;
+}
+
+function assignmentKey(assignment: {
+    role_id: string;
+    user_id: string;
+    resource_type: string | null;
+    resource_id: string | null;
+}) {
+    return [
+        assignment.role_id,
+        assignment.user_id,
+        assignment.resource_type ?? "",
+        assignment.resource_id ?? "",
+    ].join(":");
+}
+
+function escapeLikeValue(value: string) {
+    return value.replaceAll("\\", "\\\\").replaceAll("%", "\\%").replaceAll("_", "\\_");
+}
+
+async function ensureProjectAccess(projectId: string, minimumRole: ProjectMemberRole) {
+    type EnsureProjectAccessResult =
+        | { ok: true; userId: string }
+        | { ok: false; error: string; userId: string | null };
+
+    const supabase = await createSupabaseServerClient();
+    const { data: authData } = await supabase.auth.getUser();
+    if (!authData?.user) {
+        return { ok: false, error: "Unauthorized.", userId: null } as EnsureProjectAccessResult;
+    }
+
+    const { data: project, error } = await supabase
+        .from("projects")
+        .select("id")
+        .eq("id", projectId)
+        .is("deleted_at", null)
+        .single();
+
+    if (error || !project) {
+        return { ok: false, error: "Project not found.", userId: authData.user.id } as EnsureProjectAccessResult;
+    }
+
+    const membership = await checkProjectRole(projectId, authData.user.id, minimumRole);
+    if (!membership.ok) {
+        return { ok: false, error: membership.error, userId: authData.user.id } as EnsureProjectAccessResult;
+    }
+
+    return { ok: true, userId: authData.user.id } as EnsureProjectAccessResult;
+}
+
+async function getProjectRoles(projectId: string) {
+    const supabase = await createSupabaseServerClient();
+    const { data, error } = await supabase
+        .from("roles")
+        .select("id, name, slug")
+        .eq("project_id", projectId);
+
+    if (error) return { ok: false, error: "Failed to load roles." } as const;
+    return { ok: true, data: (data ?? []) as ProjectRole[] } as const;
+}
+
+async function logAssignmentEvent(input: {
+    projectId: string;
+    actorId: string;
+    assignment: UserRoleAssignment;
+    role: ProjectRole | undefined;
+    action: "granted" | "revoked";
+    source?: string;
+}) {
+    await logAuditEvent({
+        projectId: input.projectId,
+        userId: input.actorId,
+        entityType: "user_role",
+        entityId: input.assignment.id,
+        action: input.action,
+        metadata: {
+            event: input.action === "granted" ? "user_role_assigned" : "user_role_unassigned",
+            user_id: input.assignment.user_id,
+            role_id: input.assignment.role_id,
+            role_name: input.role?.name ?? null,
+            role_slug: input.role?.slug ?? null,
+            ...(input.assignment.resource_type
+                ? { resource_type: input.assignment.resource_type, resource_id: input.assignment.resource_id }
+                : {}),
+            ...(input.assignment.starts_at ? { starts_at: input.assignment.starts_at } : {}),
+            ...(input.assignment.expires_at ? { expires_at: input.assignment.expires_at } : {}),
+            ...(input.source ? { source: input.source } : {}),
+        },
+    });
+}
+
+export async function listUserRoleAssignmentsAction(
+    projectId: string,
+    filters?: { query?: string; roleId?: string; scope?: "project" | "resource"; resourceQuery?: string }
+): Promise<ActionResult<UserRoleAssignment[]>> {
+    const access = await ensureProjectAccess(projectId, "viewer");
+    if (!access.ok) return { ok: false, error: access.error };
+
+    const query = (filters?.query ?? "").trim();
+    // "document:42" filters on both parts, "document" on the type only.
+    const [resourceType = "", ...resourceIdParts] = (filters?.resourceQuery ?? "").trim().split(":");
+    const resourceId = resourceIdParts.join(":").trim();
+
+    try {
+        const assignments = await getUserRoleAssignments(projectId, {
+            userQuery: query ? escapeLikeValue(query) : undefined,
+            roleId: filters?.roleId || undefined,
+            scope: resourceType ? "resource" : filters?.scope,
+            resourceType: resourceType.trim().toLowerCase() || undefined,
+            resourceId: resourceId || undefined,
+        });
+        return { ok: true, data: assignments };
+    } catch {
+        return { ok: false, error: "Failed to load user assignments." };
+    }
+}
+
+/**
+ * Assign a role to a user id, project-wide or, with `resourceType` and `resourceId`, on one
+ * resource instance only. `startsAt` and `expiresAt` bound the assignment in time; roles with
+ * high-risk permissions always expire.
+ */
+export async function assignUserRoleAction(
+    projectId: string,
+    input: {
+        userId: string;
+        roleId: string;
+        resourceType?: string | null;
+        resourceId?: string | null;
+        startsAt?: string | null;
+        expiresAt?: string | null;
+    }
+): Promise<ActionResult<UserRoleAssignment>> {
+    const access = await ensureProjectAccess(projectId, "editor");
+    if (!access.ok) return { ok: false, error: access.error };
+
+    const userId = normalizeUserId(input.userId);
+    const userIdError = validateUserId(userId);
+    if (userIdError) return { ok: false, error: userIdError };
+
+    const resource = parseResourceScope(input.resourceType, input.resourceId);
+    if (!resource.ok) return { ok: false, error: resource.error };
+
+    const roles = await getProjectRoles(projectId);
+    if (!roles.ok) return { ok: false, error: roles.error };
+    const role = roles.data.find((item) => item.id === input.roleId);
+    if (!role) return { ok: false, error: "Role not found." };
+
+    let highRiskRoleIds: Set<string>;
+    try {
+        highRiskRoleIds = await getHighRiskRoleIds(projectId);
+    } catch {
+        return { ok: false, error: "Failed to load role permissions." };
+    }
+    const window = resolveAssignmentWindow({
+        startsAt: input.startsAt,
+        expiresAt: input.expiresAt,
+        highRisk: highRiskRoleIds.has(role.id),
+    });
+    if (!window.ok) return { ok: false, error: window.error };
+
+    await expireLapsedUserRoles(projectId, { userId });
+
+    let existing: UserRoleAssignment[];
+    try {
+        existing = await getUserRoleAssignments(projectId, {
+            roleId: role.id,
+            userId,
+            scope: resource.scope ? "resource" : "project",
+            resourceType: resource.scope?.type,
+            resourceId: resource.scope?.id,
+        });
+    } catch {
+        return { ok: false, error: "Failed to validate assignment." };
+    }
+    if (existing.length > 0) {
+        return {
+            ok: false,
+            error: resource.scope ? "This user already has this role on this resource." : "This user already has this role.",
+        };
+    }
+
+    const created = await createUserRoleAssignments([
+        { roleId: role.id, userId, resource: resource.scope, window: window.window },
+    ]);
+    if (!created.ok || created.data.length === 0) {
+        return { ok: false, error: "Failed to assign role." };
+    }
+
+    const assignment = created.data[0];
+    await logAssignmentEvent({
+        projectId,
+        actorId: access.userId,
+        assignment,
+        role,
+        action: "granted",
+    });
+
+    return { ok: true, data: assignment };
+}
+
+export async function unassignUserRoleAction(
+    projectId: string,
+    assignmentIds: string[]
+): Promise<ActionResult<{ removedIds: string[] }>> {
+    const access = await ensureProjectAccess(projectId, "editor");
+    if (!access.ok) return { ok: false, error: access.error };
+
+    const normalizedIds = Array.from(new Set((assignmentIds ?? []).filter(Boolean)));
+    if (normalizedIds.length === 0) return { ok: true, data: { removedIds: [] } };
+
+    const roles = await getProjectRoles(projectId);
+    if (!roles.ok) return { ok: false, error: roles.error };
+    const roleById = new Map(roles.data.map((role) => [role.id, role]));
+
+    let assignments: UserRoleAssignment[];
+    try {
+        assignments = await getUserRoleAssignments(projectId, { ids: normalizedIds });
+    } catch {
+        return { ok: false, error: "Failed to load user assignments." };
+    }
+    if (assignments.length === 0) return { ok: false, error: "Assignment not found." };
+
+    const deleted = await deleteUserRoleAssignments(assignments.map((assignment) => assignment.id));
+    if (!deleted.ok) return { ok: false, error: "Failed to remove assignment." };
+
+    for (const assignment of assignments) {
+        await logAssignmentEvent({
+            projectId,
+            actorId: access.userId,
+            assignment,
+            role: roleById.get(assignment.role_id),
+            action: "revoked",
+            source: assignments.length > 1 ? "bulk" : undefined,
+        });
+    }
+
+    return { ok: true, data: { removedIds: assignments.map((assignment) => assignment.id) } };
+}
+
+export async function bulkImportUserRolesAction(
+    projectId: string,
+    entries: UserRoleImportEntry[]
+): Promise<ActionResult<UserRoleImportResult>> {
+    const access = await ensureProjectAccess(projectId, "editor");
+    if (!access.ok) return { ok: false, error: access.error };
+
+    const rawEntries = Array.isArray(entries) ? entries : [];
+    if (rawEntries.length === 0) return { ok: false, error: "No entries to import." };
+    if (rawEntries.length > MAX_IMPORT_ENTRIES) {
+        return { ok: false, error: `Imports are limited to ${MAX_IMPORT_ENTRIES} entries.` };
+    }
+
+    const roles = await getProjectRoles(projectId);
+    if (!roles.ok) return { ok: false, error: roles.error };
+    const roleBySlug = new Map(roles.data.map((role) => [role.slug, role]));
+    const roleById = new Map(roles.data.map((role) => [role.id, role]));
+
+    await expireLapsedUserRoles(projectId);
+
+    const invalidEntries: UserRoleImportResult["invalidEntries"] = [];
+    const candidates: Array<{ key: string; roleId: string; userId: string; resource: ResourceScope | null }> = [];
+
+    rawEntries.forEach((entry, index) => {
+        const line = index + 1;
+        const userId = normalizeUserId(entry?.user_id ?? "");
+        const roleSlug = (entry?.role_slug ?? "").trim().toLowerCase();
+        const userIdError = validateUserId(userId);
+        if (userIdError) {
+            invalidEntries.push({ line, reason: userIdError });
+            return;
+        }
+        const role = roleBySlug.get(roleSlug);
+        if (!role) {
+            invalidEntries.push({ line, reason: `Unknown role "${roleSlug || "(empty)"}".` });
+            return;
+        }
+        const resource = parseResourceScope(entry?.resource_type, entry?.resource_id);
+        if (!resource.ok) {
+            invalidEntries.push({ line, reason: resource.error });
+            return;
+        }
+        const key = assignmentKey({
+            role_id: role.id,
+            user_id: userId,
+            resource_type: resource.scope?.type ?? null,
+            resource_id: resource.scope?.id ?? null,
+        });
+        candidates.push({ key, roleId: role.id, userId, resource: resource.scope });
+    });
+
+    let existing: UserRoleAssignment[];
+    let highRiskRoleIds: Set<string>;
+    try {
+        // All assignments of the imported users, not a capped list: a missed duplicate would hit the
+        // unique index and fail the whole batch.
+        existing = await getUserRoleAssignmentsForUsers(
+            projectId,
+            candidates.map((candidate) => candidate.userId)
+        );
+        highRiskRoleIds = await getHighRiskRoleIds(projectId);
+    } catch {
+        return { ok: false, error: "Failed to load user assignments." };
+    }
+    const seen = new Set(existing.map(assignmentKey));
+
+    const inserts: Parameters<typeof createUserRoleAssignments>[0] = [];
+    let skippedDuplicates = 0;
+
+    for (const candidate of candidates) {
+        if (seen.has(candidate.key)) {
+            skippedDuplicates += 1;
+            continue;
+        }
+        seen.add(candidate.key);
+        const window = resolveAssignmentWindow({ highRisk: highRiskRoleIds.has(candidate.roleId) });
+        inserts.push({
+            roleId: candidate.roleId,
+            userId: candidate.userId,
+            resource: candidate.resource,
+            window: window.ok ? window.window : undefined,
+        });
+    }
+
+    const created = await createUserRoleAssignments(inserts);
+    if (!created.ok) return { ok: false, error: "Failed to import assignments." };
+
+    for (const assignment of created.data) {
+        await logAssignmentEvent({
+            projectId,
+            actorId: access.userId,
+            assignment,
+            role: roleById.get(assignment.role_id),
+            action: "granted",
+            source: "import",
+        });
+    }
+
+    return {
+        ok: true,
+        data: {
+            created: created.data,
+            skippedDuplicates,
+            invalidEntries,
+        },
+    };
+}
+
+async function logDenyEvent(input: {
+    projectId: string;
+    actorId: string;
+    deny: UserPermissionDeny;
+    permission: { name: string; slug: string } | undefined;
+    action: "denied" | "revoked";
+}) {
+    await logAuditEvent({
+        projectId: input.projectId,
+        userId: input.actorId,
+        entityType: "user_deny",
+        entityId: input.deny.id,
+        action: input.action,
+        metadata: {
+            event: input.action === "denied" ? "user_permission_denied" : "user_permission_deny_removed",
+            user_id: input.deny.user_id,
+            permission_id: input.deny.permission_id,
+            permission_name: input.permission?.name ?? null,
+            permission_slug: input.permission?.slug ?? null,
+            reason: input.deny.reason,
+        },
+    });
+}
+
+async function getProjectPermissions(projectId: string) {
+    const supabase = await createSupabaseServerClient();
+    const { data, error } = await supabase
+        .from("permissions")
+        .select("id, name, slug")
+        .eq("project_id", projectId);
+
+    if (error) return { ok: false, error: "Failed to load permissions." } as const;
+    return { ok: true, data: (data ?? []) as Array<{ id: string; name: string; slug: string }> } as const;
+}
+
+export async function listUserPermissionDeniesAction(
+    projectId: string,
+    filters?: { query?: string }
+): Promise<ActionResult<UserPermissionDeny[]>> {
+    const access = await ensureProjectAccess(projectId, "viewer");
+    if (!access.ok) return { ok: false, error: access.error };
+
+    const query = (filters?.query ?? "").trim();
+
+    try {
+        const denies = await getUserPermissionDenies(projectId, {
+            userQuery: query ? escapeLikeValue(query) : undefined,
+        });
+        return { ok: true, data: denies };
+    } catch {
+        return { ok: false, error: "Failed to load deny rules." };
+    }
+}
+
+/**
+ * Block one permission for an external user id. The deny wins over every role the user holds.
+ */
+export async function createUserPermissionDenyAction(
+    projectId: string,
+    input: { userId: string; permissionId: string; reason?: string | null }
+): Promise<ActionResult<UserPermissionDeny>> {
+    const access = await ensureProjectAccess(projectId, "editor");
+    if (!access.ok) return { ok: false, error: access.error };
+
+    const userId = normalizeUserId(input.userId);
+    const userIdError = validateUserId(userId);
+    if (userIdError) return { ok: false, error: userIdError };
+
+    const reason = (input.reason ?? "").trim();
+    if (reason.length > MAX_DENY_REASON_LENGTH) return { ok: false, error: "Reason is too long." };
+
+    const permissions = await getProjectPermissions(projectId);
+    if (!permissions.ok) return { ok: false, error: permissions.error };
+    const permission = permissions.data.find((item) => item.id === input.permissionId);
+    if (!permission) return { ok: false, error: "Permission not found." };
+
+    let existing: UserPermissionDeny[];
+    try {
+        existing = await getUserPermissionDenies(projectId, { userId });
+    } catch {
+        return { ok: false, error: "Failed to validate deny rule." };
+    }
+    if (existing.some((deny) => deny.permission_id === permission.id)) {
+        return { ok: false, error: "This permission is already denied for this user." };
+    }
+
+    const created = await createUserPermissionDeny({
+        projectId,
+        userId,
+        permissionId: permission.id,
+        reason: reason || null,
+        createdBy: access.userId,
+    });
+    if (!created.ok) return { ok: false, error: "Failed to create deny rule." };
+
+    await logDenyEvent({
+        projectId,
+        actorId: access.userId,
+        deny: created.data,
+        permission,
+        action: "denied",
+    });
+
+    return { ok: true, data: created.data };
+}
+
+export async function deleteUserPermissionDeniesAction(
+    projectId: string,
+    denyIds: string[]
+): Promise<ActionResult<{ removedIds: string[] }>> {
+    const access = await ensureProjectAccess(projectId, "editor");
+    if (!access.ok) return { ok: false, error: access.error };
+
+    const normalizedIds = Array.from(new Set((denyIds ?? []).filter(Boolean)));
+    if (normalizedIds.length === 0) return { ok: true, data: { removedIds: [] } };
+
+    let denies: UserPermissionDeny[];
+    try {
+        denies = await getUserPermissionDenies(projectId, { ids: normalizedIds });
+    } catch {
+        return { ok: false, error: "Failed to load deny rules." };
+    }
+    if (denies.length === 0) return { ok: false, error: "Deny rule not found." };
+
+    const permissions = await getProjectPermissions(projectId);
+    const permissionById = new Map((permissions.ok ? permissions.data : []).map((item) => [item.id, item]));
+
+    const deleted = await deleteUserPermissionDenies(projectId, denies.map((deny) => deny.id));
+    if (!deleted.ok) return { ok: false, error: "Failed to remove deny rule." };
+
+    for (const deny of denies) {
+        await logDenyEvent({
+            projectId,
+            actorId: access.userId,
+            deny,
+            permission: permissionById.get(deny.permission_id),
+            action: "revoked",
+        });
+    }
+
+    return { ok: true, data: { removedIds: denies.map((deny) => deny.id) } };
+}
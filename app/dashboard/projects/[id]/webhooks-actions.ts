@@ -0,0 +1,199 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { createSupabaseServerClient } from "@/lib/supabase-server";
+import { logAuditEvent } from "@/lib/auditLogs";
+import { requireProjectRole } from "@/lib/projectMembers";
+import {
+    createWebhookEndpointRecord,
+    deleteWebhookEndpointRecord,
+    getWebhookDeliveries,
+    getWebhookEndpointSecret,
+    getWebhookEndpoints,
+    MAX_WEBHOOK_DESCRIPTION_LENGTH,
+    redeliverWebhook,
+    sendTestWebhookEvent,
+    updateWebhookEndpointRecord,
+    validateWebhookUrl,
+    type WebhookDeliveryRecord,
+    type WebhookEndpointRecord,
+} from "@/lib/webhooks";
+
+type ActionResult<T> =
+    | { ok: true; data: T }
+    | { ok: false; error: string };
+
+function normalizeDescription(description?: string | null) {
+    const trimmed = (description ?? "").trim();
+    return trimmed.length ? trimmed : null;
+}
+
+async function revalidateProjectPath(projectId: string) {
+    const supabase = await createSupabaseServerClient();
+    const { data } = await supabase
+        .from("projects")
+        .select("slug")
+        .eq("id", projectId)
+        .is("deleted_at", null)
+        .maybeSingle();
+    revalidatePath(`/dashboard/projects/${data?.slug ?? projectId}`);
+}
+
+export async function listWebhooksAction(
+    projectId: string,
+    endpointId?: string | null
+): Promise<ActionResult<{ endpoints: WebhookEndpointRecord[]; deliveries: WebhookDeliveryRecord[] }>> {
+    const access = await requireProjectRole(projectId, "viewer");
+    if (!access.ok) return { ok: false, error: access.error };
+
+    try {
+        const [endpoints, deliveries] = await Promise.all([
+            getWebhookEndpoints(projectId),
+            getWebhookDeliveries(projectId, { endpointId }),
+        ]);
+        return { ok: true, data: { endpoints, deliveries } };
+    } catch {
+        return { ok: false, error: "Failed to load webhooks." };
+    }
+}
+
+/** The signing secret is only returned here and by `revealWebhookSecretAction`. */
+export async function createWebhookEndpointAction(
+    projectId: string,
+    input: { url: string; description?: string | null }
+): Promise<ActionResult<{ endpoint: WebhookEndpointRecord; secret: string }>> {
+    const access = await requireProjectRole(projectId, "admin");
+    if (!access.ok) return { ok: false, error: access.error };
+
+    const url = (input.url ?? "").trim();
+    const description = normalizeDescription(input.description);
+    const urlError = validateWebhookUrl(url);
+    if (urlError) return { ok: false, error: urlError };
+    if (description && description.length > MAX_WEBHOOK_DESCRIPTION_LENGTH) {
+        return { ok: false, error: "Description is too long." };
+    }
+
+    const created = await createWebhookEndpointRecord({ projectId, url, description, createdBy: access.userId });
+    if (!created.ok) return { ok: false, error: created.error };
+
+    await logAuditEvent({
+        projectId,
+        userId: access.userId,
+        entityType: "webhook",
+        entityId: created.data.record.id,
+        action: "created",
+        metadata: { url, description },
+    });
+
+    await revalidateProjectPath(projectId);
+    return { ok: true, data: { endpoint: created.data.record, secret: created.data.secret } };
+}
+
+export async function updateWebhookEndpointAction(
+    projectId: string,
+    endpointId: string,
+    input: { url?: string; description?: string | null; enabled?: boolean }
+): Promise<ActionResult<WebhookEndpointRecord>> {
+    const access = await requireProjectRole(projectId, "admin");
+    if (!access.ok) return { ok: false, error: access.error };
+
+    const changes: { url?: string; description?: string | null; enabled?: boolean } = {};
+    if (input.url !== undefined) {
+        const url = input.url.trim();
+        const urlError = validateWebhookUrl(url);
+        if (urlError) return { ok: false, error: urlError };
+        changes.url = url;
+    }
+    if (input.description !== undefined) {
+        const description = normalizeDescription(input.description);
+        if (description && description.length > MAX_WEBHOOK_DESCRIPTION_LENGTH) {
+            return { ok: false, error: "Description is too long." };
+        }
+        changes.description = description;
+    }
+    if (input.enabled !== undefined) changes.enabled = input.enabled === true;
+
+    const updated = await updateWebhookEndpointRecord(projectId, endpointId, changes);
+    if (!updated.ok) return { ok: false, error: updated.error };
+
+    await logAuditEvent({
+        projectId,
+        userId: access.userId,
+        entityType: "webhook",
+        entityId: endpointId,
+        action: "updated",
+        metadata: { url: updated.data.url, ...changes },
+    });
+
+    await revalidateProjectPath(projectId);
+    return { ok: true, data: updated.data };
+}
+
+export async function deleteWebhookEndpointAction(
+    projectId: string,
+    endpointId: string
+): Promise<ActionResult<{ id: string }>> {
+    const access = await requireProjectRole(projectId, "admin");
+    if (!access.ok) return { ok: false, error: access.error };
+
+    const endpoints = await getWebhookEndpoints(projectId).catch(() => null);
+    const endpoint = endpoints?.find((item) => item.id === endpointId);
+    if (!endpoint) return { ok: false, error: "Webhook endpoint not found." };
+
+    const deleted = await deleteWebhookEndpointRecord(projectId, endpointId);
+    if (!deleted.ok) return { ok: false, error: deleted.error };
+
+    await logAuditEvent({
+        projectId,
+        userId: access.userId,
+        entityType: "webhook",
+        entityId: endpointId,
+        action: "deleted",
+        metadata: { url: endpoint.url },
+    });
+
+    await revalidateProjectPath(projectId);
+    return { ok: true, data: { id: endpointId } };
+}
+
+export async function revealWebhookSecretAction(
+    projectId: string,
+    endpointId: string
+): Promise<ActionResult<{ secret: string }>> {
+    const access = await requireProjectRole(projectId, "admin");
+    if (!access.ok) return { ok: false, error: access.error };
+
+    const secret = await getWebhookEndpointSecret(projectId, endpointId);
+    if (!secret.ok) return { ok: false, error: secret.error };
+
+    await logAuditEvent({
+        projectId,
+        userId: access.userId,
+        entityType: "webhook",
+        entityId: endpointId,
+        action: "updated",
+        metadata: { event: "webhook_secret_viewed" },
+    });
+
+    return { ok: true, data: { secret: secret.data } };
+}
+
+export async function sendTestWebhookAction(
+    projectId: string,
+    endpointId: string
+): Promise<ActionResult<WebhookDeliveryRecord>> {
+    const access = await requireProjectRole(projectId, "admin");
+    if (!access.ok) return { ok: false, error: access.error };
+
+    return sendTestWebhookEvent(projectId, endpointId, access.userId);
+}
+
+export async function redeliverWebhookAction(
+    projectId: string,
+    deliveryId: string
+): Promise<ActionResult<WebhookDeliveryRecord>> {
+    const access = await requireProjectRole(projectId, "admin");
+    if (!access.ok) return { ok: false, error: access.error };
+
+    return redeliverWebhook(projectId, deliveryId);
+}
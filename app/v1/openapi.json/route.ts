@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { getAppBaseUrl } from "@/lib/invitations";
+import { buildOpenApiDocument } from "@/lib/openapi";
+
+export async function GET() {
+    // The document is public so API clients and code generators can fetch it without a key.
+    return NextResponse.json(buildOpenApiDocument(getAppBaseUrl()), {
+        headers: {
+            "Cache-Control": "public, max-age=300",
+            "Access-Control-Allow-Origin": "*",
+        },
+    });
+}
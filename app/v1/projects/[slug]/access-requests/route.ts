@@ -0,0 +1,40 @@
+import { fileAccessRequest } from "@/lib/accessRequests";
+import { apiKeyRoute, authenticateProjectApiRequest, jsonError, jsonWithRateLimit, readJsonObject, readString } from "@/lib/apiRoutes";
+
+export const POST = apiKeyRoute(async (
+    request: Request,
+    { params }: { params: Promise<{ slug: string }> }
+) => {
+    const { slug } = await params;
+
+    const body = await readJsonObject(request);
+    const permission = body ? readString(body, "permission") : null;
+
+    const auth = await authenticateProjectApiRequest(request, slug, {
+        requiredScope: "requests:write",
+        permissionSlugs: permission ? [permission] : undefined,
+    });
+    if (!auth.ok) return jsonError(auth.status, auth.error, auth.headers);
+
+    if (!body) return jsonError(400, "Request body must be a JSON object.");
+
+    const durationMinutes = body.duration_minutes;
+    if (durationMinutes !== undefined && durationMinutes !== null && typeof durationMinutes !== "number") {
+        return jsonError(400, "duration_minutes must be a number.");
+    }
+
+    const result = await fileAccessRequest(
+        auth.data.projectId,
+        {
+            userId: readString(body, "user_id") ?? "",
+            roleSlug: readString(body, "role"),
+            permissionSlug: permission,
+            justification: readString(body, "justification") ?? "",
+            durationMinutes: durationMinutes ?? null,
+        },
+        { apiKeyId: auth.data.keyId }
+    );
+    if (!result.ok) return jsonError(result.status, result.error);
+
+    return jsonWithRateLimit(result.data, auth.data.rateLimit);
+});
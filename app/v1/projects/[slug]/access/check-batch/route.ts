@@ -0,0 +1,64 @@
+import { checkAccessBatch } from "@/lib/access";
+import {
+    apiKeyRoute,
+    authenticateProjectApiRequest,
+    jsonError,
+    jsonWithRateLimit,
+    readConditionContext,
+    readJsonObject,
+    readResourceScope,
+    readString,
+    readStringArray,
+} from "@/lib/apiRoutes";
+import type { AccessCheckBatchResponse } from "@/sdk/src/types";
+
+const MAX_BATCH_SIZE = 100;
+
+export const POST = apiKeyRoute(async (
+    request: Request,
+    { params }: { params: Promise<{ slug: string }> }
+) => {
+    const { slug } = await params;
+
+    const body = await readJsonObject(request);
+    const resources = body ? readStringArray(body, "resources") : null;
+
+    const auth = await authenticateProjectApiRequest(request, slug, {
+        usageWeight: Math.min(resources?.length ?? 1, MAX_BATCH_SIZE),
+        requiredScope: "access:check",
+        permissionSlugs: resources ?? undefined,
+    });
+    if (!auth.ok) return jsonError(auth.status, auth.error, auth.headers);
+
+    if (!body) return jsonError(400, "Request body must be a JSON object.");
+
+    const userId = readString(body, "user_id");
+    const role = readString(body, "role");
+    const context = readConditionContext(body);
+    const resourceScope = readResourceScope(body);
+
+    if (!userId) return jsonError(400, "user_id is required.");
+    if (!resources || resources.length === 0) {
+        return jsonError(400, "resources must be a non-empty array of permission slugs.");
+    }
+    if (resources.length > MAX_BATCH_SIZE) {
+        return jsonError(400, `resources cannot contain more than ${MAX_BATCH_SIZE} entries.`);
+    }
+    if (!context.ok) return jsonError(400, context.error);
+    if (!resourceScope.ok) return jsonError(400, resourceScope.error);
+
+    const decisions = await checkAccessBatch(
+        auth.data.projectId,
+        {
+            userId,
+            permissionSlugs: resources,
+            roleSlug: role,
+            context: context.context,
+            resourceScope: resourceScope.scope,
+        },
+        { trackUsage: { apiKeyId: auth.data.keyId } }
+    );
+    if (!decisions.ok) return jsonError(500, decisions.error);
+
+    return jsonWithRateLimit({ decisions: decisions.data } satisfies AccessCheckBatchResponse, auth.data.rateLimit);
+});
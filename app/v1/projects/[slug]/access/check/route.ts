@@ -0,0 +1,66 @@
+import { checkAccess, explainAccess } from "@/lib/access";
+import {
+    apiKeyRoute,
+    authenticateProjectApiRequest,
+    jsonError,
+    jsonWithRateLimit,
+    readConditionContext,
+    readJsonObject,
+    readResourceScope,
+    readString,
+} from "@/lib/apiRoutes";
+import type { AccessCheckExplainResponse } from "@/sdk/src/types";
+
+export const POST = apiKeyRoute(async (
+    request: Request,
+    { params }: { params: Promise<{ slug: string }> }
+) => {
+    const { slug } = await params;
+
+    const body = await readJsonObject(request);
+    const resource = body ? readString(body, "resource") : null;
+
+    const auth = await authenticateProjectApiRequest(request, slug, {
+        requiredScope: "access:check",
+        permissionSlugs: resource ? [resource] : undefined,
+    });
+    if (!auth.ok) return jsonError(auth.status, auth.error, auth.headers);
+
+    if (!body) return jsonError(400, "Request body must be a JSON object.");
+
+    const userId = readString(body, "user_id");
+    const role = readString(body, "role");
+    const context = readConditionContext(body);
+    const resourceScope = readResourceScope(body);
+
+    if (!userId) return jsonError(400, "user_id is required.");
+    if (!resource) return jsonError(400, "resource is required.");
+    if (!context.ok) return jsonError(400, context.error);
+    if (!resourceScope.ok) return jsonError(400, resourceScope.error);
+
+    const checkInput = {
+        userId,
+        permissionSlug: resource,
+        roleSlug: role,
+        context: context.context,
+        resourceScope: resourceScope.scope,
+    };
+    const trackUsage = { apiKeyId: auth.data.keyId };
+
+    // `explain: true` returns the decision together with the trace that led to it.
+    if (body.explain === true) {
+        const explained = await explainAccess(auth.data.projectId, checkInput, { trackUsage });
+        if (!explained.ok) return jsonError(500, explained.error);
+
+        const { allowed, reason, ...explanation } = explained.data;
+        return jsonWithRateLimit(
+            { allowed, reason, explanation } satisfies AccessCheckExplainResponse,
+            auth.data.rateLimit
+        );
+    }
+
+    const decision = await checkAccess(auth.data.projectId, checkInput, { trackUsage });
+    if (!decision.ok) return jsonError(500, decision.error);
+
+    return jsonWithRateLimit(decision.data, auth.data.rateLimit);
+});
@@ -0,0 +1,42 @@
+import {
+    apiKeyRoute,
+    authenticateProjectApiRequest,
+    jsonError,
+    jsonWithRateLimit,
+    notModifiedWithRateLimit,
+} from "@/lib/apiRoutes";
+import { buildPolicySnapshot } from "@/lib/policySnapshot";
+import type { PolicySnapshot } from "@/sdk/src/types";
+
+function matchesETag(ifNoneMatch: string | null, etag: string) {
+    if (!ifNoneMatch) return false;
+    return ifNoneMatch
+        .split(",")
+        .map((value) => value.trim().replace(/^W\//, ""))
+        .some((value) => value === "*" || value === etag);
+}
+
+export const GET = apiKeyRoute(async (
+    request: Request,
+    { params }: { params: Promise<{ slug: string }> }
+) => {
+    const { slug } = await params;
+
+    const auth = await authenticateProjectApiRequest(request, slug, { requiredScope: "config:read" });
+    if (!auth.ok) return jsonError(auth.status, auth.error, auth.headers);
+
+    const snapshot = await buildPolicySnapshot(auth.data.projectId, {
+        userId: new URL(request.url).searchParams.get("user_id"),
+        allowedPermissionSlugs: auth.data.allowedPermissionSlugs,
+    });
+    if (!snapshot.ok) return jsonError(snapshot.status, snapshot.error);
+
+    // Clients revalidate with If-None-Match; the body is only sent when the policy changed.
+    const etag = `"${snapshot.data.version}"`;
+    const cacheHeaders = { ETag: etag, "Cache-Control": "private, no-cache" };
+    if (matchesETag(request.headers.get("If-None-Match"), etag)) {
+        return notModifiedWithRateLimit(auth.data.rateLimit, cacheHeaders);
+    }
+
+    return jsonWithRateLimit(snapshot.data satisfies PolicySnapshot, auth.data.rateLimit, cacheHeaders);
+});
@@ -0,0 +1,32 @@
+import { apiKeyRoute, authenticateProjectApiRequest, jsonError, jsonWithRateLimit } from "@/lib/apiRoutes";
+import { grantUserRoles, revokeUserRoles } from "@/lib/userRoleSync";
+
+type RouteParams = { params: Promise<{ slug: string; userId: string; roleSlug: string }> };
+
+export const PUT = apiKeyRoute(async (request: Request, { params }: RouteParams) => {
+    const { slug, userId, roleSlug } = await params;
+
+    const auth = await authenticateProjectApiRequest(request, slug, { requiredScope: "assignments:write" });
+    if (!auth.ok) return jsonError(auth.status, auth.error, auth.headers);
+
+    const result = await grantUserRoles(auth.data.projectId, userId.trim(), [roleSlug], {
+        apiKeyId: auth.data.keyId,
+    });
+    if (!result.ok) return jsonError(result.status, result.error);
+
+    return jsonWithRateLimit(result.data, auth.data.rateLimit);
+});
+
+export const DELETE = apiKeyRoute(async (request: Request, { params }: RouteParams) => {
+    const { slug, userId, roleSlug } = await params;
+
+    const auth = await authenticateProjectApiRequest(request, slug, { requiredScope: "assignments:write" });
+    if (!auth.ok) return jsonError(auth.status, auth.error, auth.headers);
+
+    const result = await revokeUserRoles(auth.data.projectId, userId.trim(), [roleSlug], {
+        apiKeyId: auth.data.keyId,
+    });
+    if (!result.ok) return jsonError(result.status, result.error);
+
+    return jsonWithRateLimit(result.data, auth.data.rateLimit);
+});
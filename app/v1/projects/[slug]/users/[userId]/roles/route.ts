@@ -0,0 +1,47 @@
+import {
+    apiKeyRoute,
+    authenticateProjectApiRequest,
+    jsonError,
+    jsonWithRateLimit,
+    readJsonObject,
+    readStringArray,
+} from "@/lib/apiRoutes";
+import { listUserRolesForSync, replaceUserRoles } from "@/lib/userRoleSync";
+import type { UserRolesResponse } from "@/sdk/src/types";
+
+type RouteParams = { params: Promise<{ slug: string; userId: string }> };
+
+export const GET = apiKeyRoute(async (request: Request, { params }: RouteParams) => {
+    const { slug, userId } = await params;
+
+    const auth = await authenticateProjectApiRequest(request, slug, { requiredScope: "assignments:read" });
+    if (!auth.ok) return jsonError(auth.status, auth.error, auth.headers);
+
+    const result = await listUserRolesForSync(auth.data.projectId, userId.trim());
+    if (!result.ok) return jsonError(result.status, result.error);
+
+    return jsonWithRateLimit(
+        { user_id: result.data.user_id, roles: result.data.roles } satisfies UserRolesResponse,
+        auth.data.rateLimit
+    );
+});
+
+export const PUT = apiKeyRoute(async (request: Request, { params }: RouteParams) => {
+    const { slug, userId } = await params;
+
+    const auth = await authenticateProjectApiRequest(request, slug, { requiredScope: "assignments:write" });
+    if (!auth.ok) return jsonError(auth.status, auth.error, auth.headers);
+
+    const body = await readJsonObject(request);
+    if (!body) return jsonError(400, "Request body must be a JSON object.");
+
+    const roles = readStringArray(body, "roles");
+    if (!roles) return jsonError(400, "roles must be an array of role slugs.");
+
+    const result = await replaceUserRoles(auth.data.projectId, userId.trim(), roles, {
+        apiKeyId: auth.data.keyId,
+    });
+    if (!result.ok) return jsonError(result.status, result.error);
+
+    return jsonWithRateLimit(result.data, auth.data.rateLimit);
+});
@@ -0,0 +1,23 @@
+const REQUIRED_ENV = ["INVITATION_TOKEN_SECRET", "APP_URL"] as const;
+
+/**
+ * Runs once when the server starts. These settings have no safe default: invitation links must not
+ * be signed with another secret, and links and API URLs must not follow the request host, which
+ * the client controls. A missing one stops the server instead of failing on first use.
+ */
+export function register() {
+    const missing = REQUIRED_ENV.filter((name) => !process.env[name]);
+    if (missing.length > 0) {
+        throw new Error(`Missing required environment variables: ${missing.join(", ")}.`);
+    }
+
+    let protocol: string | null = null;
+    try {
+        protocol = new URL(process.env.APP_URL!).protocol;
+    } catch {
+        protocol = null;
+    }
+    if (protocol !== "https:" && protocol !== "http:") {
+        throw new Error("APP_URL must be an absolute http or https URL.");
+    }
+}
@@ -0,0 +1,453 @@
+import { createSupabaseServerClient } from "@/lib/supabase-server";
+import { getAncestorRoleIds } from "@/lib/roleHierarchy";
+import { fetchAllPages } from "@/lib/pagination";
+import {
+    evaluateCondition,
+    getMissingContextKeys,
+    parseCondition,
+    type ConditionContext,
+    type ConditionNode,
+} from "@/lib/conditions";
+import { recordPermissionUsage } from "@/lib/usage";
+import { assignmentAppliesTo, expireLapsedUserRoles, type ResourceScope } from "@/lib/userRoles";
+import { isAssignmentActive } from "@/lib/assignmentWindow";
+import { evaluateAccess } from "@/sdk/src/policy";
+import type {
+    AccessDecision,
+    AccessDecisionReason,
+    AccessExplanation,
+    InactiveAssignmentReason,
+} from "@/sdk/src/types";
+
+export type { AccessDecision, AccessDecisionReason, AccessExplanation };
+
+export type AccessPermission = {
+    id: string;
+    slug: string;
+    enabled: boolean;
+};
+
+export type GrantCondition = {
+    /** The role whose `role_permissions` row carries the condition: the assigned role or one it extends. */
+    sourceRoleId: string;
+    condition: string;
+    ast: ConditionNode;
+};
+
+export type InactiveAssignment = {
+    roleId: string;
+    reason: InactiveAssignmentReason;
+    resourceType: string | null;
+    resourceId: string | null;
+};
+
+export type SubjectGrants = {
+    userId: string;
+    roles: Array<{ id: string; slug: string }>;
+    /** Permissions each assigned role grants unconditionally, including inherited ones. */
+    permissionIdsByRoleId: Map<string, Set<string>>;
+    /** Permissions each assigned role grants only while one of the listed conditions holds. */
+    conditionsByRoleId: Map<string, Map<string, GrantCondition[]>>;
+    /** Permissions each assigned role denies, including denies inherited from parent roles. */
+    deniedPermissionIdsByRoleId: Map<string, Set<string>>;
+    /** Permissions denied for this user id directly. */
+    userDeniedPermissionIds: Set<string>;
+    /** Details kept for `traceAccess`; the decision itself only needs the maps above. */
+    trace: {
+        roleSlugById: Map<string, string>;
+        /** Each assigned role followed by the roles it inherits from, nearest first. */
+        sourceRoleIdsByRoleId: Map<string, string[]>;
+        /** Unconditional grants and denies stored on each role itself, without inheritance. */
+        directPermissionIdsByRoleId: Map<string, Set<string>>;
+        directDeniedPermissionIdsByRoleId: Map<string, Set<string>>;
+        /** Assignments the user holds that did not count for this check. */
+        inactiveAssignments: InactiveAssignment[];
+    };
+};
+
+type AccessResult<T> = { ok: true; data: T } | { ok: false; error: string };
+
+/**
+ * Load the roles assigned to an external user id, the permissions each role grants or denies
+ * (including those inherited from the roles it extends) and the user's own deny rules.
+ * With a `resourceScope`, roles granted on that resource instance count alongside project-wide ones.
+ * Assignments that have not started yet or have expired are ignored; expired ones are swept unless
+ * `readOnly` is set, e.g. for dashboard simulations that must not write anything.
+ */
+export async function loadSubjectGrants(
+    projectId: string,
+    userId: string,
+    resourceScope?: ResourceScope | null,
+    options?: { readOnly?: boolean }
+): Promise<AccessResult<SubjectGrants>> {
+    const supabase = await createSupabaseServerClient();
+
+    const [
+        { data: project, error: projectError },
+        { data: projectRoles, error: rolesError },
+        { data: userDenies, error: userDeniesError },
+    ] = await Promise.all([
+        supabase.from("projects").select("id").eq("id", projectId).maybeSingle(),
+        supabase
+            .from("roles")
+            .select("id, slug, role_parents!role_parents_role_id_fkey(parent_role_id)")
+            .eq("project_id", projectId),
+        supabase
+            .from("user_permission_denies")
+            .select("permission_id")
+            .eq("project_id", projectId)
+            .eq("user_id", userId),
+    ]);
+
+    // Row level security hides rows instead of failing, so a client that cannot see the project
+    // would read "no denies" and fail open. Treat that as a failed load.
+    if (projectError || !project) return { ok: false, error: "Failed to load project." };
+    if (rolesError) return { ok: false, error: "Failed to load roles." };
+    if (userDeniesError) return { ok: false, error: "Failed to load deny rules." };
+
+    type ProjectRoleRow = { id: string; slug: string; role_parents?: Array<{ parent_role_id: string }> | null };
+    const roleRows = (projectRoles ?? []) as ProjectRoleRow[];
+    const roleById = new Map(roleRows.map((role) => [role.id, { id: role.id, slug: role.slug }]));
+    const parentsByRoleId = new Map(
+        roleRows.map((role) => [role.id, (role.role_parents ?? []).map((entry) => entry.parent_role_id)])
+    );
+    const empty: SubjectGrants = {
+        userId,
+        roles: [],
+        permissionIdsByRoleId: new Map(),
+        conditionsByRoleId: new Map(),
+        deniedPermissionIdsByRoleId: new Map(),
+        userDeniedPermissionIds: new Set((userDenies ?? []).map((row) => row.permission_id as string)),
+        trace: {
+            roleSlugById: new Map(roleRows.map((role) => [role.id, role.slug])),
+            sourceRoleIdsByRoleId: new Map(),
+            directPermissionIdsByRoleId: new Map(),
+            directDeniedPermissionIdsByRoleId: new Map(),
+            inactiveAssignments: [],
+        },
+    };
+    if (roleById.size === 0) return { ok: true, data: empty };
+
+    const { data: assignments, error: assignmentsError } = await supabase
+        .from("user_roles")
+        .select("role_id, resource_type, resource_id, starts_at, expires_at")
+        .eq("user_id", userId)
+        .in("role_id", Array.from(roleById.keys()));
+
+    if (assignmentsError) return { ok: false, error: "Failed to load role assignments." };
+
+    type AssignmentRow = {
+        role_id: string;
+        resource_type: string | null;
+        resource_id: string | null;
+        starts_at: string | null;
+        expires_at: string | null;
+    };
+    const assignmentRows = (assignments ?? []) as AssignmentRow[];
+    const now = Date.now();
+    if (!options?.readOnly && assignmentRows.some((row) => row.expires_at && Date.parse(row.expires_at) <= now)) {
+        await expireLapsedUserRoles(projectId, { userId });
+    }
+
+    const applicable: AssignmentRow[] = [];
+    const inactiveAssignments: InactiveAssignment[] = [];
+    for (const row of assignmentRows) {
+        const reason = !assignmentAppliesTo(row, resourceScope ?? null)
+            ? "other_resource"
+            : isAssignmentActive(row, now)
+              ? null
+              : row.expires_at && Date.parse(row.expires_at) <= now
+                ? "expired"
+                : "not_started";
+        if (!reason) {
+            applicable.push(row);
+            continue;
+        }
+        inactiveAssignments.push({
+            roleId: row.role_id,
+            reason,
+            resourceType: row.resource_type,
+            resourceId: row.resource_id,
+        });
+    }
+    const roles = Array.from(new Set(applicable.map((row) => row.role_id)))
+        .map((roleId) => roleById.get(roleId))
+        .filter((role): role is { id: string; slug: string } => Boolean(role));
+
+    if (roles.length === 0) return { ok: true, data: { ...empty, trace: { ...empty.trace, inactiveAssignments } } };
+
+    const sourceRoleIdsByRoleId = new Map(
+        roles.map((role) => [role.id, [role.id, ...getAncestorRoleIds(role.id, parentsByRoleId)]])
+    );
+    const sourceRoleIds = Array.from(new Set(Array.from(sourceRoleIdsByRoleId.values()).flat()));
+
+    const [links, denyLinks] = await Promise.all([
+        fetchAllPages((from, to) =>
+            supabase
+                .from("role_permissions")
+                .select("role_id, permission_id, condition")
+                .in("role_id", sourceRoleIds)
+                .order("role_id", { ascending: true })
+                .order("permission_id", { ascending: true })
+                .range(from, to)
+        ),
+        fetchAllPages((from, to) =>
+            supabase
+                .from("role_permission_denies")
+                .select("role_id, permission_id")
+                .in("role_id", sourceRoleIds)
+                .order("role_id", { ascending: true })
+                .order("permission_id", { ascending: true })
+                .range(from, to)
+        ),
+    ]);
+
+    if (!links.ok) return { ok: false, error: "Failed to load role permissions." };
+    if (!denyLinks.ok) return { ok: false, error: "Failed to load role deny rules." };
+
+    const groupByRole = (rows: Array<{ role_id: string; permission_id: string }>) => {
+        const directByRoleId = new Map<string, Set<string>>();
+        for (const row of rows) {
+            const current = directByRoleId.get(row.role_id) ?? new Set<string>();
+            current.add(row.permission_id);
+            directByRoleId.set(row.role_id, current);
+        }
+        return directByRoleId;
+    };
+
+    const collect = (directByRoleId: Map<string, Set<string>>) => {
+        const byRoleId = new Map<string, Set<string>>();
+        for (const role of roles) {
+            const permissionIds = new Set<string>();
+            for (const sourceRoleId of sourceRoleIdsByRoleId.get(role.id) ?? []) {
+                for (const permissionId of directByRoleId.get(sourceRoleId) ?? []) permissionIds.add(permissionId);
+            }
+            byRoleId.set(role.id, permissionIds);
+        }
+        return byRoleId;
+    };
+
+    type LinkRow = { role_id: string; permission_id: string; condition: string | null };
+    const linkRows = links.data as LinkRow[];
+    const directPermissionIdsByRoleId = groupByRole(linkRows.filter((row) => !row.condition));
+    const directDeniedPermissionIdsByRoleId = groupByRole(denyLinks.data);
+
+    // A stored condition that no longer parses never matches, so the grant fails closed.
+    const conditionsByRoleId = new Map<string, Map<string, GrantCondition[]>>();
+    for (const role of roles) {
+        const sources = new Set(sourceRoleIdsByRoleId.get(role.id) ?? []);
+        const conditions = new Map<string, GrantCondition[]>();
+        for (const row of linkRows) {
+            if (!row.condition || !sources.has(row.role_id)) continue;
+            const parsed = parseCondition(row.condition);
+            const current = conditions.get(row.permission_id) ?? [];
+            current.push({
+                sourceRoleId: row.role_id,
+                condition: row.condition,
+                ast: parsed.ok ? parsed.ast : { type: "literal", value: false },
+            });
+            conditions.set(row.permission_id, current);
+        }
+        conditionsByRoleId.set(role.id, conditions);
+    }
+
+    return {
+        ok: true,
+        data: {
+            ...empty,
+            roles,
+            permissionIdsByRoleId: collect(directPermissionIdsByRoleId),
+            conditionsByRoleId,
+            deniedPermissionIdsByRoleId: collect(directDeniedPermissionIdsByRoleId),
+            trace: {
+                ...empty.trace,
+                sourceRoleIdsByRoleId,
+                directPermissionIdsByRoleId,
+                directDeniedPermissionIdsByRoleId,
+                inactiveAssignments,
+            },
+        },
+    };
+}
+
+export async function loadPermissionsBySlug(
+    projectId: string,
+    slugs: string[]
+): Promise<AccessResult<Map<string, AccessPermission>>> {
+    const result = new Map<string, AccessPermission>();
+    const normalizedSlugs = Array.from(new Set(slugs.filter(Boolean)));
+    if (normalizedSlugs.length === 0) return { ok: true, data: result };
+
+    const supabase = await createSupabaseServerClient();
+    const { data, error } = await supabase
+        .from("permissions")
+        .select("id, slug, enabled")
+        .eq("project_id", projectId)
+        .in("slug", normalizedSlugs);
+
+    if (error) return { ok: false, error: "Failed to load permissions." };
+
+    for (const row of data ?? []) {
+        result.set(row.slug, {
+            id: row.id,
+            slug: row.slug,
+            enabled: Boolean(row.enabled),
+        });
+    }
+
+    return { ok: true, data: result };
+}
+
+/**
+ * Explain a decision: for every role the user holds, which role (itself or an ancestor) grants
+ * or denies the permission, and how each condition evaluated. The decision is taken from
+ * `evaluateAccess`, so the trace can never disagree with a real check.
+ */
+export function traceAccess(
+    grants: SubjectGrants,
+    permissionSlug: string,
+    permission: AccessPermission | null,
+    roleSlug?: string | null,
+    context?: ConditionContext | null
+): AccessExplanation {
+    const decision = evaluateAccess(grants, permission, roleSlug, context);
+    const slugOf = (roleId: string) => grants.trace.roleSlugById.get(roleId) ?? roleId;
+    const firstSource = (roleId: string, direct: Map<string, Set<string>>) => {
+        if (!permission) return null;
+        const source = (grants.trace.sourceRoleIdsByRoleId.get(roleId) ?? []).find((sourceRoleId) =>
+            direct.get(sourceRoleId)?.has(permission.id)
+        );
+        return source ? { via: slugOf(source) } : null;
+    };
+
+    return {
+        ...decision,
+        user_id: grants.userId,
+        permission: {
+            slug: permissionSlug,
+            found: Boolean(permission),
+            enabled: permission ? permission.enabled : null,
+        },
+        role_filter: roleSlug ?? null,
+        denied_for_user: Boolean(permission && grants.userDeniedPermissionIds.has(permission.id)),
+        roles: grants.roles.map((role) => ({
+            slug: role.slug,
+            considered: !roleSlug || role.slug === roleSlug,
+            inherits_from: (grants.trace.sourceRoleIdsByRoleId.get(role.id) ?? []).slice(1).map(slugOf),
+            grant: firstSource(role.id, grants.trace.directPermissionIdsByRoleId),
+            deny: firstSource(role.id, grants.trace.directDeniedPermissionIdsByRoleId),
+            conditions: (permission ? grants.conditionsByRoleId.get(role.id)?.get(permission.id) ?? [] : []).map(
+                (entry) => ({
+                    via: slugOf(entry.sourceRoleId),
+                    condition: entry.condition,
+                    passed: evaluateCondition(entry.ast, context ?? {}),
+                    missing_keys: getMissingContextKeys(entry.ast, context ?? {}),
+                })
+            ),
+        })),
+        inactive_assignments: grants.trace.inactiveAssignments.map((assignment) => ({
+            role: slugOf(assignment.roleId),
+            reason: assignment.reason,
+            resource_type: assignment.resourceType,
+            resource_id: assignment.resourceId,
+        })),
+    };
+}
+
+/**
+ * `checkAccess` with the decision trace attached, used by `explain: true` checks and the
+ * dashboard's access simulator. Usage is only recorded when `trackUsage` is passed, and `readOnly`
+ * skips the sweep of expired assignments.
+ */
+export async function explainAccess(
+    projectId: string,
+    input: {
+        userId: string;
+        permissionSlug: string;
+        roleSlug?: string | null;
+        context?: ConditionContext | null;
+        resourceScope?: ResourceScope | null;
+    },
+    options?: { trackUsage?: { apiKeyId: string }; readOnly?: boolean }
+): Promise<AccessResult<AccessExplanation>> {
+    const [permissions, grants] = await Promise.all([
+        loadPermissionsBySlug(projectId, [input.permissionSlug]),
+        loadSubjectGrants(projectId, input.userId, input.resourceScope, { readOnly: options?.readOnly }),
+    ]);
+    if (!permissions.ok) return permissions;
+    if (!grants.ok) return grants;
+
+    const permission = permissions.data.get(input.permissionSlug) ?? null;
+    const explanation = traceAccess(grants.data, input.permissionSlug, permission, input.roleSlug, input.context);
+
+    if (options?.trackUsage && permission) {
+        await recordPermissionUsage(projectId, options.trackUsage.apiKeyId, input.userId, [
+            { permissionId: permission.id, allowed: explanation.allowed },
+        ]);
+    }
+
+    return { ok: true, data: explanation };
+}
+
+export async function checkAccess(
+    projectId: string,
+    input: {
+        userId: string;
+        permissionSlug: string;
+        roleSlug?: string | null;
+        context?: ConditionContext | null;
+        resourceScope?: ResourceScope | null;
+    },
+    options?: { trackUsage?: { apiKeyId: string } }
+): Promise<AccessResult<AccessDecision>> {
+    const batch = await checkAccessBatch(
+        projectId,
+        {
+            userId: input.userId,
+            permissionSlugs: [input.permissionSlug],
+            roleSlug: input.roleSlug,
+            context: input.context,
+            resourceScope: input.resourceScope,
+        },
+        options
+    );
+    if (!batch.ok) return batch;
+
+    return { ok: true, data: batch.data[input.permissionSlug] };
+}
+
+/**
+ * Evaluate many permission slugs for one user, loading roles and role permissions once.
+ */
+export async function checkAccessBatch(
+    projectId: string,
+    input: {
+        userId: string;
+        permissionSlugs: string[];
+        roleSlug?: string | null;
+        context?: ConditionContext | null;
+        resourceScope?: ResourceScope | null;
+    },
+    options?: { trackUsage?: { apiKeyId: string } }
+): Promise<AccessResult<Record<string, AccessDecision>>> {
+    const [permissions, grants] = await Promise.all([
+        loadPermissionsBySlug(projectId, input.permissionSlugs),
+        loadSubjectGrants(projectId, input.userId, input.resourceScope),
+    ]);
+    if (!permissions.ok) return permissions;
+    if (!grants.ok) return grants;
+
+    const decisions: Record<string, AccessDecision> = {};
+    const usage: Array<{ permissionId: string; allowed: boolean }> = [];
+    for (const slug of input.permissionSlugs) {
+        const permission = permissions.data.get(slug) ?? null;
+        decisions[slug] = evaluateAccess(grants.data, permission, input.roleSlug, input.context);
+        if (permission) usage.push({ permissionId: permission.id, allowed: decisions[slug].allowed });
+    }
+
+    if (options?.trackUsage) {
+        await recordPermissionUsage(projectId, options.trackUsage.apiKeyId, input.userId, usage);
+    }
+
+    return { ok: true, data: decisions };
+}
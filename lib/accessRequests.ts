@@ -0,0 +1,219 @@
+import { createSupabaseServerClient } from "@/lib/supabase-server";
+import { logAuditEvent } from "@/lib/auditLogs";
+import { MAX_HIGH_RISK_ASSIGNMENT_HOURS } from "@/lib/assignmentWindow";
+import type { AccessRequest, AccessRequestStatus } from "@/sdk/src/types";
+
+export type { AccessRequest, AccessRequestStatus };
+
+export const ACCESS_REQUEST_STATUSES: AccessRequestStatus[] = ["pending", "approved", "denied"];
+export const MIN_ACCESS_REQUEST_MINUTES = 15;
+export const MAX_ACCESS_REQUEST_MINUTES = MAX_HIGH_RISK_ASSIGNMENT_HOURS * 60;
+export const MAX_JUSTIFICATION_LENGTH = 1000;
+export const MAX_DECISION_NOTE_LENGTH = 500;
+const DEFAULT_ACCESS_REQUEST_MINUTES = 60;
+const MAX_USER_ID_LENGTH = 200;
+
+const REQUEST_COLUMNS =
+    "id, project_id, user_id, role_id, permission_id, justification, duration_minutes, status, api_key_id, decided_by, decided_at, decision_note, assignment_id, created_at";
+
+export type FileAccessRequestResult =
+    | { ok: true; data: AccessRequest }
+    | { ok: false; status: number; error: string };
+
+function mapRequestRow(row: AccessRequest): AccessRequest {
+    return {
+        id: row.id,
+        project_id: row.project_id,
+        user_id: row.user_id,
+        role_id: row.role_id ?? null,
+        permission_id: row.permission_id ?? null,
+        justification: row.justification,
+        duration_minutes: row.duration_minutes,
+        status: row.status,
+        api_key_id: row.api_key_id ?? null,
+        decided_by: row.decided_by ?? null,
+        decided_at: row.decided_at ?? null,
+        decision_note: row.decision_note ?? null,
+        assignment_id: row.assignment_id ?? null,
+        created_at: row.created_at,
+    };
+}
+
+export function validateAccessRequestDuration(minutes: unknown) {
+    if (typeof minutes !== "number" || !Number.isInteger(minutes)) return "Duration must be a whole number of minutes.";
+    if (minutes < MIN_ACCESS_REQUEST_MINUTES || minutes > MAX_ACCESS_REQUEST_MINUTES) {
+        return `Duration must be between ${MIN_ACCESS_REQUEST_MINUTES} and ${MAX_ACCESS_REQUEST_MINUTES} minutes.`;
+    }
+    return null;
+}
+
+export async function getAccessRequests(
+    projectId: string,
+    options?: { status?: AccessRequestStatus; ids?: string[]; limit?: number }
+): Promise<AccessRequest[]> {
+    const supabase = await createSupabaseServerClient();
+
+    let query = supabase
+        .from("access_requests")
+        .select(REQUEST_COLUMNS)
+        .eq("project_id", projectId)
+        .order("created_at", { ascending: false });
+
+    if (options?.status) {
+        query = query.eq("status", options.status);
+    }
+    if (options?.ids) {
+        query = query.in("id", options.ids);
+    }
+
+    const { data, error } = await query.limit(options?.limit ?? 200);
+
+    if (error) throw error;
+    return ((data ?? []) as AccessRequest[]).map(mapRequestRow);
+}
+
+/**
+ * Move a pending request to `approved` or `denied`. Returns null when the request was already
+ * decided, so two approvers acting at once cannot both succeed.
+ */
+export async function decideAccessRequest(
+    projectId: string,
+    requestId: string,
+    decision: {
+        status: "approved" | "denied";
+        decidedBy: string;
+        note: string | null;
+        assignmentId?: string | null;
+    }
+): Promise<AccessRequest | null> {
+    const supabase = await createSupabaseServerClient();
+
+    const { data, error } = await supabase
+        .from("access_requests")
+        .update({
+            status: decision.status,
+            decided_by: decision.decidedBy,
+            decided_at: new Date().toISOString(),
+            decision_note: decision.note,
+            assignment_id: decision.assignmentId ?? null,
+        })
+        .eq("project_id", projectId)
+        .eq("id", requestId)
+        .eq("status", "pending")
+        .select(REQUEST_COLUMNS)
+        .maybeSingle();
+
+    if (error || !data) return null;
+    return mapRequestRow(data as AccessRequest);
+}
+
+/**
+ * File a request through the API. The target is addressed by `roleSlug` or `permissionSlug`;
+ * a user can only have one pending request per target.
+ */
+export async function fileAccessRequest(
+    projectId: string,
+    input: {
+        userId: string;
+        roleSlug?: string | null;
+        permissionSlug?: string | null;
+        justification: string;
+        durationMinutes?: number | null;
+    },
+    actor: { apiKeyId: string }
+): Promise<FileAccessRequestResult> {
+    const userId = (input.userId ?? "").trim();
+    if (!userId) return { ok: false, status: 400, error: "user_id is required." };
+    if (userId.length > MAX_USER_ID_LENGTH) return { ok: false, status: 400, error: "user_id is too long." };
+
+    const roleSlug = (input.roleSlug ?? "").trim().toLowerCase();
+    const permissionSlug = (input.permissionSlug ?? "").trim();
+    if (Boolean(roleSlug) === Boolean(permissionSlug)) {
+        return { ok: false, status: 400, error: "Provide either role or permission." };
+    }
+
+    const justification = (input.justification ?? "").trim();
+    if (!justification) return { ok: false, status: 400, error: "justification is required." };
+    if (justification.length > MAX_JUSTIFICATION_LENGTH) {
+        return {
+            ok: false,
+            status: 400,
+            error: `justification cannot be longer than ${MAX_JUSTIFICATION_LENGTH} characters.`,
+        };
+    }
+
+    const durationMinutes = input.durationMinutes ?? DEFAULT_ACCESS_REQUEST_MINUTES;
+    const durationError = validateAccessRequestDuration(durationMinutes);
+    if (durationError) return { ok: false, status: 400, error: durationError };
+
+    const supabase = await createSupabaseServerClient();
+    const { data: target, error: targetError } = await supabase
+        .from(roleSlug ? "roles" : "permissions")
+        .select("id, name, slug")
+        .eq("project_id", projectId)
+        .eq("slug", roleSlug || permissionSlug)
+        .maybeSingle();
+
+    if (targetError) return { ok: false, status: 500, error: "Failed to load the requested access." };
+    if (!target) {
+        return {
+            ok: false,
+            status: 404,
+            error: roleSlug ? `Unknown role slug: ${roleSlug}.` : `Unknown permission slug: ${permissionSlug}.`,
+        };
+    }
+
+    const { data: pending, error: pendingError } = await supabase
+        .from("access_requests")
+        .select("id")
+        .eq("project_id", projectId)
+        .eq("user_id", userId)
+        .eq(roleSlug ? "role_id" : "permission_id", target.id)
+        .eq("status", "pending")
+        .limit(1);
+
+    if (pendingError) return { ok: false, status: 500, error: "Failed to validate the request." };
+    if ((pending ?? []).length > 0) {
+        return { ok: false, status: 409, error: "This user already has a pending request for this access." };
+    }
+
+    const { data, error } = await supabase
+        .from("access_requests")
+        .insert({
+            project_id: projectId,
+            user_id: userId,
+            role_id: roleSlug ? target.id : null,
+            permission_id: roleSlug ? null : target.id,
+            justification,
+            duration_minutes: durationMinutes,
+            status: "pending",
+            api_key_id: actor.apiKeyId,
+            created_at: new Date().toISOString(),
+        })
+        .select(REQUEST_COLUMNS)
+        .single();
+
+    if (error || !data) return { ok: false, status: 500, error: "Failed to file the request." };
+
+    const request = mapRequestRow(data as AccessRequest);
+    await logAuditEvent({
+        projectId,
+        userId: null,
+        entityType: "access_request",
+        entityId: request.id,
+        action: "created",
+        metadata: {
+            event: "access_request_created",
+            user_id: userId,
+            ...(roleSlug
+                ? { role_id: target.id, role_name: target.name, role_slug: target.slug }
+                : { permission_id: target.id, permission_name: target.name, permission_slug: target.slug }),
+            duration_minutes: durationMinutes,
+            justification,
+            source: "api",
+            api_key_id: actor.apiKeyId,
+        },
+    });
+
+    return { ok: true, data: request };
+}
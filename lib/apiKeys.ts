@@ -1,9 +1,23 @@
 import crypto from "crypto";
 import { createSupabaseServerClient } from "@/lib/supabase-server";
+import { decryptSecret, encryptSecret } from "@/lib/encryption";
+import { logAuditEvent } from "@/lib/auditLogs";
+import { isIpAllowed } from "@/lib/ipAllowList";
+import { consumeApiRateLimit, RateLimitDecision } from "@/lib/rateLimit";
 
-const ENCRYPTION_SECRET = process.env.API_KEY_ENCRYPTION_SECRET!;
+export type ApiKeyStatus = "active" | "rotating" | "revoked" | "expired";
 
-export type ApiKeyStatus = "active" | "revoked";
+export const MAX_API_KEY_LIFETIME_DAYS = 90;
+
+export const API_KEY_SCOPES = [
+    "access:check",
+    "assignments:read",
+    "assignments:write",
+    "config:read",
+    "requests:write",
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
 
 export type ApiKeyRecord = {
     id: string;
@@ -15,37 +29,89 @@ export type ApiKeyRecord = {
     created_at: string;
     updated_at: string | null;
     description: string | null;
+    scopes: ApiKeyScope[];
+    allowed_permission_slugs: string[] | null;
+    allowed_cidrs: string[] | null;
+    rate_limit_per_minute: number | null;
+    expires_at: string | null;
+    replaced_by: string | null;
+    rotation_ends_at: string | null;
 };
 
+export type ApiKeyAuthErrorCode =
+    | "invalid_key"
+    | "expired"
+    | "ip_not_allowed"
+    | "rate_limited"
+    | "insufficient_scope"
+    | "permission_not_allowed";
+
 export type ApiKeyAuthResult =
     | {
     ok: true;
     data: {
         keyId: string;
         projectId: string;
+        scopes: ApiKeyScope[];
+        allowedPermissionSlugs: string[] | null;
+        rateLimit: RateLimitDecision;
     };
 }
     | {
     ok: false;
     error: string;
+    code?: ApiKeyAuthErrorCode;
+    rateLimit?: RateLimitDecision;
+};
+
+export type ApiKeyAuthOptions = {
+    usageWeight?: number;
+    requiredScope?: ApiKeyScope;
+    permissionSlugs?: string[];
+    sourceIp?: string | null;
 };
 
-function getEncryptionKey() {
-    return crypto.createHash("sha256").update(ENCRYPTION_SECRET).digest();
+const API_KEY_COLUMNS =
+    "id, project_id, name, status, usage_count, last_used_at, created_at, updated_at, description, scopes, allowed_permission_slugs, allowed_cidrs, rate_limit_per_minute, expires_at, replaced_by, rotation_ends_at";
+
+// Denied IP attempts are audited at most once per key and address within this window.
+const IP_DENIAL_AUDIT_INTERVAL_MS = 60_000;
+const lastIpDenialAuditAt = new Map<string, number>();
+
+/**
+ * Keys created before scopes existed have `scopes = null` and keep full access.
+ */
+export function normalizeApiKeyScopes(value: unknown): ApiKeyScope[] {
+    if (!Array.isArray(value)) return [...API_KEY_SCOPES];
+    return API_KEY_SCOPES.filter((scope) => value.includes(scope));
 }
 
-function decrypt(value: string) {
-    const [ivHex, encrypted] = value.split(":");
-    const iv = Buffer.from(ivHex, "hex");
-    const decipher = crypto.createDecipheriv("aes-256-cbc", getEncryptionKey(), iv);
-    return decipher.update(encrypted, "hex", "utf8") + decipher.final("utf8");
+function normalizeStringList(value: unknown): string[] | null {
+    if (!Array.isArray(value)) return null;
+    return value.filter((slug): slug is string => typeof slug === "string" && slug.length > 0);
 }
 
-function encrypt(value: string) {
-    const iv = crypto.randomBytes(16);
-    const cipher = crypto.createCipheriv("aes-256-cbc", getEncryptionKey(), iv);
-    const encrypted = cipher.update(value, "utf8", "hex") + cipher.final("hex");
-    return `${iv.toString("hex")}:${encrypted}`;
+function normalizeApiKeyStatus(value: unknown): ApiKeyStatus {
+    if (value === "rotating" || value === "revoked" || value === "expired") return value;
+    return "active";
+}
+
+function mapApiKeyRow(row: ApiKeyRecord): ApiKeyRecord {
+    return {
+        ...row,
+        status: normalizeApiKeyStatus(row.status),
+        usage_count: row.usage_count ?? 0,
+        description: row.description ?? null,
+        updated_at: row.updated_at ?? null,
+        last_used_at: row.last_used_at ?? null,
+        scopes: normalizeApiKeyScopes(row.scopes),
+        allowed_permission_slugs: normalizeStringList(row.allowed_permission_slugs),
+        allowed_cidrs: normalizeStringList(row.allowed_cidrs),
+        rate_limit_per_minute: row.rate_limit_per_minute ?? null,
+        expires_at: row.expires_at ?? null,
+        replaced_by: row.replaced_by ?? null,
+        rotation_ends_at: row.rotation_ends_at ?? null,
+    };
 }
 
 export async function getDecryptedApiKeyValue(
@@ -65,7 +131,7 @@ export async function getDecryptedApiKeyValue(
     }
 
     try {
-        const key = decrypt(data.key_encrypted);
+        const key = decryptSecret(data.key_encrypted);
         return {
             ok: true,
             data: {
@@ -92,30 +158,28 @@ export async function getApiKeysForProject(projectId: string): Promise<ApiKeyRec
 
     const { data, error } = await supabase
         .from("api_keys")
-        .select("id, project_id, name, status, usage_count, last_used_at, created_at, updated_at, description")
+        .select(API_KEY_COLUMNS)
         .eq("project_id", projectId)
         .order("created_at", { ascending: false });
 
     if (error) throw error;
-    return ((data ?? []) as ApiKeyRecord[]).map((row) => ({
-        ...row,
-        status: row.status === "revoked" ? "revoked" : "active",
-        usage_count: row.usage_count ?? 0,
-        description: row.description ?? null,
-        updated_at: row.updated_at ?? null,
-        last_used_at: row.last_used_at ?? null,
-    }));
+    return ((data ?? []) as ApiKeyRecord[]).map(mapApiKeyRow);
 }
 
 export async function createApiKeyRecord(input: {
     projectId: string;
     name: string;
     description: string | null;
+    scopes?: ApiKeyScope[];
+    allowedPermissionSlugs?: string[] | null;
+    allowedCidrs?: string[] | null;
+    rateLimitPerMinute?: number | null;
+    expiresAt?: string | null;
 }): Promise<{ ok: true; data: { key: string; record: ApiKeyRecord } } | { ok: false; error: string }> {
     const supabase = await createSupabaseServerClient();
     const rawKey = generateRawApiKey();
     const keyHash = hashApiKey(rawKey);
-    const keyEncrypted = encrypt(rawKey);
+    const keyEncrypted = encryptSecret(rawKey);
     const now = new Date().toISOString();
 
     const { data, error } = await supabase
@@ -129,10 +193,15 @@ export async function createApiKeyRecord(input: {
             last_used_at: null,
             key_hash: keyHash,
             key_encrypted: keyEncrypted,
+            scopes: input.scopes ?? [...API_KEY_SCOPES],
+            allowed_permission_slugs: input.allowedPermissionSlugs ?? null,
+            allowed_cidrs: input.allowedCidrs ?? null,
+            rate_limit_per_minute: input.rateLimitPerMinute ?? null,
+            expires_at: input.expiresAt ?? null,
             created_at: now,
             updated_at: now,
         })
-        .select("id, project_id, name, status, usage_count, last_used_at, created_at, updated_at, description")
+        .select(API_KEY_COLUMNS)
         .single();
 
     if (error || !data) {
@@ -150,14 +219,7 @@ export async function createApiKeyRecord(input: {
         ok: true,
         data: {
             key: rawKey,
-            record: {
-                ...(data as ApiKeyRecord),
-                status: data.status === "revoked" ? "revoked" : "active",
-                usage_count: data.usage_count ?? 0,
-                last_used_at: data.last_used_at ?? null,
-                updated_at: data.updated_at ?? null,
-                description: data.description ?? null,
-            },
+            record: mapApiKeyRow(data as ApiKeyRecord),
         },
     };
 }
@@ -178,24 +240,81 @@ export async function revokeApiKeyRecord(
         .eq("project_id", projectId)
         .eq("id", keyId)
         .eq("status", "active")
-        .select("id, project_id, name, status, usage_count, last_used_at, created_at, updated_at, description")
+        .select(API_KEY_COLUMNS)
         .single();
 
     if (error || !data) {
         return { ok: false, error: error?.message || "Failed to revoke API key." };
     }
 
-    return {
-        ok: true,
-        data: {
-            ...(data as ApiKeyRecord),
-            status: "revoked",
-            usage_count: data.usage_count ?? 0,
-            last_used_at: data.last_used_at ?? null,
-            updated_at: data.updated_at ?? null,
-            description: data.description ?? null,
-        },
-    };
+    return { ok: true, data: mapApiKeyRow(data as ApiKeyRecord) };
+}
+
+/**
+ * Keep a replaced key usable until `rotationEndsAt` and link it to the key that replaces it.
+ */
+export async function startApiKeyRotationRecord(
+    projectId: string,
+    keyId: string,
+    input: {
+        replacedBy: string;
+        rotationEndsAt: string;
+    }
+): Promise<{ ok: true; data: ApiKeyRecord } | { ok: false; error: string }> {
+    const supabase = await createSupabaseServerClient();
+
+    const { data, error } = await supabase
+        .from("api_keys")
+        .update({
+            status: "rotating",
+            replaced_by: input.replacedBy,
+            rotation_ends_at: input.rotationEndsAt,
+            updated_at: new Date().toISOString(),
+        })
+        .eq("project_id", projectId)
+        .eq("id", keyId)
+        .eq("status", "active")
+        .select(API_KEY_COLUMNS)
+        .single();
+
+    if (error || !data) {
+        return { ok: false, error: error?.message || "Failed to start API key rotation." };
+    }
+
+    return { ok: true, data: mapApiKeyRow(data as ApiKeyRecord) };
+}
+
+export async function updateApiKeyAccessRecord(
+    projectId: string,
+    keyId: string,
+    input: {
+        scopes: ApiKeyScope[];
+        allowedPermissionSlugs: string[] | null;
+        allowedCidrs: string[] | null;
+        rateLimitPerMinute: number | null;
+    }
+): Promise<{ ok: true; data: ApiKeyRecord } | { ok: false; error: string }> {
+    const supabase = await createSupabaseServerClient();
+
+    const { data, error } = await supabase
+        .from("api_keys")
+        .update({
+            scopes: input.scopes,
+            allowed_permission_slugs: input.allowedPermissionSlugs,
+            allowed_cidrs: input.allowedCidrs,
+            rate_limit_per_minute: input.rateLimitPerMinute,
+            updated_at: new Date().toISOString(),
+        })
+        .eq("project_id", projectId)
+        .eq("id", keyId)
+        .select(API_KEY_COLUMNS)
+        .single();
+
+    if (error || !data) {
+        return { ok: false, error: error?.message || "Failed to update API key access." };
+    }
+
+    return { ok: true, data: mapApiKeyRow(data as ApiKeyRecord) };
 }
 
 export async function deleteApiKeyRecord(
@@ -228,26 +347,223 @@ export async function countActiveApiKeys(projectId: string): Promise<number> {
     return count ?? 0;
 }
 
-export async function authenticateAndTrackApiKey(rawKey: string): Promise<ApiKeyAuthResult> {
+/**
+ * Mark active keys whose `expires_at` has passed as expired and audit each lapse once.
+ * The status filter on the update keeps concurrent sweeps from double-logging.
+ */
+export async function expireLapsedApiKeys(projectId: string, keyId?: string): Promise<ApiKeyRecord[]> {
+    const supabase = await createSupabaseServerClient();
+    const now = new Date().toISOString();
+
+    let query = supabase
+        .from("api_keys")
+        .update({ status: "expired", updated_at: now })
+        .eq("project_id", projectId)
+        .in("status", ["active", "rotating"])
+        .lte("expires_at", now);
+
+    if (keyId) {
+        query = query.eq("id", keyId);
+    }
+
+    const { data, error } = await query.select(API_KEY_COLUMNS);
+    if (error) {
+        console.error("Failed to expire API keys", error);
+        return [];
+    }
+
+    const expired = ((data ?? []) as ApiKeyRecord[]).map(mapApiKeyRow);
+    for (const key of expired) {
+        await logAuditEvent({
+            projectId,
+            userId: null,
+            entityType: "api_key",
+            entityId: key.id,
+            action: "revoked",
+            metadata: {
+                event: "api_key_expired",
+                name: key.name,
+                status: key.status,
+                expires_at: key.expires_at,
+            },
+        });
+    }
+
+    return expired;
+}
+
+/**
+ * Revoke rotating keys whose grace period has ended, or a single rotating key right away when
+ * `force` is set. Each completed rotation is audited once.
+ */
+export async function completeApiKeyRotations(
+    projectId: string,
+    options?: { keyId?: string; force?: boolean }
+): Promise<ApiKeyRecord[]> {
+    const supabase = await createSupabaseServerClient();
+    const now = new Date().toISOString();
+
+    let query = supabase
+        .from("api_keys")
+        .update({ status: "revoked", updated_at: now })
+        .eq("project_id", projectId)
+        .eq("status", "rotating");
+
+    if (options?.keyId) {
+        query = query.eq("id", options.keyId);
+    }
+    if (!options?.force) {
+        query = query.lte("rotation_ends_at", now);
+    }
+
+    const { data, error } = await query.select(API_KEY_COLUMNS);
+    if (error) {
+        console.error("Failed to complete API key rotations", error);
+        return [];
+    }
+
+    const revoked = ((data ?? []) as ApiKeyRecord[]).map(mapApiKeyRow);
+    for (const key of revoked) {
+        await logAuditEvent({
+            projectId,
+            userId: null,
+            entityType: "api_key",
+            entityId: key.id,
+            action: "revoked",
+            metadata: {
+                event: "api_key_rotation_completed",
+                name: key.name,
+                status: key.status,
+                replaced_by: key.replaced_by,
+                trigger: options?.force ? "manual" : "grace_period_ended",
+            },
+        });
+    }
+
+    return revoked;
+}
+
+async function auditIpDenial(key: { id: string; project_id: string; name: string }, sourceIp: string | null) {
+    const throttleKey = `${key.id}:${sourceIp ?? "unknown"}`;
+    const now = Date.now();
+    const lastLoggedAt = lastIpDenialAuditAt.get(throttleKey);
+    if (lastLoggedAt && now - lastLoggedAt < IP_DENIAL_AUDIT_INTERVAL_MS) return;
+
+    if (lastIpDenialAuditAt.size > 1000) lastIpDenialAuditAt.clear();
+    lastIpDenialAuditAt.set(throttleKey, now);
+
+    await logAuditEvent({
+        projectId: key.project_id,
+        userId: null,
+        entityType: "api_key",
+        entityId: key.id,
+        action: "denied",
+        metadata: {
+            event: "api_key_ip_denied",
+            name: key.name,
+            source_ip: sourceIp,
+        },
+    });
+}
+
+export async function authenticateAndTrackApiKey(
+    rawKey: string,
+    options?: ApiKeyAuthOptions
+): Promise<ApiKeyAuthResult> {
     const trimmed = rawKey.trim();
-    if (!trimmed) return { ok: false, error: "Missing API key." };
+    if (!trimmed) return { ok: false, error: "Missing API key.", code: "invalid_key" };
 
     const supabase = await createSupabaseServerClient();
     const keyHash = hashApiKey(trimmed);
 
     const { data, error } = await supabase
         .from("api_keys")
-        .select("id, project_id, status, usage_count")
+        .select(
+            "id, project_id, name, status, usage_count, scopes, allowed_permission_slugs, allowed_cidrs, rate_limit_per_minute, expires_at, rotation_ends_at, projects(api_rate_limit_per_minute)"
+        )
         .eq("key_hash", keyHash)
-        .eq("status", "active")
+        .in("status", ["active", "rotating", "expired"])
         .maybeSingle();
 
     if (error || !data) {
-        return { ok: false, error: "Invalid API key." };
+        return { ok: false, error: "Invalid API key.", code: "invalid_key" };
+    }
+
+    if (data.status === "rotating" && new Date(data.rotation_ends_at).getTime() <= Date.now()) {
+        await completeApiKeyRotations(data.project_id, { keyId: data.id });
+        return { ok: false, error: "API key was rotated and is no longer valid.", code: "invalid_key" };
+    }
+
+    const hasLapsed = Boolean(data.expires_at) && new Date(data.expires_at).getTime() <= Date.now();
+    if (data.status === "expired" || hasLapsed) {
+        if (data.status !== "expired") {
+            await expireLapsedApiKeys(data.project_id, data.id);
+        }
+        return { ok: false, error: "API key has expired.", code: "expired" };
+    }
+
+    const allowedCidrs = normalizeStringList(data.allowed_cidrs);
+    if (allowedCidrs && allowedCidrs.length > 0) {
+        const sourceIp = options?.sourceIp ?? null;
+        if (!sourceIp || !isIpAllowed(sourceIp, allowedCidrs)) {
+            await auditIpDenial(data, sourceIp);
+            return {
+                ok: false,
+                error: sourceIp
+                    ? `Requests from ${sourceIp} are not allowed for this API key.`
+                    : "Could not determine the request IP address.",
+                code: "ip_not_allowed",
+            };
+        }
+    }
+
+    const scopes = normalizeApiKeyScopes(data.scopes);
+    const allowedPermissionSlugs = normalizeStringList(data.allowed_permission_slugs);
+
+    if (options?.requiredScope && !scopes.includes(options.requiredScope)) {
+        return {
+            ok: false,
+            error: `API key is missing the "${options.requiredScope}" scope.`,
+            code: "insufficient_scope",
+        };
+    }
+
+    if (allowedPermissionSlugs && options?.permissionSlugs) {
+        const allowed = new Set(allowedPermissionSlugs);
+        const blocked = options.permissionSlugs.filter((slug) => !allowed.has(slug));
+        if (blocked.length > 0) {
+            return {
+                ok: false,
+                error: `API key is not allowed to evaluate: ${blocked.join(", ")}.`,
+                code: "permission_not_allowed",
+            };
+        }
+    }
+
+    // Rejected requests (wrong scope, IP or permission) never reach the rate limiter, so they cannot
+    // use up the quota of legitimate ones.
+    const usageWeight = Math.max(1, Math.floor(options?.usageWeight ?? 1));
+    const project = (Array.isArray(data.projects) ? data.projects[0] : data.projects) as
+        | { api_rate_limit_per_minute: number | null }
+        | null;
+    const rateLimit = await consumeApiRateLimit({
+        projectId: data.project_id,
+        keyId: data.id,
+        projectLimitPerMinute: project?.api_rate_limit_per_minute ?? null,
+        keyLimitPerMinute: data.rate_limit_per_minute ?? null,
+        cost: usageWeight,
+    });
+    if (!rateLimit.allowed) {
+        return {
+            ok: false,
+            error: `Rate limit exceeded. Retry in ${rateLimit.retryAfterSeconds}s.`,
+            code: "rate_limited",
+            rateLimit,
+        };
     }
 
     const now = new Date().toISOString();
-    const usageCount = (data.usage_count ?? 0) + 1;
+    const usageCount = (data.usage_count ?? 0) + usageWeight;
 
     const { error: updateError } = await supabase
         .from("api_keys")
@@ -257,7 +573,7 @@ export async function authenticateAndTrackApiKey(rawKey: string): Promise<ApiKey
             updated_at: now,
         })
         .eq("id", data.id)
-        .eq("status", "active");
+        .in("status", ["active", "rotating"]);
 
     if (updateError) {
         return { ok: false, error: "Failed to update API key usage." };
@@ -268,19 +584,23 @@ export async function authenticateAndTrackApiKey(rawKey: string): Promise<ApiKey
         data: {
             keyId: data.id,
             projectId: data.project_id,
+            scopes,
+            allowedPermissionSlugs,
+            rateLimit,
         },
     };
 }
 
 export async function authenticateAndTrackApiKeyFromAuthHeader(
-    authorizationHeader: string | null
+    authorizationHeader: string | null,
+    options?: ApiKeyAuthOptions
 ): Promise<ApiKeyAuthResult> {
     if (!authorizationHeader) {
-        return { ok: false, error: "Missing Authorization header." };
+        return { ok: false, error: "Missing Authorization header.", code: "invalid_key" };
     }
     const [scheme, token] = authorizationHeader.split(" ");
     if (scheme !== "Bearer" || !token) {
-        return { ok: false, error: "Invalid Authorization header." };
+        return { ok: false, error: "Invalid Authorization header.", code: "invalid_key" };
     }
-    return authenticateAndTrackApiKey(token);
+    return authenticateAndTrackApiKey(token, options);
 }
@@ -0,0 +1,139 @@
+import { NextResponse } from "next/server";
+import { authenticateApiKeyRequest } from "@/lib/auth";
+import type { ApiKeyAuthErrorCode, ApiKeyAuthOptions, ApiKeyScope } from "@/lib/apiKeys";
+import { getRateLimitHeaders, RateLimitDecision } from "@/lib/rateLimit";
+import { getProjectById } from "@/lib/projects";
+import { MAX_CONTEXT_BYTES, type ConditionContext } from "@/lib/conditions";
+import { parseResourceScope, type ResourceScope } from "@/lib/userRoles";
+import { runWithServiceRole } from "@/lib/supabase-server";
+import type { ApiErrorBody } from "@/sdk/src/types";
+
+export type ProjectApiAuthResult =
+    | {
+    ok: true;
+    data: {
+        keyId: string;
+        projectId: string;
+        scopes: ApiKeyScope[];
+        allowedPermissionSlugs: string[] | null;
+        rateLimit: RateLimitDecision;
+    };
+}
+    | {
+    ok: false;
+    status: number;
+    error: string;
+    headers?: Record<string, string>;
+};
+
+const AUTH_ERROR_STATUS: Record<ApiKeyAuthErrorCode, number> = {
+    invalid_key: 401,
+    expired: 401,
+    ip_not_allowed: 403,
+    rate_limited: 429,
+    insufficient_scope: 403,
+    permission_not_allowed: 403,
+};
+
+export function jsonError(status: number, error: string, headers?: Record<string, string>) {
+    return NextResponse.json({ ok: false, error } satisfies ApiErrorBody, { status, headers });
+}
+
+export function jsonWithRateLimit(body: unknown, rateLimit: RateLimitDecision, headers?: Record<string, string>) {
+    return NextResponse.json(body, { headers: { ...getRateLimitHeaders(rateLimit), ...headers } });
+}
+
+export function notModifiedWithRateLimit(rateLimit: RateLimitDecision, headers?: Record<string, string>) {
+    return new NextResponse(null, { status: 304, headers: { ...getRateLimitHeaders(rateLimit), ...headers } });
+}
+
+export async function readJsonObject(request: Request): Promise<Record<string, unknown> | null> {
+    try {
+        const body = (await request.json()) as unknown;
+        if (!body || typeof body !== "object" || Array.isArray(body)) return null;
+        return body as Record<string, unknown>;
+    } catch {
+        return null;
+    }
+}
+
+export function readString(body: Record<string, unknown>, key: string) {
+    const value = body[key];
+    if (typeof value !== "string") return null;
+    const trimmed = value.trim();
+    return trimmed.length ? trimmed : null;
+}
+
+export function readStringArray(body: Record<string, unknown>, key: string) {
+    const value = body[key];
+    if (!Array.isArray(value)) return null;
+    return Array.from(
+        new Set(
+            value
+                .filter((item): item is string => typeof item === "string")
+                .map((item) => item.trim())
+                .filter(Boolean)
+        )
+    );
+}
+
+/**
+ * Read the optional `context` object that permission conditions are evaluated against.
+ */
+export function readConditionContext(
+    body: Record<string, unknown>
+): { ok: true; context: ConditionContext | null } | { ok: false; error: string } {
+    const value = body.context;
+    if (value === undefined || value === null) return { ok: true, context: null };
+    if (typeof value !== "object" || Array.isArray(value)) {
+        return { ok: false, error: "context must be a JSON object." };
+    }
+    if (JSON.stringify(value).length > MAX_CONTEXT_BYTES) {
+        return { ok: false, error: `context cannot be larger than ${MAX_CONTEXT_BYTES} bytes.` };
+    }
+    return { ok: true, context: value as ConditionContext };
+}
+
+/**
+ * Read the optional `resource_type` / `resource_id` pair that scopes a check to one resource instance.
+ */
+export function readResourceScope(
+    body: Record<string, unknown>
+): { ok: true; scope: ResourceScope | null } | { ok: false; error: string } {
+    return parseResourceScope(body.resource_type, body.resource_id);
+}
+
+/**
+ * Wrap a `/v1` route handler. The handler's database work runs on the service role client: the API
+ * key is the caller's credential and `authenticateProjectApiRequest` scopes every request to the
+ * key's project, so there is no Supabase session for row level security to check.
+ */
+export function apiKeyRoute<Context>(handler: (request: Request, context: Context) => Promise<Response>) {
+    return (request: Request, context: Context) => runWithServiceRole(() => handler(request, context));
+}
+
+/**
+ * Authenticate a Bearer API key and make sure it belongs to the project addressed by the URL.
+ */
+export async function authenticateProjectApiRequest(
+    request: Request,
+    projectSlug: string,
+    options?: ApiKeyAuthOptions
+): Promise<ProjectApiAuthResult> {
+    const auth = await authenticateApiKeyRequest(request, options);
+    if (!auth.ok) {
+        return {
+            ok: false,
+            status: AUTH_ERROR_STATUS[auth.code ?? "invalid_key"],
+            error: auth.error,
+            headers: auth.rateLimit ? getRateLimitHeaders(auth.rateLimit) : undefined,
+        };
+    }
+
+    const project = await getProjectById(auth.data.projectId);
+    if (!project || project.slug !== projectSlug) {
+        return { ok: false, status: 404, error: "Project not found." };
+    }
+
+    return { ok: true, data: auth.data };
+}
@@ -0,0 +1,60 @@
+/**
+ * Time windows on user-role assignments. An assignment is active from `starts_at` (or creation)
+ * until `expires_at`; either bound may be null. Roles that grant a high-risk permission are always
+ * time-bound. These helpers are pure so the dashboard and the server validate windows the same way.
+ */
+
+import { isAssignmentActive, type AssignmentWindow } from "@/sdk/src/policy";
+
+export { isAssignmentActive, type AssignmentWindow };
+
+export const MAX_HIGH_RISK_ASSIGNMENT_HOURS = 24;
+const HOUR_MS = 60 * 60 * 1000;
+
+function parseTimestamp(value: unknown, label: string): { ok: true; time: number | null } | { ok: false; error: string } {
+    if (value === null || value === undefined || (typeof value === "string" && !value.trim())) {
+        return { ok: true, time: null };
+    }
+    const time = typeof value === "string" ? Date.parse(value) : NaN;
+    if (Number.isNaN(time)) return { ok: false, error: `${label} is not a valid date.` };
+    return { ok: true, time };
+}
+
+/**
+ * Validate and normalize an assignment window. High-risk roles without an expiry get the maximum
+ * duration from their start, and cannot be granted for longer than that.
+ */
+export function resolveAssignmentWindow(
+    input: { startsAt?: unknown; expiresAt?: unknown; highRisk?: boolean },
+    now = Date.now()
+): { ok: true; window: AssignmentWindow } | { ok: false; error: string } {
+    const startsAt = parseTimestamp(input.startsAt, "Start time");
+    if (!startsAt.ok) return startsAt;
+    const expiresAt = parseTimestamp(input.expiresAt, "Expiry");
+    if (!expiresAt.ok) return expiresAt;
+
+    const start = startsAt.time ?? now;
+    let expiry = expiresAt.time;
+
+    if (expiry !== null && expiry <= now) return { ok: false, error: "Expiry must be in the future." };
+    if (expiry !== null && expiry <= start) return { ok: false, error: "Expiry must be after the start time." };
+
+    if (input.highRisk) {
+        const maxExpiry = start + MAX_HIGH_RISK_ASSIGNMENT_HOURS * HOUR_MS;
+        if (expiry === null) expiry = maxExpiry;
+        if (expiry > maxExpiry) {
+            return {
+                ok: false,
+                error: `Roles with high-risk permissions can be assigned for at most ${MAX_HIGH_RISK_ASSIGNMENT_HOURS} hours.`,
+            };
+        }
+    }
+
+    return {
+        ok: true,
+        window: {
+            starts_at: startsAt.time === null ? null : new Date(startsAt.time).toISOString(),
+            expires_at: expiry === null ? null : new Date(expiry).toISOString(),
+        },
+    };
+}
@@ -1,12 +1,13 @@
-import { createSupabaseServerClient } from "@/lib/supabase-server";
+import { createSupabaseServerClient, createSupabaseServiceClient } from "@/lib/supabase-server";
+import { buildWebhookEvent, emitWebhookEvent } from "@/lib/webhooks";
 
 export type AuditLogRecord = {
     id: string;
     project_id: string;
     user_id: string | null;
-    entity_type: "permission" | "role" | "api_key" | "project" | string;
+    entity_type: "permission" | "role" | "api_key" | "project" | "user_role" | "project_member" | "user_deny" | "access_request" | "webhook" | string;
     entity_id: string | null;
-    action: "created" | "updated" | "deleted" | "granted" | "revoked" | string;
+    action: "created" | "updated" | "deleted" | "granted" | "revoked" | "denied" | string;
     metadata: Record<string, unknown> | null;
     created_at: string;
 };
@@ -28,12 +29,23 @@ export async function getAuditLogs(projectId: string, limit = 200): Promise<Audi
 export async function logAuditEvent(input: {
     projectId: string;
     userId?: string | null;
-    entityType: "permission" | "role" | "api_key" | "project";
+    entityType:
+        | "permission"
+        | "role"
+        | "api_key"
+        | "project"
+        | "user_role"
+        | "project_member"
+        | "user_deny"
+        | "access_request"
+        | "webhook";
     entityId?: string | null;
-    action: "created" | "updated" | "deleted" | "granted" | "revoked";
+    action: "created" | "updated" | "deleted" | "granted" | "revoked" | "denied";
     metadata?: Record<string, unknown>;
 }) {
-    const supabase = await createSupabaseServerClient();
+    // Written with the service role: API key requests and background sweeps have no signed-in user,
+    // and row level security only lets members read the log.
+    const supabase = createSupabaseServiceClient();
 
     const { error } = await supabase.from("audit_logs").insert({
         project_id: input.projectId,
@@ -48,4 +60,17 @@ export async function logAuditEvent(input: {
     if (error) {
         console.error("Failed to write audit log", error);
     }
+
+    // Every audited change is also sent to the project's webhook endpoints, after the response.
+    emitWebhookEvent(
+        buildWebhookEvent({
+            projectId: input.projectId,
+            type: `${input.entityType}.${input.action}`,
+            entityType: input.entityType,
+            entityId: input.entityId ?? null,
+            action: input.action,
+            actorUserId: input.userId ?? null,
+            metadata: input.metadata ?? null,
+        })
+    );
 }
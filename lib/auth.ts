@@ -1,5 +1,6 @@
 import { createSupabaseServerClient } from "./supabase-server";
-import { authenticateAndTrackApiKeyFromAuthHeader } from "./apiKeys";
+import { ApiKeyAuthOptions, authenticateAndTrackApiKeyFromAuthHeader } from "./apiKeys";
+import { getRequestIp } from "./ipAllowList";
 
 export async function getCurrentUser() {
     const supabase = await createSupabaseServerClient();
@@ -11,7 +12,13 @@ export async function getCurrentUser() {
     return user;
 }
 
-export async function authenticateApiKeyRequest(request: Request) {
+export async function authenticateApiKeyRequest(
+    request: Request,
+    options?: ApiKeyAuthOptions
+) {
     const authHeader = request.headers.get("authorization");
-    return authenticateAndTrackApiKeyFromAuthHeader(authHeader);
+    return authenticateAndTrackApiKeyFromAuthHeader(authHeader, {
+        ...options,
+        sourceIp: getRequestIp(request),
+    });
 }
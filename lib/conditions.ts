@@ -0,0 +1,5 @@
+/**
+ * The condition language lives in the SDK so that SDK-side local evaluation and the server parse and
+ * evaluate conditions with the same code.
+ */
+export * from "@/sdk/src/conditions";
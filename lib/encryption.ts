@@ -0,0 +1,26 @@
+import crypto from "crypto";
+
+/**
+ * AES-256-CBC for secrets the dashboard has to read back later, such as API keys and webhook
+ * signing secrets. Values are stored as `<iv hex>:<ciphertext hex>`.
+ */
+
+const ENCRYPTION_SECRET = process.env.API_KEY_ENCRYPTION_SECRET!;
+
+function getEncryptionKey() {
+    return crypto.createHash("sha256").update(ENCRYPTION_SECRET).digest();
+}
+
+export function decryptSecret(value: string) {
+    const [ivHex, encrypted] = value.split(":");
+    const iv = Buffer.from(ivHex, "hex");
+    const decipher = crypto.createDecipheriv("aes-256-cbc", getEncryptionKey(), iv);
+    return decipher.update(encrypted, "hex", "utf8") + decipher.final("utf8");
+}
+
+export function encryptSecret(value: string) {
+    const iv = crypto.randomBytes(16);
+    const cipher = crypto.createCipheriv("aes-256-cbc", getEncryptionKey(), iv);
+    const encrypted = cipher.update(value, "utf8", "hex") + cipher.final("hex");
+    return `${iv.toString("hex")}:${encrypted}`;
+}
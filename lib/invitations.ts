@@ -0,0 +1,201 @@
+import crypto from "crypto";
+import { logAuditEvent } from "@/lib/auditLogs";
+import { escapeHtml, MailMessage } from "@/lib/mail";
+import {
+    getProjectMemberByUser,
+    isProjectMemberRole,
+    ProjectMemberRole,
+    respondToProjectInvitation,
+} from "@/lib/projectMembers";
+
+// Both are required and checked at startup by `instrumentation.ts`.
+const TOKEN_SECRET = process.env.INVITATION_TOKEN_SECRET!;
+
+export const INVITATION_TTL_DAYS = 7;
+
+/**
+ * Everything the signup page needs to render an invitation without reading the database, which
+ * a visitor without an account cannot do under row level security.
+ */
+export type InvitationTokenPayload = {
+    invitationId: string;
+    projectId: string;
+    projectName: string;
+    email: string;
+    role: ProjectMemberRole;
+    expiresAt: string;
+};
+
+type EncodedPayload = { i: string; p: string; n: string; e: string; r: string; x: number };
+
+function sign(encodedPayload: string) {
+    return crypto
+        .createHmac("sha256", TOKEN_SECRET)
+        .update(`project-invitation:${encodedPayload}`)
+        .digest("base64url");
+}
+
+export function createInvitationToken(payload: InvitationTokenPayload) {
+    const encoded: EncodedPayload = {
+        i: payload.invitationId,
+        p: payload.projectId,
+        n: payload.projectName,
+        e: payload.email,
+        r: payload.role,
+        x: Math.floor(new Date(payload.expiresAt).getTime() / 1000),
+    };
+    const body = Buffer.from(JSON.stringify(encoded), "utf8").toString("base64url");
+    return `${body}.${sign(body)}`;
+}
+
+export function verifyInvitationToken(
+    token: string
+): { ok: true; payload: InvitationTokenPayload } | { ok: false; error: string } {
+    const [body, signature, ...rest] = (token ?? "").trim().split(".");
+    if (!body || !signature || rest.length > 0) {
+        return { ok: false, error: "Invitation link is invalid." };
+    }
+
+    const expected = Buffer.from(sign(body));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+        return { ok: false, error: "Invitation link is invalid." };
+    }
+
+    let decoded: EncodedPayload;
+    try {
+        decoded = JSON.parse(Buffer.from(body, "base64url").toString("utf8")) as EncodedPayload;
+    } catch {
+        return { ok: false, error: "Invitation link is invalid." };
+    }
+    if (!isProjectMemberRole(decoded.r) || typeof decoded.x !== "number") {
+        return { ok: false, error: "Invitation link is invalid." };
+    }
+    if (decoded.x * 1000 <= Date.now()) {
+        return { ok: false, error: "Invitation link has expired. Ask a project admin to resend it." };
+    }
+
+    return {
+        ok: true,
+        payload: {
+            invitationId: decoded.i,
+            projectId: decoded.p,
+            projectName: decoded.n,
+            email: decoded.e,
+            role: decoded.r,
+            expiresAt: new Date(decoded.x * 1000).toISOString(),
+        },
+    };
+}
+
+/**
+ * Only the hash is stored, so a resend invalidates earlier links and a database leak does not
+ * expose usable tokens.
+ */
+export function hashInvitationToken(token: string) {
+    return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+export function getInvitationExpiry(from = Date.now()) {
+    return new Date(from + INVITATION_TTL_DAYS * 86_400_000).toISOString();
+}
+
+/**
+ * Public base URL for emailed links, the OpenAPI document and the Try it console. Always `APP_URL`:
+ * request headers such as `x-forwarded-host` can be set by the client.
+ */
+export function getAppBaseUrl() {
+    return process.env.APP_URL!.replace(/\/+$/, "");
+}
+
+export function renderProjectInvitationEmail(input: {
+    to: string;
+    projectName: string;
+    role: ProjectMemberRole;
+    inviterEmail: string | null;
+    acceptUrl: string;
+    expiresAt: string;
+}): MailMessage {
+    const inviter = input.inviterEmail ?? "A teammate";
+    const expires = new Date(input.expiresAt).toLocaleDateString("en-US", {
+        year: "numeric",
+        month: "long",
+        day: "numeric",
+    });
+    const subject = `${inviter} invited you to ${input.projectName}`;
+
+    const text = [
+        `${inviter} invited you to join the project "${input.projectName}" as ${input.role}.`,
+        "",
+        `Accept the invitation: ${input.acceptUrl}`,
+        "",
+        `This link expires on ${expires}. If you already have an account, sign in with ${input.to} and accept the invitation from your Projects page.`,
+    ].join("\n");
+
+    const html = `<!doctype html>
+<html>
+<body style="margin:0;background:#0e1117;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',sans-serif;color:#e5e7eb;">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="padding:40px 16px;">
+<tr><td align="center">
+<table role="presentation" width="480" cellpadding="0" cellspacing="0" style="background:#151922;border:1px solid rgba(255,255,255,0.08);border-radius:16px;padding:32px;">
+<tr><td>
+<p style="margin:0;font-size:12px;letter-spacing:0.14em;text-transform:uppercase;color:rgba(255,255,255,0.45);">Access</p>
+<h1 style="margin:12px 0 0;font-size:20px;color:#ffffff;">Join ${escapeHtml(input.projectName)}</h1>
+<p style="margin:12px 0 0;font-size:14px;line-height:1.6;color:rgba(255,255,255,0.7);">
+${escapeHtml(inviter)} invited you to collaborate on <strong>${escapeHtml(input.projectName)}</strong> as <strong>${escapeHtml(input.role)}</strong>.
+</p>
+<p style="margin:24px 0 0;">
+<a href="${escapeHtml(input.acceptUrl)}" style="display:inline-block;background:#ffffff;color:#0e1117;text-decoration:none;font-weight:600;font-size:14px;padding:10px 18px;border-radius:10px;">Accept invitation</a>
+</p>
+<p style="margin:24px 0 0;font-size:12px;line-height:1.6;color:rgba(255,255,255,0.45);">
+This link expires on ${escapeHtml(expires)}. If you already have an account, sign in with ${escapeHtml(input.to)} and accept the invitation from your Projects page.
+</p>
+</td></tr>
+</table>
+</td></tr>
+</table>
+</body>
+</html>`;
+
+    return { to: input.to, subject, text, html };
+}
+
+/**
+ * Accept a pending invitation for the signed-in user and add them to the project. Pass the token
+ * hash when accepting from an emailed link so superseded links are rejected.
+ */
+export async function joinProjectFromInvitation(input: {
+    invitationId: string;
+    userId: string;
+    email: string;
+    tokenHash?: string;
+}) {
+    const invitation = await respondToProjectInvitation(input.invitationId, true, input.tokenHash);
+    if (!invitation) {
+        return { ok: false as const, error: "Invitation not found or no longer valid." };
+    }
+
+    const member = await getProjectMemberByUser(invitation.project_id, input.userId);
+    if (!member) return { ok: false as const, error: "Failed to join project." };
+    // Accepting while already a member uses the invitation up and keeps the existing membership.
+    if (new Date(member.created_at).getTime() < new Date(invitation.responded_at ?? member.created_at).getTime()) {
+        return { ok: true as const, data: { projectId: invitation.project_id } };
+    }
+
+    await logAuditEvent({
+        projectId: invitation.project_id,
+        userId: input.userId,
+        entityType: "project_member",
+        entityId: member.id,
+        action: "granted",
+        metadata: {
+            event: "project_member_joined",
+            email: input.email,
+            role: member.role,
+            invitation_id: invitation.id,
+            via: input.tokenHash ? "email_link" : "dashboard",
+        },
+    });
+
+    return { ok: true as const, data: { projectId: invitation.project_id } };
+}
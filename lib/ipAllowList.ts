@@ -0,0 +1,147 @@
+import { BlockList, isIP } from "net";
+
+export type IpVersion = "ipv4" | "ipv6";
+
+export type ParsedCidr = {
+    address: string;
+    prefix: number;
+    version: IpVersion;
+};
+
+const MAX_PREFIX: Record<IpVersion, number> = { ipv4: 32, ipv6: 128 };
+
+function getIpVersion(address: string): IpVersion | null {
+    const version = isIP(address);
+    if (version === 4) return "ipv4";
+    if (version === 6) return "ipv6";
+    return null;
+}
+
+/**
+ * Normalize an address as it appears in proxy headers: strips brackets, ports, zone ids and the
+ * IPv4-mapped IPv6 prefix so `::ffff:10.0.0.1` and `10.0.0.1` compare the same way.
+ */
+export function normalizeIpAddress(value: string): string | null {
+    let address = value.trim();
+    if (address.startsWith("[") && address.includes("]")) {
+        address = address.slice(1, address.indexOf("]"));
+    }
+    if (/^\d{1,3}(\.\d{1,3}){3}:\d+$/.test(address)) {
+        address = address.slice(0, address.lastIndexOf(":"));
+    }
+    const zoneIndex = address.indexOf("%");
+    if (zoneIndex !== -1) {
+        address = address.slice(0, zoneIndex);
+    }
+    if (/^::ffff:\d{1,3}(\.\d{1,3}){3}$/i.test(address)) {
+        address = address.slice("::ffff:".length);
+    }
+    return getIpVersion(address) ? address.toLowerCase() : null;
+}
+
+/**
+ * Parse `10.0.0.0/8`, `2001:db8::/32` or a bare address (treated as a single host).
+ */
+export function parseCidr(value: string): ParsedCidr | null {
+    const parts = value.trim().split("/");
+    if (parts.length > 2) return null;
+
+    const address = normalizeIpAddress(parts[0]);
+    if (!address) return null;
+    const version = getIpVersion(address)!;
+
+    if (parts.length === 1) {
+        return { address, prefix: MAX_PREFIX[version], version };
+    }
+    if (!/^\d{1,3}$/.test(parts[1])) return null;
+    const prefix = Number(parts[1]);
+    if (prefix > MAX_PREFIX[version]) return null;
+    return { address, prefix, version };
+}
+
+export function formatCidr(cidr: ParsedCidr) {
+    return `${cidr.address}/${cidr.prefix}`;
+}
+
+export function isIpAllowed(ip: string, cidrs: string[]) {
+    const address = normalizeIpAddress(ip);
+    if (!address) return false;
+
+    const allowList = new BlockList();
+    for (const cidr of cidrs) {
+        const parsed = parseCidr(cidr);
+        if (parsed) allowList.addSubnet(parsed.address, parsed.prefix, parsed.version);
+    }
+    return allowList.check(address, getIpVersion(address)!);
+}
+
+/**
+ * Proxies in front of the app, from `TRUSTED_PROXY_CIDRS` (comma separated addresses or ranges).
+ */
+function getTrustedProxyCidrs() {
+    return (process.env.TRUSTED_PROXY_CIDRS ?? "")
+        .split(",")
+        .map((value) => value.trim())
+        .filter((value) => parseCidr(value) !== null);
+}
+
+/**
+ * Client IP for allow-list checks. Every proxy appends the address it received the request from to
+ * `x-forwarded-for`, so only the entries added by our own proxies can be trusted: the client is the
+ * rightmost entry that is not one of the proxies in `TRUSTED_PROXY_CIDRS`, and anything to its left
+ * was supplied by the client. Without that setting the header is ignored and the IP is unknown, so
+ * keys with an allow-list reject every request.
+ */
+export function getRequestIp(request: Request) {
+    const trustedProxies = getTrustedProxyCidrs();
+    if (trustedProxies.length === 0) return null;
+
+    const forwardedFor = request.headers.get("x-forwarded-for");
+    if (!forwardedFor) return null;
+
+    const hops = forwardedFor.split(",");
+    for (let index = hops.length - 1; index >= 0; index -= 1) {
+        const address = normalizeIpAddress(hops[index]);
+        // A malformed hop means the chain cannot be followed any further.
+        if (!address) return null;
+        if (!isIpAllowed(address, trustedProxies)) return address;
+    }
+    return null;
+}
+
+// Loopback, private, link-local, shared, reserved and multicast ranges, plus the IPv6 prefixes that
+// embed or translate to them.
+const NON_PUBLIC_CIDRS = [
+    "0.0.0.0/8",
+    "10.0.0.0/8",
+    "100.64.0.0/10",
+    "127.0.0.0/8",
+    "169.254.0.0/16",
+    "172.16.0.0/12",
+    "192.0.0.0/24",
+    "192.0.2.0/24",
+    "192.168.0.0/16",
+    "198.18.0.0/15",
+    "198.51.100.0/24",
+    "203.0.113.0/24",
+    "224.0.0.0/4",
+    "240.0.0.0/4",
+    "::/128",
+    "::1/128",
+    "64:ff9b::/96",
+    "100::/64",
+    "2001:db8::/32",
+    "fc00::/7",
+    "fe80::/10",
+    "ff00::/8",
+];
+
+/**
+ * Whether an address is reachable on the public internet. Used to keep outbound requests to
+ * user-supplied URLs away from the app's own network.
+ */
+export function isPublicIpAddress(ip: string) {
+    const address = normalizeIpAddress(ip);
+    if (!address) return false;
+    return !isIpAllowed(address, NON_PUBLIC_CIDRS);
+}
@@ -0,0 +1,79 @@
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+
+export type MailMessage = {
+    to: string;
+    subject: string;
+    text: string;
+    html: string;
+};
+
+/**
+ * Delivers rendered emails. The built-in transports are meant for development: `console` prints
+ * messages to the server log and `file` writes them to `MAIL_OUTBOX_DIR`. Register a real provider
+ * (SMTP, Resend, SES, ...) with `setMailTransport` during server start-up.
+ */
+export type MailTransport = {
+    name: string;
+    send(message: MailMessage): Promise<void>;
+};
+
+export function createConsoleMailTransport(): MailTransport {
+    return {
+        name: "console",
+        async send(message) {
+            console.info(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n\n${message.text}\n`);
+        },
+    };
+}
+
+export function createFileMailTransport(directory: string): MailTransport {
+    return {
+        name: "file",
+        async send(message) {
+            await mkdir(directory, { recursive: true });
+            const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+            const recipient = message.to.replace(/[^a-z0-9@._-]/gi, "_");
+            const basename = path.join(directory, `${stamp}-${recipient}`);
+            await writeFile(`${basename}.html`, message.html, "utf8");
+            await writeFile(
+                `${basename}.txt`,
+                `To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}\n`,
+                "utf8"
+            );
+        },
+    };
+}
+
+function createDefaultMailTransport(): MailTransport {
+    if (process.env.MAIL_TRANSPORT === "file") {
+        return createFileMailTransport(process.env.MAIL_OUTBOX_DIR || path.join(process.cwd(), ".mail-outbox"));
+    }
+    return createConsoleMailTransport();
+}
+
+let mailTransport: MailTransport | null = null;
+
+export function setMailTransport(transport: MailTransport) {
+    mailTransport = transport;
+}
+
+export async function sendMail(message: MailMessage) {
+    mailTransport ??= createDefaultMailTransport();
+    try {
+        await mailTransport.send(message);
+        return { ok: true as const };
+    } catch (error) {
+        console.error(`Failed to send mail through ${mailTransport.name} transport`, error);
+        return { ok: false as const, error: "Failed to send email." };
+    }
+}
+
+export function escapeHtml(value: string) {
+    return value
+        .replaceAll("&", "&amp;")
+        .replaceAll("<", "&lt;")
+        .replaceAll(">", "&gt;")
+        .replaceAll('"', "&quot;")
+        .replaceAll("'", "&#39;");
+}
@@ -0,0 +1,521 @@
+import * as accessCheckRoute from "@/app/v1/projects/[slug]/access/check/route";
+import * as accessCheckBatchRoute from "@/app/v1/projects/[slug]/access/check-batch/route";
+import * as accessRequestsRoute from "@/app/v1/projects/[slug]/access-requests/route";
+import * as policyRoute from "@/app/v1/projects/[slug]/policy/route";
+import * as userRolesRoute from "@/app/v1/projects/[slug]/users/[userId]/roles/route";
+import * as userRoleRoute from "@/app/v1/projects/[slug]/users/[userId]/roles/[roleSlug]/route";
+import type { ApiKeyScope } from "@/lib/apiKeys";
+import type { AccessDecisionReason, AccessRequestStatus, InactiveAssignmentReason } from "@/sdk/src/types";
+
+const HTTP_METHODS = ["GET", "POST", "PUT", "PATCH", "DELETE"] as const;
+
+type HttpMethod = (typeof HTTP_METHODS)[number];
+type JsonSchema = Record<string, unknown>;
+
+type OperationSpec = {
+    operationId: string;
+    summary: string;
+    description?: string;
+    scope: ApiKeyScope;
+    parameters?: JsonSchema[];
+    requestBody?: JsonSchema;
+    /** Schema of the `200` response; `null` for responses documented in `extraResponses` only. */
+    response: JsonSchema | null;
+    extraResponses?: Record<string, JsonSchema>;
+};
+
+/**
+ * One entry per route module under `app/v1`. The operations are keyed by the HTTP methods the module
+ * actually exports, so adding a handler without documenting it (or documenting one that does not
+ * exist) fails to compile.
+ */
+type RouteSpec<Module> = {
+    path: string;
+    module: Module;
+    operations: { [Method in Extract<keyof Module, HttpMethod>]: OperationSpec };
+};
+
+function defineRoute<Module>(route: RouteSpec<Module>) {
+    return route as RouteSpec<unknown> & { operations: Partial<Record<HttpMethod, OperationSpec>> };
+}
+
+// Exhaustive maps, so a new reason or status in the SDK types has to be added here as well.
+const DECISION_REASONS: Record<AccessDecisionReason, true> = {
+    granted: true,
+    permission_not_found: true,
+    permission_disabled: true,
+    no_roles_assigned: true,
+    role_not_assigned: true,
+    denied_for_user: true,
+    denied_by_role: true,
+    condition_not_met: true,
+    not_granted: true,
+};
+const INACTIVE_ASSIGNMENT_REASONS: Record<InactiveAssignmentReason, true> = {
+    not_started: true,
+    expired: true,
+    other_resource: true,
+};
+const ACCESS_REQUEST_STATUSES: Record<AccessRequestStatus, true> = {
+    pending: true,
+    approved: true,
+    denied: true,
+};
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+const nullable = (type: string) => ({ type: [type, "null"] });
+const stringArray = { type: "array", items: { type: "string" } };
+
+const slugParameter = {
+    name: "slug",
+    in: "path",
+    required: true,
+    description: "Project slug.",
+    schema: { type: "string" },
+};
+const userIdParameter = {
+    name: "userId",
+    in: "path",
+    required: true,
+    description: "Your application's user id.",
+    schema: { type: "string" },
+};
+const roleSlugParameter = {
+    name: "roleSlug",
+    in: "path",
+    required: true,
+    schema: { type: "string" },
+};
+
+const errorContent = () => ({ "application/json": { schema: ref("ApiError") } });
+const jsonBody = (schema: JsonSchema) => ({ required: true, content: { "application/json": { schema } } });
+
+const accessCheckSubject = {
+    user_id: { type: "string" },
+    role: { type: "string", description: "Limits the check to this assigned role." },
+    context: {
+        type: "object",
+        additionalProperties: true,
+        description: "Values referenced by permission conditions, e.g. `{ \"amount\": 500 }`.",
+    },
+    resource_type: { type: "string", description: "Send together with `resource_id` to also count roles assigned on that resource." },
+    resource_id: { type: "string" },
+};
+
+const schemas: Record<string, JsonSchema> = {
+    ApiError: {
+        type: "object",
+        required: ["ok", "error"],
+        properties: { ok: { const: false }, error: { type: "string" } },
+    },
+    AccessDecisionReason: { type: "string", enum: Object.keys(DECISION_REASONS) },
+    AccessDecision: {
+        type: "object",
+        required: ["allowed", "reason"],
+        properties: { allowed: { type: "boolean" }, reason: ref("AccessDecisionReason") },
+    },
+    AccessCheckRequest: {
+        type: "object",
+        required: ["user_id", "resource"],
+        properties: {
+            ...accessCheckSubject,
+            resource: { type: "string", description: "Permission slug." },
+            explain: { type: "boolean", description: "Also return the decision trace." },
+        },
+    },
+    AccessExplanation: {
+        type: "object",
+        required: ["user_id", "permission", "role_filter", "denied_for_user", "roles", "inactive_assignments"],
+        properties: {
+            user_id: { type: "string" },
+            permission: {
+                type: "object",
+                required: ["slug", "found", "enabled"],
+                properties: { slug: { type: "string" }, found: { type: "boolean" }, enabled: nullable("boolean") },
+            },
+            role_filter: nullable("string"),
+            denied_for_user: { type: "boolean" },
+            roles: {
+                type: "array",
+                items: {
+                    type: "object",
+                    required: ["slug", "considered", "inherits_from", "grant", "deny", "conditions"],
+                    properties: {
+                        slug: { type: "string" },
+                        considered: { type: "boolean" },
+                        inherits_from: stringArray,
+                        grant: { oneOf: [{ type: "object", properties: { via: { type: "string" } } }, { type: "null" }] },
+                        deny: { oneOf: [{ type: "object", properties: { via: { type: "string" } } }, { type: "null" }] },
+                        conditions: {
+                            type: "array",
+                            items: {
+                                type: "object",
+                                required: ["via", "condition", "passed", "missing_keys"],
+                                properties: {
+                                    via: { type: "string" },
+                                    condition: { type: "string" },
+                                    passed: { type: "boolean" },
+                                    missing_keys: stringArray,
+                                },
+                            },
+                        },
+                    },
+                },
+            },
+            inactive_assignments: {
+                type: "array",
+                items: {
+                    type: "object",
+                    required: ["role", "reason", "resource_type", "resource_id"],
+                    properties: {
+                        role: { type: "string" },
+                        reason: { type: "string", enum: Object.keys(INACTIVE_ASSIGNMENT_REASONS) },
+                        resource_type: nullable("string"),
+                        resource_id: nullable("string"),
+                    },
+                },
+            },
+        },
+    },
+    AccessCheckResponse: {
+        allOf: [
+            ref("AccessDecision"),
+            {
+                type: "object",
+                properties: { explanation: ref("AccessExplanation") },
+                description: "`explanation` is only present when the request set `explain: true`.",
+            },
+        ],
+    },
+    AccessCheckBatchRequest: {
+        type: "object",
+        required: ["user_id", "resources"],
+        properties: {
+            ...accessCheckSubject,
+            resources: { ...stringArray, minItems: 1, maxItems: 100, description: "Permission slugs." },
+        },
+    },
+    AccessCheckBatchResponse: {
+        type: "object",
+        required: ["decisions"],
+        properties: { decisions: { type: "object", additionalProperties: ref("AccessDecision") } },
+    },
+    SyncedUserRole: {
+        type: "object",
+        required: ["slug", "name", "assigned_at", "expires_at"],
+        properties: {
+            slug: { type: "string" },
+            name: { type: "string" },
+            assigned_at: { type: "string", format: "date-time" },
+            expires_at: { type: ["string", "null"], format: "date-time" },
+        },
+    },
+    UserRolesResponse: {
+        type: "object",
+        required: ["user_id", "roles"],
+        properties: { user_id: { type: "string" }, roles: { type: "array", items: ref("SyncedUserRole") } },
+    },
+    UserRoleSyncResponse: {
+        allOf: [
+            ref("UserRolesResponse"),
+            {
+                type: "object",
+                required: ["granted", "revoked"],
+                properties: { granted: stringArray, revoked: stringArray },
+            },
+        ],
+    },
+    ReplaceUserRolesRequest: {
+        type: "object",
+        required: ["roles"],
+        properties: { roles: { ...stringArray, description: "Role slugs the user should hold project-wide." } },
+    },
+    FileAccessRequestRequest: {
+        type: "object",
+        required: ["user_id", "justification"],
+        description: "Set exactly one of `role` and `permission`.",
+        properties: {
+            user_id: { type: "string" },
+            role: { type: "string" },
+            permission: { type: "string" },
+            justification: { type: "string" },
+            duration_minutes: { type: "integer", minimum: 15, maximum: 1440, default: 60 },
+        },
+    },
+    AccessRequest: {
+        type: "object",
+        properties: {
+            id: { type: "string", format: "uuid" },
+            project_id: { type: "string", format: "uuid" },
+            user_id: { type: "string" },
+            role_id: nullable("string"),
+            permission_id: nullable("string"),
+            justification: { type: "string" },
+            duration_minutes: { type: "integer" },
+            status: { type: "string", enum: Object.keys(ACCESS_REQUEST_STATUSES) },
+            api_key_id: nullable("string"),
+            decided_by: nullable("string"),
+            decided_at: { type: ["string", "null"], format: "date-time" },
+            decision_note: nullable("string"),
+            assignment_id: nullable("string"),
+            created_at: { type: "string", format: "date-time" },
+        },
+    },
+    PolicySnapshot: {
+        type: "object",
+        required: [
+            "version",
+            "generated_at",
+            "user_id",
+            "permission_allow_list",
+            "permissions",
+            "roles",
+            "assignments",
+            "user_denies",
+        ],
+        properties: {
+            version: { type: "string", description: "Content hash, also sent as the `ETag` header." },
+            generated_at: { type: "string", format: "date-time" },
+            user_id: nullable("string"),
+            permission_allow_list: { oneOf: [stringArray, { type: "null" }] },
+            permissions: {
+                type: "array",
+                items: {
+                    type: "object",
+                    required: ["slug", "enabled"],
+                    properties: { slug: { type: "string" }, enabled: { type: "boolean" } },
+                },
+            },
+            roles: {
+                type: "array",
+                items: {
+                    type: "object",
+                    required: ["slug", "ancestor_slugs", "permission_slugs", "permission_conditions", "denied_permission_slugs"],
+                    properties: {
+                        slug: { type: "string" },
+                        ancestor_slugs: stringArray,
+                        permission_slugs: stringArray,
+                        permission_conditions: { type: "object", additionalProperties: { type: "string" } },
+                        denied_permission_slugs: stringArray,
+                    },
+                },
+            },
+            assignments: {
+                type: "array",
+                items: {
+                    type: "object",
+                    required: ["user_id", "role_slug", "resource_type", "resource_id", "starts_at", "expires_at"],
+                    properties: {
+                        user_id: { type: "string" },
+                        role_slug: { type: "string" },
+                        resource_type: nullable("string"),
+                        resource_id: nullable("string"),
+                        starts_at: { type: ["string", "null"], format: "date-time" },
+                        expires_at: { type: ["string", "null"], format: "date-time" },
+                    },
+                },
+            },
+            user_denies: {
+                type: "array",
+                items: {
+                    type: "object",
+                    required: ["user_id", "permission_slug"],
+                    properties: { user_id: { type: "string" }, permission_slug: { type: "string" } },
+                },
+            },
+        },
+    },
+};
+
+const routes = [
+    defineRoute({
+        path: "/v1/projects/{slug}/access/check",
+        module: accessCheckRoute,
+        operations: {
+            POST: {
+                operationId: "checkAccess",
+                summary: "Check one permission for a user",
+                scope: "access:check",
+                parameters: [slugParameter],
+                requestBody: jsonBody(ref("AccessCheckRequest")),
+                response: ref("AccessCheckResponse"),
+            },
+        },
+    }),
+    defineRoute({
+        path: "/v1/projects/{slug}/access/check-batch",
+        module: accessCheckBatchRoute,
+        operations: {
+            POST: {
+                operationId: "checkAccessBatch",
+                summary: "Check up to 100 permissions for a user",
+                description: "Counts as one request per permission against the rate limit.",
+                scope: "access:check",
+                parameters: [slugParameter],
+                requestBody: jsonBody(ref("AccessCheckBatchRequest")),
+                response: ref("AccessCheckBatchResponse"),
+            },
+        },
+    }),
+    defineRoute({
+        path: "/v1/projects/{slug}/users/{userId}/roles",
+        module: userRolesRoute,
+        operations: {
+            GET: {
+                operationId: "listUserRoles",
+                summary: "List a user's active project-wide roles",
+                scope: "assignments:read",
+                parameters: [slugParameter, userIdParameter],
+                response: ref("UserRolesResponse"),
+            },
+            PUT: {
+                operationId: "setUserRoles",
+                summary: "Replace a user's project-wide roles",
+                scope: "assignments:write",
+                parameters: [slugParameter, userIdParameter],
+                requestBody: jsonBody(ref("ReplaceUserRolesRequest")),
+                response: ref("UserRoleSyncResponse"),
+            },
+        },
+    }),
+    defineRoute({
+        path: "/v1/projects/{slug}/users/{userId}/roles/{roleSlug}",
+        module: userRoleRoute,
+        operations: {
+            PUT: {
+                operationId: "grantRole",
+                summary: "Grant one role to a user",
+                scope: "assignments:write",
+                parameters: [slugParameter, userIdParameter, roleSlugParameter],
+                response: ref("UserRoleSyncResponse"),
+            },
+            DELETE: {
+                operationId: "revokeRole",
+                summary: "Revoke one role from a user",
+                scope: "assignments:write",
+                parameters: [slugParameter, userIdParameter, roleSlugParameter],
+                response: ref("UserRoleSyncResponse"),
+            },
+        },
+    }),
+    defineRoute({
+        path: "/v1/projects/{slug}/access-requests",
+        module: accessRequestsRoute,
+        operations: {
+            POST: {
+                operationId: "requestAccess",
+                summary: "File a request for temporary access",
+                description: "Not idempotent: every call files a new request.",
+                scope: "requests:write",
+                parameters: [slugParameter],
+                requestBody: jsonBody(ref("FileAccessRequestRequest")),
+                response: ref("AccessRequest"),
+            },
+        },
+    }),
+    defineRoute({
+        path: "/v1/projects/{slug}/policy",
+        module: policyRoute,
+        operations: {
+            GET: {
+                operationId: "getPolicySnapshot",
+                summary: "Get the policy snapshot for local evaluation",
+                description:
+                    "Send the previous `version` as `If-None-Match` to get `304` while nothing changed. Projects with more than 20,000 assignments must pass `user_id`.",
+                scope: "config:read",
+                parameters: [
+                    slugParameter,
+                    {
+                        name: "user_id",
+                        in: "query",
+                        required: false,
+                        description: "Limit assignments and user denies to this user.",
+                        schema: { type: "string" },
+                    },
+                    { name: "If-None-Match", in: "header", required: false, schema: { type: "string" } },
+                ],
+                response: ref("PolicySnapshot"),
+                extraResponses: {
+                    "304": { description: "The snapshot has not changed." },
+                    "413": { description: "Too many assignments; request a snapshot per user.", content: errorContent() },
+                },
+            },
+        },
+    }),
+];
+
+const rateLimitHeaders = {
+    "X-RateLimit-Limit": { schema: { type: "integer" }, description: "Requests allowed per minute." },
+    "X-RateLimit-Remaining": { schema: { type: "integer" } },
+    "X-RateLimit-Reset": { schema: { type: "integer" }, description: "Unix time in seconds when the window resets." },
+};
+
+function buildOperation(spec: OperationSpec) {
+    return {
+        operationId: spec.operationId,
+        summary: spec.summary,
+        ...(spec.description ? { description: spec.description } : null),
+        security: [{ apiKey: [spec.scope] }],
+        parameters: spec.parameters ?? [],
+        ...(spec.requestBody ? { requestBody: spec.requestBody } : null),
+        responses: {
+            ...(spec.response
+                ? {
+                      "200": {
+                          description: "OK",
+                          headers: rateLimitHeaders,
+                          content: { "application/json": { schema: spec.response } },
+                      },
+                  }
+                : null),
+            ...spec.extraResponses,
+            "400": { description: "Invalid request.", content: errorContent() },
+            "401": { description: "Missing, invalid or expired API key.", content: errorContent() },
+            "403": {
+                description: `The key lacks the \`${spec.scope}\` scope, is limited to other permissions or is used from a blocked IP.`,
+                content: errorContent(),
+            },
+            "404": { description: "Project or referenced resource not found.", content: errorContent() },
+            "429": {
+                description: "Rate limit exceeded.",
+                headers: { ...rateLimitHeaders, "Retry-After": { schema: { type: "integer" } } },
+                content: errorContent(),
+            },
+        },
+    };
+}
+
+/**
+ * OpenAPI 3.1 description of the `/v1` API, served at `/v1/openapi.json`. It is built from the route
+ * modules it describes: an operation is listed for every HTTP method a route module exports.
+ */
+export function buildOpenApiDocument(baseUrl: string) {
+    const paths: Record<string, Record<string, unknown>> = {};
+    for (const route of routes) {
+        const handlers = route.module as Partial<Record<HttpMethod, unknown>>;
+        for (const method of HTTP_METHODS) {
+            const spec = route.operations[method];
+            if (typeof handlers[method] !== "function" || !spec) continue;
+            paths[route.path] = { ...paths[route.path], [method.toLowerCase()]: buildOperation(spec) };
+        }
+    }
+
+    return {
+        openapi: "3.1.0",
+        info: {
+            title: "Access Dashboard API",
+            version: "1",
+            description:
+                "Permission checks and role assignment sync for a project. Authenticate with a project API key as a bearer token; each operation lists the key scope it needs.",
+        },
+        servers: [{ url: baseUrl }],
+        security: [{ apiKey: [] }],
+        paths,
+        components: {
+            securitySchemes: {
+                apiKey: { type: "http", scheme: "bearer", description: "A project API key, e.g. `sk_live_...`." },
+            },
+            schemas,
+        },
+    };
+}
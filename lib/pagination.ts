@@ -0,0 +1,27 @@
+/** PostgREST caps every response at this many rows unless the server is configured otherwise. */
+export const PAGE_SIZE = 1000;
+
+type PageResult<Row> = { data: Row[] | null; error: unknown };
+
+/**
+ * Read every row of a query in pages of `PAGE_SIZE`. `fetchPage` must apply `.range(from, to)` to a
+ * query ordered by a unique key, otherwise rows can repeat or go missing between pages. Stops once
+ * more than `maxRows` rows were read, so callers can reject oversized results without loading them
+ * all.
+ */
+export async function fetchAllPages<Row>(
+    fetchPage: (from: number, to: number) => PromiseLike<PageResult<Row>>,
+    maxRows = Number.POSITIVE_INFINITY
+): Promise<{ ok: true; data: Row[] } | { ok: false; error: unknown }> {
+    const rows: Row[] = [];
+
+    for (let from = 0; rows.length <= maxRows; from += PAGE_SIZE) {
+        const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+        if (error) return { ok: false, error };
+
+        rows.push(...(data ?? []));
+        if ((data ?? []).length < PAGE_SIZE) break;
+    }
+
+    return { ok: true, data: rows };
+}
@@ -0,0 +1,145 @@
+import crypto from "crypto";
+import { createSupabaseServerClient } from "@/lib/supabase-server";
+import { fetchAllPages } from "@/lib/pagination";
+import { loadProjectConfig } from "@/lib/projectConfig";
+import { getAncestorRoleIds } from "@/lib/roleHierarchy";
+import { expireLapsedUserRoles } from "@/lib/userRoles";
+import { validateExternalUserId } from "@/lib/userRoleSync";
+import type { PolicySnapshot } from "@/sdk/src/types";
+
+/** Larger projects should request snapshots per user. */
+export const MAX_SNAPSHOT_ASSIGNMENTS = 20000;
+/** Past this, dropping rows would silently allow denied users, so the snapshot is refused. */
+export const MAX_SNAPSHOT_USER_DENIES = 20000;
+
+export type PolicySnapshotResult =
+    | { ok: true; data: PolicySnapshot }
+    | { ok: false; status: number; error: string };
+
+type SnapshotAssignmentRow = {
+    user_id: string;
+    resource_type: string | null;
+    resource_id: string | null;
+    starts_at: string | null;
+    expires_at: string | null;
+    roles: { slug: string } | null;
+};
+
+async function loadSnapshotAssignments(projectId: string, userId: string | null) {
+    const supabase = await createSupabaseServerClient();
+
+    return fetchAllPages<SnapshotAssignmentRow>((from, to) => {
+        let query = supabase
+            .from("user_roles")
+            .select("user_id, resource_type, resource_id, starts_at, expires_at, roles!inner(project_id, slug)")
+            .eq("roles.project_id", projectId)
+            .order("id", { ascending: true })
+            .range(from, to);
+        if (userId) query = query.eq("user_id", userId);
+        return query.overrideTypes<SnapshotAssignmentRow[], { merge: false }>();
+    }, MAX_SNAPSHOT_ASSIGNMENTS);
+}
+
+async function loadSnapshotUserDenies(projectId: string, userId: string | null) {
+    const supabase = await createSupabaseServerClient();
+
+    return fetchAllPages<{ user_id: string; permission_id: string }>((from, to) => {
+        let query = supabase
+            .from("user_permission_denies")
+            .select("user_id, permission_id")
+            .eq("project_id", projectId)
+            .order("id", { ascending: true })
+            .range(from, to);
+        if (userId) query = query.eq("user_id", userId);
+        return query;
+    }, MAX_SNAPSHOT_USER_DENIES);
+}
+
+/**
+ * Everything the SDK needs to evaluate access checks locally, built from the config export data
+ * plus assignments and user deny rules, for one user or for all users. Keys limited to certain
+ * permission slugs only see those permissions. `version` hashes the content, so it only changes
+ * when a decision could.
+ */
+export async function buildPolicySnapshot(
+    projectId: string,
+    options: { userId?: string | null; allowedPermissionSlugs: string[] | null }
+): Promise<PolicySnapshotResult> {
+    const userId = options.userId?.trim() || null;
+    if (userId !== null) {
+        const userIdError = validateExternalUserId(userId);
+        if (userIdError) return { ok: false, status: 400, error: userIdError };
+    }
+
+    await expireLapsedUserRoles(projectId, userId ? { userId } : undefined);
+
+    const config = await loadProjectConfig(projectId);
+    if (!config.ok) return { ok: false, status: 500, error: config.error };
+
+    const allowed = options.allowedPermissionSlugs ? new Set(options.allowedPermissionSlugs) : null;
+    const isVisible = (slug: string) => !allowed || allowed.has(slug);
+
+    const [assignments, userDenies] = await Promise.all([
+        loadSnapshotAssignments(projectId, userId),
+        loadSnapshotUserDenies(projectId, userId),
+    ]);
+
+    if (!assignments.ok) return { ok: false, status: 500, error: "Failed to load role assignments." };
+    if (!userDenies.ok) return { ok: false, status: 500, error: "Failed to load deny rules." };
+    if (assignments.data.length > MAX_SNAPSHOT_ASSIGNMENTS) {
+        return {
+            ok: false,
+            status: 413,
+            error: `The project has more than ${MAX_SNAPSHOT_ASSIGNMENTS} role assignments; request a snapshot per user_id.`,
+        };
+    }
+    if (userDenies.data.length > MAX_SNAPSHOT_USER_DENIES) {
+        return {
+            ok: false,
+            status: 413,
+            error: `The project has more than ${MAX_SNAPSHOT_USER_DENIES} user deny rules; request a snapshot per user_id.`,
+        };
+    }
+
+    const parentsBySlug = new Map(config.data.roles.map((role) => [role.slug, role.parent_slugs]));
+    const compare = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+
+    const content: Omit<PolicySnapshot, "version" | "generated_at"> = {
+        user_id: userId,
+        permission_allow_list: options.allowedPermissionSlugs,
+        permissions: config.data.permissions
+            .filter((permission) => isVisible(permission.slug))
+            .map((permission) => ({ slug: permission.slug, enabled: permission.enabled })),
+        roles: config.data.roles.map((role) => ({
+            slug: role.slug,
+            ancestor_slugs: getAncestorRoleIds(role.slug, parentsBySlug),
+            permission_slugs: role.permission_slugs.filter(isVisible),
+            permission_conditions: Object.fromEntries(
+                Object.entries(role.permission_conditions).filter(([slug]) => isVisible(slug))
+            ),
+            denied_permission_slugs: role.denied_permission_slugs.filter(isVisible),
+        })),
+        assignments: assignments.data
+            .filter((row) => row.roles)
+            .map((row) => ({
+                user_id: row.user_id,
+                role_slug: row.roles!.slug,
+                resource_type: row.resource_type,
+                resource_id: row.resource_id,
+                starts_at: row.starts_at,
+                expires_at: row.expires_at,
+            }))
+            .sort((a, b) => compare(a.user_id, b.user_id) || compare(a.role_slug, b.role_slug)),
+        user_denies: userDenies.data
+            .map((row) => ({
+                user_id: row.user_id,
+                permission_slug: config.data.permissionSlugById.get(row.permission_id) ?? "",
+            }))
+            .filter((deny) => deny.permission_slug && isVisible(deny.permission_slug))
+            .sort((a, b) => compare(a.user_id, b.user_id) || compare(a.permission_slug, b.permission_slug)),
+    };
+
+    const version = crypto.createHash("sha256").update(JSON.stringify(content)).digest("hex").slice(0, 32);
+
+    return { ok: true, data: { version, generated_at: new Date().toISOString(), ...content } };
+}
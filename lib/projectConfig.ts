@@ -0,0 +1,156 @@
+import { createSupabaseServerClient } from "@/lib/supabase-server";
+import { fetchAllPages } from "@/lib/pagination";
+import { getRoleParentMap } from "@/lib/roles";
+
+export type ProjectConfigPermission = {
+    slug: string;
+    name: string;
+    description: string | null;
+    risk_level: "low" | "medium" | "high";
+    enabled: boolean;
+    is_system: boolean;
+};
+
+export type ProjectConfigRole = {
+    slug: string;
+    name: string;
+    description: string | null;
+    is_system: boolean;
+    permission_slugs: string[];
+    /** Condition expressions keyed by permission slug. Missing in files exported before conditions. */
+    permission_conditions?: Record<string, string>;
+    /** Permissions this role explicitly denies. Missing in files exported before deny rules. */
+    denied_permission_slugs?: string[];
+    /** Slugs of the roles this role extends. Missing in files exported before role inheritance. */
+    parent_slugs?: string[];
+};
+
+/**
+ * Permissions and roles of a project in the config export format. Used by the config export and by
+ * policy snapshots, which also need `permissionSlugById` to resolve other permission references.
+ */
+export async function loadProjectConfig(projectId: string): Promise<
+    | {
+          ok: true;
+          data: {
+              permissions: ProjectConfigPermission[];
+              roles: Array<Required<ProjectConfigRole>>;
+              permissionSlugById: Map<string, string>;
+          };
+      }
+    | { ok: false; error: string }
+> {
+    const supabase = await createSupabaseServerClient();
+
+    // Every list is read in pages: a truncated grant or deny list would change access decisions.
+    const permissionsResult = await fetchAllPages((from, to) =>
+        supabase
+            .from("permissions")
+            .select("id, slug, name, description, risk_level, enabled, is_system")
+            .eq("project_id", projectId)
+            .order("created_at", { ascending: true })
+            .order("id", { ascending: true })
+            .range(from, to)
+    );
+
+    if (!permissionsResult.ok) return { ok: false, error: "Failed to load permissions." };
+    const permissions = permissionsResult.data;
+
+    const rolesResult = await fetchAllPages((from, to) =>
+        supabase
+            .from("roles")
+            .select("id, slug, name, description, is_system")
+            .eq("project_id", projectId)
+            .order("created_at", { ascending: true })
+            .order("id", { ascending: true })
+            .range(from, to)
+    );
+
+    if (!rolesResult.ok) return { ok: false, error: "Failed to load roles." };
+    const roles = rolesResult.data;
+
+    const roleIds = roles.map((role) => role.id);
+    const rolePermissions = roleIds.length
+        ? await fetchAllPages((from, to) =>
+              supabase
+                  .from("role_permissions")
+                  .select("role_id, permission_id, condition")
+                  .in("role_id", roleIds)
+                  .order("role_id", { ascending: true })
+                  .order("permission_id", { ascending: true })
+                  .range(from, to)
+          )
+        : { ok: true as const, data: [] };
+
+    if (!rolePermissions.ok) return { ok: false, error: "Failed to load role permissions." };
+
+    const roleDenies = roleIds.length
+        ? await fetchAllPages((from, to) =>
+              supabase
+                  .from("role_permission_denies")
+                  .select("role_id, permission_id")
+                  .in("role_id", roleIds)
+                  .order("role_id", { ascending: true })
+                  .order("permission_id", { ascending: true })
+                  .range(from, to)
+          )
+        : { ok: true as const, data: [] };
+
+    if (!roleDenies.ok) return { ok: false, error: "Failed to load role deny rules." };
+
+    const parentIdsByRoleId = await getRoleParentMap(projectId);
+    if (!parentIdsByRoleId.ok) return { ok: false, error: "Failed to load role inheritance." };
+    const roleSlugById = new Map(roles.map((role) => [role.id, role.slug]));
+
+    const permissionSlugById = new Map<string, string>();
+    for (const permission of permissions) {
+        permissionSlugById.set(permission.id, permission.slug);
+    }
+
+    const groupSlugsByRoleId = (rows: Array<{ role_id: string; permission_id: string }>) => {
+        const slugsByRoleId = new Map<string, string[]>();
+        for (const row of rows) {
+            const slug = permissionSlugById.get(row.permission_id);
+            if (!slug) continue;
+            const current = slugsByRoleId.get(row.role_id) ?? [];
+            current.push(slug);
+            slugsByRoleId.set(row.role_id, current);
+        }
+        return slugsByRoleId;
+    };
+    const permissionSlugsByRoleId = groupSlugsByRoleId(rolePermissions.data);
+    const deniedSlugsByRoleId = groupSlugsByRoleId(roleDenies.data);
+    const conditionsByRoleId = new Map<string, Record<string, string>>();
+    for (const row of rolePermissions.data) {
+        const slug = permissionSlugById.get(row.permission_id);
+        if (!slug || !row.condition) continue;
+        conditionsByRoleId.set(row.role_id, { ...conditionsByRoleId.get(row.role_id), [slug]: row.condition });
+    }
+
+    return {
+        ok: true,
+        data: {
+            permissions: permissions.map((permission) => ({
+                slug: permission.slug,
+                name: permission.name,
+                description: permission.description,
+                risk_level: permission.risk_level,
+                enabled: permission.enabled,
+                is_system: permission.is_system,
+            })),
+            roles: roles.map((role) => ({
+                slug: role.slug,
+                name: role.name,
+                description: role.description,
+                is_system: role.is_system,
+                permission_slugs: permissionSlugsByRoleId.get(role.id) ?? [],
+                permission_conditions: conditionsByRoleId.get(role.id) ?? {},
+                denied_permission_slugs: deniedSlugsByRoleId.get(role.id) ?? [],
+                parent_slugs: (parentIdsByRoleId.data.get(role.id) ?? [])
+                    .map((id) => roleSlugById.get(id))
+                    .filter((slug): slug is string => Boolean(slug)),
+            })),
+            permissionSlugById,
+        },
+    };
+}
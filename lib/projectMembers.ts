@@ -0,0 +1,407 @@
+import { createSupabaseServerClient } from "@/lib/supabase-server";
+
+export const PROJECT_MEMBER_ROLES = ["owner", "admin", "editor", "viewer"] as const;
+
+export type ProjectMemberRole = (typeof PROJECT_MEMBER_ROLES)[number];
+
+export type ProjectInvitationStatus = "pending" | "accepted" | "declined" | "revoked";
+
+export type ProjectMemberRecord = {
+    id: string;
+    project_id: string;
+    user_id: string;
+    email: string | null;
+    role: ProjectMemberRole;
+    invited_by: string | null;
+    created_at: string;
+    updated_at: string | null;
+};
+
+export type ProjectInvitationRecord = {
+    id: string;
+    project_id: string;
+    email: string;
+    role: ProjectMemberRole;
+    status: ProjectInvitationStatus;
+    invited_by: string | null;
+    created_at: string;
+    expires_at: string | null;
+    responded_at: string | null;
+};
+
+export type PendingProjectInvitation = ProjectInvitationRecord & {
+    project: { id: string; name: string; slug: string } | null;
+};
+
+export type ProjectAccessResult =
+    | { ok: true; userId: string; role: ProjectMemberRole }
+    | { ok: false; error: string; userId: string | null };
+
+const MEMBER_COLUMNS = "id, project_id, user_id, email, role, invited_by, created_at, updated_at";
+const INVITATION_COLUMNS = "id, project_id, email, role, status, invited_by, created_at, expires_at, responded_at";
+
+const ROLE_RANK: Record<ProjectMemberRole, number> = {
+    viewer: 0,
+    editor: 1,
+    admin: 2,
+    owner: 3,
+};
+
+const ROLE_LABELS: Record<ProjectMemberRole, string> = {
+    owner: "Owner",
+    admin: "Admin",
+    editor: "Editor",
+    viewer: "Viewer",
+};
+
+export function isProjectMemberRole(value: unknown): value is ProjectMemberRole {
+    return typeof value === "string" && (PROJECT_MEMBER_ROLES as readonly string[]).includes(value);
+}
+
+export function hasProjectRole(role: ProjectMemberRole, minimumRole: ProjectMemberRole) {
+    return ROLE_RANK[role] >= ROLE_RANK[minimumRole];
+}
+
+export function normalizeInvitationEmail(value: string) {
+    return value.trim().toLowerCase();
+}
+
+function mapMemberRow(row: ProjectMemberRecord): ProjectMemberRecord {
+    return {
+        id: row.id,
+        project_id: row.project_id,
+        user_id: row.user_id,
+        email: row.email ?? null,
+        role: isProjectMemberRole(row.role) ? row.role : "viewer",
+        invited_by: row.invited_by ?? null,
+        created_at: row.created_at,
+        updated_at: row.updated_at ?? null,
+    };
+}
+
+function mapInvitationRow(row: ProjectInvitationRecord): ProjectInvitationRecord {
+    return {
+        id: row.id,
+        project_id: row.project_id,
+        email: row.email,
+        role: isProjectMemberRole(row.role) ? row.role : "viewer",
+        status: row.status,
+        invited_by: row.invited_by ?? null,
+        created_at: row.created_at,
+        expires_at: row.expires_at ?? null,
+        responded_at: row.responded_at ?? null,
+    };
+}
+
+export async function getProjectMemberRole(projectId: string, userId: string): Promise<ProjectMemberRole | null> {
+    const supabase = await createSupabaseServerClient();
+    const { data, error } = await supabase
+        .from("project_members")
+        .select("role")
+        .eq("project_id", projectId)
+        .eq("user_id", userId)
+        .maybeSingle();
+
+    if (error || !data) return null;
+    return isProjectMemberRole(data.role) ? data.role : null;
+}
+
+export async function getProjectMemberByUser(projectId: string, userId: string) {
+    const supabase = await createSupabaseServerClient();
+    const { data, error } = await supabase
+        .from("project_members")
+        .select(MEMBER_COLUMNS)
+        .eq("project_id", projectId)
+        .eq("user_id", userId)
+        .maybeSingle();
+
+    if (error || !data) return null;
+    return mapMemberRow(data as ProjectMemberRecord);
+}
+
+/**
+ * Require `userId` to hold at least `minimumRole` on the project. Non-members get the same
+ * "Project not found." as a missing project so project ids are not disclosed.
+ */
+export async function checkProjectRole(
+    projectId: string,
+    userId: string,
+    minimumRole: ProjectMemberRole
+): Promise<{ ok: true; role: ProjectMemberRole } | { ok: false; error: string }> {
+    const role = await getProjectMemberRole(projectId, userId);
+    if (!role) {
+        return { ok: false, error: "Project not found." };
+    }
+    if (!hasProjectRole(role, minimumRole)) {
+        return { ok: false, error: `This action requires the ${ROLE_LABELS[minimumRole]} role or higher.` };
+    }
+    return { ok: true, role };
+}
+
+export async function requireProjectRole(
+    projectId: string,
+    minimumRole: ProjectMemberRole
+): Promise<ProjectAccessResult> {
+    const supabase = await createSupabaseServerClient();
+    const { data: authData } = await supabase.auth.getUser();
+    if (!authData?.user) {
+        return { ok: false, error: "Unauthorized.", userId: null };
+    }
+
+    const userId = authData.user.id;
+    const membership = await checkProjectRole(projectId, userId, minimumRole);
+    if (!membership.ok) {
+        return { ok: false, error: membership.error, userId };
+    }
+    return { ok: true, userId, role: membership.role };
+}
+
+export async function getProjectMembers(projectId: string): Promise<ProjectMemberRecord[]> {
+    const supabase = await createSupabaseServerClient();
+    const { data, error } = await supabase
+        .from("project_members")
+        .select(MEMBER_COLUMNS)
+        .eq("project_id", projectId)
+        .order("created_at", { ascending: true });
+
+    if (error) throw error;
+    return ((data ?? []) as ProjectMemberRecord[]).map(mapMemberRow);
+}
+
+export async function getProjectMember(projectId: string, memberId: string) {
+    const supabase = await createSupabaseServerClient();
+    const { data, error } = await supabase
+        .from("project_members")
+        .select(MEMBER_COLUMNS)
+        .eq("project_id", projectId)
+        .eq("id", memberId)
+        .maybeSingle();
+
+    if (error || !data) return null;
+    return mapMemberRow(data as ProjectMemberRecord);
+}
+
+export async function addProjectMember(input: {
+    projectId: string;
+    userId: string;
+    email: string | null;
+    role: ProjectMemberRole;
+    invitedBy: string | null;
+}) {
+    const supabase = await createSupabaseServerClient();
+    const now = new Date().toISOString();
+    const { data, error } = await supabase
+        .from("project_members")
+        .insert({
+            project_id: input.projectId,
+            user_id: input.userId,
+            email: input.email,
+            role: input.role,
+            invited_by: input.invitedBy,
+            created_at: now,
+            updated_at: now,
+        })
+        .select(MEMBER_COLUMNS)
+        .single();
+
+    if (error || !data) return { ok: false as const, error: error?.message ?? "Failed to add member." };
+    return { ok: true as const, data: mapMemberRow(data as ProjectMemberRecord) };
+}
+
+export async function updateProjectMemberRole(projectId: string, memberId: string, role: ProjectMemberRole) {
+    const supabase = await createSupabaseServerClient();
+    const { data, error } = await supabase
+        .from("project_members")
+        .update({ role, updated_at: new Date().toISOString() })
+        .eq("project_id", projectId)
+        .eq("id", memberId)
+        .select(MEMBER_COLUMNS)
+        .single();
+
+    if (error || !data) return { ok: false as const, error: error?.message ?? "Failed to update member." };
+    return { ok: true as const, data: mapMemberRow(data as ProjectMemberRecord) };
+}
+
+/**
+ * Make another member the owner and the caller an admin, together with `projects.owner_id`, in one
+ * database transaction. The function checks that the caller is the current owner.
+ */
+export async function transferProjectOwnership(projectId: string, memberId: string) {
+    const supabase = await createSupabaseServerClient();
+    const { data, error } = await supabase.rpc("transfer_project_ownership", {
+        p_project_id: projectId,
+        p_member_id: memberId,
+    });
+
+    const rows = (data ?? []) as ProjectMemberRecord[];
+    if (error || rows.length !== 2) {
+        return { ok: false as const, error: error?.message ?? "Failed to update project owner." };
+    }
+    return { ok: true as const, data: rows.map(mapMemberRow) };
+}
+
+export async function removeProjectMember(projectId: string, memberId: string) {
+    const supabase = await createSupabaseServerClient();
+    const { error } = await supabase
+        .from("project_members")
+        .delete()
+        .eq("project_id", projectId)
+        .eq("id", memberId);
+
+    if (error) return { ok: false as const, error: error.message };
+    return { ok: true as const };
+}
+
+export async function getProjectInvitations(projectId: string): Promise<ProjectInvitationRecord[]> {
+    const supabase = await createSupabaseServerClient();
+    const { data, error } = await supabase
+        .from("project_invitations")
+        .select(INVITATION_COLUMNS)
+        .eq("project_id", projectId)
+        .eq("status", "pending")
+        .order("created_at", { ascending: false });
+
+    if (error) throw error;
+    return ((data ?? []) as ProjectInvitationRecord[]).map(mapInvitationRow);
+}
+
+export function isInvitationExpired(invitation: Pick<ProjectInvitationRecord, "expires_at">) {
+    return invitation.expires_at !== null && new Date(invitation.expires_at).getTime() <= Date.now();
+}
+
+export async function getProjectInvitation(projectId: string, invitationId: string) {
+    const supabase = await createSupabaseServerClient();
+    const { data, error } = await supabase
+        .from("project_invitations")
+        .select(INVITATION_COLUMNS)
+        .eq("project_id", projectId)
+        .eq("id", invitationId)
+        .maybeSingle();
+
+    if (error || !data) return null;
+    return mapInvitationRow(data as ProjectInvitationRecord);
+}
+
+export async function createProjectInvitation(input: {
+    id: string;
+    projectId: string;
+    email: string;
+    role: ProjectMemberRole;
+    invitedBy: string;
+    tokenHash: string;
+    expiresAt: string;
+}) {
+    const supabase = await createSupabaseServerClient();
+    const { data, error } = await supabase
+        .from("project_invitations")
+        .insert({
+            id: input.id,
+            project_id: input.projectId,
+            email: input.email,
+            role: input.role,
+            status: "pending",
+            invited_by: input.invitedBy,
+            token_hash: input.tokenHash,
+            created_at: new Date().toISOString(),
+            expires_at: input.expiresAt,
+        })
+        .select(INVITATION_COLUMNS)
+        .single();
+
+    if (error || !data) return { ok: false as const, error: error?.message ?? "Failed to create invitation." };
+    return { ok: true as const, data: mapInvitationRow(data as ProjectInvitationRecord) };
+}
+
+/**
+ * Swap in a freshly signed token and push the expiry out. Links sent before the refresh stop
+ * working because their hash no longer matches.
+ */
+export async function refreshProjectInvitation(input: {
+    projectId: string;
+    invitationId: string;
+    tokenHash: string;
+    expiresAt: string;
+}) {
+    const supabase = await createSupabaseServerClient();
+    const { data, error } = await supabase
+        .from("project_invitations")
+        .update({ token_hash: input.tokenHash, expires_at: input.expiresAt })
+        .eq("project_id", input.projectId)
+        .eq("id", input.invitationId)
+        .eq("status", "pending")
+        .select(INVITATION_COLUMNS)
+        .maybeSingle();
+
+    if (error || !data) return { ok: false as const, error: error?.message ?? "Invitation not found." };
+    return { ok: true as const, data: mapInvitationRow(data as ProjectInvitationRecord) };
+}
+
+/**
+ * Move a pending invitation to a final status on an admin's behalf. Returns null when it was no
+ * longer pending, so a double click cannot revoke an invitation that was just accepted.
+ */
+export async function resolveProjectInvitation(
+    invitationId: string,
+    status: Exclude<ProjectInvitationStatus, "pending">,
+    filter?: { projectId?: string }
+) {
+    const supabase = await createSupabaseServerClient();
+    let query = supabase
+        .from("project_invitations")
+        .update({ status, responded_at: new Date().toISOString() })
+        .eq("id", invitationId)
+        .eq("status", "pending");
+
+    if (filter?.projectId) query = query.eq("project_id", filter.projectId);
+
+    const { data, error } = await query.select(INVITATION_COLUMNS).maybeSingle();
+    if (error || !data) return null;
+    return mapInvitationRow(data as ProjectInvitationRecord);
+}
+
+/**
+ * Accept or decline an invitation addressed to the signed-in user. Invitees cannot update
+ * invitations directly; the database function checks the address, expiry and either the token
+ * hash of an emailed link or, without one, that the address is confirmed. On accept it adds the
+ * membership with the invited role in the same transaction. Returns null when the invitation is
+ * not pending or not theirs.
+ */
+export async function respondToProjectInvitation(invitationId: string, accept: boolean, tokenHash?: string) {
+    const supabase = await createSupabaseServerClient();
+    const { data, error } = await supabase
+        .rpc("respond_to_project_invitation", {
+            p_invitation_id: invitationId,
+            p_accept: accept,
+            p_token_hash: tokenHash ?? null,
+        })
+        .select(INVITATION_COLUMNS)
+        .maybeSingle();
+
+    if (error || !data) return null;
+    return mapInvitationRow(data as ProjectInvitationRecord);
+}
+
+export async function getPendingInvitationsForEmail(email: string): Promise<PendingProjectInvitation[]> {
+    const supabase = await createSupabaseServerClient();
+    const { data, error } = await supabase
+        .from("project_invitations")
+        .select(`${INVITATION_COLUMNS}, projects(id, name, slug)`)
+        .eq("email", normalizeInvitationEmail(email))
+        .eq("status", "pending")
+        .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
+        .order("created_at", { ascending: false });
+
+    if (error) {
+        console.error("Failed to load project invitations", error);
+        return [];
+    }
+
+    type InvitationRow = ProjectInvitationRecord & {
+        projects: { id: string; name: string; slug: string } | Array<{ id: string; name: string; slug: string }> | null;
+    };
+
+    return ((data ?? []) as unknown as InvitationRow[]).map((row) => {
+        const project = Array.isArray(row.projects) ? row.projects[0] ?? null : row.projects;
+        return { ...mapInvitationRow(row), project };
+    });
+}
@@ -1,4 +1,13 @@
 import { createSupabaseServerClient } from "@/lib/supabase-server";
+import {
+    getTopDeniedUsers,
+    getTopUsageApiKeys,
+    getTopUsagePermissions,
+    getUsageHistory,
+    truncateToGranularity,
+    UsageBucket,
+    UsageGranularity,
+} from "@/lib/usage";
 
 export type ProjectRecord = {
     id: string;
@@ -26,9 +35,50 @@ export type ProjectOverviewKpis = {
     total_access_grants: number;
     total_api_keys: number;
     total_usage_count: number;
+    access_checks_24h: number;
+    denied_checks_24h: number;
     last_activity_at: string | null;
 };
 
+export type UsageAnalyticsRange = "24h" | "7d" | "30d";
+
+export type ProjectUsageAnalytics = {
+    range: UsageAnalyticsRange;
+    granularity: UsageGranularity;
+    series: UsageBucket[];
+    totals: {
+        checks: number;
+        denied: number;
+        deny_rate: number;
+    };
+    top_permissions: Array<{
+        permission_id: string;
+        slug: string | null;
+        name: string | null;
+        checks: number;
+        denied: number;
+    }>;
+    top_api_keys: Array<{
+        api_key_id: string;
+        name: string | null;
+        checks: number;
+        denied: number;
+    }>;
+    top_denied_users: Array<{
+        user_id: string;
+        denied: number;
+        permission_count: number;
+    }>;
+};
+
+const USAGE_RANGE_CONFIG: Record<UsageAnalyticsRange, { hours: number; granularity: UsageGranularity }> = {
+    "24h": { hours: 24, granularity: "hour" },
+    "7d": { hours: 24 * 7, granularity: "day" },
+    "30d": { hours: 24 * 30, granularity: "day" },
+};
+
+const TOP_LIMIT = 5;
+
 /**
  * Get all projects for the current user
  */
@@ -137,6 +187,7 @@ export async function getProjectOverviewKpis(projectId: string): Promise<Project
         { count: totalAccessGrants },
         { count: totalApiKeys },
         { data: permissionUsageRows },
+        recentUsage,
         { data: lastActivityRow },
     ] = await Promise.all([
         supabase
@@ -164,6 +215,9 @@ export async function getProjectOverviewKpis(projectId: string): Promise<Project
             .from("permissions")
             .select("usage_count")
             .eq("project_id", projectId),
+        getUsageHistory(projectId, { since: new Date(Date.now() - 23 * 3_600_000), granularity: "hour" }).catch(
+            () => []
+        ),
         supabase
             .from("audit_logs")
             .select("created_at")
@@ -178,6 +232,13 @@ export async function getProjectOverviewKpis(projectId: string): Promise<Project
         0
     );
 
+    let accessChecks24h = 0;
+    let deniedChecks24h = 0;
+    for (const bucket of recentUsage) {
+        accessChecks24h += bucket.allowed + bucket.denied;
+        deniedChecks24h += bucket.denied;
+    }
+
     return {
         total_permissions: totalPermissions ?? 0,
         enabled_permissions: enabledPermissions ?? 0,
@@ -185,6 +246,71 @@ export async function getProjectOverviewKpis(projectId: string): Promise<Project
         total_access_grants: totalAccessGrants ?? 0,
         total_api_keys: totalApiKeys ?? 0,
         total_usage_count: totalUsageCount,
+        access_checks_24h: accessChecks24h,
+        denied_checks_24h: deniedChecks24h,
         last_activity_at: lastActivityRow?.created_at ?? null,
     };
 }
+
+export async function getProjectUsageAnalytics(
+    projectId: string,
+    range: UsageAnalyticsRange
+): Promise<ProjectUsageAnalytics> {
+    const config = USAGE_RANGE_CONFIG[range] ?? USAGE_RANGE_CONFIG["24h"];
+    const since = truncateToGranularity(
+        new Date(Date.now() - (config.hours - 1) * 3_600_000),
+        config.granularity
+    );
+    const supabase = await createSupabaseServerClient();
+
+    const [series, topPermissions, topApiKeys, topDeniedUsers] = await Promise.all([
+        getUsageHistory(projectId, { since, granularity: config.granularity }),
+        getTopUsagePermissions(projectId, since, TOP_LIMIT),
+        getTopUsageApiKeys(projectId, since, TOP_LIMIT),
+        getTopDeniedUsers(projectId, since, TOP_LIMIT),
+    ]);
+
+    const [{ data: permissionRows }, { data: apiKeyRows }] = await Promise.all([
+        supabase
+            .from("permissions")
+            .select("id, slug, name")
+            .eq("project_id", projectId)
+            .in("id", topPermissions.map((row) => row.permission_id)),
+        supabase
+            .from("api_keys")
+            .select("id, name")
+            .eq("project_id", projectId)
+            .in("id", topApiKeys.map((row) => row.api_key_id)),
+    ]);
+
+    const permissionById = new Map((permissionRows ?? []).map((row) => [row.id, row]));
+    const apiKeyById = new Map((apiKeyRows ?? []).map((row) => [row.id, row]));
+
+    let checks = 0;
+    let denied = 0;
+    for (const bucket of series) {
+        checks += bucket.allowed + bucket.denied;
+        denied += bucket.denied;
+    }
+
+    return {
+        range,
+        granularity: config.granularity,
+        series,
+        totals: {
+            checks,
+            denied,
+            deny_rate: checks > 0 ? denied / checks : 0,
+        },
+        top_permissions: topPermissions.map((row) => ({
+            ...row,
+            slug: permissionById.get(row.permission_id)?.slug ?? null,
+            name: permissionById.get(row.permission_id)?.name ?? null,
+        })),
+        top_api_keys: topApiKeys.map((row) => ({
+            ...row,
+            name: apiKeyById.get(row.api_key_id)?.name ?? null,
+        })),
+        top_denied_users: topDeniedUsers,
+    };
+}
@@ -0,0 +1,156 @@
+import { createSupabaseServerClient } from "@/lib/supabase-server";
+
+export const DEFAULT_PROJECT_RATE_LIMIT_PER_MINUTE = 1200;
+export const MAX_RATE_LIMIT_PER_MINUTE = 100_000;
+
+export type RateLimitDecision = {
+    allowed: boolean;
+    limit: number;
+    remaining: number;
+    /** Epoch milliseconds at which the bucket is full again. */
+    resetAt: number;
+    retryAfterSeconds: number;
+};
+
+/**
+ * Backing store for rate limit buckets. The default keeps buckets in process memory, which is
+ * enough for a single server; swap in a shared implementation (e.g. Redis) with `setRateLimitStore`
+ * when running several instances.
+ */
+export type RateLimitStore = {
+    /** Whether `cost` requests would fit right now, without taking them from the bucket. */
+    check(bucketKey: string, limitPerMinute: number, cost: number): Promise<RateLimitDecision>;
+    consume(bucketKey: string, limitPerMinute: number, cost: number): Promise<RateLimitDecision>;
+};
+
+type TokenBucket = {
+    tokens: number;
+    updatedAt: number;
+};
+
+const WINDOW_MS = 60_000;
+const MAX_TRACKED_BUCKETS = 10_000;
+
+export function createMemoryRateLimitStore(): RateLimitStore {
+    const buckets = new Map<string, TokenBucket>();
+
+    const decide = (bucketKey: string, limitPerMinute: number, cost: number, take: boolean): RateLimitDecision => {
+        const now = Date.now();
+        const refillPerMs = limitPerMinute / WINDOW_MS;
+        const existing = buckets.get(bucketKey);
+        const elapsed = existing ? now - existing.updatedAt : 0;
+        const tokens = existing ? Math.min(limitPerMinute, existing.tokens + elapsed * refillPerMs) : limitPerMinute;
+
+        // Requests heavier than the whole bucket would never fit; charge them a full bucket instead.
+        const charge = Math.min(cost, limitPerMinute);
+        const allowed = tokens >= charge;
+        const nextTokens = allowed && take ? tokens - charge : tokens;
+
+        if (take) {
+            if (!existing && buckets.size >= MAX_TRACKED_BUCKETS) {
+                buckets.clear();
+            }
+            buckets.set(bucketKey, { tokens: nextTokens, updatedAt: now });
+        }
+
+        return {
+            allowed,
+            limit: limitPerMinute,
+            remaining: Math.floor(nextTokens),
+            resetAt: now + Math.ceil((limitPerMinute - nextTokens) / refillPerMs),
+            retryAfterSeconds: allowed ? 0 : Math.max(1, Math.ceil((charge - tokens) / refillPerMs / 1000)),
+        };
+    };
+
+    return {
+        async check(bucketKey, limitPerMinute, cost) {
+            return decide(bucketKey, limitPerMinute, cost, false);
+        },
+        async consume(bucketKey, limitPerMinute, cost) {
+            return decide(bucketKey, limitPerMinute, cost, true);
+        },
+    };
+}
+
+let rateLimitStore: RateLimitStore = createMemoryRateLimitStore();
+
+export function setRateLimitStore(store: RateLimitStore) {
+    rateLimitStore = store;
+}
+
+/**
+ * Consume `cost` requests from the project bucket and, when the key has its own limit, from the key
+ * bucket. Both buckets are checked first and neither is charged unless both allow the call, so a
+ * key over its own limit does not use up the project's quota. Returns the most restrictive decision
+ * so response headers describe the limit that applies.
+ */
+export async function consumeApiRateLimit(input: {
+    projectId: string;
+    keyId: string;
+    projectLimitPerMinute: number | null;
+    keyLimitPerMinute: number | null;
+    cost: number;
+}): Promise<RateLimitDecision> {
+    const projectBucket = `project:${input.projectId}`;
+    const projectLimit = input.projectLimitPerMinute ?? DEFAULT_PROJECT_RATE_LIMIT_PER_MINUTE;
+    const keyBucket = `key:${input.keyId}`;
+
+    if (input.keyLimitPerMinute !== null) {
+        const keyCheck = await rateLimitStore.check(keyBucket, input.keyLimitPerMinute, input.cost);
+        if (!keyCheck.allowed) return keyCheck;
+    }
+    const projectCheck = await rateLimitStore.check(projectBucket, projectLimit, input.cost);
+    if (!projectCheck.allowed) return projectCheck;
+
+    const projectDecision = await rateLimitStore.consume(projectBucket, projectLimit, input.cost);
+    if (!projectDecision.allowed || input.keyLimitPerMinute === null) return projectDecision;
+
+    const keyDecision = await rateLimitStore.consume(keyBucket, input.keyLimitPerMinute, input.cost);
+    if (!keyDecision.allowed) return keyDecision;
+    return keyDecision.remaining < projectDecision.remaining ? keyDecision : projectDecision;
+}
+
+export function getRateLimitHeaders(decision: RateLimitDecision): Record<string, string> {
+    const headers: Record<string, string> = {
+        "X-RateLimit-Limit": String(decision.limit),
+        "X-RateLimit-Remaining": String(decision.remaining),
+        "X-RateLimit-Reset": String(Math.ceil(decision.resetAt / 1000)),
+    };
+    if (!decision.allowed) {
+        headers["Retry-After"] = String(decision.retryAfterSeconds);
+    }
+    return headers;
+}
+
+export function validateRateLimit(value: number | null) {
+    if (value === null) return null;
+    if (!Number.isInteger(value) || value < 1) return "Rate limit must be a positive whole number.";
+    if (value > MAX_RATE_LIMIT_PER_MINUTE) {
+        return `Rate limit cannot exceed ${MAX_RATE_LIMIT_PER_MINUTE.toLocaleString("en-US")} requests per minute.`;
+    }
+    return null;
+}
+
+export async function getProjectRateLimit(projectId: string): Promise<number | null> {
+    const supabase = await createSupabaseServerClient();
+    const { data, error } = await supabase
+        .from("projects")
+        .select("api_rate_limit_per_minute")
+        .eq("id", projectId)
+        .maybeSingle();
+
+    if (error) throw error;
+    return data?.api_rate_limit_per_minute ?? null;
+}
+
+export async function updateProjectRateLimit(projectId: string, limitPerMinute: number | null) {
+    const supabase = await createSupabaseServerClient();
+    const { error } = await supabase
+        .from("projects")
+        .update({ api_rate_limit_per_minute: limitPerMinute, updated_at: new Date().toISOString() })
+        .eq("id", projectId)
+        .is("deleted_at", null);
+
+    if (error) return { ok: false as const, error: error.message };
+    return { ok: true as const };
+}
@@ -0,0 +1,90 @@
+/**
+ * Role inheritance helpers. A role inherits every permission granted to the roles it extends,
+ * transitively. These helpers are pure so the dashboard, access checks and config import resolve
+ * inheritance the same way.
+ */
+
+export const MAX_PARENT_ROLES = 10;
+
+export type RoleParentMap = Map<string, readonly string[]>;
+
+/**
+ * Every role reachable through `parent_role_ids`, nearest first. Safe to call on a graph that
+ * already contains a cycle; each role is visited once.
+ */
+export function getAncestorRoleIds(roleId: string, parentsByRoleId: RoleParentMap): string[] {
+    const visited = new Set<string>([roleId]);
+    const ancestors: string[] = [];
+    const queue = [...(parentsByRoleId.get(roleId) ?? [])];
+
+    while (queue.length > 0) {
+        const current = queue.shift()!;
+        if (visited.has(current)) continue;
+        visited.add(current);
+        ancestors.push(current);
+        queue.push(...(parentsByRoleId.get(current) ?? []));
+    }
+
+    return ancestors;
+}
+
+/**
+ * Returns the role id path that would form a cycle if `roleId` extended `parentRoleIds`, e.g.
+ * `[admin, member, admin]`, or null when the change is safe.
+ */
+export function findInheritanceCycle(
+    roleId: string,
+    parentRoleIds: readonly string[],
+    parentsByRoleId: RoleParentMap
+): string[] | null {
+    for (const parentId of parentRoleIds) {
+        if (parentId === roleId) return [roleId, roleId];
+
+        const previous = new Map<string, string>();
+        const visited = new Set<string>([parentId]);
+        const queue = [parentId];
+        while (queue.length > 0) {
+            const current = queue.shift()!;
+            for (const next of parentsByRoleId.get(current) ?? []) {
+                if (next === roleId) {
+                    const path = [current];
+                    let step = current;
+                    while (previous.has(step)) {
+                        step = previous.get(step)!;
+                        path.unshift(step);
+                    }
+                    return [roleId, ...path, roleId];
+                }
+                if (visited.has(next)) continue;
+                visited.add(next);
+                previous.set(next, current);
+                queue.push(next);
+            }
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Effective permissions of a role mapped to the roles that grant them. The role itself comes
+ * first in each list when it grants the permission directly.
+ */
+export function resolveEffectivePermissions(
+    roleId: string,
+    parentsByRoleId: RoleParentMap,
+    permissionIdsByRoleId: Map<string, readonly string[] | ReadonlySet<string>>
+): Map<string, string[]> {
+    const sources = new Map<string, string[]>();
+    for (const sourceRoleId of [roleId, ...getAncestorRoleIds(roleId, parentsByRoleId)]) {
+        for (const permissionId of permissionIdsByRoleId.get(sourceRoleId) ?? []) {
+            const current = sources.get(permissionId);
+            if (current) {
+                current.push(sourceRoleId);
+            } else {
+                sources.set(permissionId, [sourceRoleId]);
+            }
+        }
+    }
+    return sources;
+}
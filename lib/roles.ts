@@ -1,4 +1,5 @@
 import { createSupabaseServerClient } from "@/lib/supabase-server";
+import { fetchAllPages } from "@/lib/pagination";
 
 export type RoleRecord = {
     id: string;
@@ -13,11 +14,20 @@ export type RoleRecord = {
 
 export type RoleWithPermissions = RoleRecord & {
     permission_ids: string[];
+    /** Condition expressions keyed by permission id; permissions without one are granted outright. */
+    permission_conditions: Record<string, string>;
+    denied_permission_ids: string[];
+    parent_role_ids: string[];
     user_count: number;
 };
 
 type RolePermissionsRow = {
     permission_id: string;
+    condition?: string | null;
+};
+
+type RoleParentRow = {
+    parent_role_id: string;
 };
 
 type UserRoleRow = {
@@ -27,6 +37,8 @@ type UserRoleRow = {
 function mapRoleRow(
     role: RoleRecord & {
         role_permissions?: RolePermissionsRow[] | null;
+        role_permission_denies?: RolePermissionsRow[] | null;
+        role_parents?: RoleParentRow[] | null;
         user_roles?: UserRoleRow[] | null;
     }
 ): RoleWithPermissions {
@@ -42,6 +54,17 @@ function mapRoleRow(
         permission_ids: (role.role_permissions ?? [])
             .map((entry) => entry.permission_id)
             .filter(Boolean),
+        permission_conditions: Object.fromEntries(
+            (role.role_permissions ?? [])
+                .filter((entry) => entry.permission_id && entry.condition)
+                .map((entry) => [entry.permission_id, entry.condition as string])
+        ),
+        denied_permission_ids: (role.role_permission_denies ?? [])
+            .map((entry) => entry.permission_id)
+            .filter(Boolean),
+        parent_role_ids: (role.role_parents ?? [])
+            .map((entry) => entry.parent_role_id)
+            .filter(Boolean),
         user_count: (role.user_roles ?? []).length,
     };
 }
@@ -51,7 +74,7 @@ export async function getRoles(projectId: string): Promise<RoleWithPermissions[]
 
     const { data, error } = await supabase
         .from("roles")
-        .select("id, project_id, name, slug, description, is_system, created_at, updated_at, role_permissions(permission_id), user_roles(id)")
+        .select("id, project_id, name, slug, description, is_system, created_at, updated_at, role_permissions(permission_id, condition), role_permission_denies(permission_id), role_parents!role_parents_role_id_fkey(parent_role_id), user_roles(id)")
         .eq("project_id", projectId)
         .order("created_at", { ascending: false });
 
@@ -61,6 +84,8 @@ export async function getRoles(projectId: string): Promise<RoleWithPermissions[]
         mapRoleRow(
             row as RoleRecord & {
                 role_permissions?: RolePermissionsRow[] | null;
+                role_permission_denies?: RolePermissionsRow[] | null;
+                role_parents?: RoleParentRow[] | null;
                 user_roles?: UserRoleRow[] | null;
             }
         )
@@ -74,6 +99,9 @@ export async function createRole(
         slug: string;
         description: string | null;
         permission_ids: string[];
+        permission_conditions?: Record<string, string>;
+        denied_permission_ids?: string[];
+        parent_role_ids?: string[];
         is_system?: boolean;
     }
 ) {
@@ -99,6 +127,7 @@ export async function createRole(
         const inserts = data.permission_ids.map((permissionId) => ({
             role_id: roleId,
             permission_id: permissionId,
+            condition: data.permission_conditions?.[permissionId] ?? null,
         }));
 
         const { error: rpError } = await supabase
@@ -111,9 +140,28 @@ export async function createRole(
         }
     }
 
+    if (data.denied_permission_ids && data.denied_permission_ids.length > 0) {
+        const deniesResult = await replaceRolePermissionDenies(roleId, data.denied_permission_ids);
+        if (!deniesResult.ok) {
+            await supabase.from("role_permissions").delete().eq("role_id", roleId);
+            await supabase.from("roles").delete().eq("id", roleId).eq("project_id", projectId);
+            return { ok: false as const, error: deniesResult.error };
+        }
+    }
+
+    if (data.parent_role_ids && data.parent_role_ids.length > 0) {
+        const parentsResult = await replaceRoleParents(roleId, data.parent_role_ids);
+        if (!parentsResult.ok) {
+            await supabase.from("role_permissions").delete().eq("role_id", roleId);
+            await supabase.from("role_permission_denies").delete().eq("role_id", roleId);
+            await supabase.from("roles").delete().eq("id", roleId).eq("project_id", projectId);
+            return { ok: false as const, error: parentsResult.error };
+        }
+    }
+
     const { data: joined, error: joinedError } = await supabase
         .from("roles")
-        .select("id, project_id, name, slug, description, is_system, created_at, updated_at, role_permissions(permission_id), user_roles(id)")
+        .select("id, project_id, name, slug, description, is_system, created_at, updated_at, role_permissions(permission_id, condition), role_permission_denies(permission_id), role_parents!role_parents_role_id_fkey(parent_role_id), user_roles(id)")
         .eq("id", roleId)
         .eq("project_id", projectId)
         .single();
@@ -125,6 +173,8 @@ export async function createRole(
         data: mapRoleRow(
             joined as RoleRecord & {
                 role_permissions?: RolePermissionsRow[] | null;
+                role_permission_denies?: RolePermissionsRow[] | null;
+                role_parents?: RoleParentRow[] | null;
                 user_roles?: UserRoleRow[] | null;
             }
         ),
@@ -139,6 +189,9 @@ export async function updateRole(
         slug: string;
         description: string | null;
         permission_ids: string[];
+        permission_conditions: Record<string, string>;
+        denied_permission_ids: string[];
+        parent_role_ids: string[];
         is_system: boolean;
     }
 ) {
@@ -170,6 +223,7 @@ export async function updateRole(
         const inserts = data.permission_ids.map((permissionId) => ({
             role_id: id,
             permission_id: permissionId,
+            condition: data.permission_conditions[permissionId] ?? null,
         }));
 
         const { error: insertJoinError } = await supabase
@@ -179,9 +233,15 @@ export async function updateRole(
         if (insertJoinError) return { ok: false as const, error: insertJoinError };
     }
 
+    const deniesResult = await replaceRolePermissionDenies(id, data.denied_permission_ids);
+    if (!deniesResult.ok) return { ok: false as const, error: deniesResult.error };
+
+    const parentsResult = await replaceRoleParents(id, data.parent_role_ids);
+    if (!parentsResult.ok) return { ok: false as const, error: parentsResult.error };
+
     const { data: joined, error: joinedError } = await supabase
         .from("roles")
-        .select("id, project_id, name, slug, description, is_system, created_at, updated_at, role_permissions(permission_id), user_roles(id)")
+        .select("id, project_id, name, slug, description, is_system, created_at, updated_at, role_permissions(permission_id, condition), role_permission_denies(permission_id), role_parents!role_parents_role_id_fkey(parent_role_id), user_roles(id)")
         .eq("id", id)
         .eq("project_id", projectId)
         .single();
@@ -193,6 +253,8 @@ export async function updateRole(
         data: mapRoleRow(
             joined as RoleRecord & {
                 role_permissions?: RolePermissionsRow[] | null;
+                role_permission_denies?: RolePermissionsRow[] | null;
+                role_parents?: RoleParentRow[] | null;
                 user_roles?: UserRoleRow[] | null;
             }
         ),
@@ -209,6 +271,21 @@ export async function deleteRole(id: string, projectId: string) {
 
     if (deleteJoinsError) return { ok: false as const, error: deleteJoinsError };
 
+    const { error: deleteDeniesError } = await supabase
+        .from("role_permission_denies")
+        .delete()
+        .eq("role_id", id);
+
+    if (deleteDeniesError) return { ok: false as const, error: deleteDeniesError };
+
+    // Child roles simply stop inheriting from the deleted role.
+    const { error: deleteParentsError } = await supabase
+        .from("role_parents")
+        .delete()
+        .or(`role_id.eq.${id},parent_role_id.eq.${id}`);
+
+    if (deleteParentsError) return { ok: false as const, error: deleteParentsError };
+
     const { error } = await supabase
         .from("roles")
         .delete()
@@ -218,3 +295,65 @@ export async function deleteRole(id: string, projectId: string) {
     if (error) return { ok: false as const, error };
     return { ok: true as const };
 }
+
+/**
+ * Replace the permissions a role explicitly denies. A deny wins over any allow, including allows
+ * from other roles the same user holds. The swap runs in one database transaction, so a failure
+ * keeps the previous denies instead of leaving none.
+ */
+export async function replaceRolePermissionDenies(roleId: string, permissionIds: string[]) {
+    const supabase = await createSupabaseServerClient();
+
+    const { error } = await supabase.rpc("replace_role_permission_denies", {
+        p_role_id: roleId,
+        p_permission_ids: permissionIds,
+    });
+
+    if (error) return { ok: false as const, error };
+    return { ok: true as const };
+}
+
+/**
+ * Replace the roles a role extends, in one database transaction. Callers validate that the parents
+ * belong to the same project and do not form a cycle; the database trigger in
+ * `sql/role_inheritance.sql` enforces both as well.
+ */
+export async function replaceRoleParents(roleId: string, parentRoleIds: string[]) {
+    const supabase = await createSupabaseServerClient();
+
+    const { error } = await supabase.rpc("replace_role_parents", {
+        p_role_id: roleId,
+        p_parent_role_ids: parentRoleIds,
+    });
+
+    if (error) return { ok: false as const, error };
+    return { ok: true as const };
+}
+
+/**
+ * Parent role ids for every role in a project, keyed by child role id.
+ */
+export async function getRoleParentMap(projectId: string) {
+    const supabase = await createSupabaseServerClient();
+
+    const result = await fetchAllPages((from, to) =>
+        supabase
+            .from("roles")
+            .select("id, role_parents!role_parents_role_id_fkey(parent_role_id)")
+            .eq("project_id", projectId)
+            .order("id", { ascending: true })
+            .range(from, to)
+    );
+
+    if (!result.ok) return { ok: false as const, error: result.error };
+
+    const parentsByRoleId = new Map<string, string[]>();
+    for (const row of result.data as Array<{ id: string; role_parents?: RoleParentRow[] | null }>) {
+        parentsByRoleId.set(
+            row.id,
+            (row.role_parents ?? []).map((entry) => entry.parent_role_id).filter(Boolean)
+        );
+    }
+
+    return { ok: true as const, data: parentsByRoleId };
+}
@@ -1,7 +1,42 @@
+import { AsyncLocalStorage } from "node:async_hooks";
 import { cookies } from "next/headers";
 import { createServerClient } from "@supabase/ssr";
 
+const serviceRoleScope = new AsyncLocalStorage<true>();
+
+/**
+ * Client authenticated with the service role key. It bypasses row level security, so only use it
+ * once the caller has been authorized some other way (an API key, a cron secret).
+ */
+export function createSupabaseServiceClient() {
+    const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+    if (!serviceRoleKey) throw new Error("SUPABASE_SERVICE_ROLE_KEY is not set.");
+
+    return createServerClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, serviceRoleKey, {
+        cookies: {
+            get() {
+                return undefined;
+            },
+            set() {},
+            remove() {},
+        },
+        auth: { persistSession: false, autoRefreshToken: false },
+    });
+}
+
+/**
+ * Run `callback` with every `createSupabaseServerClient()` inside it (including work scheduled
+ * with `after()`) returning the service role client. API-key requests carry no Supabase session,
+ * and under row level security a session-less client reads nothing, which would make deny rules
+ * and inherited roles silently disappear.
+ */
+export function runWithServiceRole<T>(callback: () => T): T {
+    return serviceRoleScope.run(true, callback);
+}
+
 export async function createSupabaseServerClient() {
+    if (serviceRoleScope.getStore()) return createSupabaseServiceClient();
+
     const cookieStore = await cookies();
 
     return createServerClient(
@@ -21,4 +56,4 @@ export async function createSupabaseServerClient() {
             },
         }
     );
-}
\ No newline at end of file
+}
@@ -0,0 +1,178 @@
+import { createSupabaseServerClient, createSupabaseServiceClient } from "@/lib/supabase-server";
+
+export type UsageOutcome = "allowed" | "denied";
+
+export type UsageGranularity = "hour" | "day";
+
+export type UsageBucket = {
+    bucket_start: string;
+    allowed: number;
+    denied: number;
+};
+
+export type UsageTotalsRow = {
+    checks: number;
+    denied: number;
+};
+
+/**
+ * Record evaluated access decisions into hourly usage buckets. Failures are logged and
+ * swallowed so that usage tracking never changes the outcome of an access check.
+ */
+export async function recordPermissionUsage(
+    projectId: string,
+    apiKeyId: string,
+    userId: string,
+    decisions: Array<{ permissionId: string; allowed: boolean }>
+) {
+    if (decisions.length === 0) return;
+
+    const counts = new Map<string, { permission_id: string; outcome: UsageOutcome; count: number }>();
+    for (const decision of decisions) {
+        const outcome: UsageOutcome = decision.allowed ? "allowed" : "denied";
+        const key = `${decision.permissionId}:${outcome}`;
+        const current = counts.get(key);
+        if (current) {
+            current.count += 1;
+        } else {
+            counts.set(key, { permission_id: decision.permissionId, outcome, count: 1 });
+        }
+    }
+
+    // Only the service role may record usage; members can read the buckets but not write them.
+    const supabase = createSupabaseServiceClient();
+    const { error } = await supabase.rpc("record_permission_usage", {
+        p_project_id: projectId,
+        p_api_key_id: apiKeyId,
+        p_user_id: userId,
+        p_entries: Array.from(counts.values()),
+    });
+
+    if (error) {
+        console.error("Failed to record permission usage", error);
+    }
+}
+
+/**
+ * Allowed/denied totals per hour or day, aggregated by `get_usage_series` so the result is never cut
+ * off by the row cap. Buckets without traffic are missing; `getUsageHistory` fills them in.
+ */
+async function getUsageSeriesRows(
+    projectId: string,
+    input: { since: Date; granularity: UsageGranularity; permissionId?: string }
+): Promise<UsageBucket[]> {
+    const supabase = await createSupabaseServerClient();
+
+    const { data, error } = await supabase.rpc("get_usage_series", {
+        p_project_id: projectId,
+        p_since: input.since.toISOString(),
+        p_granularity: input.granularity,
+        p_permission_id: input.permissionId ?? null,
+    });
+
+    if (error) throw error;
+    return ((data ?? []) as Array<{ bucket_start: string; allowed: number; denied: number }>).map((row) => ({
+        bucket_start: new Date(row.bucket_start).toISOString(),
+        allowed: Number(row.allowed ?? 0),
+        denied: Number(row.denied ?? 0),
+    }));
+}
+
+export async function getTopUsagePermissions(
+    projectId: string,
+    since: Date,
+    limit: number
+): Promise<Array<UsageTotalsRow & { permission_id: string }>> {
+    const supabase = await createSupabaseServerClient();
+
+    const { data, error } = await supabase.rpc("get_usage_top_permissions", {
+        p_project_id: projectId,
+        p_since: since.toISOString(),
+        p_limit: limit,
+    });
+
+    if (error) throw error;
+    return ((data ?? []) as Array<{ permission_id: string; checks: number; denied: number }>).map((row) => ({
+        permission_id: row.permission_id,
+        checks: Number(row.checks ?? 0),
+        denied: Number(row.denied ?? 0),
+    }));
+}
+
+export async function getTopUsageApiKeys(
+    projectId: string,
+    since: Date,
+    limit: number
+): Promise<Array<UsageTotalsRow & { api_key_id: string }>> {
+    const supabase = await createSupabaseServerClient();
+
+    const { data, error } = await supabase.rpc("get_usage_top_api_keys", {
+        p_project_id: projectId,
+        p_since: since.toISOString(),
+        p_limit: limit,
+    });
+
+    if (error) throw error;
+    return ((data ?? []) as Array<{ api_key_id: string; checks: number; denied: number }>).map((row) => ({
+        api_key_id: row.api_key_id,
+        checks: Number(row.checks ?? 0),
+        denied: Number(row.denied ?? 0),
+    }));
+}
+
+export async function getTopDeniedUsers(
+    projectId: string,
+    since: Date,
+    limit: number
+): Promise<Array<{ user_id: string; denied: number; permission_count: number }>> {
+    const supabase = await createSupabaseServerClient();
+
+    const { data, error } = await supabase.rpc("get_usage_top_denied_users", {
+        p_project_id: projectId,
+        p_since: since.toISOString(),
+        p_limit: limit,
+    });
+
+    if (error) throw error;
+    return ((data ?? []) as Array<{ user_id: string; denied: number; permission_count: number }>).map((row) => ({
+        user_id: row.user_id,
+        denied: Number(row.denied ?? 0),
+        permission_count: Number(row.permission_count ?? 0),
+    }));
+}
+
+export function truncateToGranularity(value: Date, granularity: UsageGranularity) {
+    const next = new Date(value);
+    next.setUTCMinutes(0, 0, 0);
+    if (granularity === "day") next.setUTCHours(0);
+    return next;
+}
+
+/**
+ * Allowed/denied totals per hour or day, with empty buckets filled in so charts stay continuous.
+ */
+export async function getUsageHistory(
+    projectId: string,
+    input: { since: Date; granularity: UsageGranularity; permissionId?: string }
+): Promise<UsageBucket[]> {
+    const since = truncateToGranularity(input.since, input.granularity);
+    const rows = await getUsageSeriesRows(projectId, { ...input, since });
+
+    const stepMs = input.granularity === "day" ? 86_400_000 : 3_600_000;
+    const buckets = new Map<string, UsageBucket>();
+
+    const end = truncateToGranularity(new Date(), input.granularity).getTime();
+    for (let time = since.getTime(); time <= end; time += stepMs) {
+        const key = new Date(time).toISOString();
+        buckets.set(key, { bucket_start: key, allowed: 0, denied: 0 });
+    }
+
+    for (const row of rows) {
+        const bucket = buckets.get(row.bucket_start);
+        if (!bucket) continue;
+        bucket.allowed += row.allowed;
+        bucket.denied += row.denied;
+    }
+
+    return Array.from(buckets.values());
+}
@@ -0,0 +1,97 @@
+import { createSupabaseServerClient } from "@/lib/supabase-server";
+
+/**
+ * A permission blocked for one external user id regardless of the roles they hold.
+ */
+export type UserPermissionDeny = {
+    id: string;
+    project_id: string;
+    user_id: string;
+    permission_id: string;
+    reason: string | null;
+    created_by: string | null;
+    created_at: string;
+};
+
+const DENY_COLUMNS = "id, project_id, user_id, permission_id, reason, created_by, created_at";
+
+function mapDenyRow(row: UserPermissionDeny): UserPermissionDeny {
+    return {
+        id: row.id,
+        project_id: row.project_id,
+        user_id: row.user_id,
+        permission_id: row.permission_id,
+        reason: row.reason ?? null,
+        created_by: row.created_by ?? null,
+        created_at: row.created_at,
+    };
+}
+
+export async function getUserPermissionDenies(
+    projectId: string,
+    options?: { userId?: string; userQuery?: string; ids?: string[]; limit?: number }
+): Promise<UserPermissionDeny[]> {
+    const supabase = await createSupabaseServerClient();
+
+    let query = supabase
+        .from("user_permission_denies")
+        .select(DENY_COLUMNS)
+        .eq("project_id", projectId)
+        .order("created_at", { ascending: false });
+
+    if (options?.userId) {
+        query = query.eq("user_id", options.userId);
+    }
+    if (options?.ids) {
+        query = query.in("id", options.ids);
+    }
+    if (options?.userQuery) {
+        query = query.ilike("user_id", `%${options.userQuery}%`);
+    }
+
+    const { data, error } = await query.limit(options?.limit ?? 500);
+
+    if (error) throw error;
+    return ((data ?? []) as UserPermissionDeny[]).map(mapDenyRow);
+}
+
+export async function createUserPermissionDeny(input: {
+    projectId: string;
+    userId: string;
+    permissionId: string;
+    reason: string | null;
+    createdBy: string;
+}) {
+    const supabase = await createSupabaseServerClient();
+
+    const { data, error } = await supabase
+        .from("user_permission_denies")
+        .insert({
+            project_id: input.projectId,
+            user_id: input.userId,
+            permission_id: input.permissionId,
+            reason: input.reason,
+            created_by: input.createdBy,
+            created_at: new Date().toISOString(),
+        })
+        .select(DENY_COLUMNS)
+        .single();
+
+    if (error || !data) return { ok: false as const, error };
+    return { ok: true as const, data: mapDenyRow(data as UserPermissionDeny) };
+}
+
+export async function deleteUserPermissionDenies(projectId: string, ids: string[]) {
+    if (ids.length === 0) return { ok: true as const };
+
+    const supabase = await createSupabaseServerClient();
+
+    const { error } = await supabase
+        .from("user_permission_denies")
+        .delete()
+        .eq("project_id", projectId)
+        .in("id", ids);
+
+    if (error) return { ok: false as const, error };
+    return { ok: true as const };
+}
@@ -0,0 +1,303 @@
+import { createSupabaseServerClient } from "@/lib/supabase-server";
+import { logAuditEvent } from "@/lib/auditLogs";
+import {
+    createUserRoleAssignments,
+    deleteUserRoleAssignments,
+    expireLapsedUserRoles,
+    getHighRiskRoleIds,
+    getUserRoleAssignments,
+    updateUserRoleAssignmentWindow,
+    UserRoleAssignment,
+} from "@/lib/userRoles";
+import { isAssignmentActive, resolveAssignmentWindow } from "@/lib/assignmentWindow";
+import type { SyncedUserRole, UserRoleSyncResponse } from "@/sdk/src/types";
+
+export type { SyncedUserRole };
+
+export type UserRoleSyncResult =
+    | {
+    ok: true;
+    data: UserRoleSyncResponse;
+}
+    | {
+    ok: false;
+    status: number;
+    error: string;
+};
+
+type ProjectRole = {
+    id: string;
+    name: string;
+    slug: string;
+};
+
+const MAX_USER_ID_LENGTH = 200;
+
+export function validateExternalUserId(userId: string) {
+    if (!userId) return "user_id is required.";
+    if (userId.length > MAX_USER_ID_LENGTH) return "user_id is too long.";
+    return null;
+}
+
+async function loadProjectRoles(projectId: string) {
+    const supabase = await createSupabaseServerClient();
+    const { data, error } = await supabase
+        .from("roles")
+        .select("id, name, slug")
+        .eq("project_id", projectId);
+
+    if (error) return null;
+    return (data ?? []) as ProjectRole[];
+}
+
+function toSyncedRoles(assignments: UserRoleAssignment[], roleById: Map<string, ProjectRole>) {
+    return assignments
+        .map((assignment) => {
+            const role = roleById.get(assignment.role_id);
+            if (!role) return null;
+            return {
+                slug: role.slug,
+                name: role.name,
+                assigned_at: assignment.created_at,
+                expires_at: assignment.expires_at,
+            };
+        })
+        .filter((role): role is SyncedUserRole => Boolean(role))
+        .sort((a, b) => a.slug.localeCompare(b.slug));
+}
+
+/**
+ * Apply a role change for one external user id. Granting an existing role and revoking a
+ * missing one are no-ops, so identity provider syncs can safely retry.
+ */
+async function applyUserRoleChange(
+    projectId: string,
+    userId: string,
+    change: { grant: string[]; revoke: string[] | "others" },
+    actor?: { apiKeyId: string }
+): Promise<UserRoleSyncResult> {
+    const userIdError = validateExternalUserId(userId);
+    if (userIdError) return { ok: false, status: 400, error: userIdError };
+
+    const roles = await loadProjectRoles(projectId);
+    if (!roles) return { ok: false, status: 500, error: "Failed to load roles." };
+
+    const roleBySlug = new Map(roles.map((role) => [role.slug, role]));
+    const roleById = new Map(roles.map((role) => [role.id, role]));
+
+    const grantSlugs = Array.from(new Set(change.grant.map((slug) => slug.trim().toLowerCase()).filter(Boolean)));
+    const revokeSlugs =
+        change.revoke === "others"
+            ? null
+            : Array.from(new Set(change.revoke.map((slug) => slug.trim().toLowerCase()).filter(Boolean)));
+
+    const unknownSlugs = [...grantSlugs, ...(revokeSlugs ?? [])].filter((slug) => !roleBySlug.has(slug));
+    if (unknownSlugs.length > 0) {
+        return {
+            ok: false,
+            status: 404,
+            error: `Unknown role slug${unknownSlugs.length === 1 ? "" : "s"}: ${unknownSlugs.join(", ")}.`,
+        };
+    }
+
+    let current: UserRoleAssignment[];
+    let highRiskRoleIds: Set<string>;
+    try {
+        await expireLapsedUserRoles(projectId, { userId });
+        highRiskRoleIds = await getHighRiskRoleIds(projectId);
+        // The sync endpoints manage project-wide roles; resource-scoped grants are left untouched.
+        current = await getUserRoleAssignments(projectId, { userId, scope: "project" });
+    } catch {
+        return { ok: false, status: 500, error: "Failed to load role assignments." };
+    }
+
+    // Assignments that have not started yet do not count as held: granting one of those roles starts
+    // it now instead of silently keeping the future start.
+    const now = Date.now();
+    const currentRoleIds = new Set(
+        current.filter((assignment) => isAssignmentActive(assignment, now)).map((assignment) => assignment.role_id)
+    );
+    const pendingByRoleId = new Map(
+        current
+            .filter((assignment) => !isAssignmentActive(assignment, now))
+            .map((assignment) => [assignment.role_id, assignment])
+    );
+    const grantRoleIds = new Set(grantSlugs.map((slug) => roleBySlug.get(slug)!.id));
+
+    const toInsert = Array.from(grantRoleIds).filter(
+        (roleId) => !currentRoleIds.has(roleId) && !pendingByRoleId.has(roleId)
+    );
+    const toActivate = Array.from(grantRoleIds)
+        .filter((roleId) => !currentRoleIds.has(roleId))
+        .map((roleId) => pendingByRoleId.get(roleId))
+        .filter((assignment): assignment is UserRoleAssignment => Boolean(assignment));
+    const toDelete = current.filter((assignment) => {
+        if (revokeSlugs === null) return !grantRoleIds.has(assignment.role_id);
+        const role = roleById.get(assignment.role_id);
+        return Boolean(role && revokeSlugs.includes(role.slug));
+    });
+
+    // Grant before revoking, so a failed request never leaves the user with fewer roles than before.
+    // High-risk roles granted through the API get the maximum duration; the next sync can grant them again.
+    const created = await createUserRoleAssignments(
+        toInsert.map((roleId) => {
+            const window = resolveAssignmentWindow({ highRisk: highRiskRoleIds.has(roleId) });
+            return { roleId, userId, window: window.ok ? window.window : undefined };
+        })
+    );
+    if (!created.ok) return { ok: false, status: 500, error: "Failed to grant roles." };
+
+    const rollBack = async (activatedSoFar: UserRoleAssignment[]) => {
+        await deleteUserRoleAssignments(created.data.map((assignment) => assignment.id));
+        for (const assignment of activatedSoFar) {
+            const previous = pendingByRoleId.get(assignment.role_id)!;
+            await updateUserRoleAssignmentWindow(assignment.id, {
+                starts_at: previous.starts_at,
+                expires_at: previous.expires_at,
+            });
+        }
+    };
+
+    const activated: UserRoleAssignment[] = [];
+    for (const assignment of toActivate) {
+        const window = resolveAssignmentWindow({
+            expiresAt: assignment.expires_at && Date.parse(assignment.expires_at) > now ? assignment.expires_at : null,
+            highRisk: highRiskRoleIds.has(assignment.role_id),
+        });
+        // A high-risk expiry further out than the cap falls back to the default duration.
+        const fallback = resolveAssignmentWindow({ highRisk: highRiskRoleIds.has(assignment.role_id) });
+        const updated = await updateUserRoleAssignmentWindow(assignment.id, {
+            starts_at: null,
+            expires_at: window.ok ? window.window.expires_at : fallback.ok ? fallback.window.expires_at : null,
+        });
+        if (!updated.ok) {
+            await rollBack(activated);
+            return { ok: false, status: 500, error: "Failed to grant roles." };
+        }
+        activated.push(updated.data);
+    }
+
+    const deleted = await deleteUserRoleAssignments(toDelete.map((assignment) => assignment.id));
+    if (!deleted.ok) {
+        await rollBack(activated);
+        return { ok: false, status: 500, error: "Failed to revoke roles." };
+    }
+
+    const granted = [...created.data, ...activated];
+    for (const assignment of granted) {
+        const role = roleById.get(assignment.role_id);
+        await logAuditEvent({
+            projectId,
+            userId: null,
+            entityType: "user_role",
+            entityId: assignment.id,
+            action: "granted",
+            metadata: {
+                event: "user_role_assigned",
+                user_id: userId,
+                role_id: assignment.role_id,
+                role_name: role?.name ?? null,
+                role_slug: role?.slug ?? null,
+                expires_at: assignment.expires_at,
+                source: "api",
+                api_key_id: actor?.apiKeyId ?? null,
+            },
+        });
+    }
+
+    for (const assignment of toDelete) {
+        const role = roleById.get(assignment.role_id);
+        await logAuditEvent({
+            projectId,
+            userId: null,
+            entityType: "user_role",
+            entityId: assignment.id,
+            action: "revoked",
+            metadata: {
+                event: "user_role_unassigned",
+                user_id: userId,
+                role_id: assignment.role_id,
+                role_name: role?.name ?? null,
+                role_slug: role?.slug ?? null,
+                source: "api",
+                api_key_id: actor?.apiKeyId ?? null,
+            },
+        });
+    }
+
+    const deletedIds = new Set(toDelete.map((assignment) => assignment.id));
+    const next = [
+        ...current.filter((assignment) => !deletedIds.has(assignment.id) && isAssignmentActive(assignment, now)),
+        ...granted,
+    ];
+
+    return {
+        ok: true,
+        data: {
+            user_id: userId,
+            roles: toSyncedRoles(next, roleById),
+            granted: granted.map((assignment) => roleById.get(assignment.role_id)?.slug ?? assignment.role_id),
+            revoked: toDelete.map((assignment) => roleById.get(assignment.role_id)?.slug ?? assignment.role_id),
+        },
+    };
+}
+
+/**
+ * Current project-wide roles of one external user id. Reads have no side effects: lapsed
+ * assignments are left for the next write or dashboard sweep to delete, and they are left out
+ * together with assignments that have not started yet.
+ */
+export async function listUserRolesForSync(projectId: string, userId: string): Promise<UserRoleSyncResult> {
+    const userIdError = validateExternalUserId(userId);
+    if (userIdError) return { ok: false, status: 400, error: userIdError };
+
+    const roles = await loadProjectRoles(projectId);
+    if (!roles) return { ok: false, status: 500, error: "Failed to load roles." };
+
+    let current: UserRoleAssignment[];
+    try {
+        current = await getUserRoleAssignments(projectId, { userId, scope: "project" });
+    } catch {
+        return { ok: false, status: 500, error: "Failed to load role assignments." };
+    }
+
+    const now = Date.now();
+    const active = current.filter((assignment) => isAssignmentActive(assignment, now));
+
+    return {
+        ok: true,
+        data: {
+            user_id: userId,
+            roles: toSyncedRoles(active, new Map(roles.map((role) => [role.id, role]))),
+            granted: [],
+            revoked: [],
+        },
+    };
+}
+
+export async function grantUserRoles(
+    projectId: string,
+    userId: string,
+    roleSlugs: string[],
+    actor: { apiKeyId: string }
+) {
+    return applyUserRoleChange(projectId, userId, { grant: roleSlugs, revoke: [] }, actor);
+}
+
+export async function revokeUserRoles(
+    projectId: string,
+    userId: string,
+    roleSlugs: string[],
+    actor: { apiKeyId: string }
+) {
+    return applyUserRoleChange(projectId, userId, { grant: [], revoke: roleSlugs }, actor);
+}
+
+export async function replaceUserRoles(
+    projectId: string,
+    userId: string,
+    roleSlugs: string[],
+    actor: { apiKeyId: string }
+) {
+    return applyUserRoleChange(projectId, userId, { grant: roleSlugs, revoke: "others" }, actor);
+}
@@ -0,0 +1,284 @@
+import { createSupabaseServerClient } from "@/lib/supabase-server";
+import { fetchAllPages } from "@/lib/pagination";
+import { logAuditEvent } from "@/lib/auditLogs";
+import { getAncestorRoleIds } from "@/lib/roleHierarchy";
+import type { AssignmentWindow } from "@/lib/assignmentWindow";
+import { assignmentAppliesTo, parseResourceScope, type ResourceScope } from "@/sdk/src/policy";
+
+export { assignmentAppliesTo, parseResourceScope, type ResourceScope };
+
+export type UserRoleAssignment = {
+    id: string;
+    role_id: string;
+    user_id: string;
+    /** Set together with `resource_id` when the role only applies to one resource instance. */
+    resource_type: string | null;
+    resource_id: string | null;
+    /** Null means the assignment is active from creation. */
+    starts_at: string | null;
+    /** Null means the assignment never expires. */
+    expires_at: string | null;
+    created_at: string;
+};
+
+const ASSIGNMENT_COLUMNS = "id, role_id, user_id, resource_type, resource_id, starts_at, expires_at, created_at";
+// User ids are sent in the query string, so long lists are split to keep URLs short.
+const USER_ID_CHUNK_SIZE = 50;
+function mapAssignmentRow(row: UserRoleAssignment): UserRoleAssignment {
+    return {
+        id: row.id,
+        role_id: row.role_id,
+        user_id: row.user_id,
+        resource_type: row.resource_type ?? null,
+        resource_id: row.resource_id ?? null,
+        starts_at: row.starts_at ?? null,
+        expires_at: row.expires_at ?? null,
+        created_at: row.created_at,
+    };
+}
+
+/**
+ * List user-role assignments for a project. Assignments are scoped through their role.
+ * `scope: "project"` keeps project-wide assignments only, `scope: "resource"` resource-scoped ones.
+ */
+export async function getUserRoleAssignments(
+    projectId: string,
+    options?: {
+        userQuery?: string;
+        roleId?: string;
+        userId?: string;
+        ids?: string[];
+        scope?: "project" | "resource";
+        resourceType?: string;
+        resourceId?: string;
+        limit?: number;
+    }
+): Promise<UserRoleAssignment[]> {
+    const supabase = await createSupabaseServerClient();
+
+    let query = supabase
+        .from("user_roles")
+        .select(`${ASSIGNMENT_COLUMNS}, roles!inner(project_id)`)
+        .eq("roles.project_id", projectId)
+        .order("created_at", { ascending: false });
+
+    if (options?.roleId) {
+        query = query.eq("role_id", options.roleId);
+    }
+    if (options?.userId) {
+        query = query.eq("user_id", options.userId);
+    }
+    if (options?.ids) {
+        query = query.in("id", options.ids);
+    }
+    if (options?.userQuery) {
+        query = query.ilike("user_id", `%${options.userQuery}%`);
+    }
+    if (options?.scope === "project") {
+        query = query.is("resource_type", null);
+    }
+    if (options?.scope === "resource") {
+        query = query.not("resource_type", "is", null);
+    }
+    if (options?.resourceType) {
+        query = query.eq("resource_type", options.resourceType);
+    }
+    if (options?.resourceId) {
+        query = query.eq("resource_id", options.resourceId);
+    }
+
+    const { data, error } = await query.limit(options?.limit ?? 500);
+
+    if (error) throw error;
+    return ((data ?? []) as unknown as UserRoleAssignment[]).map(mapAssignmentRow);
+}
+
+/**
+ * Every assignment the given user ids hold in a project, with no row limit, e.g. to find duplicates
+ * before a bulk import.
+ */
+export async function getUserRoleAssignmentsForUsers(projectId: string, userIds: string[]): Promise<UserRoleAssignment[]> {
+    const supabase = await createSupabaseServerClient();
+    const uniqueUserIds = Array.from(new Set(userIds));
+    const assignments: UserRoleAssignment[] = [];
+
+    for (let index = 0; index < uniqueUserIds.length; index += USER_ID_CHUNK_SIZE) {
+        const chunk = uniqueUserIds.slice(index, index + USER_ID_CHUNK_SIZE);
+        const result = await fetchAllPages((from, to) =>
+            supabase
+                .from("user_roles")
+                .select(`${ASSIGNMENT_COLUMNS}, roles!inner(project_id)`)
+                .eq("roles.project_id", projectId)
+                .in("user_id", chunk)
+                .order("id", { ascending: true })
+                .range(from, to)
+        );
+        if (!result.ok) throw result.error;
+        assignments.push(...(result.data as unknown as UserRoleAssignment[]).map(mapAssignmentRow));
+    }
+
+    return assignments;
+}
+
+export async function createUserRoleAssignments(
+    rows: Array<{ roleId: string; userId: string; resource?: ResourceScope | null; window?: AssignmentWindow }>
+) {
+    if (rows.length === 0) return { ok: true as const, data: [] as UserRoleAssignment[] };
+
+    const supabase = await createSupabaseServerClient();
+    const now = new Date().toISOString();
+
+    const { data, error } = await supabase
+        .from("user_roles")
+        .insert(
+            rows.map((row) => ({
+                role_id: row.roleId,
+                user_id: row.userId,
+                resource_type: row.resource?.type ?? null,
+                resource_id: row.resource?.id ?? null,
+                starts_at: row.window?.starts_at ?? null,
+                expires_at: row.window?.expires_at ?? null,
+                created_at: now,
+            }))
+        )
+        .select(ASSIGNMENT_COLUMNS);
+
+    if (error || !data) return { ok: false as const, error };
+    return { ok: true as const, data: (data as UserRoleAssignment[]).map(mapAssignmentRow) };
+}
+
+export async function updateUserRoleAssignmentWindow(id: string, window: AssignmentWindow) {
+    const supabase = await createSupabaseServerClient();
+
+    const { data, error } = await supabase
+        .from("user_roles")
+        .update({ starts_at: window.starts_at, expires_at: window.expires_at })
+        .eq("id", id)
+        .select(ASSIGNMENT_COLUMNS)
+        .single();
+
+    if (error || !data) return { ok: false as const, error };
+    return { ok: true as const, data: mapAssignmentRow(data as UserRoleAssignment) };
+}
+
+export async function deleteUserRoleAssignments(ids: string[]) {
+    if (ids.length === 0) return { ok: true as const };
+
+    const supabase = await createSupabaseServerClient();
+
+    const { error } = await supabase
+        .from("user_roles")
+        .delete()
+        .in("id", ids);
+
+    if (error) return { ok: false as const, error };
+    return { ok: true as const };
+}
+
+/**
+ * Roles that grant at least one high-risk permission, directly or through the roles they extend.
+ * Assignments of these roles are always time-bound.
+ */
+export async function getHighRiskRoleIds(projectId: string): Promise<Set<string>> {
+    const supabase = await createSupabaseServerClient();
+    const { data, error } = await supabase
+        .from("roles")
+        .select(
+            "id, role_parents!role_parents_role_id_fkey(parent_role_id), role_permissions(permissions(risk_level))"
+        )
+        .eq("project_id", projectId);
+
+    if (error) throw error;
+
+    type RoleRow = {
+        id: string;
+        role_parents?: Array<{ parent_role_id: string }> | null;
+        role_permissions?: Array<{ permissions: { risk_level: string } | null }> | null;
+    };
+    const rows = (data ?? []) as unknown as RoleRow[];
+    const parentsByRoleId = new Map(
+        rows.map((row) => [row.id, (row.role_parents ?? []).map((entry) => entry.parent_role_id)])
+    );
+    const directlyHighRisk = new Set(
+        rows
+            .filter((row) => (row.role_permissions ?? []).some((link) => link.permissions?.risk_level === "high"))
+            .map((row) => row.id)
+    );
+
+    return new Set(
+        rows
+            .filter((row) =>
+                [row.id, ...getAncestorRoleIds(row.id, parentsByRoleId)].some((roleId) => directlyHighRisk.has(roleId))
+            )
+            .map((row) => row.id)
+    );
+}
+
+/**
+ * Delete assignments whose `expires_at` has passed, optionally for one user id only. Runs on
+ * dashboard load and whenever an access check or sync meets a lapsed assignment; each deleted
+ * assignment is audited once.
+ */
+export async function expireLapsedUserRoles(
+    projectId: string,
+    options?: { userId?: string }
+): Promise<UserRoleAssignment[]> {
+    const supabase = await createSupabaseServerClient();
+    const now = new Date().toISOString();
+
+    let query = supabase
+        .from("user_roles")
+        .select(`${ASSIGNMENT_COLUMNS}, roles!inner(project_id, name, slug)`)
+        .eq("roles.project_id", projectId)
+        .lte("expires_at", now);
+
+    if (options?.userId) {
+        query = query.eq("user_id", options.userId);
+    }
+
+    const { data: lapsed, error: lapsedError } = await query.limit(500);
+    if (lapsedError) {
+        console.error("Failed to load lapsed role assignments", lapsedError);
+        return [];
+    }
+
+    type LapsedRow = UserRoleAssignment & { roles: { name: string; slug: string } | null };
+    const rows = (lapsed ?? []) as unknown as LapsedRow[];
+    if (rows.length === 0) return [];
+
+    // Only rows this call actually deleted are audited, so concurrent sweeps do not log twice.
+    const { data: deleted, error } = await supabase
+        .from("user_roles")
+        .delete()
+        .in("id", rows.map((row) => row.id))
+        .lte("expires_at", now)
+        .select("id");
+
+    if (error) {
+        console.error("Failed to expire role assignments", error);
+        return [];
+    }
+
+    const deletedIds = new Set((deleted ?? []).map((row) => row.id as string));
+    const expired = rows.filter((row) => deletedIds.has(row.id));
+    for (const row of expired) {
+        await logAuditEvent({
+            projectId,
+            userId: null,
+            entityType: "user_role",
+            entityId: row.id,
+            action: "revoked",
+            metadata: {
+                event: "assignment_expired",
+                user_id: row.user_id,
+                role_id: row.role_id,
+                role_name: row.roles?.name ?? null,
+                role_slug: row.roles?.slug ?? null,
+                expires_at: row.expires_at,
+                ...(row.resource_type ? { resource_type: row.resource_type, resource_id: row.resource_id } : {}),
+            },
+        });
+    }
+
+    return expired.map(mapAssignmentRow);
+}
@@ -0,0 +1,544 @@
+import crypto from "crypto";
+import { lookup } from "dns/promises";
+import http from "http";
+import https from "https";
+import { isIP, type LookupFunction } from "net";
+import { after } from "next/server";
+import { createSupabaseServerClient, createSupabaseServiceClient } from "@/lib/supabase-server";
+import { decryptSecret, encryptSecret } from "@/lib/encryption";
+import { isPublicIpAddress } from "@/lib/ipAllowList";
+import type { WebhookEvent } from "@/sdk/src/types";
+
+export const MAX_WEBHOOK_ENDPOINTS = 10;
+export const MAX_WEBHOOK_URL_LENGTH = 2000;
+export const MAX_WEBHOOK_DESCRIPTION_LENGTH = 200;
+/** The first attempt plus five retries, 1, 2, 4, 8 and 16 minutes apart. */
+export const MAX_WEBHOOK_ATTEMPTS = 6;
+
+const RETRY_BASE_DELAY_MS = 60_000;
+const DELIVERY_TIMEOUT_MS = 10_000;
+// A claimed delivery is not picked up by another sweep until this lease runs out.
+const CLAIM_LEASE_MS = 60_000;
+const RETRY_BATCH_SIZE = 50;
+const MAX_ERROR_LENGTH = 300;
+const LOCAL_HOSTNAME_SUFFIXES = [".localhost", ".local", ".internal"];
+const PRIVATE_DESTINATION_ERROR = "Webhook URLs cannot point to local or private network addresses.";
+
+export type WebhookEndpointRecord = {
+    id: string;
+    project_id: string;
+    url: string;
+    description: string | null;
+    enabled: boolean;
+    created_at: string;
+    updated_at: string | null;
+};
+
+export type WebhookDeliveryStatus = "pending" | "succeeded" | "failed";
+
+export type WebhookDeliveryRecord = {
+    id: string;
+    endpoint_id: string;
+    event_id: string;
+    event_type: string;
+    payload: WebhookEvent;
+    status: WebhookDeliveryStatus;
+    attempt_count: number;
+    next_attempt_at: string | null;
+    last_attempt_at: string | null;
+    last_response_status: number | null;
+    last_error: string | null;
+    created_at: string;
+    delivered_at: string | null;
+};
+
+type WebhookResult<T> = { ok: true; data: T } | { ok: false; error: string };
+
+const ENDPOINT_COLUMNS = "id, project_id, url, description, enabled, created_at, updated_at";
+const DELIVERY_COLUMNS =
+    "id, endpoint_id, event_id, event_type, payload, status, attempt_count, next_attempt_at, last_attempt_at, last_response_status, last_error, created_at, delivered_at";
+
+/** Set `WEBHOOK_ALLOW_PRIVATE_URLS=true` in development to deliver to a receiver on localhost. */
+function allowsPrivateWebhookUrls() {
+    return process.env.WEBHOOK_ALLOW_PRIVATE_URLS === "true";
+}
+
+function getUrlHostname(url: URL) {
+    return url.hostname.replace(/^\[|\]$/g, "").replace(/\.$/, "").toLowerCase();
+}
+
+/**
+ * Endpoints must use https and a public host: deliveries are sent from the server, so a URL
+ * pointing at localhost or a private network would let project admins probe internal services.
+ * Hostnames are checked again on every delivery by `lookupPublicAddress`, when the connection is made.
+ */
+export function validateWebhookUrl(value: string) {
+    if (!value) return "Webhook URL is required.";
+    if (value.length > MAX_WEBHOOK_URL_LENGTH) return "Webhook URL is too long.";
+
+    let url: URL;
+    try {
+        url = new URL(value);
+    } catch {
+        return "Enter a valid URL.";
+    }
+    if (url.username || url.password) return "Webhook URLs cannot contain credentials.";
+    if (allowsPrivateWebhookUrls()) {
+        return url.protocol === "https:" || url.protocol === "http:" ? null : "Webhook URLs must use https.";
+    }
+    if (url.protocol !== "https:") return "Webhook URLs must use https.";
+
+    const hostname = getUrlHostname(url);
+    if (isIP(hostname)) return isPublicIpAddress(hostname) ? null : PRIVATE_DESTINATION_ERROR;
+    if (
+        !hostname.includes(".") ||
+        hostname === "localhost" ||
+        LOCAL_HOSTNAME_SUFFIXES.some((suffix) => hostname.endsWith(suffix))
+    ) {
+        return PRIVATE_DESTINATION_ERROR;
+    }
+    return null;
+}
+
+class BlockedDestinationError extends Error {}
+
+/**
+ * DNS lookup for webhook connections. Every address the hostname resolves to must be public, and
+ * the connection goes to one of exactly those addresses, so a name that is re-pointed at a private
+ * address between a check and the request (DNS rebinding) cannot slip through.
+ */
+const lookupPublicAddress: LookupFunction = (hostname, options, callback) => {
+    lookup(hostname, { all: true }).then(
+        (addresses) => {
+            if (!allowsPrivateWebhookUrls() && addresses.some((entry) => !isPublicIpAddress(entry.address))) {
+                throw new BlockedDestinationError(PRIVATE_DESTINATION_ERROR);
+            }
+            if (addresses.length === 0) throw new Error(`Could not resolve ${hostname}.`);
+            if (options.all) {
+                (callback as (error: null, addresses: Array<{ address: string; family: number }>) => void)(
+                    null,
+                    addresses
+                );
+            } else {
+                callback(null, addresses[0].address, addresses[0].family);
+            }
+        }
+    ).catch((error: NodeJS.ErrnoException) => callback(error, "", 0));
+};
+
+/**
+ * POST a payload and resolve with the response status. Redirects are not followed: they could point
+ * the signed payload at another host.
+ */
+function postWebhook(url: string, headers: Record<string, string>, body: string) {
+    const target = new URL(url);
+    const client = target.protocol === "https:" ? https : http;
+    const signal = AbortSignal.timeout(DELIVERY_TIMEOUT_MS);
+
+    return new Promise<number>((resolve, reject) => {
+        const request = client.request(
+            target,
+            {
+                method: "POST",
+                headers: { ...headers, "Content-Length": String(Buffer.byteLength(body)) },
+                lookup: lookupPublicAddress,
+                // A fresh connection per delivery, so every request goes through the lookup above.
+                agent: false,
+                signal,
+            },
+            (response) => {
+                response.resume();
+                resolve(response.statusCode ?? 0);
+            }
+        );
+        request.on("error", (error) => reject(signal.aborted ? signal.reason : error));
+        request.end(body);
+    });
+}
+
+export function generateWebhookSecret() {
+    return `whsec_${crypto.randomBytes(24).toString("hex")}`;
+}
+
+/**
+ * Hex HMAC-SHA256 of `<timestamp>.<body>`, sent as `X-Webhook-Signature: v1=<hex>`. Receivers
+ * recompute it with the endpoint secret and reject stale timestamps to prevent replays.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string) {
+    return crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+export function getWebhookRetryDelayMs(attemptCount: number) {
+    return RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attemptCount - 1);
+}
+
+/** Audit events become `<entity_type>.<action>` events, e.g. `role.updated`. */
+export function buildWebhookEvent(input: {
+    projectId: string;
+    type: string;
+    entityType: string;
+    entityId: string | null;
+    action: string;
+    actorUserId: string | null;
+    metadata: Record<string, unknown> | null;
+}): WebhookEvent {
+    return {
+        id: crypto.randomUUID(),
+        type: input.type,
+        project_id: input.projectId,
+        created_at: new Date().toISOString(),
+        data: {
+            entity_type: input.entityType,
+            entity_id: input.entityId,
+            action: input.action,
+            actor_user_id: input.actorUserId,
+            metadata: input.metadata,
+        },
+    };
+}
+
+export async function getWebhookEndpoints(projectId: string): Promise<WebhookEndpointRecord[]> {
+    const supabase = await createSupabaseServerClient();
+    const { data, error } = await supabase
+        .from("webhook_endpoints")
+        .select(ENDPOINT_COLUMNS)
+        .eq("project_id", projectId)
+        .order("created_at", { ascending: true });
+
+    if (error) throw error;
+    return (data ?? []) as WebhookEndpointRecord[];
+}
+
+export async function getWebhookDeliveries(
+    projectId: string,
+    options: { endpointId?: string | null; limit?: number } = {}
+): Promise<WebhookDeliveryRecord[]> {
+    const supabase = await createSupabaseServerClient();
+    let query = supabase
+        .from("webhook_deliveries")
+        .select(DELIVERY_COLUMNS)
+        .eq("project_id", projectId)
+        .order("created_at", { ascending: false })
+        .limit(options.limit ?? 50);
+    if (options.endpointId) query = query.eq("endpoint_id", options.endpointId);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data ?? []) as WebhookDeliveryRecord[];
+}
+
+export async function createWebhookEndpointRecord(input: {
+    projectId: string;
+    url: string;
+    description: string | null;
+    createdBy: string;
+}): Promise<WebhookResult<{ record: WebhookEndpointRecord; secret: string }>> {
+    const supabase = await createSupabaseServerClient();
+
+    const { count, error: countError } = await supabase
+        .from("webhook_endpoints")
+        .select("id", { count: "exact", head: true })
+        .eq("project_id", input.projectId);
+    if (countError) return { ok: false, error: "Failed to load webhook endpoints." };
+    if ((count ?? 0) >= MAX_WEBHOOK_ENDPOINTS) {
+        return { ok: false, error: `A project can have at most ${MAX_WEBHOOK_ENDPOINTS} webhook endpoints.` };
+    }
+
+    const secret = generateWebhookSecret();
+    const { data, error } = await supabase
+        .from("webhook_endpoints")
+        .insert({
+            project_id: input.projectId,
+            url: input.url,
+            description: input.description,
+            secret_encrypted: encryptSecret(secret),
+            enabled: true,
+            created_by: input.createdBy,
+            created_at: new Date().toISOString(),
+        })
+        .select(ENDPOINT_COLUMNS)
+        .single();
+
+    if (error || !data) return { ok: false, error: "Failed to create webhook endpoint." };
+    return { ok: true, data: { record: data as WebhookEndpointRecord, secret } };
+}
+
+export async function updateWebhookEndpointRecord(
+    projectId: string,
+    endpointId: string,
+    changes: { url?: string; description?: string | null; enabled?: boolean }
+): Promise<WebhookResult<WebhookEndpointRecord>> {
+    const supabase = await createSupabaseServerClient();
+    const { data, error } = await supabase
+        .from("webhook_endpoints")
+        .update({ ...changes, updated_at: new Date().toISOString() })
+        .eq("project_id", projectId)
+        .eq("id", endpointId)
+        .select(ENDPOINT_COLUMNS)
+        .maybeSingle();
+
+    if (error) return { ok: false, error: "Failed to update webhook endpoint." };
+    if (!data) return { ok: false, error: "Webhook endpoint not found." };
+    return { ok: true, data: data as WebhookEndpointRecord };
+}
+
+export async function deleteWebhookEndpointRecord(projectId: string, endpointId: string): Promise<WebhookResult<null>> {
+    const supabase = await createSupabaseServerClient();
+    const { error } = await supabase
+        .from("webhook_endpoints")
+        .delete()
+        .eq("project_id", projectId)
+        .eq("id", endpointId);
+
+    if (error) return { ok: false, error: "Failed to delete webhook endpoint." };
+    return { ok: true, data: null };
+}
+
+export async function getWebhookEndpointSecret(projectId: string, endpointId: string): Promise<WebhookResult<string>> {
+    const supabase = await createSupabaseServerClient();
+    const { data, error } = await supabase
+        .from("webhook_endpoints")
+        .select("secret_encrypted")
+        .eq("project_id", projectId)
+        .eq("id", endpointId)
+        .maybeSingle();
+
+    if (error || !data?.secret_encrypted) return { ok: false, error: "Webhook endpoint not found." };
+    try {
+        return { ok: true, data: decryptSecret(data.secret_encrypted) };
+    } catch {
+        return { ok: false, error: "Failed to decrypt webhook secret." };
+    }
+}
+
+/**
+ * Record one delivery per enabled endpoint (or only the given ones) and return their ids. The
+ * deliveries are due immediately; attempting them is up to the caller. Deliveries are written with
+ * the service role only: callers have already authorized the change or the admin action.
+ */
+async function enqueueWebhookEvent(event: WebhookEvent, endpointIds?: string[]) {
+    const supabase = createSupabaseServiceClient();
+    let query = supabase
+        .from("webhook_endpoints")
+        .select("id")
+        .eq("project_id", event.project_id)
+        .eq("enabled", true);
+    if (endpointIds) query = query.in("id", endpointIds);
+
+    const { data: endpoints, error } = await query;
+    if (error || !endpoints?.length) return [];
+
+    const now = new Date().toISOString();
+    const { data: deliveries, error: insertError } = await supabase
+        .from("webhook_deliveries")
+        .insert(
+            endpoints.map((endpoint) => ({
+                project_id: event.project_id,
+                endpoint_id: endpoint.id,
+                event_id: event.id,
+                event_type: event.type,
+                payload: event,
+                status: "pending",
+                next_attempt_at: now,
+                created_at: now,
+            }))
+        )
+        .select("id");
+
+    if (insertError) {
+        console.error("Failed to enqueue webhook deliveries", insertError);
+        return [];
+    }
+    return (deliveries ?? []).map((delivery) => delivery.id as string);
+}
+
+/**
+ * Deliver an event to every enabled endpoint of its project once the current response has been
+ * sent, so neither a slow receiver nor a failed enqueue affects the change that caused the event.
+ * Failed attempts are picked up by `retryDueWebhookDeliveries`.
+ */
+export function emitWebhookEvent(event: WebhookEvent) {
+    try {
+        after(async () => {
+            try {
+                const deliveryIds = await enqueueWebhookEvent(event);
+                for (const deliveryId of deliveryIds) await attemptWebhookDelivery(deliveryId);
+            } catch (error) {
+                console.error("Failed to deliver webhook event", error);
+            }
+        });
+    } catch (error) {
+        console.error("Failed to emit webhook event", error);
+    }
+}
+
+/** Send a `webhook.test` event to one endpoint and wait for the outcome. */
+export async function sendTestWebhookEvent(
+    projectId: string,
+    endpointId: string,
+    actorUserId: string
+): Promise<WebhookResult<WebhookDeliveryRecord>> {
+    const event = buildWebhookEvent({
+        projectId,
+        type: "webhook.test",
+        entityType: "webhook",
+        entityId: endpointId,
+        action: "test",
+        actorUserId,
+        metadata: { message: "This is a test event." },
+    });
+
+    const [deliveryId] = await enqueueWebhookEvent(event, [endpointId]);
+    if (!deliveryId) return { ok: false, error: "Webhook endpoint not found or disabled." };
+
+    return attemptWebhookDelivery(deliveryId);
+}
+
+/** Make a failed or pending delivery due again and attempt it right away. */
+export async function redeliverWebhook(projectId: string, deliveryId: string): Promise<WebhookResult<WebhookDeliveryRecord>> {
+    const supabase = createSupabaseServiceClient();
+    const { data, error } = await supabase
+        .from("webhook_deliveries")
+        .update({ status: "pending", next_attempt_at: new Date().toISOString() })
+        .eq("project_id", projectId)
+        .eq("id", deliveryId)
+        .neq("status", "succeeded")
+        .select("id")
+        .maybeSingle();
+
+    if (error) return { ok: false, error: "Failed to redeliver webhook." };
+    if (!data) return { ok: false, error: "Delivery not found or already delivered." };
+
+    return attemptWebhookDelivery(deliveryId);
+}
+
+/**
+ * Attempt due retries across all projects, a batch at a time, and return how many were attempted.
+ * Run by the `/api/cron/webhooks` route, which a scheduler calls every minute.
+ */
+export async function retryDueWebhookDeliveries() {
+    const supabase = createSupabaseServiceClient();
+    const { data, error } = await supabase
+        .from("webhook_deliveries")
+        .select("id")
+        .eq("status", "pending")
+        .lte("next_attempt_at", new Date().toISOString())
+        .order("next_attempt_at", { ascending: true })
+        .limit(RETRY_BATCH_SIZE);
+
+    if (error) {
+        console.error("Failed to load due webhook deliveries", error);
+        return 0;
+    }
+    const deliveries = data ?? [];
+    await Promise.all(deliveries.map((delivery) => attemptWebhookDelivery(delivery.id as string)));
+    return deliveries.length;
+}
+
+/**
+ * Claim a due delivery, POST it and record the outcome. The claim moves `next_attempt_at` past the
+ * lease, so concurrent sweeps never send the same attempt twice. Non-2xx responses, timeouts and
+ * network errors are retried with exponential backoff until `MAX_WEBHOOK_ATTEMPTS` is reached.
+ */
+async function attemptWebhookDelivery(deliveryId: string): Promise<WebhookResult<WebhookDeliveryRecord>> {
+    const supabase = createSupabaseServiceClient();
+    const now = Date.now();
+
+    const { data: claimed, error: claimError } = await supabase
+        .from("webhook_deliveries")
+        .update({ next_attempt_at: new Date(now + CLAIM_LEASE_MS).toISOString() })
+        .eq("id", deliveryId)
+        .eq("status", "pending")
+        .lte("next_attempt_at", new Date(now).toISOString())
+        .select("id, project_id, endpoint_id, event_id, event_type, payload, attempt_count")
+        .maybeSingle();
+
+    if (claimError) return { ok: false, error: "Failed to load webhook delivery." };
+    if (!claimed) return { ok: false, error: "Delivery is not due or already being sent." };
+
+    const { data: endpoint } = await supabase
+        .from("webhook_endpoints")
+        .select("url, enabled, secret_encrypted")
+        .eq("id", claimed.endpoint_id)
+        .maybeSingle();
+    let secret: string | null = null;
+    try {
+        secret = endpoint?.secret_encrypted ? decryptSecret(endpoint.secret_encrypted) : null;
+    } catch {
+        secret = null;
+    }
+    const urlError = endpoint ? validateWebhookUrl(endpoint.url) : null;
+
+    const attemptCount = (claimed.attempt_count ?? 0) + 1;
+    let responseStatus: number | null = null;
+    let failure: string | null = null;
+    // Missing or disabled endpoints and blocked destinations will not recover by retrying.
+    let permanent = false;
+
+    if (!endpoint || !secret) {
+        failure = "Webhook endpoint not found.";
+        permanent = true;
+    } else if (!endpoint.enabled) {
+        failure = "Webhook endpoint is disabled.";
+        permanent = true;
+    } else if (urlError) {
+        failure = urlError;
+        permanent = true;
+    } else {
+        const body = JSON.stringify(claimed.payload);
+        const timestamp = Math.floor(Date.now() / 1000);
+        try {
+            responseStatus = await postWebhook(
+                endpoint.url,
+                {
+                    "Content-Type": "application/json",
+                    "User-Agent": "access-dashboard-webhooks",
+                    "X-Webhook-Id": claimed.event_id,
+                    "X-Webhook-Event": claimed.event_type,
+                    "X-Webhook-Timestamp": String(timestamp),
+                    "X-Webhook-Signature": `v1=${signWebhookPayload(secret, timestamp, body)}`,
+                },
+                body
+            );
+            if (responseStatus < 200 || responseStatus > 299) failure = `Receiver responded with ${responseStatus}.`;
+        } catch (error) {
+            permanent = error instanceof BlockedDestinationError;
+            failure =
+                error instanceof BlockedDestinationError
+                    ? error.message
+                    : error instanceof Error && error.name === "TimeoutError"
+                      ? `No response within ${DELIVERY_TIMEOUT_MS / 1000} seconds.`
+                      : `Request failed: ${error instanceof Error ? error.message : "unknown error"}`;
+        }
+    }
+
+    const attemptedAt = new Date().toISOString();
+    const outcome =
+        failure === null
+            ? { status: "succeeded", next_attempt_at: null, delivered_at: attemptedAt }
+            : permanent || attemptCount >= MAX_WEBHOOK_ATTEMPTS
+              ? { status: "failed", next_attempt_at: null }
+              : {
+                    status: "pending",
+                    next_attempt_at: new Date(Date.now() + getWebhookRetryDelayMs(attemptCount)).toISOString(),
+                };
+
+    const { data: updated, error: updateError } = await supabase
+        .from("webhook_deliveries")
+        .update({
+            ...outcome,
+            attempt_count: attemptCount,
+            last_attempt_at: attemptedAt,
+            last_response_status: responseStatus,
+            last_error: failure ? failure.slice(0, MAX_ERROR_LENGTH) : null,
+        })
+        .eq("id", deliveryId)
+        .select(DELIVERY_COLUMNS)
+        .single();
+
+    if (updateError || !updated) {
+        console.error("Failed to record webhook delivery", updateError);
+        return { ok: false, error: "Failed to record webhook delivery." };
+    }
+    return { ok: true, data: updated as WebhookDeliveryRecord };
+}
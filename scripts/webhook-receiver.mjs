@@ -0,0 +1,55 @@
+// Local webhook receiver for development. Verifies the signature of every request, prints the event
+// and answers with WEBHOOK_RESPONSE_STATUS (default 200), so failures and retries can be tried too.
+//
+//   WEBHOOK_SECRET=whsec_... node scripts/webhook-receiver.mjs
+//
+// Then start the app with WEBHOOK_ALLOW_PRIVATE_URLS=true and add http://localhost:4000/webhooks as
+// an endpoint in the project's Settings tab.
+
+import crypto from "node:crypto";
+import http from "node:http";
+
+const port = Number(process.env.PORT ?? 4000);
+const secret = process.env.WEBHOOK_SECRET ?? "";
+const responseStatus = Number(process.env.WEBHOOK_RESPONSE_STATUS ?? 200);
+// Reject requests signed longer ago than this to prevent replays.
+const toleranceSeconds = 5 * 60;
+
+function verify(body, timestampHeader, signatureHeader) {
+    if (!secret) return "WEBHOOK_SECRET is not set; skipping verification";
+    const timestamp = Number(timestampHeader);
+    if (!Number.isInteger(timestamp) || Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds) {
+        return "stale or missing timestamp";
+    }
+    const expected = crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+    const received = String(signatureHeader ?? "").replace(/^v1=/, "");
+    const valid =
+        received.length === expected.length &&
+        crypto.timingSafeEqual(Buffer.from(received, "utf8"), Buffer.from(expected, "utf8"));
+    return valid ? null : "signature mismatch";
+}
+
+http.createServer((request, response) => {
+    const chunks = [];
+    request.on("data", (chunk) => chunks.push(chunk));
+    request.on("end", () => {
+        const body = Buffer.concat(chunks).toString("utf8");
+        const problem = verify(body, request.headers["x-webhook-timestamp"], request.headers["x-webhook-signature"]);
+        const rejected = problem !== null && Boolean(secret);
+
+        console.log(
+            `${new Date().toISOString()} ${request.headers["x-webhook-event"] ?? "?"} ${request.headers["x-webhook-id"] ?? ""}`
+        );
+        if (problem) console.log(`  ${problem}`);
+        try {
+            console.log(JSON.stringify(JSON.parse(body), null, 2));
+        } catch {
+            console.log(body);
+        }
+
+        response.writeHead(rejected ? 401 : responseStatus, { "Content-Type": "application/json" });
+        response.end(JSON.stringify({ received: !rejected }));
+    });
+}).listen(port, () => {
+    console.log(`Listening on http://localhost:${port}/webhooks`);
+});
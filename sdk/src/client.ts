@@ -0,0 +1,490 @@
+import { MAX_CONTEXT_BYTES } from "./conditions";
+import { AccessApiError, createApiError, NetworkError, RateLimitError, TimeoutError } from "./errors";
+import { evaluateAccess, getSnapshotGrants, parseResourceScope } from "./policy";
+import type {
+    AccessCheckBatchRequest,
+    AccessCheckBatchResponse,
+    AccessCheckExplainResponse,
+    AccessCheckRequest,
+    AccessDecision,
+    AccessRequest,
+    ApiErrorBody,
+    FileAccessRequestRequest,
+    PolicySnapshot,
+    ReplaceUserRolesRequest,
+    UserRoleSyncResponse,
+    UserRolesResponse,
+} from "./types";
+
+export type AccessClientOptions = {
+    /** Project API key, sent as `Authorization: Bearer <apiKey>`. */
+    apiKey: string;
+    projectSlug: string;
+    /** Origin of the dashboard deployment, e.g. `https://access.example.com`. */
+    baseUrl: string;
+    /** Per attempt; defaults to 5000. */
+    timeoutMs?: number;
+    /** Extra attempts after a retryable failure; defaults to 2. */
+    maxRetries?: number;
+    /** First backoff delay, doubled on every retry; defaults to 250. */
+    retryDelayMs?: number;
+    /** Defaults to the global `fetch`. */
+    fetch?: typeof fetch;
+    /**
+     * Answer `check` and `checkMany` from a cached policy snapshot instead of calling the API.
+     * Checks with `explain: true` still go to the API.
+     */
+    localEvaluation?: LocalEvaluationOptions;
+};
+
+export type LocalEvaluationOptions = {
+    /** How long a snapshot is used before it is revalidated with `If-None-Match`; defaults to 30000. */
+    refreshIntervalMs?: number;
+    /** How long the last snapshot keeps answering while revalidation fails; defaults to 300000. */
+    maxStaleMs?: number;
+    /** Fetch one snapshot per user instead of one for all users, for projects with many assignments. */
+    perUser?: boolean;
+};
+
+export type RequestOptions = {
+    signal?: AbortSignal;
+};
+
+type SendOptions = RequestOptions & {
+    method: "GET" | "POST" | "PUT" | "DELETE";
+    path: string;
+    body?: unknown;
+    headers?: Record<string, string>;
+    /** Resolve a `304 Not Modified` response to null instead of throwing. */
+    allowNotModified?: boolean;
+    /**
+     * Whether the request may run twice. Non-idempotent requests are only retried on 429,
+     * which the API returns before doing any work.
+     */
+    idempotent: boolean;
+};
+
+const DEFAULT_TIMEOUT_MS = 5000;
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 250;
+const MAX_RETRY_DELAY_MS = 10_000;
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+const DEFAULT_REFRESH_INTERVAL_MS = 30_000;
+const DEFAULT_MAX_STALE_MS = 300_000;
+const MAX_CACHED_SNAPSHOTS = 1000;
+const MAX_BATCH_SIZE = 100;
+
+type CachedSnapshot = {
+    snapshot: PolicySnapshot;
+    /** When the API last confirmed this snapshot. */
+    validatedAt: number;
+    /** When to revalidate next; pushed back after a failed attempt so an outage is not retried on every check. */
+    refreshAt: number;
+};
+
+type PendingSnapshot = {
+    promise: Promise<PolicySnapshot>;
+    controller: AbortController;
+    /** Checks still waiting; the fetch is aborted once every one of them has been. */
+    waiters: number;
+};
+
+function sleep(ms: number, signal?: AbortSignal) {
+    return new Promise<void>((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+        const timer = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal?.reason);
+        };
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
+}
+
+/** Errors raised by local evaluation look like the ones the API would have returned. */
+function localError(status: number, error: string) {
+    return createApiError(status, { ok: false, error }, null);
+}
+
+function readRetryAfter(headers: Headers) {
+    const value = Number(headers.get("Retry-After"));
+    return Number.isFinite(value) && value >= 0 ? value : null;
+}
+
+async function readErrorBody(response: Response): Promise<ApiErrorBody | null> {
+    try {
+        const body = (await response.json()) as Partial<ApiErrorBody> | null;
+        return body && typeof body.error === "string" ? { ok: false, error: body.error } : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Typed client for the `/v1` API of one project. Failed calls throw an `AccessError` subclass;
+ * API errors carry the HTTP status and the server's `{ ok: false, error }` body.
+ */
+export class AccessClient {
+    private readonly apiKey: string;
+    private readonly projectUrl: string;
+    private readonly timeoutMs: number;
+    private readonly maxRetries: number;
+    private readonly retryDelayMs: number;
+    private readonly fetchImpl: typeof fetch;
+    private readonly local: Required<LocalEvaluationOptions> | null;
+    /** Keyed by user id in `perUser` mode, otherwise a single entry under "". */
+    private readonly snapshots = new Map<string, CachedSnapshot>();
+    private readonly pendingSnapshots = new Map<string, PendingSnapshot>();
+
+    constructor(options: AccessClientOptions) {
+        if (!options.apiKey) throw new TypeError("apiKey is required.");
+        if (!options.projectSlug) throw new TypeError("projectSlug is required.");
+        if (!options.baseUrl) throw new TypeError("baseUrl is required.");
+
+        this.apiKey = options.apiKey;
+        this.projectUrl = `${options.baseUrl.replace(/\/+$/, "")}/v1/projects/${encodeURIComponent(options.projectSlug)}`;
+        this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+        this.maxRetries = Math.max(0, options.maxRetries ?? DEFAULT_MAX_RETRIES);
+        this.retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+        this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
+        this.local = options.localEvaluation
+            ? {
+                  refreshIntervalMs: options.localEvaluation.refreshIntervalMs ?? DEFAULT_REFRESH_INTERVAL_MS,
+                  maxStaleMs: options.localEvaluation.maxStaleMs ?? DEFAULT_MAX_STALE_MS,
+                  perUser: options.localEvaluation.perUser ?? false,
+              }
+            : null;
+    }
+
+    /** Check one permission. With `explain: true` the response also carries the decision trace. */
+    check(request: AccessCheckRequest & { explain: true }, options?: RequestOptions): Promise<AccessCheckExplainResponse>;
+    check(request: AccessCheckRequest, options?: RequestOptions): Promise<AccessDecision>;
+    async check(request: AccessCheckRequest, options?: RequestOptions) {
+        if (this.local && !request.explain) {
+            const resource = typeof request.resource === "string" ? request.resource.trim() : "";
+            if (!resource) throw localError(400, "resource is required.");
+            const decisions = await this.checkLocally(request, [resource], options?.signal);
+            return decisions[resource];
+        }
+        return this.send<AccessDecision | AccessCheckExplainResponse>({
+            ...options,
+            method: "POST",
+            path: "/access/check",
+            body: request,
+            idempotent: true,
+        });
+    }
+
+    /** Check up to 100 permissions for the same user in one call, keyed by permission slug. */
+    async checkMany(
+        request: AccessCheckBatchRequest,
+        options?: RequestOptions
+    ): Promise<Record<string, AccessDecision>> {
+        if (this.local) {
+            const resources = Array.from(
+                new Set((Array.isArray(request.resources) ? request.resources : []).map((slug) => String(slug).trim()))
+            ).filter(Boolean);
+            if (resources.length === 0) {
+                throw localError(400, "resources must be a non-empty array of permission slugs.");
+            }
+            if (resources.length > MAX_BATCH_SIZE) {
+                throw localError(400, `resources cannot contain more than ${MAX_BATCH_SIZE} entries.`);
+            }
+            return this.checkLocally(request, resources, options?.signal);
+        }
+        const response = await this.send<AccessCheckBatchResponse>({
+            ...options,
+            method: "POST",
+            path: "/access/check-batch",
+            body: request,
+            idempotent: true,
+        });
+        return response.decisions;
+    }
+
+    /** The user's active project-wide roles. Requires the `assignments:read` scope. */
+    listUserRoles(userId: string, options?: RequestOptions): Promise<UserRolesResponse> {
+        return this.send<UserRolesResponse>({
+            ...options,
+            method: "GET",
+            path: `/users/${encodeURIComponent(userId)}/roles`,
+            idempotent: true,
+        });
+    }
+
+    /** Replace the user's project-wide roles with exactly `roles`. Requires `assignments:write`. */
+    setUserRoles(userId: string, roles: string[], options?: RequestOptions): Promise<UserRoleSyncResponse> {
+        const body: ReplaceUserRolesRequest = { roles };
+        return this.send<UserRoleSyncResponse>({
+            ...options,
+            method: "PUT",
+            path: `/users/${encodeURIComponent(userId)}/roles`,
+            body,
+            idempotent: true,
+        });
+    }
+
+    /** Grant one role project-wide; granting a role the user already has is a no-op. */
+    grantRole(userId: string, roleSlug: string, options?: RequestOptions): Promise<UserRoleSyncResponse> {
+        return this.send<UserRoleSyncResponse>({
+            ...options,
+            method: "PUT",
+            path: `/users/${encodeURIComponent(userId)}/roles/${encodeURIComponent(roleSlug)}`,
+            idempotent: true,
+        });
+    }
+
+    /** Revoke one project-wide role; revoking a role the user does not have is a no-op. */
+    revokeRole(userId: string, roleSlug: string, options?: RequestOptions): Promise<UserRoleSyncResponse> {
+        return this.send<UserRoleSyncResponse>({
+            ...options,
+            method: "DELETE",
+            path: `/users/${encodeURIComponent(userId)}/roles/${encodeURIComponent(roleSlug)}`,
+            idempotent: true,
+        });
+    }
+
+    /** File a just-in-time access request for approval. Requires the `requests:write` scope. */
+    requestAccess(request: FileAccessRequestRequest, options?: RequestOptions): Promise<AccessRequest> {
+        return this.send<AccessRequest>({
+            ...options,
+            method: "POST",
+            path: "/access-requests",
+            body: request,
+            idempotent: false,
+        });
+    }
+
+    /**
+     * Fetch the policy snapshot for all users, or for one with `userId`. Returns null when the
+     * policy still matches `ifNoneMatch` (a previous snapshot's `version`). Requires `config:read`.
+     */
+    getPolicySnapshot(
+        options?: RequestOptions & { userId?: string; ifNoneMatch?: string }
+    ): Promise<PolicySnapshot | null> {
+        const query = options?.userId ? `?user_id=${encodeURIComponent(options.userId)}` : "";
+        return this.send<PolicySnapshot | null>({
+            signal: options?.signal,
+            method: "GET",
+            path: `/policy${query}`,
+            headers: options?.ifNoneMatch ? { "If-None-Match": `"${options.ifNoneMatch}"` } : undefined,
+            allowNotModified: true,
+            idempotent: true,
+        });
+    }
+
+    /** Drop cached snapshots so the next local check fetches a fresh one. */
+    clearPolicyCache() {
+        this.snapshots.clear();
+    }
+
+    /**
+     * Validate a check the way the API does, then decide it from the snapshot with the same rules
+     * the server uses. Assignment windows are compared against the current time on every check.
+     */
+    private async checkLocally(
+        request: AccessCheckRequest | AccessCheckBatchRequest,
+        permissionSlugs: string[],
+        signal?: AbortSignal
+    ): Promise<Record<string, AccessDecision>> {
+        signal?.throwIfAborted();
+        const userId = typeof request.user_id === "string" ? request.user_id.trim() : "";
+        if (!userId) throw localError(400, "user_id is required.");
+
+        const context = request.context ?? null;
+        if (context !== null && (typeof context !== "object" || Array.isArray(context))) {
+            throw localError(400, "context must be a JSON object.");
+        }
+        if (context && JSON.stringify(context).length > MAX_CONTEXT_BYTES) {
+            throw localError(400, `context cannot be larger than ${MAX_CONTEXT_BYTES} bytes.`);
+        }
+        const scope = parseResourceScope(request.resource_type, request.resource_id);
+        if (!scope.ok) throw localError(400, scope.error);
+
+        const snapshot = await this.getCachedSnapshot(userId, signal);
+        signal?.throwIfAborted();
+
+        if (snapshot.permission_allow_list) {
+            const allowed = new Set(snapshot.permission_allow_list);
+            const blocked = permissionSlugs.filter((slug) => !allowed.has(slug));
+            if (blocked.length > 0) {
+                throw localError(403, `API key is not allowed to evaluate: ${blocked.join(", ")}.`);
+            }
+        }
+
+        const grants = getSnapshotGrants(snapshot, userId, scope.scope);
+        const permissionBySlug = new Map(snapshot.permissions.map((permission) => [permission.slug, permission]));
+        const roleSlug = typeof request.role === "string" ? request.role.trim() || null : null;
+
+        const decisions: Record<string, AccessDecision> = {};
+        for (const slug of permissionSlugs) {
+            const permission = permissionBySlug.get(slug);
+            decisions[slug] = evaluateAccess(
+                grants,
+                permission ? { id: permission.slug, enabled: permission.enabled } : null,
+                roleSlug,
+                context
+            );
+        }
+        return decisions;
+    }
+
+    /**
+     * Concurrent checks share one revalidation per snapshot. A check whose signal aborts stops
+     * waiting for it, and the fetch itself is aborted once no check is waiting any more.
+     */
+    private getCachedSnapshot(userId: string, signal?: AbortSignal): Promise<PolicySnapshot> {
+        const key = this.local!.perUser ? userId : "";
+        const cached = this.snapshots.get(key);
+        if (cached && Date.now() < cached.refreshAt) return Promise.resolve(cached.snapshot);
+
+        let pending = this.pendingSnapshots.get(key);
+        if (!pending) {
+            const controller = new AbortController();
+            const entry: PendingSnapshot = {
+                promise: this.revalidateSnapshot(key, cached, controller.signal).finally(() => {
+                    if (this.pendingSnapshots.get(key) === entry) this.pendingSnapshots.delete(key);
+                }),
+                controller,
+                waiters: 0,
+            };
+            pending = entry;
+            this.pendingSnapshots.set(key, pending);
+        }
+
+        const shared = pending;
+        shared.waiters += 1;
+        if (!signal) return shared.promise;
+        return new Promise<PolicySnapshot>((resolve, reject) => {
+            const onAbort = () => {
+                shared.waiters -= 1;
+                if (shared.waiters === 0) shared.controller.abort(signal.reason);
+                reject(signal.reason);
+            };
+            signal.addEventListener("abort", onAbort, { once: true });
+            shared.promise
+                .then(resolve, reject)
+                .finally(() => signal.removeEventListener("abort", onAbort));
+        });
+    }
+
+    private async revalidateSnapshot(
+        key: string,
+        cached: CachedSnapshot | undefined,
+        signal: AbortSignal
+    ): Promise<PolicySnapshot> {
+        const { refreshIntervalMs, maxStaleMs } = this.local!;
+        let next: PolicySnapshot | null;
+        try {
+            next = await this.getPolicySnapshot({
+                userId: key || undefined,
+                ifNoneMatch: cached?.snapshot.version,
+                signal,
+            });
+        } catch (error) {
+            // Nobody is waiting any more; this is not an outage.
+            if (signal.aborted) throw error;
+            // Keep answering from the last snapshot through short outages, but not indefinitely.
+            if (!cached || Date.now() - cached.validatedAt >= maxStaleMs) throw error;
+            cached.refreshAt = Date.now() + refreshIntervalMs;
+            return cached.snapshot;
+        }
+
+        const snapshot = next ?? cached!.snapshot;
+        const now = Date.now();
+        this.snapshots.delete(key);
+        this.snapshots.set(key, { snapshot, validatedAt: now, refreshAt: now + refreshIntervalMs });
+        if (this.snapshots.size > MAX_CACHED_SNAPSHOTS) {
+            this.snapshots.delete(this.snapshots.keys().next().value!);
+        }
+        return snapshot;
+    }
+
+    private async send<T>({
+        method,
+        path,
+        body,
+        headers,
+        allowNotModified,
+        idempotent,
+        signal,
+    }: SendOptions): Promise<T> {
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return await this.attempt<T>(method, path, body, headers, allowNotModified, signal);
+            } catch (error) {
+                const canRetry =
+                    attempt < this.maxRetries &&
+                    !signal?.aborted &&
+                    (error instanceof AccessApiError
+                        ? RETRYABLE_STATUSES.has(error.status) && (idempotent || error.status === 429)
+                        : idempotent && (error instanceof TimeoutError || error instanceof NetworkError));
+                if (!canRetry) throw error;
+
+                const backoff = Math.min(this.retryDelayMs * 2 ** attempt, MAX_RETRY_DELAY_MS);
+                const retryAfter = error instanceof RateLimitError ? error.retryAfterSeconds : null;
+                // Full jitter keeps clients that failed together from retrying together.
+                await sleep(retryAfter !== null ? retryAfter * 1000 : Math.random() * backoff, signal);
+            }
+        }
+    }
+
+    private async attempt<T>(
+        method: string,
+        path: string,
+        body: unknown,
+        headers: Record<string, string> | undefined,
+        allowNotModified: boolean | undefined,
+        signal?: AbortSignal
+    ): Promise<T> {
+        const controller = new AbortController();
+        const onAbort = () => controller.abort(signal?.reason);
+        signal?.addEventListener("abort", onAbort, { once: true });
+        let timedOut = false;
+        const timer = setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+        }, this.timeoutMs);
+
+        try {
+            let response: Response;
+            try {
+                response = await this.fetchImpl(`${this.projectUrl}${path}`, {
+                    method,
+                    headers: {
+                        Authorization: `Bearer ${this.apiKey}`,
+                        ...(body !== undefined ? { "Content-Type": "application/json" } : {}),
+                        ...headers,
+                    },
+                    body: body !== undefined ? JSON.stringify(body) : undefined,
+                    signal: controller.signal,
+                });
+            } catch (error) {
+                if (timedOut) throw new TimeoutError(`No response within ${this.timeoutMs} ms.`);
+                if (signal?.aborted) throw error;
+                throw new NetworkError("Failed to reach the access API.", { cause: error });
+            }
+
+            if (response.status === 304 && allowNotModified) return null as T;
+            if (!response.ok) {
+                throw createApiError(response.status, await readErrorBody(response), readRetryAfter(response.headers));
+            }
+
+            try {
+                return (await response.json()) as T;
+            } catch (error) {
+                if (timedOut) throw new TimeoutError(`No response within ${this.timeoutMs} ms.`);
+                throw new NetworkError("The access API returned an unreadable response.", { cause: error });
+            }
+        } finally {
+            clearTimeout(timer);
+            signal?.removeEventListener("abort", onAbort);
+        }
+    }
+}
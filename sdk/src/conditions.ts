@@ -0,0 +1,357 @@
+/**
+ * Attribute conditions on role permissions, e.g. `amount < 10000` or
+ * `resource.tenant_id == user.tenant_id`. Conditions are parsed into a small AST and evaluated
+ * against the `context` object of an access check; nothing is ever passed to `eval` or `Function`,
+ * and lookups only read own properties of plain objects and arrays.
+ *
+ * Supported syntax: number, string (single or double quotes), `true`, `false` and `null` literals,
+ * dotted context paths, `[a, b]` lists, `== != < <= > >=`, `in`, `&&`, `||`, `!` and parentheses.
+ * A comparison that reads a key missing from the context, orders values of different types
+ * (`"50000" >= 10000`, `null < 1`) or uses `in` without a list is unknown rather than false, as is a
+ * non-boolean value used as a condition, and unknown stays unknown through `!`
+ * (`!(amount >= 10000)` with `{}` is unknown, not true). `&&` and `||` only
+ * settle an unknown side when the other side decides the result on its own, and a condition that is
+ * still unknown at the top fails, so a condition never passes because the caller left something out.
+ */
+
+export const MAX_CONDITION_LENGTH = 500;
+export const MAX_CONTEXT_BYTES = 8192;
+const MAX_CONDITION_DEPTH = 32;
+
+export type ConditionContext = Record<string, unknown>;
+
+type Literal = string | number | boolean | null;
+type CompareOperator = "==" | "!=" | "<" | "<=" | ">" | ">=" | "in";
+
+export type ConditionNode =
+    | { type: "literal"; value: Literal }
+    | { type: "path"; path: string[] }
+    | { type: "list"; items: ConditionNode[] }
+    | { type: "not"; operand: ConditionNode }
+    | { type: "logical"; operator: "&&" | "||"; left: ConditionNode; right: ConditionNode }
+    | { type: "compare"; operator: CompareOperator; left: ConditionNode; right: ConditionNode };
+
+type Token =
+    | { kind: "number"; value: number; position: number }
+    | { kind: "string"; value: string; position: number }
+    | { kind: "identifier"; value: string; position: number }
+    | { kind: "operator"; value: string; position: number }
+    | { kind: "end"; position: number };
+
+const OPERATORS = ["==", "!=", "<=", ">=", "&&", "||", "<", ">", "!", "(", ")", "[", "]", ",", "."];
+const FORBIDDEN_KEYS = new Set(["__proto__", "prototype", "constructor"]);
+const MISSING = Symbol("missing");
+
+class ConditionSyntaxError extends Error {}
+
+function tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    let index = 0;
+
+    while (index < source.length) {
+        const char = source[index];
+
+        if (/\s/.test(char)) {
+            index += 1;
+            continue;
+        }
+
+        if (/[0-9]/.test(char) || (char === "-" && /[0-9]/.test(source[index + 1] ?? ""))) {
+            const match = /^-?\d+(\.\d+)?/.exec(source.slice(index))!;
+            tokens.push({ kind: "number", value: Number(match[0]), position: index });
+            index += match[0].length;
+            continue;
+        }
+
+        if (char === "\"" || char === "'") {
+            let value = "";
+            let cursor = index + 1;
+            while (cursor < source.length && source[cursor] !== char) {
+                if (source[cursor] === "\\" && cursor + 1 < source.length) cursor += 1;
+                value += source[cursor];
+                cursor += 1;
+            }
+            if (cursor >= source.length) throw new ConditionSyntaxError(`Unterminated string at position ${index + 1}.`);
+            tokens.push({ kind: "string", value, position: index });
+            index = cursor + 1;
+            continue;
+        }
+
+        if (/[A-Za-z_]/.test(char)) {
+            const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(index))!;
+            tokens.push({ kind: "identifier", value: match[0], position: index });
+            index += match[0].length;
+            continue;
+        }
+
+        const operator = OPERATORS.find((candidate) => source.startsWith(candidate, index));
+        if (!operator) throw new ConditionSyntaxError(`Unexpected character "${char}" at position ${index + 1}.`);
+        tokens.push({ kind: "operator", value: operator, position: index });
+        index += operator.length;
+    }
+
+    tokens.push({ kind: "end", position: source.length });
+    return tokens;
+}
+
+function parseTokens(tokens: Token[]): ConditionNode {
+    let index = 0;
+    let depth = 0;
+
+    const peek = () => tokens[index];
+    const isOperator = (value: string) => {
+        const token = peek();
+        return token.kind === "operator" && token.value === value;
+    };
+    const isKeyword = (value: string) => {
+        const token = peek();
+        return token.kind === "identifier" && token.value === value;
+    };
+    const describe = (token: Token) =>
+        token.kind === "end" ? "end of condition" : `"${String(token.value)}" at position ${token.position + 1}`;
+    const expect = (value: string) => {
+        if (!isOperator(value)) throw new ConditionSyntaxError(`Expected "${value}" but found ${describe(peek())}.`);
+        index += 1;
+    };
+    const nested = <T>(parse: () => T) => {
+        depth += 1;
+        if (depth > MAX_CONDITION_DEPTH) throw new ConditionSyntaxError("Condition is nested too deeply.");
+        try {
+            return parse();
+        } finally {
+            depth -= 1;
+        }
+    };
+
+    const parseOr = (): ConditionNode =>
+        nested(() => {
+            let left = parseAnd();
+            while (isOperator("||")) {
+                index += 1;
+                left = { type: "logical", operator: "||", left, right: parseAnd() };
+            }
+            return left;
+        });
+
+    const parseAnd = (): ConditionNode => {
+        let left = parseNot();
+        while (isOperator("&&")) {
+            index += 1;
+            left = { type: "logical", operator: "&&", left, right: parseNot() };
+        }
+        return left;
+    };
+
+    const parseNot = (): ConditionNode => {
+        if (isOperator("!")) {
+            index += 1;
+            return nested(() => ({ type: "not", operand: parseNot() }));
+        }
+        return parseComparison();
+    };
+
+    const parseComparison = (): ConditionNode => {
+        const left = parseOperand();
+        const token = peek();
+        if (token.kind === "operator" && ["==", "!=", "<", "<=", ">", ">="].includes(token.value)) {
+            index += 1;
+            return { type: "compare", operator: token.value as CompareOperator, left, right: parseOperand() };
+        }
+        if (isKeyword("in")) {
+            index += 1;
+            return { type: "compare", operator: "in", left, right: parseOperand() };
+        }
+        return left;
+    };
+
+    const parseOperand = (): ConditionNode => {
+        const token = peek();
+
+        if (token.kind === "number" || token.kind === "string") {
+            index += 1;
+            return { type: "literal", value: token.value };
+        }
+
+        if (token.kind === "identifier") {
+            if (token.value === "true" || token.value === "false") {
+                index += 1;
+                return { type: "literal", value: token.value === "true" };
+            }
+            if (token.value === "null") {
+                index += 1;
+                return { type: "literal", value: null };
+            }
+            if (token.value === "in") throw new ConditionSyntaxError(`Unexpected ${describe(token)}.`);
+
+            const path = [token.value];
+            index += 1;
+            while (isOperator(".")) {
+                index += 1;
+                const segment = peek();
+                if (segment.kind !== "identifier") {
+                    throw new ConditionSyntaxError(`Expected a key after "." but found ${describe(segment)}.`);
+                }
+                path.push(segment.value);
+                index += 1;
+            }
+            const forbidden = path.find((segment) => FORBIDDEN_KEYS.has(segment));
+            if (forbidden) throw new ConditionSyntaxError(`"${forbidden}" cannot be used as a context key.`);
+            return { type: "path", path };
+        }
+
+        if (isOperator("(")) {
+            index += 1;
+            const inner = parseOr();
+            expect(")");
+            return inner;
+        }
+
+        if (isOperator("[")) {
+            index += 1;
+            const items: ConditionNode[] = [];
+            while (!isOperator("]")) {
+                const item = parseOperand();
+                if (item.type !== "literal") throw new ConditionSyntaxError("Lists can only contain literal values.");
+                items.push(item);
+                if (!isOperator(",")) break;
+                index += 1;
+            }
+            expect("]");
+            return { type: "list", items };
+        }
+
+        throw new ConditionSyntaxError(`Unexpected ${describe(token)}.`);
+    };
+
+    const ast = parseOr();
+    if (peek().kind !== "end") throw new ConditionSyntaxError(`Unexpected ${describe(peek())}.`);
+    return ast;
+}
+
+export function parseCondition(
+    source: string
+): { ok: true; ast: ConditionNode } | { ok: false; error: string } {
+    const trimmed = (source ?? "").trim();
+    if (!trimmed) return { ok: false, error: "Condition is empty." };
+    if (trimmed.length > MAX_CONDITION_LENGTH) {
+        return { ok: false, error: `Condition cannot be longer than ${MAX_CONDITION_LENGTH} characters.` };
+    }
+
+    try {
+        return { ok: true, ast: parseTokens(tokenize(trimmed)) };
+    } catch (error) {
+        if (error instanceof ConditionSyntaxError) return { ok: false, error: error.message };
+        throw error;
+    }
+}
+
+function readPath(context: ConditionContext, path: string[]): unknown {
+    let current: unknown = context;
+    for (const segment of path) {
+        if (current === null || typeof current !== "object") return MISSING;
+        if (!Object.prototype.hasOwnProperty.call(current, segment)) return MISSING;
+        current = (current as Record<string, unknown>)[segment];
+    }
+    return current === undefined ? MISSING : current;
+}
+
+/** `null` is unknown: the result depends on a context key that is missing. */
+type Truth = boolean | null;
+
+function resolve(node: ConditionNode, context: ConditionContext): unknown {
+    switch (node.type) {
+        case "literal":
+            return node.value;
+        case "path":
+            return readPath(context, node.path);
+        case "list":
+            return node.items.map((item) => resolve(item, context));
+        default: {
+            const truth = evaluate(node, context);
+            return truth === null ? MISSING : truth;
+        }
+    }
+}
+
+function compare(operator: CompareOperator, left: unknown, right: unknown): Truth {
+    if (left === MISSING || right === MISSING) return null;
+
+    // A type mismatch says nothing about the value, so it is unknown as well; `false` here would
+    // turn into a pass under `!`.
+    if (operator === "in") {
+        return Array.isArray(right) ? right.some((item) => item === left) : null;
+    }
+    if (operator === "==") return left === right;
+    if (operator === "!=") return left !== right;
+
+    const comparable =
+        (typeof left === "number" && typeof right === "number") ||
+        (typeof left === "string" && typeof right === "string");
+    if (!comparable) return null;
+
+    const a = left as number | string;
+    const b = right as number | string;
+    if (operator === "<") return a < b;
+    if (operator === "<=") return a <= b;
+    if (operator === ">") return a > b;
+    return a >= b;
+}
+
+function evaluate(node: ConditionNode, context: ConditionContext): Truth {
+    switch (node.type) {
+        case "not": {
+            const operand = evaluate(node.operand, context);
+            return operand === null ? null : !operand;
+        }
+        case "logical": {
+            const left = evaluate(node.left, context);
+            const right = evaluate(node.right, context);
+            if (node.operator === "&&") {
+                if (left === false || right === false) return false;
+                return left === null || right === null ? null : true;
+            }
+            if (left === true || right === true) return true;
+            return left === null || right === null ? null : false;
+        }
+        case "compare":
+            return compare(node.operator, resolve(node.left, context), resolve(node.right, context));
+        default: {
+            const value = resolve(node, context);
+            return typeof value === "boolean" ? value : null;
+        }
+    }
+}
+
+/**
+ * Evaluate a parsed condition. A condition whose result depends on a missing context key, a
+ * non-boolean value used as a whole condition or a comparison between mismatched types fails.
+ */
+export function evaluateCondition(node: ConditionNode, context: ConditionContext): boolean {
+    return evaluate(node, context) === true;
+}
+
+/**
+ * Dotted context keys a condition reads, in order of first use.
+ */
+export function getConditionContextKeys(node: ConditionNode): string[] {
+    const keys = new Set<string>();
+    const visit = (current: ConditionNode) => {
+        if (current.type === "path") keys.add(current.path.join("."));
+        if (current.type === "list") current.items.forEach(visit);
+        if (current.type === "not") visit(current.operand);
+        if (current.type === "logical" || current.type === "compare") {
+            visit(current.left);
+            visit(current.right);
+        }
+    };
+    visit(node);
+    return Array.from(keys);
+}
+
+/**
+ * Context keys a condition reads that are missing from `context`. Such comparisons are unknown, so
+ * this is usually the first thing to check when a condition unexpectedly fails.
+ */
+export function getMissingContextKeys(node: ConditionNode, context: ConditionContext): string[] {
+    return getConditionContextKeys(node).filter((key) => readPath(context, key.split(".")) === MISSING);
+}
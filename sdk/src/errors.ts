@@ -0,0 +1,81 @@
+import type { ApiErrorBody } from "./types";
+
+/** Base class of every error the client throws. */
+export class AccessError extends Error {
+    constructor(message: string, options?: { cause?: unknown }) {
+        super(message);
+        this.name = new.target.name;
+        if (options?.cause !== undefined) (this as { cause?: unknown }).cause = options.cause;
+    }
+}
+
+/** The API answered with `{ ok: false, error }`; `message` is the server's `error`. */
+export class AccessApiError extends AccessError {
+    readonly status: number;
+    readonly body: ApiErrorBody | null;
+
+    constructor(status: number, message: string, body: ApiErrorBody | null) {
+        super(message);
+        this.status = status;
+        this.body = body;
+    }
+}
+
+/** 400: the request body was rejected, e.g. a missing `user_id` or an oversized `context`. */
+export class ValidationError extends AccessApiError {}
+
+/** 401: the API key is unknown, revoked or expired. */
+export class AuthenticationError extends AccessApiError {}
+
+/** 403: the key lacks the scope or permission slug, or the caller's IP is not allowed. */
+export class ForbiddenError extends AccessApiError {}
+
+/** 404: the project, user, role or permission slug does not exist. */
+export class NotFoundError extends AccessApiError {}
+
+/** 409: the change conflicts with existing state, e.g. a duplicate pending access request. */
+export class ConflictError extends AccessApiError {}
+
+/** 429: the key's rate limit is exhausted. */
+export class RateLimitError extends AccessApiError {
+    /** Seconds until the limit resets, from the `Retry-After` header. */
+    readonly retryAfterSeconds: number | null;
+
+    constructor(status: number, message: string, body: ApiErrorBody | null, retryAfterSeconds: number | null) {
+        super(status, message, body);
+        this.retryAfterSeconds = retryAfterSeconds;
+    }
+}
+
+/** 5xx: the server failed to handle the request. */
+export class ServerError extends AccessApiError {}
+
+/** No response arrived within the client's `timeoutMs`. */
+export class TimeoutError extends AccessError {}
+
+/** The request could not be sent or the response could not be read. */
+export class NetworkError extends AccessError {}
+
+export function createApiError(
+    status: number,
+    body: ApiErrorBody | null,
+    retryAfterSeconds: number | null
+): AccessApiError {
+    const message = body?.error ?? `Request failed with status ${status}.`;
+    switch (status) {
+        case 400:
+            return new ValidationError(status, message, body);
+        case 401:
+            return new AuthenticationError(status, message, body);
+        case 403:
+            return new ForbiddenError(status, message, body);
+        case 404:
+            return new NotFoundError(status, message, body);
+        case 409:
+            return new ConflictError(status, message, body);
+        case 429:
+            return new RateLimitError(status, message, body, retryAfterSeconds);
+        default:
+            return status >= 500 ? new ServerError(status, message, body) : new AccessApiError(status, message, body);
+    }
+}
@@ -0,0 +1,145 @@
+import type { AccessClient } from "./client";
+import type { AccessCheckContext, AccessCheckRequest, AccessDecisionReason, ApiErrorBody } from "./types";
+
+type MaybePromise<T> = T | Promise<T>;
+
+/** Optional check inputs derived from the request, e.g. a resource scope from a route parameter. */
+export type GuardCheckInput = Partial<Pick<AccessCheckRequest, "role" | "resource_type" | "resource_id">> & {
+    context?: AccessCheckContext;
+};
+
+export type GuardOptions<Source> = {
+    /** The signed-in user's id as used in role assignments, or null/undefined when nobody is signed in. */
+    resolveUserId: (source: Source) => MaybePromise<string | null | undefined>;
+    /** Called when the access check itself fails, e.g. to log it; the request is still rejected. */
+    onError?: (error: unknown) => void;
+};
+
+/**
+ * Body of every rejection: the API's `{ ok: false, error }` shape plus the permission and why it
+ * was refused. `unauthenticated` answers 401, `check_failed` 503 and every decision reason 403.
+ */
+export type GuardRejection = ApiErrorBody & {
+    permission: string;
+    reason: AccessDecisionReason | "unauthenticated" | "check_failed";
+};
+
+type GuardResult = { ok: true } | { ok: false; status: 401 | 403 | 503; body: GuardRejection };
+
+async function authorize<Source>(
+    client: AccessClient,
+    permission: string,
+    options: GuardOptions<Source>,
+    source: Source,
+    resolveCheck?: (source: Source) => MaybePromise<GuardCheckInput | null | undefined>
+): Promise<GuardResult> {
+    try {
+        const userId = (await options.resolveUserId(source))?.trim();
+        if (!userId) {
+            return {
+                ok: false,
+                status: 401,
+                body: { ok: false, error: "Authentication required.", permission, reason: "unauthenticated" },
+            };
+        }
+
+        const decision = await client.check({
+            ...(resolveCheck ? await resolveCheck(source) : null),
+            user_id: userId,
+            resource: permission,
+        });
+        if (decision.allowed) return { ok: true };
+
+        return {
+            ok: false,
+            status: 403,
+            body: { ok: false, error: `Missing permission: ${permission}.`, permission, reason: decision.reason },
+        };
+    } catch (error) {
+        // Fail closed: a request is never let through because the check could not be made.
+        options.onError?.(error);
+        return {
+            ok: false,
+            status: 503,
+            body: { ok: false, error: "Access check failed.", permission, reason: "check_failed" },
+        };
+    }
+}
+
+/** The parts of an Express `Response` or a Fastify `FastifyReply` the middleware uses. */
+type ReplyLike = { status(code: number): { send(body: unknown): unknown } };
+
+/**
+ * Guards for Express, Fastify (`preHandler`) and other `(req, res, next)` frameworks:
+ *
+ * ```ts
+ * const requirePermission = createRequirePermission(access, { resolveUserId: (req) => req.user?.id });
+ * app.post("/invoices/:id/approve", requirePermission("invoice.approve"), approveInvoice);
+ * ```
+ */
+export function createRequirePermission<Req>(client: AccessClient, options: GuardOptions<Req>) {
+    return function requirePermission(
+        permission: string,
+        resolveCheck?: (req: Req) => MaybePromise<GuardCheckInput | null | undefined>
+    ) {
+        return (req: Req, res: ReplyLike, next: (error?: unknown) => void) => {
+            authorize(client, permission, options, req, resolveCheck)
+                .then((result) => {
+                    if (result.ok) next();
+                    else res.status(result.status).send(result.body);
+                })
+                .catch(next);
+        };
+    };
+}
+
+/**
+ * Wrapper for Next.js Route Handlers; rejected requests get a JSON response and never reach `handler`:
+ *
+ * ```ts
+ * const withPermission = createWithPermission(access, { resolveUserId: async () => (await getSession())?.userId });
+ * export const POST = withPermission("invoice.approve", async (request, context) => Response.json({ ok: true }));
+ * ```
+ */
+export function createWithPermission(client: AccessClient, options: GuardOptions<Request>) {
+    return function withPermission<Context>(
+        permission: string,
+        handler: (request: Request, context: Context) => MaybePromise<Response>,
+        resolveCheck?: (request: Request) => MaybePromise<GuardCheckInput | null | undefined>
+    ) {
+        return async (request: Request, context: Context): Promise<Response> => {
+            const result = await authorize(client, permission, options, request, resolveCheck);
+            if (!result.ok) return Response.json(result.body, { status: result.status });
+            return handler(request, context);
+        };
+    };
+}
+
+/**
+ * Wrapper for Next.js Server Actions. Rejected calls resolve to the `GuardRejection` body instead of
+ * throwing, so the client can show `error` like any other failed action result:
+ *
+ * ```ts
+ * const withActionPermission = createWithActionPermission(access, { resolveUserId: async () => (await getSession())?.userId });
+ * export const approveInvoice = withActionPermission("invoice.approve", async (invoiceId: string) => { ... });
+ * ```
+ */
+export function createWithActionPermission(client: AccessClient, options: GuardOptions<void>) {
+    return function withActionPermission<Args extends unknown[], Result>(
+        permission: string,
+        action: (...args: Args) => Promise<Result>,
+        resolveCheck?: (...args: Args) => MaybePromise<GuardCheckInput | null | undefined>
+    ) {
+        return async (...args: Args): Promise<Result | GuardRejection> => {
+            const result = await authorize(
+                client,
+                permission,
+                options,
+                undefined,
+                resolveCheck ? () => resolveCheck(...args) : undefined
+            );
+            if (!result.ok) return result.body;
+            return action(...args);
+        };
+    };
+}
@@ -0,0 +1,28 @@
+export {
+    AccessClient,
+    type AccessClientOptions,
+    type LocalEvaluationOptions,
+    type RequestOptions,
+} from "./client";
+export {
+    AccessApiError,
+    AccessError,
+    AuthenticationError,
+    ConflictError,
+    ForbiddenError,
+    NetworkError,
+    NotFoundError,
+    RateLimitError,
+    ServerError,
+    TimeoutError,
+    ValidationError,
+} from "./errors";
+export {
+    createRequirePermission,
+    createWithActionPermission,
+    createWithPermission,
+    type GuardCheckInput,
+    type GuardOptions,
+    type GuardRejection,
+} from "./guards";
+export type * from "./types";
@@ -0,0 +1,188 @@
+import { evaluateCondition, parseCondition, type ConditionContext, type ConditionNode } from "./conditions";
+import type { AccessDecision, PolicySnapshot } from "./types";
+
+/**
+ * The access decision rules, shared by the server and by the SDK's local evaluation so both reach
+ * the same decision from the same grants.
+ */
+
+export type AssignmentWindow = {
+    starts_at: string | null;
+    expires_at: string | null;
+};
+
+/** A resource instance an assignment or access check is scoped to, e.g. `document` / `42`. */
+export type ResourceScope = {
+    type: string;
+    id: string;
+};
+
+const RESOURCE_TYPE_REGEX = /^[a-z0-9_.-]+$/;
+const MAX_RESOURCE_TYPE_LENGTH = 64;
+const MAX_RESOURCE_ID_LENGTH = 200;
+
+/**
+ * Both parts of a resource scope must be given together. Types are lowercase identifiers such as
+ * `document`; ids are free-form strings from the caller's application.
+ */
+export function parseResourceScope(
+    type: unknown,
+    id: unknown
+): { ok: true; scope: ResourceScope | null } | { ok: false; error: string } {
+    const normalizedType = typeof type === "string" ? type.trim().toLowerCase() : "";
+    const normalizedId = typeof id === "string" ? id.trim() : "";
+
+    if (!normalizedType && !normalizedId) return { ok: true, scope: null };
+    if (!normalizedType || !normalizedId) {
+        return { ok: false, error: "resource_type and resource_id must be provided together." };
+    }
+    if (normalizedType.length > MAX_RESOURCE_TYPE_LENGTH || !RESOURCE_TYPE_REGEX.test(normalizedType)) {
+        return {
+            ok: false,
+            error: "resource_type can only contain lowercase letters, numbers, dots, dashes and underscores.",
+        };
+    }
+    if (normalizedId.length > MAX_RESOURCE_ID_LENGTH) return { ok: false, error: "resource_id is too long." };
+
+    return { ok: true, scope: { type: normalizedType, id: normalizedId } };
+}
+
+export type EvaluationGrants = {
+    roles: Array<{ id: string; slug: string }>;
+    /** Permissions each assigned role grants unconditionally, including inherited ones. */
+    permissionIdsByRoleId: Map<string, Set<string>>;
+    /** Permissions each assigned role grants only while one of the listed conditions holds. */
+    conditionsByRoleId: Map<string, Map<string, Array<{ ast: ConditionNode }>>>;
+    /** Permissions each assigned role denies, including denies inherited from parent roles. */
+    deniedPermissionIdsByRoleId: Map<string, Set<string>>;
+    /** Permissions denied for this user id directly. */
+    userDeniedPermissionIds: Set<string>;
+};
+
+export function isAssignmentActive(assignment: AssignmentWindow, now = Date.now()) {
+    if (assignment.starts_at && Date.parse(assignment.starts_at) > now) return false;
+    if (assignment.expires_at && Date.parse(assignment.expires_at) <= now) return false;
+    return true;
+}
+
+/**
+ * Project-wide assignments apply to every check; resource-scoped ones only to checks on the same
+ * resource instance.
+ */
+export function assignmentAppliesTo(
+    assignment: { resource_type: string | null; resource_id: string | null },
+    scope: ResourceScope | null
+) {
+    if (!assignment.resource_type) return true;
+    return Boolean(scope && assignment.resource_type === scope.type && assignment.resource_id === scope.id);
+}
+
+/**
+ * Pure decision step: permission lookup and role loading happen beforehand so that
+ * batch callers can evaluate many permissions against a single set of grants.
+ *
+ * Denies win over allows. A role deny applies even when `roleSlug` narrows the check to another
+ * assigned role, so a deny cannot be bypassed by asking about a different role. Conditional grants
+ * are evaluated against `context` only when no role grants the permission outright.
+ */
+export function evaluateAccess(
+    grants: EvaluationGrants,
+    permission: { id: string; enabled: boolean } | null,
+    roleSlug?: string | null,
+    context?: ConditionContext | null
+): AccessDecision {
+    if (!permission) return { allowed: false, reason: "permission_not_found" };
+    if (!permission.enabled) return { allowed: false, reason: "permission_disabled" };
+    if (grants.userDeniedPermissionIds.has(permission.id)) return { allowed: false, reason: "denied_for_user" };
+    if (grants.roles.length === 0) return { allowed: false, reason: "no_roles_assigned" };
+
+    const candidateRoles = roleSlug
+        ? grants.roles.filter((role) => role.slug === roleSlug)
+        : grants.roles;
+    if (candidateRoles.length === 0) return { allowed: false, reason: "role_not_assigned" };
+
+    const denied = grants.roles.some((role) =>
+        grants.deniedPermissionIdsByRoleId.get(role.id)?.has(permission.id)
+    );
+    if (denied) return { allowed: false, reason: "denied_by_role" };
+
+    const granted = candidateRoles.some((role) =>
+        grants.permissionIdsByRoleId.get(role.id)?.has(permission.id)
+    );
+
+    if (granted) return { allowed: true, reason: "granted" };
+
+    const conditions = candidateRoles.flatMap(
+        (role) => grants.conditionsByRoleId.get(role.id)?.get(permission.id) ?? []
+    );
+    if (conditions.length === 0) return { allowed: false, reason: "not_granted" };
+
+    return conditions.some((entry) => evaluateCondition(entry.ast, context ?? {}))
+        ? { allowed: true, reason: "granted" }
+        : { allowed: false, reason: "condition_not_met" };
+}
+
+/**
+ * Build the grants of one user from a policy snapshot, keyed by role and permission slug. Only
+ * assignments active at `now` and applying to `scope` count, as on the server.
+ */
+export function getSnapshotGrants(
+    snapshot: PolicySnapshot,
+    userId: string,
+    scope: ResourceScope | null,
+    now = Date.now()
+): EvaluationGrants {
+    const roleBySlug = new Map(snapshot.roles.map((role) => [role.slug, role]));
+    const roles = Array.from(
+        new Set(
+            snapshot.assignments
+                .filter(
+                    (assignment) =>
+                        assignment.user_id === userId &&
+                        assignmentAppliesTo(assignment, scope) &&
+                        isAssignmentActive(assignment, now)
+                )
+                .map((assignment) => assignment.role_slug)
+        )
+    ).filter((slug) => roleBySlug.has(slug));
+
+    const grants: EvaluationGrants = {
+        roles: roles.map((slug) => ({ id: slug, slug })),
+        permissionIdsByRoleId: new Map(),
+        conditionsByRoleId: new Map(),
+        deniedPermissionIdsByRoleId: new Map(),
+        userDeniedPermissionIds: new Set(
+            snapshot.user_denies.filter((deny) => deny.user_id === userId).map((deny) => deny.permission_slug)
+        ),
+    };
+
+    for (const slug of roles) {
+        const permissionSlugs = new Set<string>();
+        const deniedSlugs = new Set<string>();
+        const conditions = new Map<string, Array<{ ast: ConditionNode }>>();
+        for (const sourceSlug of [slug, ...roleBySlug.get(slug)!.ancestor_slugs]) {
+            const source = roleBySlug.get(sourceSlug);
+            if (!source) continue;
+            for (const permissionSlug of source.permission_slugs) {
+                const condition = Object.prototype.hasOwnProperty.call(source.permission_conditions, permissionSlug)
+                    ? source.permission_conditions[permissionSlug]
+                    : null;
+                if (!condition) {
+                    permissionSlugs.add(permissionSlug);
+                    continue;
+                }
+                // A condition that does not parse never matches, so the grant fails closed.
+                const parsed = parseCondition(condition);
+                const current = conditions.get(permissionSlug) ?? [];
+                current.push({ ast: parsed.ok ? parsed.ast : { type: "literal", value: false } });
+                conditions.set(permissionSlug, current);
+            }
+            for (const permissionSlug of source.denied_permission_slugs) deniedSlugs.add(permissionSlug);
+        }
+        grants.permissionIdsByRoleId.set(slug, permissionSlugs);
+        grants.conditionsByRoleId.set(slug, conditions);
+        grants.deniedPermissionIdsByRoleId.set(slug, deniedSlugs);
+    }
+
+    return grants;
+}
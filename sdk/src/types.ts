@@ -0,0 +1,199 @@
+/**
+ * Request and response bodies of the public `/v1` API. The route handlers and the server library
+ * use these types directly, so a change to the API shape fails to compile until the SDK matches it.
+ * This file must not import anything so the SDK can be published on its own.
+ */
+
+/** Returned with a 4xx/5xx status by every endpoint. */
+export type ApiErrorBody = {
+    ok: false;
+    error: string;
+};
+
+export type AccessDecisionReason =
+    | "granted"
+    | "permission_not_found"
+    | "permission_disabled"
+    | "no_roles_assigned"
+    | "role_not_assigned"
+    | "denied_for_user"
+    | "denied_by_role"
+    | "condition_not_met"
+    | "not_granted";
+
+export type AccessDecision = {
+    allowed: boolean;
+    reason: AccessDecisionReason;
+};
+
+/** Values referenced by permission conditions, e.g. `{ "amount": 500 }`. */
+export type AccessCheckContext = Record<string, unknown>;
+
+type AccessCheckSubject = {
+    user_id: string;
+    /** Limits the check to this assigned role. */
+    role?: string;
+    context?: AccessCheckContext;
+    /** Send together with `resource_id` to also count roles assigned on that resource. */
+    resource_type?: string;
+    resource_id?: string;
+};
+
+/** `POST /v1/projects/{slug}/access/check` */
+export type AccessCheckRequest = AccessCheckSubject & {
+    /** Permission slug. */
+    resource: string;
+    explain?: boolean;
+};
+
+export type InactiveAssignmentReason = "not_started" | "expired" | "other_resource";
+
+export type AccessExplanation = AccessDecision & {
+    user_id: string;
+    permission: { slug: string; found: boolean; enabled: boolean | null };
+    role_filter: string | null;
+    denied_for_user: boolean;
+    roles: Array<{
+        slug: string;
+        /** False when `role_filter` narrows the check to another role; role denies still apply. */
+        considered: boolean;
+        inherits_from: string[];
+        grant: { via: string } | null;
+        deny: { via: string } | null;
+        conditions: Array<{ via: string; condition: string; passed: boolean; missing_keys: string[] }>;
+    }>;
+    inactive_assignments: Array<{
+        role: string;
+        reason: InactiveAssignmentReason;
+        resource_type: string | null;
+        resource_id: string | null;
+    }>;
+};
+
+/** Response of `access/check` when the request sets `explain: true`. */
+export type AccessCheckExplainResponse = AccessDecision & {
+    explanation: Omit<AccessExplanation, keyof AccessDecision>;
+};
+
+/** `POST /v1/projects/{slug}/access/check-batch` */
+export type AccessCheckBatchRequest = AccessCheckSubject & {
+    /** Up to 100 permission slugs. */
+    resources: string[];
+};
+
+export type AccessCheckBatchResponse = {
+    decisions: Record<string, AccessDecision>;
+};
+
+export type SyncedUserRole = {
+    slug: string;
+    name: string;
+    assigned_at: string;
+    expires_at: string | null;
+};
+
+/** `GET /v1/projects/{slug}/users/{userId}/roles`: the user's active project-wide roles. */
+export type UserRolesResponse = {
+    user_id: string;
+    roles: SyncedUserRole[];
+};
+
+/** Returned by the `PUT` and `DELETE` role endpoints: the roles after the change and what changed. */
+export type UserRoleSyncResponse = UserRolesResponse & {
+    granted: string[];
+    revoked: string[];
+};
+
+/** `PUT /v1/projects/{slug}/users/{userId}/roles` */
+export type ReplaceUserRolesRequest = {
+    roles: string[];
+};
+
+export type AccessRequestStatus = "pending" | "approved" | "denied";
+
+/**
+ * A request for temporary access, filed for an external user id. Exactly one of `role_id` and
+ * `permission_id` is set; permission requests are granted through a role chosen by the approver.
+ */
+export type AccessRequest = {
+    id: string;
+    project_id: string;
+    user_id: string;
+    role_id: string | null;
+    permission_id: string | null;
+    justification: string;
+    duration_minutes: number;
+    status: AccessRequestStatus;
+    api_key_id: string | null;
+    decided_by: string | null;
+    decided_at: string | null;
+    decision_note: string | null;
+    assignment_id: string | null;
+    created_at: string;
+};
+
+/** `POST /v1/projects/{slug}/access-requests`; set exactly one of `role` and `permission`. */
+export type FileAccessRequestRequest = {
+    user_id: string;
+    role?: string;
+    permission?: string;
+    justification: string;
+    /** Between 15 and 1440 minutes; defaults to 60. */
+    duration_minutes?: number;
+};
+
+/**
+ * `GET /v1/projects/{slug}/policy`: everything needed to evaluate access checks locally. Send the
+ * previous `version` as `If-None-Match` to get `304 Not Modified` while nothing changed.
+ */
+export type PolicySnapshot = {
+    /** Content hash, also sent as the `ETag` header. */
+    version: string;
+    generated_at: string;
+    /** Set when the snapshot was requested for a single user; `assignments` and `user_denies` only cover that user. */
+    user_id: string | null;
+    /** Permission slugs the API key may evaluate, or null when it may evaluate all of them. */
+    permission_allow_list: string[] | null;
+    permissions: Array<{ slug: string; enabled: boolean }>;
+    roles: Array<{
+        slug: string;
+        /** Every role this role inherits from, transitively, nearest first. */
+        ancestor_slugs: string[];
+        /** Granted permissions, including those granted only under a condition. */
+        permission_slugs: string[];
+        /** Condition expressions keyed by permission slug. */
+        permission_conditions: Record<string, string>;
+        denied_permission_slugs: string[];
+    }>;
+    assignments: Array<{
+        user_id: string;
+        role_slug: string;
+        resource_type: string | null;
+        resource_id: string | null;
+        starts_at: string | null;
+        expires_at: string | null;
+    }>;
+    user_denies: Array<{ user_id: string; permission_slug: string }>;
+};
+
+/**
+ * Body of every outbound webhook request. `type` is `<entity_type>.<action>` of the audited change,
+ * e.g. `role.updated` or `user_role.granted`, or `webhook.test` for test events. Requests carry
+ * `X-Webhook-Signature: v1=<hex>`, the HMAC-SHA256 of `<X-Webhook-Timestamp>.<raw body>` keyed
+ * with the endpoint secret.
+ */
+export type WebhookEvent = {
+    /** Same for every retry of the event; use it to drop duplicates. */
+    id: string;
+    type: string;
+    project_id: string;
+    created_at: string;
+    data: {
+        entity_type: string;
+        entity_id: string | null;
+        action: string;
+        /** Dashboard user who made the change; null for changes made with an API key or by expiry. */
+        actor_user_id: string | null;
+        metadata: Record<string, unknown> | null;
+    };
+};
@@ -0,0 +1,38 @@
+-- Just-in-time access requests. A request asks for one role, or for one permission that the approver
+-- then grants through a role, for a limited time. Approving creates a time-bound `user_roles` row.
+
+create table if not exists access_requests (
+    id uuid primary key default gen_random_uuid(),
+    project_id uuid not null references projects(id) on delete cascade,
+    user_id text not null,
+    role_id uuid references roles(id) on delete cascade,
+    permission_id uuid references permissions(id) on delete cascade,
+    justification text not null check (char_length(justification) <= 1000),
+    duration_minutes integer not null check (duration_minutes between 15 and 1440),
+    status text not null default 'pending' check (status in ('pending', 'approved', 'denied')),
+    api_key_id uuid references api_keys(id) on delete set null,
+    decided_by uuid references auth.users(id) on delete set null,
+    decided_at timestamptz,
+    decision_note text check (char_length(decision_note) <= 500),
+    assignment_id uuid references user_roles(id) on delete set null,
+    created_at timestamptz not null default now(),
+    check ((role_id is null) <> (permission_id is null))
+);
+
+create index if not exists access_requests_project_status_idx
+    on access_requests (project_id, status, created_at desc);
+
+-- At most one open request per user and target.
+create unique index if not exists access_requests_pending_unique_idx
+    on access_requests (project_id, user_id, coalesce(role_id, permission_id))
+    where status = 'pending';
+
+alter table access_requests enable row level security;
+
+drop policy if exists "members can read" on access_requests;
+create policy "members can read" on access_requests
+    for select using (project_member_has_role(project_id, 'viewer'));
+
+drop policy if exists "editors can write" on access_requests;
+create policy "editors can write" on access_requests
+    for all using (project_member_has_role(project_id, 'editor'));
@@ -0,0 +1,13 @@
+-- API key expiration. Keys past `expires_at` are moved to status 'expired' on use or on dashboard load.
+-- Existing keys keep `expires_at = null` and never expire; new keys are limited to 90 days by the app.
+
+alter table api_keys
+    add column if not exists expires_at timestamptz;
+
+alter table api_keys drop constraint if exists api_keys_status_check;
+alter table api_keys
+    add constraint api_keys_status_check check (status in ('active', 'revoked', 'expired'));
+
+create index if not exists api_keys_project_expires_at_idx
+    on api_keys (project_id, expires_at)
+    where status = 'active';
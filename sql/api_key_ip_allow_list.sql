@@ -0,0 +1,4 @@
+-- Per-key IP allow-list. Null or empty accepts requests from any address.
+
+alter table api_keys
+    add column if not exists allowed_cidrs text[];
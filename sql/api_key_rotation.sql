@@ -0,0 +1,10 @@
+-- Zero-downtime rotation. A replaced key moves to status 'rotating', points at its successor and
+-- stays valid until `rotation_ends_at`, after which it is revoked on use or on dashboard load.
+
+alter table api_keys
+    add column if not exists replaced_by uuid references api_keys(id) on delete set null,
+    add column if not exists rotation_ends_at timestamptz;
+
+alter table api_keys drop constraint if exists api_keys_status_check;
+alter table api_keys
+    add constraint api_keys_status_check check (status in ('active', 'rotating', 'revoked', 'expired'));
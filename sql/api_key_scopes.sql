@@ -0,0 +1,6 @@
+-- Scoped API keys: restrict a key to specific operations and, optionally, to a subset of permissions.
+-- A null `scopes` value grants every scope so keys created before this migration keep working.
+
+alter table api_keys
+    add column if not exists scopes text[],
+    add column if not exists allowed_permission_slugs text[];
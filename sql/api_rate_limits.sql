@@ -0,0 +1,8 @@
+-- Requests-per-minute limits. Null on a project means the built-in default (1200/min);
+-- null on a key means only the project limit applies.
+
+alter table projects
+    add column if not exists api_rate_limit_per_minute integer check (api_rate_limit_per_minute > 0);
+
+alter table api_keys
+    add column if not exists rate_limit_per_minute integer check (rate_limit_per_minute > 0);
@@ -0,0 +1,61 @@
+-- Explicit deny rules. A deny takes precedence over every allow: a permission denied by any of a
+-- user's roles (including inherited roles) or denied for the user directly is never granted.
+
+create table if not exists role_permission_denies (
+    role_id uuid not null references roles(id) on delete cascade,
+    permission_id uuid not null references permissions(id) on delete cascade,
+    created_at timestamptz not null default now(),
+    primary key (role_id, permission_id)
+);
+
+create index if not exists role_permission_denies_permission_idx on role_permission_denies (permission_id);
+
+create table if not exists user_permission_denies (
+    id uuid primary key default gen_random_uuid(),
+    project_id uuid not null references projects(id) on delete cascade,
+    user_id text not null,
+    permission_id uuid not null references permissions(id) on delete cascade,
+    reason text,
+    created_by uuid references auth.users(id) on delete set null,
+    created_at timestamptz not null default now(),
+    unique (project_id, user_id, permission_id)
+);
+
+create index if not exists user_permission_denies_user_idx on user_permission_denies (project_id, user_id);
+
+alter table role_permission_denies enable row level security;
+alter table user_permission_denies enable row level security;
+
+drop policy if exists "members can read" on role_permission_denies;
+create policy "members can read" on role_permission_denies
+    for select using (
+        exists (select 1 from roles r where r.id = role_id and project_member_has_role(r.project_id, 'viewer'))
+    );
+
+drop policy if exists "editors can write" on role_permission_denies;
+create policy "editors can write" on role_permission_denies
+    for all using (
+        exists (select 1 from roles r where r.id = role_id and project_member_has_role(r.project_id, 'editor'))
+    );
+
+drop policy if exists "members can read" on user_permission_denies;
+create policy "members can read" on user_permission_denies
+    for select using (project_member_has_role(project_id, 'viewer'));
+
+drop policy if exists "editors can write" on user_permission_denies;
+create policy "editors can write" on user_permission_denies
+    for all using (project_member_has_role(project_id, 'editor'));
+
+-- Swap a role's deny rules in one transaction. Deleting and inserting in separate requests could
+-- leave the role with no denies if the insert failed, which fails open. Runs with the caller's
+-- rights, so the policies above still apply.
+create or replace function replace_role_permission_denies(p_role_id uuid, p_permission_ids uuid[])
+returns void
+language sql
+as $$
+    delete from role_permission_denies where role_id = p_role_id;
+
+    insert into role_permission_denies (role_id, permission_id)
+    select distinct p_role_id, permission_id
+    from unnest(p_permission_ids) as permission_id;
+$$;
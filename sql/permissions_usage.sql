@@ -1,7 +1,173 @@
-update permissions
-set
-    usage_count = usage_count + 1,
-    last_used_at = now(),
-    updated_at = now()
-where project_id = $1
-  and name = $2;
+-- Hourly usage buckets per permission, API key and decision outcome.
+create table if not exists permission_usage_buckets (
+    project_id uuid not null references projects(id) on delete cascade,
+    permission_id uuid not null references permissions(id) on delete cascade,
+    api_key_id uuid not null,
+    outcome text not null check (outcome in ('allowed', 'denied')),
+    bucket_start timestamptz not null,
+    count bigint not null default 0,
+    primary key (project_id, permission_id, api_key_id, outcome, bucket_start)
+);
+
+create index if not exists permission_usage_buckets_project_bucket_idx
+    on permission_usage_buckets (project_id, bucket_start desc);
+
+-- Hourly denied decision counts per external user id, used for "top denied users".
+create table if not exists access_denial_buckets (
+    project_id uuid not null references projects(id) on delete cascade,
+    user_id text not null,
+    permission_id uuid not null references permissions(id) on delete cascade,
+    bucket_start timestamptz not null,
+    count bigint not null default 0,
+    primary key (project_id, user_id, permission_id, bucket_start)
+);
+
+create index if not exists access_denial_buckets_project_bucket_idx
+    on access_denial_buckets (project_id, bucket_start desc);
+
+alter table permission_usage_buckets enable row level security;
+alter table access_denial_buckets enable row level security;
+
+-- Buckets are only written by `record_permission_usage` with the service role, so there are no
+-- write policies.
+drop policy if exists "members can read" on permission_usage_buckets;
+create policy "members can read" on permission_usage_buckets
+    for select using (project_member_has_role(project_id, 'viewer'));
+
+drop policy if exists "members can read" on access_denial_buckets;
+create policy "members can read" on access_denial_buckets
+    for select using (project_member_has_role(project_id, 'viewer'));
+
+drop function if exists record_permission_usage(uuid, uuid, jsonb);
+
+-- Records a batch of access decisions and keeps permissions.usage_count / last_used_at in sync.
+-- p_entries: [{ "permission_id": uuid, "outcome": "allowed" | "denied", "count": integer }]
+create or replace function record_permission_usage(
+    p_project_id uuid,
+    p_api_key_id uuid,
+    p_user_id text,
+    p_entries jsonb
+)
+returns void
+language sql
+as $$
+    insert into permission_usage_buckets (project_id, permission_id, api_key_id, outcome, bucket_start, count)
+    select
+        p_project_id,
+        (entry->>'permission_id')::uuid,
+        p_api_key_id,
+        entry->>'outcome',
+        date_trunc('hour', now()),
+        sum((entry->>'count')::bigint)
+    from jsonb_array_elements(p_entries) as entry
+    group by 2, 4
+    on conflict (project_id, permission_id, api_key_id, outcome, bucket_start)
+    do update set count = permission_usage_buckets.count + excluded.count;
+
+    insert into access_denial_buckets (project_id, user_id, permission_id, bucket_start, count)
+    select
+        p_project_id,
+        p_user_id,
+        (entry->>'permission_id')::uuid,
+        date_trunc('hour', now()),
+        sum((entry->>'count')::bigint)
+    from jsonb_array_elements(p_entries) as entry
+    where p_user_id is not null
+      and entry->>'outcome' = 'denied'
+    group by 3
+    on conflict (project_id, user_id, permission_id, bucket_start)
+    do update set count = access_denial_buckets.count + excluded.count;
+
+    update permissions
+    set
+        usage_count = coalesce(permissions.usage_count, 0) + totals.total,
+        last_used_at = now(),
+        updated_at = now()
+    from (
+        select (entry->>'permission_id')::uuid as permission_id, sum((entry->>'count')::bigint) as total
+        from jsonb_array_elements(p_entries) as entry
+        group by 1
+    ) as totals
+    where permissions.id = totals.permission_id
+      and permissions.project_id = p_project_id;
+$$;
+
+revoke execute on function record_permission_usage(uuid, uuid, text, jsonb) from public, anon, authenticated;
+
+-- Usage analytics are aggregated here rather than in the app: PostgREST caps every response at
+-- 1000 rows, so summing raw hourly buckets client-side silently dropped data on busy projects.
+-- All of these run with the caller's rights, so row level security limits them to members.
+
+-- Allowed and denied totals per hour or day (p_granularity is 'hour' or 'day', truncated in UTC).
+create or replace function get_usage_series(
+    p_project_id uuid,
+    p_since timestamptz,
+    p_granularity text,
+    p_permission_id uuid default null
+)
+returns table (bucket_start timestamptz, allowed bigint, denied bigint)
+language sql
+stable
+as $$
+    select
+        date_trunc(p_granularity, b.bucket_start, 'UTC'),
+        coalesce(sum(b.count) filter (where b.outcome = 'allowed'), 0)::bigint,
+        coalesce(sum(b.count) filter (where b.outcome = 'denied'), 0)::bigint
+    from permission_usage_buckets b
+    where b.project_id = p_project_id
+      and b.bucket_start >= p_since
+      and (p_permission_id is null or b.permission_id = p_permission_id)
+    group by 1
+    order by 1;
+$$;
+
+create or replace function get_usage_top_permissions(p_project_id uuid, p_since timestamptz, p_limit integer)
+returns table (permission_id uuid, checks bigint, denied bigint)
+language sql
+stable
+as $$
+    select
+        b.permission_id,
+        sum(b.count)::bigint,
+        coalesce(sum(b.count) filter (where b.outcome = 'denied'), 0)::bigint
+    from permission_usage_buckets b
+    where b.project_id = p_project_id
+      and b.bucket_start >= p_since
+    group by b.permission_id
+    order by 2 desc, 1
+    limit p_limit;
+$$;
+
+create or replace function get_usage_top_api_keys(p_project_id uuid, p_since timestamptz, p_limit integer)
+returns table (api_key_id uuid, checks bigint, denied bigint)
+language sql
+stable
+as $$
+    select
+        b.api_key_id,
+        sum(b.count)::bigint,
+        coalesce(sum(b.count) filter (where b.outcome = 'denied'), 0)::bigint
+    from permission_usage_buckets b
+    where b.project_id = p_project_id
+      and b.bucket_start >= p_since
+    group by b.api_key_id
+    order by 2 desc, 1
+    limit p_limit;
+$$;
+
+create or replace function get_usage_top_denied_users(p_project_id uuid, p_since timestamptz, p_limit integer)
+returns table (user_id text, denied bigint, permission_count bigint)
+language sql
+stable
+as $$
+    select
+        d.user_id,
+        sum(d.count)::bigint,
+        count(distinct d.permission_id)::bigint
+    from access_denial_buckets d
+    where d.project_id = p_project_id
+      and d.bucket_start >= p_since
+    group by d.user_id
+    order by 2 desc, 1
+    limit p_limit;
+$$;
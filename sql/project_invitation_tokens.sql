@@ -0,0 +1,73 @@
+-- Emailed invitation links. Only a hash of the newest link is stored; resending replaces it.
+
+alter table project_invitations add column if not exists token_hash text;
+alter table project_invitations add column if not exists expires_at timestamptz;
+
+create index if not exists project_invitations_token_hash_idx
+    on project_invitations (token_hash) where status = 'pending';
+
+-- Invitees can no longer answer an invitation once its link has expired, and an emailed link only
+-- works while its hash is the newest one. p_token_hash is null when answering from the dashboard;
+-- then the account's email address must be confirmed, because with email confirmation turned off
+-- anyone could sign up with the invitee's address. Holding the emailed link proves the address.
+drop function if exists respond_to_project_invitation(uuid, boolean);
+
+create or replace function respond_to_project_invitation(
+    p_invitation_id uuid,
+    p_accept boolean,
+    p_token_hash text default null
+)
+returns setof project_invitations
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    invitation project_invitations;
+begin
+    if auth.uid() is null then
+        return;
+    end if;
+
+    update project_invitations
+    set status = case when p_accept then 'accepted' else 'declined' end,
+        responded_at = now()
+    where id = p_invitation_id
+      and status = 'pending'
+      and lower(email) = lower(auth.jwt() ->> 'email')
+      and (expires_at is null or expires_at > now())
+      and (
+          (p_token_hash is not null and token_hash = p_token_hash)
+          or (
+              p_token_hash is null
+              and exists (
+                  select 1 from auth.users u where u.id = auth.uid() and u.email_confirmed_at is not null
+              )
+          )
+      )
+    returning * into invitation;
+
+    if not found then
+        return;
+    end if;
+
+    if p_accept then
+        insert into project_members (project_id, user_id, email, role, invited_by, created_at, updated_at)
+        values (
+            invitation.project_id,
+            auth.uid(),
+            lower(auth.jwt() ->> 'email'),
+            invitation.role,
+            invitation.invited_by,
+            now(),
+            now()
+        )
+        on conflict (project_id, user_id) do nothing;
+    end if;
+
+    return next invitation;
+end;
+$$;
+
+revoke execute on function respond_to_project_invitation(uuid, boolean, text) from public, anon;
+grant execute on function respond_to_project_invitation(uuid, boolean, text) to authenticated;
@@ -0,0 +1,351 @@
+-- Shared projects. Every project has members with a dashboard role; `projects.owner_id` mirrors
+-- the member holding the owner role.
+
+create table if not exists project_members (
+    id uuid primary key default gen_random_uuid(),
+    project_id uuid not null references projects(id) on delete cascade,
+    user_id uuid not null references auth.users(id) on delete cascade,
+    email text,
+    role text not null check (role in ('owner', 'admin', 'editor', 'viewer')),
+    invited_by uuid references auth.users(id) on delete set null,
+    created_at timestamptz not null default now(),
+    updated_at timestamptz,
+    unique (project_id, user_id)
+);
+
+create index if not exists project_members_user_idx on project_members (user_id);
+
+create table if not exists project_invitations (
+    id uuid primary key default gen_random_uuid(),
+    project_id uuid not null references projects(id) on delete cascade,
+    email text not null,
+    role text not null check (role in ('admin', 'editor', 'viewer')),
+    status text not null default 'pending' check (status in ('pending', 'accepted', 'declined', 'revoked')),
+    invited_by uuid references auth.users(id) on delete set null,
+    created_at timestamptz not null default now(),
+    responded_at timestamptz
+);
+
+create unique index if not exists project_invitations_pending_email_idx
+    on project_invitations (project_id, email) where status = 'pending';
+create index if not exists project_invitations_email_idx on project_invitations (email) where status = 'pending';
+
+-- Existing projects: the current owner becomes the first member.
+insert into project_members (project_id, user_id, email, role, created_at)
+select p.id, p.owner_id, u.email, 'owner', p.created_at
+from projects p
+left join auth.users u on u.id = p.owner_id
+on conflict (project_id, user_id) do nothing;
+
+-- Role lookup for row level security. security definer so policies on project_members itself
+-- do not recurse.
+create or replace function project_member_has_role(p_project_id uuid, p_minimum_role text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select exists (
+        select 1
+        from project_members m
+        where m.project_id = p_project_id
+          and m.user_id = auth.uid()
+          and array_position(array['viewer', 'editor', 'admin', 'owner'], m.role)
+              >= array_position(array['viewer', 'editor', 'admin', 'owner'], p_minimum_role)
+    );
+$$;
+
+-- Rank of a dashboard role (viewer 1 .. owner 4, 0 for none), and the caller's rank in a project.
+create or replace function project_role_rank(p_role text)
+returns integer
+language sql
+immutable
+as $$
+    select coalesce(array_position(array['viewer', 'editor', 'admin', 'owner'], p_role), 0);
+$$;
+
+create or replace function project_member_rank(p_project_id uuid)
+returns integer
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select coalesce(max(project_role_rank(m.role)), 0)
+    from project_members m
+    where m.project_id = p_project_id
+      and m.user_id = auth.uid();
+$$;
+
+-- Current owner of a project. Policies compare against it to keep `owner_id` unchanged: a stable
+-- function sees the row as it was before the statement.
+create or replace function project_owner_id(p_project_id uuid)
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select p.owner_id from projects p where p.id = p_project_id;
+$$;
+
+alter table project_members enable row level security;
+alter table project_invitations enable row level security;
+
+drop policy if exists "members can read project" on projects;
+create policy "members can read project" on projects
+    for select using (project_member_has_role(id, 'viewer'));
+
+-- Ownership only changes through transfer_project_ownership.
+drop policy if exists "admins can update project" on projects;
+create policy "admins can update project" on projects
+    for update using (project_member_has_role(id, 'admin'))
+    with check (project_member_has_role(id, 'admin') and owner_id = project_owner_id(id));
+
+drop policy if exists "members can read members" on project_members;
+create policy "members can read members" on project_members
+    for select using (project_member_has_role(project_id, 'viewer'));
+
+-- Admins and owners manage members ranked below them and assign roles below their own, the same
+-- rules as `canManageMember` and `canAssignRole` in members-actions.ts. Nobody becomes or stops
+-- being owner through these; see transfer_project_ownership.
+drop policy if exists "admins manage members" on project_members;
+
+drop policy if exists "admins add members" on project_members;
+create policy "admins add members" on project_members
+    for insert with check (
+        project_member_has_role(project_id, 'admin')
+        and role <> 'owner'
+        and project_role_rank(role) < project_member_rank(project_id)
+    );
+
+drop policy if exists "admins update members" on project_members;
+create policy "admins update members" on project_members
+    for update
+    using (
+        project_member_has_role(project_id, 'admin')
+        and role <> 'owner'
+        and project_role_rank(role) < project_member_rank(project_id)
+    )
+    with check (
+        project_member_has_role(project_id, 'admin')
+        and role <> 'owner'
+        and project_role_rank(role) < project_member_rank(project_id)
+    );
+
+drop policy if exists "admins remove members" on project_members;
+create policy "admins remove members" on project_members
+    for delete using (
+        project_member_has_role(project_id, 'admin')
+        and role <> 'owner'
+        and project_role_rank(role) < project_member_rank(project_id)
+    );
+
+drop policy if exists "members can leave" on project_members;
+create policy "members can leave" on project_members
+    for delete using (user_id = auth.uid() and role <> 'owner');
+
+-- Project creators add themselves as owner. Invitees join through respond_to_project_invitation
+-- only, so a user can never insert a membership with a role of their choosing.
+drop policy if exists "users join projects" on project_members;
+create policy "users join projects" on project_members
+    for insert with check (
+        user_id = auth.uid()
+        and role = 'owner'
+        and exists (select 1 from projects p where p.id = project_id and p.owner_id = auth.uid())
+    );
+
+drop policy if exists "admins manage invitations" on project_invitations;
+create policy "admins manage invitations" on project_invitations
+    for all using (project_member_has_role(project_id, 'admin'));
+
+drop policy if exists "invitees read invitations" on project_invitations;
+create policy "invitees read invitations" on project_invitations
+    for select using (lower(email) = lower(auth.jwt() ->> 'email'));
+
+-- Invitees cannot update invitations directly; they answer through the function below, which
+-- only touches `status` and `responded_at`.
+drop policy if exists "invitees answer invitations" on project_invitations;
+
+-- Accept or decline a pending invitation addressed to the signed-in user. Accepting adds the
+-- membership with the invited role in the same transaction and uses the invitation up, so it
+-- cannot be replayed after the member leaves or is removed. Returns no row when the invitation
+-- is not pending or not addressed to the caller.
+create or replace function respond_to_project_invitation(p_invitation_id uuid, p_accept boolean)
+returns setof project_invitations
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    invitation project_invitations;
+begin
+    if auth.uid() is null then
+        return;
+    end if;
+
+    update project_invitations
+    set status = case when p_accept then 'accepted' else 'declined' end,
+        responded_at = now()
+    where id = p_invitation_id
+      and status = 'pending'
+      and lower(email) = lower(auth.jwt() ->> 'email')
+    returning * into invitation;
+
+    if not found then
+        return;
+    end if;
+
+    if p_accept then
+        insert into project_members (project_id, user_id, email, role, invited_by, created_at, updated_at)
+        values (
+            invitation.project_id,
+            auth.uid(),
+            lower(auth.jwt() ->> 'email'),
+            invitation.role,
+            invitation.invited_by,
+            now(),
+            now()
+        )
+        on conflict (project_id, user_id) do nothing;
+    end if;
+
+    return next invitation;
+end;
+$$;
+
+revoke execute on function respond_to_project_invitation(uuid, boolean) from public, anon;
+grant execute on function respond_to_project_invitation(uuid, boolean) to authenticated;
+
+-- Hand the project to another member in one transaction: `projects.owner_id`, the new owner's
+-- membership and the previous owner's (who stays on as admin) change together or not at all.
+-- Only the current owner can call it.
+create or replace function transfer_project_ownership(p_project_id uuid, p_member_id uuid)
+returns setof project_members
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    previous_owner project_members;
+    next_owner project_members;
+begin
+    perform 1
+    from projects p
+    where p.id = p_project_id
+      and p.owner_id = auth.uid()
+      and p.deleted_at is null
+    for update;
+    if not found then
+        raise exception 'Only the project owner can transfer ownership.' using errcode = '42501';
+    end if;
+
+    select * into previous_owner
+    from project_members m
+    where m.project_id = p_project_id
+      and m.user_id = auth.uid()
+      and m.role = 'owner'
+    for update;
+    if not found then
+        raise exception 'Only the project owner can transfer ownership.' using errcode = '42501';
+    end if;
+
+    select * into next_owner
+    from project_members m
+    where m.project_id = p_project_id
+      and m.id = p_member_id
+    for update;
+    if not found or next_owner.user_id = auth.uid() then
+        raise exception 'Member not found.' using errcode = 'P0002';
+    end if;
+
+    update projects set owner_id = next_owner.user_id, updated_at = now() where id = p_project_id;
+
+    return query
+    update project_members
+    set role = case when id = next_owner.id then 'owner' else 'admin' end,
+        updated_at = now()
+    where id in (next_owner.id, previous_owner.id)
+    returning *;
+end;
+$$;
+
+revoke execute on function transfer_project_ownership(uuid, uuid) from public, anon;
+grant execute on function transfer_project_ownership(uuid, uuid) to authenticated;
+
+-- Removing a member also revokes any invitation still pending for their address, so an admin
+-- removing someone does not leave them a way back in.
+create or replace function project_members_revoke_invitations()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    if old.email is not null then
+        update project_invitations
+        set status = 'revoked', responded_at = now()
+        where project_id = old.project_id
+          and lower(email) = lower(old.email)
+          and status = 'pending';
+    end if;
+    return old;
+end;
+$$;
+
+drop trigger if exists project_members_revoke_invitations on project_members;
+create trigger project_members_revoke_invitations
+    after delete on project_members
+    for each row execute function project_members_revoke_invitations();
+
+-- Project-scoped tables: every member can read, editors and above can write.
+do $$
+declare
+    scoped_table text;
+begin
+    foreach scoped_table in array array['permissions', 'roles', 'api_keys'] loop
+        execute format('drop policy if exists "members can read" on %I', scoped_table);
+        execute format(
+            'create policy "members can read" on %I for select using (project_member_has_role(project_id, ''viewer''))',
+            scoped_table
+        );
+        execute format('drop policy if exists "editors can write" on %I', scoped_table);
+        execute format(
+            'create policy "editors can write" on %I for all using (project_member_has_role(project_id, ''editor''))',
+            scoped_table
+        );
+    end loop;
+end $$;
+
+drop policy if exists "members can read" on audit_logs;
+create policy "members can read" on audit_logs
+    for select using (project_member_has_role(project_id, 'viewer'));
+
+-- Audit events are written by the server with the service role only. Many have no signed-in user
+-- (API key requests, expiry sweeps), and members must not be able to forge entries.
+drop policy if exists "members can write" on audit_logs;
+
+drop policy if exists "members can read" on role_permissions;
+create policy "members can read" on role_permissions
+    for select using (
+        exists (select 1 from roles r where r.id = role_id and project_member_has_role(r.project_id, 'viewer'))
+    );
+
+drop policy if exists "editors can write" on role_permissions;
+create policy "editors can write" on role_permissions
+    for all using (
+        exists (select 1 from roles r where r.id = role_id and project_member_has_role(r.project_id, 'editor'))
+    );
+
+drop policy if exists "members can read" on user_roles;
+create policy "members can read" on user_roles
+    for select using (
+        exists (select 1 from roles r where r.id = role_id and project_member_has_role(r.project_id, 'viewer'))
+    );
+
+drop policy if exists "editors can write" on user_roles;
+create policy "editors can write" on user_roles
+    for all using (
+        exists (select 1 from roles r where r.id = role_id and project_member_has_role(r.project_id, 'editor'))
+    );
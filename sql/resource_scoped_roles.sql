@@ -0,0 +1,21 @@
+-- Resource-scoped role assignments. An assignment with `resource_type` and `resource_id` grants the
+-- role on that resource instance only; assignments without them stay project-wide.
+
+alter table user_roles
+    add column if not exists resource_type text,
+    add column if not exists resource_id text;
+
+alter table user_roles drop constraint if exists user_roles_resource_scope_check;
+alter table user_roles
+    add constraint user_roles_resource_scope_check
+    check ((resource_type is null) = (resource_id is null));
+
+-- A user can hold the same role project-wide and on any number of resources, but only once per scope.
+alter table user_roles drop constraint if exists user_roles_role_id_user_id_key;
+drop index if exists user_roles_role_id_user_id_key;
+create unique index if not exists user_roles_scope_unique_idx
+    on user_roles (role_id, user_id, coalesce(resource_type, ''), coalesce(resource_id, ''));
+
+create index if not exists user_roles_resource_idx
+    on user_roles (resource_type, resource_id)
+    where resource_type is not null;
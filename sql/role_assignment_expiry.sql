@@ -0,0 +1,16 @@
+-- Time-bound role assignments. An assignment only counts in access checks between `starts_at` and
+-- `expires_at`; lapsed assignments are deleted (and audited) on dashboard load or on their next check.
+-- Existing assignments keep both columns null and stay active indefinitely.
+
+alter table user_roles
+    add column if not exists starts_at timestamptz,
+    add column if not exists expires_at timestamptz;
+
+alter table user_roles drop constraint if exists user_roles_window_check;
+alter table user_roles
+    add constraint user_roles_window_check
+    check (starts_at is null or expires_at is null or expires_at > starts_at);
+
+create index if not exists user_roles_expires_at_idx
+    on user_roles (expires_at)
+    where expires_at is not null;
@@ -0,0 +1,73 @@
+-- Role inheritance. A role grants its own permissions plus every permission of the roles it
+-- extends, transitively.
+
+create table if not exists role_parents (
+    role_id uuid not null references roles(id) on delete cascade,
+    parent_role_id uuid not null references roles(id) on delete cascade,
+    created_at timestamptz not null default now(),
+    primary key (role_id, parent_role_id),
+    check (role_id <> parent_role_id)
+);
+
+create index if not exists role_parents_parent_idx on role_parents (parent_role_id);
+
+-- Parents must belong to the same project and must not make a role inherit from itself. The
+-- dashboard validates both first; this keeps direct database writes honest too.
+create or replace function role_parents_guard()
+returns trigger
+language plpgsql
+as $$
+begin
+    if (select project_id from roles where id = new.role_id)
+        is distinct from (select project_id from roles where id = new.parent_role_id) then
+        raise exception 'Parent role must belong to the same project';
+    end if;
+
+    if exists (
+        with recursive ancestors(id) as (
+            select new.parent_role_id
+            union
+            select rp.parent_role_id
+            from role_parents rp
+            join ancestors a on rp.role_id = a.id
+        )
+        select 1 from ancestors where id = new.role_id
+    ) then
+        raise exception 'Role inheritance cannot form a cycle';
+    end if;
+
+    return new;
+end;
+$$;
+
+drop trigger if exists role_parents_guard on role_parents;
+create trigger role_parents_guard
+    before insert or update on role_parents
+    for each row execute function role_parents_guard();
+
+alter table role_parents enable row level security;
+
+drop policy if exists "members can read" on role_parents;
+create policy "members can read" on role_parents
+    for select using (
+        exists (select 1 from roles r where r.id = role_id and project_member_has_role(r.project_id, 'viewer'))
+    );
+
+drop policy if exists "editors can write" on role_parents;
+create policy "editors can write" on role_parents
+    for all using (
+        exists (select 1 from roles r where r.id = role_id and project_member_has_role(r.project_id, 'editor'))
+    );
+
+-- Swap a role's parents in one transaction, so a rejected insert (for example a cycle caught by
+-- the trigger above) leaves the previous parents in place. Runs with the caller's rights.
+create or replace function replace_role_parents(p_role_id uuid, p_parent_role_ids uuid[])
+returns void
+language sql
+as $$
+    delete from role_parents where role_id = p_role_id;
+
+    insert into role_parents (role_id, parent_role_id)
+    select distinct p_role_id, parent_role_id
+    from unnest(p_parent_role_ids) as parent_role_id;
+$$;
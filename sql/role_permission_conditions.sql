@@ -0,0 +1,10 @@
+-- Attribute conditions on role permissions. A link with a condition grants the permission only when
+-- the expression (see lib/conditions.ts) holds for the `context` sent with the access check.
+-- Existing links keep `condition = null` and stay unconditional.
+
+alter table role_permissions
+    add column if not exists condition text;
+
+alter table role_permissions drop constraint if exists role_permissions_condition_length_check;
+alter table role_permissions
+    add constraint role_permissions_condition_length_check check (condition is null or char_length(condition) <= 500);
@@ -0,0 +1,61 @@
+-- Outbound webhooks. Every audit event of a project is delivered as a signed JSON POST to each of
+-- its enabled endpoints. Failed deliveries are retried with exponential backoff; every delivery
+-- keeps its last response code so the Settings tab can show a delivery log.
+
+create table if not exists webhook_endpoints (
+    id uuid primary key default gen_random_uuid(),
+    project_id uuid not null references projects(id) on delete cascade,
+    url text not null check (char_length(url) <= 2000),
+    description text check (char_length(description) <= 200),
+    secret_encrypted text not null,
+    enabled boolean not null default true,
+    created_by uuid references auth.users(id) on delete set null,
+    created_at timestamptz not null default now(),
+    updated_at timestamptz
+);
+
+create index if not exists webhook_endpoints_project_idx on webhook_endpoints (project_id, created_at);
+
+create table if not exists webhook_deliveries (
+    id uuid primary key default gen_random_uuid(),
+    project_id uuid not null references projects(id) on delete cascade,
+    endpoint_id uuid not null references webhook_endpoints(id) on delete cascade,
+    event_id uuid not null,
+    event_type text not null,
+    payload jsonb not null,
+    status text not null default 'pending' check (status in ('pending', 'succeeded', 'failed')),
+    attempt_count integer not null default 0,
+    next_attempt_at timestamptz,
+    last_attempt_at timestamptz,
+    last_response_status integer,
+    last_error text,
+    created_at timestamptz not null default now(),
+    delivered_at timestamptz,
+    unique (endpoint_id, event_id)
+);
+
+create index if not exists webhook_deliveries_endpoint_idx on webhook_deliveries (endpoint_id, created_at desc);
+
+-- The retry sweep only looks at pending deliveries that are due, across all projects.
+drop index if exists webhook_deliveries_due_idx;
+create index if not exists webhook_deliveries_pending_due_idx
+    on webhook_deliveries (next_attempt_at)
+    where status = 'pending';
+
+alter table webhook_endpoints enable row level security;
+alter table webhook_deliveries enable row level security;
+
+drop policy if exists "members can read" on webhook_endpoints;
+create policy "members can read" on webhook_endpoints
+    for select using (project_member_has_role(project_id, 'viewer'));
+
+drop policy if exists "admins can write" on webhook_endpoints;
+create policy "admins can write" on webhook_endpoints
+    for all using (project_member_has_role(project_id, 'admin'));
+
+drop policy if exists "members can read" on webhook_deliveries;
+create policy "members can read" on webhook_deliveries
+    for select using (project_member_has_role(project_id, 'viewer'));
+
+-- Deliveries are only written by the server with the service role, so there is no write policy.
+drop policy if exists "members can write" on webhook_deliveries;